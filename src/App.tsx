@@ -16,12 +16,15 @@ import { CampaignList } from '@/components/campaigns/CampaignList';
 import { CampaignForm } from '@/components/campaigns/CampaignForm';
 import { AdList } from '@/components/ads/AdList';
 import { AdForm } from '@/components/ads/AdForm';
+import { AdBulkImport } from '@/components/ads/AdBulkImport';
 import { AdDetail } from '@/components/ads/AdDetail';
 import { Toaster } from '@/components/ui/sonner';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import AuthLogin from '@/pages/AuthLogin';
 import OffersConfig from '@/pages/OffersConfig';
 import StyleGuide from '@/pages/StyleGuide';
+import { ServeSimulator } from '@/pages/ServeSimulator';
+import { AdTemplates } from '@/pages/AdTemplates';
 
 function PrivateRoute({ children }: { children: JSX.Element }) {
   const { isAuthenticated, loading } = useAuth();
@@ -76,6 +79,7 @@ function AppRoutes() {
                 <Route path="ads">
                   <Route index element={<AdList />} />
                   <Route path="new" element={<AdForm />} />
+                  <Route path="bulk" element={<AdBulkImport />} />
                   <Route path=":adId" element={<AdDetail />} />
                   <Route path=":adId/edit" element={<AdForm />} />
                 </Route>
@@ -83,6 +87,8 @@ function AppRoutes() {
             </Route>
             <Route path="analytics" element={<Analytics />} />
             <Route path="slot-management" element={<SlotManagement />} />
+            <Route path="serve-simulator" element={<ServeSimulator />} />
+            <Route path="ad-templates" element={<EditorRoute><AdTemplates /></EditorRoute>} />
             <Route path="offers-config" element={<EditorRoute><OffersConfig /></EditorRoute>} />
             <Route path="admin" element={<AdminRoute><AdminPanel /></AdminRoute>} />
             <Route path="*" element={<Navigate to="/" replace />} />
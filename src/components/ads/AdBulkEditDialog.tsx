@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, XCircle } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LocationAutoSuggest, CategoryAutoSuggest } from '@/components/ui/auto-suggest';
+import { SiteSelect } from '@/components/ui/site-select';
+import { adService, SiteDetails } from '@/services/adService';
+import { adHistoryService } from '@/services/adHistoryService';
+import { AdChangeRows } from '@/components/ads/AdChangeRows';
+import { Ad } from '@/types';
+import { cn } from '@/lib/utils';
+import { SERVE_STRATEGY_NAMES, extractCategoriesForUpdate } from '@/utils/adUtils';
+import { AdBulkEdit, AdBulkEditPlan, emptyAdBulkEdit, isEmptyBulkEdit, planAdBulkEdit } from '@/utils/adBulkEdit';
+
+type Step = 'edit' | 'preview' | 'apply';
+type ApplyResult = { ok: boolean; message?: string };
+
+const NO_CHANGE = 'keep';
+
+interface AdBulkEditDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ads: Ad[];
+  /** Called once after an apply run, so the list can refresh. */
+  onApplied: () => void;
+}
+
+function FieldBlock({ label, hint, children }: { label: string; hint?: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1.5">
+      <span className="halo-label">{label}</span>
+      {children}
+      {hint && <p className="text-[11.5px] text-[var(--h-ink-3)]">{hint}</p>}
+    </div>
+  );
+}
+
+/** Toggleable chips for removing values the selected ads already have. */
+function RemoveChips({ options, selected, onChange }: { options: Array<{ value: string; label: string }>; selected: string[]; onChange: (next: string[]) => void }) {
+  if (options.length === 0) return <p className="text-[12px] text-[var(--h-ink-3)]">None of the selected ads have any.</p>;
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {options.map((o) => {
+        const active = selected.includes(o.value);
+        return (
+          <button
+            key={o.value}
+            type="button"
+            onClick={() => onChange(active ? selected.filter((v) => v !== o.value) : [...selected, o.value])}
+            className={cn('halo-badge cursor-pointer', active && 'halo-badge-neg line-through')}
+          >
+            {o.label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Bulk edit for the ads selected in AdList: collect one edit, preview the
+ * per-ad diff, then send each changed ad through adService.updateAd and
+ * report which updates succeeded.
+ */
+export function AdBulkEditDialog({ open, onOpenChange, ads, onApplied }: AdBulkEditDialogProps) {
+  const [step, setStep] = useState<Step>('edit');
+  const [edit, setEdit] = useState<AdBulkEdit>(emptyAdBulkEdit);
+  const [priorityText, setPriorityText] = useState('');
+  const [siteDetails, setSiteDetails] = useState<SiteDetails>({});
+  const [plans, setPlans] = useState<AdBulkEditPlan[]>([]);
+  const [results, setResults] = useState<Record<string, ApplyResult>>({});
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setStep('edit');
+    setEdit(emptyAdBulkEdit());
+    setPriorityText('');
+    setPlans([]);
+    setResults({});
+    adService.getSiteDetails().then((res) => {
+      if (res.success && res.data) setSiteDetails(res.data);
+    });
+  }, [open]);
+
+  const siteName = (id: string) => siteDetails[id]?.name || `Site ${id}`;
+  const set = <K extends keyof AdBulkEdit>(key: K, value: AdBulkEdit[K]) => setEdit((prev) => ({ ...prev, [key]: value }));
+
+  const existing = useMemo(() => {
+    const locations = new Set<string>();
+    const sites = new Set<string>();
+    const categories: Record<string, string> = {};
+    ads.forEach((ad) => {
+      Object.keys(ad.location ?? {}).forEach((l) => locations.add(l));
+      Object.keys(ad.sites ?? {}).forEach((s) => sites.add(s));
+      Object.entries(extractCategoriesForUpdate(ad.categories)).forEach(([id, name]) => {
+        categories[id] = name;
+      });
+    });
+    return { locations: Array.from(locations), sites: Array.from(sites), categories };
+  }, [ads]);
+
+  const toApply = plans.filter((p) => p.changes.length > 0 && !p.blocked);
+  const done = Object.keys(results).length;
+  const succeeded = Object.values(results).filter((r) => r.ok).length;
+
+  const priorityInvalid = priorityText.trim() !== '' && (!/^\d+$/.test(priorityText.trim()) || Number(priorityText) > 1000);
+  const datesInvalid = !!edit.startDate && !!edit.endDate && edit.endDate < edit.startDate;
+
+  const apply = async () => {
+    setStep('apply');
+    setApplying(true);
+    for (const plan of toApply) {
+      const res = await adService.updateAd(plan.ad.adId, plan.payload);
+      if (res.success) adHistoryService.record(plan.ad, 'update', plan.payload, 'Bulk edit');
+      setResults((prev) => ({ ...prev, [String(plan.ad.adId)]: { ok: res.success, message: res.message } }));
+    }
+    setApplying(false);
+    onApplied();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !applying && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-2xl halo-card rounded-[var(--h-r-xl)] p-0 overflow-hidden">
+        <DialogHeader className="px-5 pt-5">
+          <DialogTitle className="halo-heading text-base">
+            {step === 'edit' ? `Edit ${ads.length} ad${ads.length === 1 ? '' : 's'}` : step === 'preview' ? 'Review changes' : 'Applying changes'}
+          </DialogTitle>
+          <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+            {step === 'edit'
+              ? 'Blank fields stay as they are on each ad. Targeting is added to or removed from what each ad already has.'
+              : step === 'preview'
+                ? `${toApply.length} of ${plans.length} ads will be updated.`
+                : `${done}/${toApply.length} updated`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[65vh] space-y-4 overflow-y-auto px-5 pb-2">
+          {step === 'edit' && (
+            <>
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <FieldBlock label="Status">
+                  <div className="halo-segment w-full">
+                    {[
+                      { value: undefined, label: 'No change' },
+                      { value: 1 as const, label: 'Live' },
+                      { value: 0 as const, label: 'Paused' },
+                    ].map((o) => (
+                      <button
+                        key={o.label}
+                        type="button"
+                        onClick={() => set('status', o.value)}
+                        className={cn('halo-segment-item flex-1', edit.status === o.value && 'is-active')}
+                      >
+                        {o.label}
+                      </button>
+                    ))}
+                  </div>
+                </FieldBlock>
+                <FieldBlock label="Serve strategy">
+                  <Select
+                    value={edit.serveStrategy === undefined ? NO_CHANGE : String(edit.serveStrategy)}
+                    onValueChange={(v) => set('serveStrategy', v === NO_CHANGE ? undefined : Number(v))}
+                  >
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_CHANGE}>No change</SelectItem>
+                      {Object.entries(SERVE_STRATEGY_NAMES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FieldBlock>
+                <FieldBlock label="Priority" hint={priorityInvalid ? 'Whole number from 0 to 1000' : undefined}>
+                  <Input
+                    value={priorityText}
+                    placeholder="No change"
+                    onChange={(e) => {
+                      const raw = e.target.value;
+                      setPriorityText(raw);
+                      set('priority', /^\d+$/.test(raw.trim()) && Number(raw) <= 1000 ? Number(raw) : undefined);
+                    }}
+                    className="h-9"
+                  />
+                </FieldBlock>
+                <div className="grid grid-cols-2 gap-3">
+                  <FieldBlock label="Start date">
+                    <Input type="date" value={edit.startDate ?? ''} onChange={(e) => set('startDate', e.target.value || undefined)} className="h-9" />
+                  </FieldBlock>
+                  <FieldBlock label="End date" hint={datesInvalid ? 'End date is before start date' : undefined}>
+                    <Input type="date" value={edit.endDate ?? ''} onChange={(e) => set('endDate', e.target.value || undefined)} className="h-9" />
+                  </FieldBlock>
+                </div>
+              </div>
+
+              <div className="halo-inset space-y-4 p-4">
+                <FieldBlock label="Add locations">
+                  <LocationAutoSuggest value={edit.addLocations} onChange={(v) => set('addLocations', v)} />
+                </FieldBlock>
+                <FieldBlock label="Remove locations">
+                  <RemoveChips
+                    options={existing.locations.map((l) => ({ value: l, label: l }))}
+                    selected={edit.removeLocations}
+                    onChange={(v) => set('removeLocations', v)}
+                  />
+                </FieldBlock>
+                <FieldBlock label="Add sites">
+                  <SiteSelect value={edit.addSites} onChange={(v) => set('addSites', v)} />
+                </FieldBlock>
+                <FieldBlock label="Remove sites">
+                  <RemoveChips
+                    options={existing.sites.map((s) => ({ value: s, label: siteName(s) }))}
+                    selected={edit.removeSites}
+                    onChange={(v) => set('removeSites', v)}
+                  />
+                </FieldBlock>
+                <FieldBlock label="Add categories">
+                  <CategoryAutoSuggest value={edit.addCategories} onChange={(v) => set('addCategories', v)} />
+                </FieldBlock>
+                <FieldBlock label="Remove categories">
+                  <RemoveChips
+                    options={Object.entries(existing.categories).map(([id, name]) => ({ value: id, label: name || id }))}
+                    selected={edit.removeCategories}
+                    onChange={(v) => set('removeCategories', v)}
+                  />
+                </FieldBlock>
+              </div>
+            </>
+          )}
+
+          {step !== 'edit' && (
+            <>
+              {step === 'apply' && <Progress value={toApply.length ? (done / toApply.length) * 100 : 100} />}
+              <ul className="space-y-2">
+                {plans.map((plan) => {
+                  const id = String(plan.ad.adId);
+                  const result = results[id];
+                  return (
+                    <li key={id} className="halo-inset space-y-2 p-3">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate text-[13px] font-semibold text-[var(--h-ink)]">{plan.ad.name}</span>
+                        {result ? (
+                          result.ok ? (
+                            <span className="halo-badge halo-badge-pos"><CheckCircle2 className="h-3 w-3" />Updated</span>
+                          ) : (
+                            <span className="halo-badge halo-badge-neg"><XCircle className="h-3 w-3" />Failed</span>
+                          )
+                        ) : plan.blocked ? (
+                          <span className="halo-badge halo-badge-neg">Skipped</span>
+                        ) : plan.changes.length === 0 ? (
+                          <span className="halo-badge">No change</span>
+                        ) : (
+                          <span className="halo-badge halo-badge-iris">{plan.changes.length} change{plan.changes.length === 1 ? '' : 's'}</span>
+                        )}
+                      </div>
+                      {plan.blocked && <p className="text-[12px] text-[var(--h-coral)]">{plan.blocked}</p>}
+                      {result && !result.ok && <p className="text-[12px] text-[var(--h-coral)]">{result.message || 'Update failed'}</p>}
+                      <AdChangeRows changes={plan.changes} />
+                      {plan.warnings.map((w) => (
+                        <p key={w} className="flex items-center gap-1.5 text-[12px] text-[var(--h-amber)]">
+                          <AlertTriangle className="h-3.5 w-3.5" strokeWidth={1.75} />
+                          {w}
+                        </p>
+                      ))}
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-[var(--h-line)] px-5 py-4">
+          {step === 'edit' && (
+            <>
+              <button type="button" onClick={() => onOpenChange(false)} className="btn-halo-ghost btn-halo-sm">Cancel</button>
+              <button
+                type="button"
+                onClick={() => {
+                  // Snapshot the plan: the list refreshes underneath once updates land.
+                  setPlans(planAdBulkEdit(ads, edit, siteName));
+                  setStep('preview');
+                }}
+                disabled={isEmptyBulkEdit(edit) || priorityInvalid || datesInvalid}
+                className="btn-halo btn-halo-sm"
+              >
+                Preview changes
+              </button>
+            </>
+          )}
+          {step === 'preview' && (
+            <>
+              <button type="button" onClick={() => setStep('edit')} className="btn-halo-ghost btn-halo-sm">Back</button>
+              <button type="button" onClick={apply} disabled={toApply.length === 0} className="btn-halo btn-halo-sm">
+                Update {toApply.length} ad{toApply.length === 1 ? '' : 's'}
+              </button>
+            </>
+          )}
+          {step === 'apply' && (
+            <>
+              <span className="text-[12.5px] text-[var(--h-ink-2)]">
+                {applying ? 'Updating…' : `${succeeded} updated${done - succeeded > 0 ? `, ${done - succeeded} failed` : ''}`}
+              </span>
+              <button type="button" onClick={() => onOpenChange(false)} disabled={applying} className="btn-halo btn-halo-sm">
+                Done
+              </button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,369 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { AlertTriangle, CheckCircle2, Download, FileSpreadsheet, Inbox, Loader2, Upload, XCircle } from 'lucide-react';
+import { VelvetBackButton } from '@/components/ui/velvet-back-button';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { adService } from '@/services/adService';
+import { slotService } from '@/services/slotService';
+import { campaignService } from '@/services/campaignService';
+import { usePermissions } from '@/context/PermissionsContext';
+import { normalizeRouteId } from '@/utils/v2Normalizer';
+import { convertToCSV, downloadCSV } from '@/utils/csvExport';
+import { cn } from '@/lib/utils';
+import {
+  BulkAdLookups,
+  BulkAdRow,
+  LIST_SEPARATOR,
+  ParsedBulkCsv,
+  buildBulkRow,
+  bulkTemplateCsv,
+  categoryNamesToLookup,
+  readBulkCsv,
+} from '@/utils/adCsvImport';
+
+const easeOut = [0.22, 1, 0.36, 1] as const;
+
+type RowResult = { status: 'created' | 'failed'; adId?: string | number; message?: string };
+
+const listPreview = (items: string[]) => (items.length === 0 ? '—' : items.length <= 2 ? items.join(', ') : `${items.slice(0, 2).join(', ')} +${items.length - 2}`);
+
+/**
+ * Bulk ad creation from a CSV. Rows are resolved (sites, locations, categories
+ * by name) and validated with the AdForm rules before anything is sent; valid
+ * rows are then created one at a time via adService.createAd.
+ */
+export function AdBulkImport() {
+  const { campaignId } = useParams<{ campaignId: string }>();
+  const navigate = useNavigate();
+  const { canEdit } = usePermissions();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [campaignName, setCampaignName] = useState('');
+  const [lookups, setLookups] = useState<Omit<BulkAdLookups, 'categories'> | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedBulkCsv | null>(null);
+  const [rows, setRows] = useState<BulkAdRow[]>([]);
+  const [resolving, setResolving] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [errorsOnly, setErrorsOnly] = useState(false);
+
+  useEffect(() => {
+    if (!canEdit) {
+      toast.error('You do not have permission to create ads.');
+      navigate(`/campaigns/${campaignId}/ads`);
+    }
+  }, [canEdit, navigate, campaignId]);
+
+  useEffect(() => {
+    const load = async () => {
+      const campaign = await campaignService.getCampaigns({ campaignId });
+      if (campaign.success && campaign.data?.[0]) {
+        setCampaignName(campaign.data[0].brandName || '');
+      } else if (!campaign.success) {
+        console.error('Error fetching campaign name:', campaign.message);
+      }
+
+      const [sites, locations, slots] = await Promise.all([
+        adService.getSiteDetails(),
+        adService.getLocationDetails(),
+        slotService.getSlots(undefined, 1),
+      ]);
+      if (!sites.success || !locations.success || !slots.success) {
+        toast.error('Failed to load sites, locations or slots — names cannot be resolved');
+      }
+      setLookups({ sites: sites.data ?? {}, locations: locations.data ?? {}, slots: slots.data });
+    };
+    load();
+  }, [campaignId]);
+
+  const resolveCategories = async (names: string[]): Promise<Record<string, number>> => {
+    const found: Record<string, number> = {};
+    const responses = await Promise.all(names.map((name) => adService.getCategoryDetails(name)));
+    responses.forEach((res, i) => {
+      const wanted = names[i].toLowerCase();
+      const match = Object.entries(res.data ?? {}).find(([catName]) => catName.toLowerCase() === wanted);
+      if (match) found[wanted] = match[1].catId;
+    });
+    return found;
+  };
+
+  const handleFile = async (file: File) => {
+    if (!lookups) return;
+    setFileName(file.name);
+    setResults({});
+    setRows([]);
+    setResolving(true);
+    try {
+      const next = readBulkCsv(await file.text());
+      setParsed(next);
+      if (next.missingColumns.length > 0 || next.records.length === 0) return;
+
+      const categories = await resolveCategories(categoryNamesToLookup(next.records));
+      const routeCampaignId = normalizeRouteId(campaignId);
+      setRows(next.records.map((record) => buildBulkRow(record, { ...lookups, categories }, routeCampaignId)));
+    } catch (error) {
+      console.error('Error reading CSV:', error);
+      toast.error('Could not read that file as CSV');
+    } finally {
+      setResolving(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const validRows = useMemo(() => rows.filter((r) => r.data), [rows]);
+  const invalidCount = rows.length - validRows.length;
+  const processed = Object.keys(results).length;
+  const createdCount = Object.values(results).filter((r) => r.status === 'created').length;
+  const failedCount = processed - createdCount;
+  const finished = validRows.length > 0 && processed === validRows.length && !creating;
+  const visibleRows = errorsOnly ? rows.filter((r) => r.errors.length > 0 || results[r.line]?.status === 'failed') : rows;
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setResults({});
+    let created = 0;
+    for (const row of validRows) {
+      if (!row.data) continue;
+      const res = await adService.createAd(row.data);
+      const result: RowResult = res.success
+        ? { status: 'created', adId: res.data?.adId }
+        : { status: 'failed', message: res.message || 'Create failed' };
+      if (res.success) created += 1;
+      setResults((prev) => ({ ...prev, [row.line]: result }));
+    }
+    setCreating(false);
+
+    const failed = validRows.length - created;
+    if (failed === 0) toast.success(`Created ${created} ad${created === 1 ? '' : 's'}`);
+    else toast.error(`Created ${created}, failed ${failed} — see the report`);
+  };
+
+  const downloadReport = () => {
+    const report = rows.map((r) => {
+      const result = results[r.line];
+      return {
+        line: r.line,
+        label: r.raw.label ?? '',
+        result: r.errors.length > 0 ? 'skipped' : result?.status ?? 'not sent',
+        adId: result?.adId ?? '',
+        message: r.errors.length > 0 ? r.errors.join('; ') : result?.message ?? '',
+        warnings: r.warnings.join('; '),
+      };
+    });
+    downloadCSV(convertToCSV(report), `bulk-ads-${campaignId}-report.csv`);
+  };
+
+  return (
+    <div className="halo-page">
+      <div className="max-w-6xl mx-auto space-y-5">
+        <motion.div
+          initial={{ opacity: 0, y: -12 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5, ease: easeOut }}
+          className="halo-glass rounded-[var(--h-r-lg)] p-5"
+        >
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-center gap-3 sm:gap-4">
+              <VelvetBackButton label="Back" onClick={() => navigate(`/campaigns/${campaignId}/ads`)} />
+              <div className="min-w-0">
+                <h1 className="halo-title !text-lg sm:!text-xl">Bulk create ads</h1>
+                <p className="halo-subtitle mt-0.5">
+                  for campaign <span className="font-semibold text-[var(--h-iris-500)]">{campaignName}</span>
+                </p>
+              </div>
+            </div>
+            <button type="button" onClick={() => downloadCSV(bulkTemplateCsv(), 'bulk-ads-template.csv')} className="btn-halo-outline btn-halo-sm">
+              <Download className="h-3.5 w-3.5" strokeWidth={1.75} />
+              CSV template
+            </button>
+          </div>
+        </motion.div>
+
+        {/* Upload */}
+        <motion.section
+          initial={{ opacity: 0, y: 14 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.45, delay: 0.05, ease: easeOut }}
+          className="halo-card overflow-hidden"
+        >
+          <div className="halo-panel-head halo-rail-full">
+            <div className="halo-panel-head-title">
+              <span className="halo-chip"><FileSpreadsheet className="h-3.5 w-3.5" /></span>
+              <h3 className="halo-heading">Upload CSV</h3>
+            </div>
+            {fileName && <span className="halo-badge">{fileName}</span>}
+          </div>
+          <div className="space-y-3 p-4 sm:p-5">
+            <p className="text-[12.5px] leading-relaxed text-[var(--h-ink-2)]">
+              One ad per row, with the columns from the template. Sites, locations and categories can be given by name or id;
+              separate multiple values with <code className="halo-inset px-1">{LIST_SEPARATOR}</code>. Slots match by id, slot type or name.
+              Blank optional cells use the same defaults as the ad form.
+            </p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!lookups || resolving || creating}
+              className="btn-halo btn-halo-sm"
+            >
+              {resolving || !lookups ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Upload className="h-3.5 w-3.5" strokeWidth={1.75} />}
+              {!lookups ? 'Loading lookups…' : resolving ? 'Resolving…' : 'Choose CSV'}
+            </button>
+
+            {parsed && parsed.missingColumns.length > 0 && (
+              <div className="halo-inset flex items-start gap-2 border-[var(--h-coral)]/30 p-3 text-[12.5px] text-[var(--h-ink-2)]">
+                <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-[var(--h-coral)]" strokeWidth={1.75} />
+                Missing required columns: {parsed.missingColumns.join(', ')}
+              </div>
+            )}
+            {parsed && parsed.unknownColumns.length > 0 && (
+              <div className="halo-inset flex items-start gap-2 p-3 text-[12.5px] text-[var(--h-ink-2)]">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-[var(--h-amber)]" strokeWidth={1.75} />
+                Ignored unknown columns: {parsed.unknownColumns.join(', ')}
+              </div>
+            )}
+          </div>
+        </motion.section>
+
+        {/* Rows */}
+        <motion.section
+          initial={{ opacity: 0, y: 14 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.45, delay: 0.1, ease: easeOut }}
+          className="halo-card overflow-hidden"
+        >
+          <div className="halo-panel-head halo-rail-full">
+            <div className="halo-panel-head-title">
+              <span className="halo-chip"><Inbox className="h-3.5 w-3.5" /></span>
+              <h3 className="halo-heading">Rows</h3>
+            </div>
+            {rows.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="halo-badge halo-badge-pos">{validRows.length} ready</span>
+                {invalidCount > 0 && <span className="halo-badge halo-badge-neg">{invalidCount} with errors</span>}
+                <div className="halo-segment">
+                  <button type="button" onClick={() => setErrorsOnly(false)} className={cn('halo-segment-item', !errorsOnly && 'is-active')}>
+                    All
+                  </button>
+                  <button type="button" onClick={() => setErrorsOnly(true)} className={cn('halo-segment-item', errorsOnly && 'is-active')}>
+                    Problems
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {(creating || processed > 0) && (
+            <div className="space-y-1.5 border-b border-[var(--h-line)] p-4">
+              <div className="flex items-center justify-between text-[12.5px] text-[var(--h-ink-2)]">
+                <span>{creating ? 'Creating ads…' : 'Done'}</span>
+                <span className="num">
+                  {processed}/{validRows.length} · {createdCount} created{failedCount > 0 ? ` · ${failedCount} failed` : ''}
+                </span>
+              </div>
+              <Progress value={validRows.length ? (processed / validRows.length) * 100 : 0} />
+            </div>
+          )}
+
+          <div className="halo-scroll-x">
+            {rows.length === 0 ? (
+              <div className="flex flex-col items-center justify-center gap-2 py-16 text-center">
+                <span className="halo-chip-lg"><FileSpreadsheet size={20} strokeWidth={1.75} /></span>
+                <p className="halo-heading">No rows yet</p>
+                <p className="halo-subtitle">Upload a CSV to preview and validate its rows.</p>
+              </div>
+            ) : (
+              <Table className="halo-table">
+                <TableHeader>
+                  <TableRow className="hover:bg-transparent">
+                    <TableHead className="w-[56px] text-center">Line</TableHead>
+                    <TableHead className="w-[200px]">Label</TableHead>
+                    <TableHead className="w-[140px]">Slot</TableHead>
+                    <TableHead className="w-[170px]">Dates</TableHead>
+                    <TableHead className="w-[150px]">Sites</TableHead>
+                    <TableHead className="w-[150px]">Locations</TableHead>
+                    <TableHead className="w-[150px]">Categories</TableHead>
+                    <TableHead className="w-[280px]">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => {
+                    const result = results[row.line];
+                    return (
+                      <TableRow key={row.line} className={row.errors.length > 0 || result?.status === 'failed' ? 'bg-[var(--h-neg-soft)]' : undefined}>
+                        <TableCell className="num text-center">{row.line}</TableCell>
+                        <TableCell className="font-medium text-[var(--h-ink)]">{row.raw.label || '—'}</TableCell>
+                        <TableCell>{row.resolved.slot || row.raw.slotId || '—'}</TableCell>
+                        <TableCell className="num">{row.raw.startDate || '—'} → {row.raw.endDate || '—'}</TableCell>
+                        <TableCell title={row.resolved.sites.join(', ')}>{listPreview(row.resolved.sites)}</TableCell>
+                        <TableCell title={row.resolved.locations.join(', ')}>{listPreview(row.resolved.locations)}</TableCell>
+                        <TableCell title={row.resolved.categories.join(', ')}>{listPreview(row.resolved.categories)}</TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <ul className="space-y-0.5 text-[12px] text-[var(--h-coral)]">
+                              {row.errors.map((e) => <li key={e}>{e}</li>)}
+                            </ul>
+                          ) : result?.status === 'created' ? (
+                            <span className="halo-badge halo-badge-pos">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Created{result.adId !== undefined ? ` · #${result.adId}` : ''}
+                            </span>
+                          ) : result?.status === 'failed' ? (
+                            <span className="text-[12px] text-[var(--h-coral)]">{result.message}</span>
+                          ) : (
+                            <span className="halo-badge">Ready</span>
+                          )}
+                          {row.warnings.length > 0 && (
+                            <ul className="mt-1 space-y-0.5 text-[11.5px] text-[var(--h-amber)]">
+                              {row.warnings.map((w) => <li key={w}>{w}</li>)}
+                            </ul>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {rows.length > 0 && (
+            <div className="flex flex-col gap-3 border-t border-[var(--h-line)] p-4 sm:flex-row sm:items-center sm:justify-end">
+              {processed > 0 && (
+                <button type="button" onClick={downloadReport} disabled={creating} className="btn-halo-ghost btn-halo-sm sm:mr-auto">
+                  <Download className="h-3.5 w-3.5" strokeWidth={1.75} />
+                  Download report
+                </button>
+              )}
+              {finished ? (
+                <button type="button" onClick={() => navigate(`/campaigns/${campaignId}/ads`)} className="btn-halo btn-halo-sm">
+                  Back to ads
+                </button>
+              ) : (
+                <button type="button" onClick={handleCreate} disabled={creating || validRows.length === 0} className="btn-halo btn-halo-sm">
+                  {creating && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+                  {creating
+                    ? `Creating ${processed}/${validRows.length}…`
+                    : `Create ${validRows.length} ad${validRows.length === 1 ? '' : 's'}${invalidCount > 0 ? ` (skip ${invalidCount})` : ''}`}
+                </button>
+              )}
+            </div>
+          )}
+        </motion.section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { ArrowRight } from 'lucide-react';
+import type { AdFieldChange } from '@/utils/adDiff';
+
+/** Field-by-field old → new rows for an ad diff. */
+export function AdChangeRows({ changes }: { changes: AdFieldChange[] }) {
+  return (
+    <>
+      {changes.map((c) => (
+        <div key={c.field} className="grid grid-cols-[110px_1fr] items-start gap-2 text-[12px]">
+          <span className="text-[var(--h-ink-3)]">{c.label}</span>
+          <span className="flex min-w-0 flex-wrap items-center gap-1.5 break-all text-[var(--h-ink-2)]">
+            <span className="line-through decoration-[var(--h-coral)]/60">{c.before}</span>
+            <ArrowRight className="h-3 w-3 shrink-0 text-[var(--h-ink-3)]" />
+            <span className="font-medium text-[var(--h-ink)]">{c.after}</span>
+          </span>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -1,20 +1,32 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Edit, Copy, Play, Pause, Calendar, Flag, MousePointerClick, Clock, Globe, Users, Tag, MapPin, Banknote, Settings, Image as ImageIcon, TrendingUp, BarChart3, Download, Zap, ChevronRight, Check, Code2, IndianRupee, Ticket } from 'lucide-react';
+import { Edit, Copy, Play, Pause, Calendar, Flag, MousePointerClick, Clock, Globe, Users, Tag, MapPin, Banknote, Settings, Image as ImageIcon, TrendingUp, BarChart3, Download, Zap, ChevronRight, Check, Code2, IndianRupee, Ticket, ShieldCheck, History, LayoutTemplate } from 'lucide-react';
 import { VelvetBackButton } from '@/components/ui/velvet-back-button';
 import { StatusPill, type StatusKind } from '@/components/ui/status-pill';
 import { toast } from 'sonner';
-import { Ad, Slot, ApiAd, mapApiAdToAd, CategoryPath } from '@/types';
+import { Ad, Slot, ApiAd, mapApiAdToAd, CategoryPath, TrendDataPoint } from '@/types';
 import { motion } from 'framer-motion';
 import { analyticsService } from '@/services/analyticsService';
+import { adHistoryService } from '@/services/adHistoryService';
+import { adService } from '@/services/adService';
+import { campaignService } from '@/services/campaignService';
+import { slotService } from '@/services/slotService';
 import { exportToCsv } from '@/utils/csvExport';
-import { buildApiUrl } from '@/config/api';
-import { normalizeAd, normalizeSlotList, isV2Active, resolveCatIds } from '@/utils/v2Normalizer';
+import { isV2Active, resolveCatIds } from '@/utils/v2Normalizer';
 import { getPlatformName } from '@/utils/platform';
-import { extractCategoriesForUpdate, getCacheBustedUrl, toLocalDateInput } from '@/utils/adUtils';
+import { adToUpdateData, getCacheBustedUrl } from '@/utils/adUtils';
 import { usePermissions } from '@/context/PermissionsContext';
 import { cn } from '@/lib/utils';
 import { formatCount } from '@/lib/format';
+import { ServeEligibilityPanel } from '@/components/ads/ServeEligibilityPanel';
+import { AdHistoryPanel } from '@/components/ads/AdHistoryPanel';
+import { AdTemplateSaveDialog } from '@/components/ads/AdTemplateSaveDialog';
+import { ConversionFunnel } from '@/components/analytics/ConversionFunnel';
+import { TrendChart } from '@/components/analytics/TrendChart';
+import type { FunnelCounts } from '@/utils/funnel';
+import { templateSourceFromAd } from '@/utils/adTemplates';
+import { todayYmd } from '@/utils/dates';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 // Placeholder image URL
 const PLACEHOLDER_IMAGE = 'https://eos.org/wp-content/uploads/2023/10/moon-2.jpg';
@@ -139,8 +151,14 @@ export function AdDetail() {
   const [campaign, setCampaign] = useState<{ brandName?: string }>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [liveMetrics, setLiveMetrics] = useState<{ impressions: number; clicks: number; landingCount: number } | null>(null);
+  const [liveMetrics, setLiveMetrics] = useState<FunnelCounts | null>(null);
+  // The whole campaign over the same window, as the funnel's benchmark
+  const [campaignMetrics, setCampaignMetrics] = useState<FunnelCounts | null>(null);
+  const [adTrend, setAdTrend] = useState<TrendDataPoint[]>([]);
+  const [trendMetric, setTrendMetric] = useState<'impressions' | 'clicks' | 'ctr'>('impressions');
   const [showAllCategories, setShowAllCategories] = useState(false);
+  const [activeTab, setActiveTab] = useState<'details' | 'history'>('details');
+  const [templateOpen, setTemplateOpen] = useState(false);
 
   useEffect(() => {
     if (campaignId && adId) {
@@ -154,25 +172,19 @@ export function AdDetail() {
       setError(null);
 
       // Fetch ad details, slot info, and campaign info in parallel
-      const [adResponse, slotsResponse, campaignResponse] = await Promise.all([
-        fetch(`${buildApiUrl('/ads')}?campaignId=${campaignId}&adId=${adId}&slotId=&status=`),
-        fetch(buildApiUrl('/slots')),
-        fetch(`${buildApiUrl('/campaigns')}?campaignId=${campaignId}`)
+      const [adResult, slotsResult, campaignResult] = await Promise.all([
+        adService.getAds({ campaignId, adId }),
+        slotService.getSlots(),
+        campaignService.getCampaigns({ campaignId })
       ]);
 
-      if (!adResponse.ok || !slotsResponse.ok || !campaignResponse.ok) {
-        throw new Error('Failed to fetch ad details');
+      if (!adResult.success || !slotsResult.success || !campaignResult.success) {
+        throw new Error(adResult.message || slotsResult.message || campaignResult.message || 'Failed to fetch ad details');
       }
 
-      const [adResult, slotsResult, campaignResult] = await Promise.all([
-        adResponse.json(),
-        slotsResponse.json(),
-        campaignResponse.json()
-      ]);
-
       // Set ad data
-      if (adResult.status === 1 && adResult.data?.adsList?.[0]) {
-          const apiAd = normalizeAd(adResult.data.adsList[0]) as ApiAd;
+      const apiAd = adResult.data?.adsList?.[0] as ApiAd | undefined;
+      if (apiAd) {
         let adData = mapApiAdToAd(apiAd) as any;
 
         if (isV2Active() && adData.categories) {
@@ -197,17 +209,14 @@ export function AdDetail() {
       }
 
       // Set slot data
-      if (slotsResult.status === 1 && slotsResult.data?.slotList) {
-          const adData = normalizeAd(adResult.data.adsList[0]);
-        const slotData = slotsResult.data.slotList.find((s: Slot) =>
-          s.slotId === adData.slotId || (isV2Active() && s.slotType === String(adData.slotId))
-        );
-        if (slotData) setSlot(slotData);
-      }
+      const slotData = (slotsResult.data as Slot[] | undefined)?.find((s) =>
+        s.slotId === apiAd.slotId || (isV2Active() && s.slotType === String(apiAd.slotId))
+      );
+      if (slotData) setSlot(slotData);
 
       // Set campaign data
-      if (campaignResult.status === 1 && campaignResult.data?.campaignList?.[0]) {
-        setCampaign(campaignResult.data.campaignList[0]);
+      if (campaignResult.data?.[0]) {
+        setCampaign(campaignResult.data[0]);
       }
 
     } catch (error) {
@@ -221,21 +230,31 @@ export function AdDetail() {
 
   const fetchLiveMetrics = async (currentAd: Ad) => {
     try {
-      const today = new Date().toISOString().split('T')[0];
+      const today = todayYmd();
       const fromDate = currentAd.createdAt.split('T')[0];
-      const resp = await analyticsService.getMetrics({
-        from: fromDate,
-        to: today,
-        campaignId: isV2Active() ? (campaignId ?? '') : Number(campaignId),
-        adId: currentAd.adId
-      });
+      const campaignFilter = isV2Active() ? (campaignId ?? '') : Number(campaignId);
+      const [resp, campaignResp, trendResp] = await Promise.all([
+        analyticsService.getMetrics({ from: fromDate, to: today, campaignId: campaignFilter, adId: currentAd.adId }),
+        analyticsService.getMetrics({ from: fromDate, to: today, campaignId: campaignFilter }),
+        analyticsService.getAdTrendData({ campaignId: campaignFilter, adId: currentAd.adId, from: fromDate, to: today, interval: '1d' })
+      ]);
       if (resp.success && resp.data) {
         setLiveMetrics({
           impressions: resp.data.impressions,
           clicks: resp.data.clicks,
           landingCount: resp.data.landingCount,
+          conversions: resp.data.conversions,
+        });
+      }
+      if (campaignResp.success && campaignResp.data) {
+        setCampaignMetrics({
+          impressions: campaignResp.data.impressions,
+          clicks: campaignResp.data.clicks,
+          landingCount: campaignResp.data.landingCount,
+          conversions: campaignResp.data.conversions,
         });
       }
+      setAdTrend(trendResp.success && trendResp.data ? trendResp.data : []);
     } catch (error) {
       console.error('Error fetching live metrics:', error);
     }
@@ -245,18 +264,13 @@ export function AdDetail() {
     if (!ad) return;
 
     try {
-      const response = await fetch(`${buildApiUrl('/ads/clone')}?userId=1`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ adId: ad.adId })
-      });
-
-      if (!response.ok) throw new Error('Failed to clone ad');
-
-      const result = await response.json();
-      if (result.status === 1) {
+      const result = await adService.cloneAd(ad.adId);
+      if (result.success) {
+        adHistoryService.record(ad, 'clone', null, result.data?.adId ? `Cloned as ad #${result.data.adId}` : undefined);
         toast.success('Ad cloned successfully');
         navigate(`/campaigns/${campaignId}/ads`);
+      } else {
+        toast.error(result.message || 'Failed to clone ad');
       }
     } catch (error) {
       console.error('Error cloning ad:', error);
@@ -320,7 +334,7 @@ export function AdDetail() {
       'Last Updated': ad.updatedAt ? new Date(ad.updatedAt).toLocaleDateString() : 'N/A'
     }];
 
-    const filename = `ad_${ad.adId}_${ad.name.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}.csv`;
+    const filename = `ad_${ad.adId}_${ad.name.replace(/[^a-zA-Z0-9]/g, '_')}_${todayYmd()}.csv`;
     exportToCsv(csvData, filename);
     toast.success(`Exported ad details to ${filename}`);
   };
@@ -329,60 +343,14 @@ export function AdDetail() {
     if (!ad) return;
 
     try {
-      // Extract categories for payload
-      const categoriesPayload = extractCategoriesForUpdate(ad.categories);
-
       // Send full ad data to prevent backend from resetting missing fields
-      const response = await fetch(`${buildApiUrl('/ads/update')}?userId=1`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          adId: ad.adId,
-          campaignId: ad.campaignId,
-          name: ad.name,
-          label: ad.label,
-          slotType: ad.slotType ?? ad.slotId,
-          impressionTarget: ad.impressionTarget,
-          clickTarget: ad.clickTarget,
-          impressionPixel: ad.impressionPixel,
-          clickPixel: ad.clickPixel,
-          targetUrl: ad.targetUrl,
-          status: newStatus,
-          categories: categoriesPayload,
-          sites: ad.sites,
-          location: ad.location,
-          brandTargets: ad.brandTargets,
-          priceRangeMin: ad.priceRangeMin,
-          priceRangeMax: ad.priceRangeMax,
-          ageRangeMin: ad.ageRangeMin,
-          ageRangeMax: ad.ageRangeMax,
-          priority: ad.priority,
-          startDate: toLocalDateInput(ad.startDate),
-          startTime: ad.startTime,
-          endDate: toLocalDateInput(ad.endDate),
-          endTime: ad.endTime,
-          creativeUrl: ad.creativeUrl,
-          logo: ad.logo || '',
-          otherDetails: ad.otherDetails || {},
-          gender: ad.gender,
-          isTestPhase: ad.isTestPhase,
-          serveStrategy: ad.serveStrategy,
-          isModelType: ad.isModelType,
-          couponCode: ad.couponCode || '',
-          impressionCharge: ad.impressionCharge ?? 0,
-          clickCharge: ad.clickCharge ?? 0,
-          minBid: ad.minBid ?? 0,
-          maxBid: ad.maxBid ?? 0,
-          bidModel: ad.bidModel ?? 0,
-        })
-      });
-
-      if (!response.ok) throw new Error('Failed to update ad status');
-
-      const result = await response.json();
-      if (result.status === 1) {
+      const result = await adService.updateAd(ad.adId, { ...adToUpdateData(ad), status: newStatus });
+      if (result.success) {
+        adHistoryService.record(ad, 'status', { status: newStatus });
         toast.success(`Ad ${newStatus === 1 ? 'activated' : 'paused'} successfully`, { id: 'ad-status' });
         setAd(prev => prev ? { ...prev, status: newStatus } : null);
+      } else {
+        toast.error(result.message || 'Failed to update ad status', { id: 'ad-status' });
       }
     } catch (error) {
       console.error('Error updating ad status:', error);
@@ -488,6 +456,10 @@ export function AdDetail() {
                   <Copy className="h-3.5 w-3.5" strokeWidth={1.75} />
                   Clone
                 </button>
+                <button onClick={() => setTemplateOpen(true)} className="btn-halo-outline btn-halo-sm">
+                  <LayoutTemplate className="h-3.5 w-3.5" strokeWidth={1.75} />
+                  Save as template
+                </button>
               </>
             )}
             <button onClick={handleExport} className="btn-halo-outline btn-halo-sm">
@@ -512,6 +484,22 @@ export function AdDetail() {
           </div>
         </motion.div>
 
+        <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'details' | 'history')}>
+          <TabsList>
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">
+              <History className="mr-1.5 h-3.5 w-3.5" strokeWidth={1.75} />
+              History
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="history" className="mt-5">
+            <SectionPanel icon={<History className="h-3.5 w-3.5" />} title="Change history">
+              <AdHistoryPanel ad={ad} canEdit={canEdit} onRestored={fetchAdDetails} />
+            </SectionPanel>
+          </TabsContent>
+
+          <TabsContent value="details" className="mt-5 space-y-5">
         {/* Performance — one vivid hero (live vs target) + a compact stat bar.
             Color follows performance: green on target, iris while data is thin, red when short. */}
         <div className="grid grid-cols-1 gap-5 lg:grid-cols-5 items-stretch">
@@ -559,6 +547,46 @@ export function AdDetail() {
           </div>
         </div>
 
+        {liveMetrics && (
+          <SectionPanel icon={<TrendingUp className="h-3.5 w-3.5" />} title="Funnel since launch" delay={0.05}>
+            <ConversionFunnel
+              title="Impressions to conversions"
+              groups={[{ name: ad.name, counts: liveMetrics }]}
+              groupLabel="Ad"
+              benchmark={campaignMetrics ? { label: 'campaign average', counts: campaignMetrics } : undefined}
+            />
+          </SectionPanel>
+        )}
+
+        {adTrend.length > 0 && (
+          <SectionPanel
+            icon={<BarChart3 className="h-3.5 w-3.5" />}
+            title="Daily performance"
+            delay={0.08}
+            aside={
+              <div className="halo-segment">
+                {(['impressions', 'clicks', 'ctr'] as const).map((metric) => (
+                  <button
+                    key={metric}
+                    type="button"
+                    onClick={() => setTrendMetric(metric)}
+                    className={`halo-segment-item ${trendMetric === metric ? 'is-active' : ''}`}
+                  >
+                    {metric === 'ctr' ? 'CTR' : metric === 'clicks' ? 'Clicks' : 'Impressions'}
+                  </button>
+                ))}
+              </div>
+            }
+          >
+            <TrendChart
+              series={[{ name: ad.name, data: adTrend }]}
+              title={`${trendMetric === 'ctr' ? 'CTR' : trendMetric === 'clicks' ? 'Clicks' : 'Impressions'} since launch`}
+              dataKey={trendMetric}
+              height={280}
+            />
+          </SectionPanel>
+        )}
+
       <div className="grid grid-cols-1 gap-5 lg:grid-cols-2">
         {/* Creative & Slot Details */}
         <SectionPanel
@@ -991,6 +1019,15 @@ export function AdDetail() {
         </div>
       </SectionPanel>
 
+      {/* Serve eligibility */}
+      <SectionPanel
+        icon={<ShieldCheck className="h-3.5 w-3.5" />}
+        title="Why won't this ad serve?"
+        delay={0.2}
+      >
+        <ServeEligibilityPanel ad={ad} slot={slot} />
+      </SectionPanel>
+
       {/* Billing & Bidding */}
       <SectionPanel
         icon={<IndianRupee className="h-3.5 w-3.5" />}
@@ -1073,7 +1110,16 @@ export function AdDetail() {
           </div>
         </SectionPanel>
       )}
+          </TabsContent>
+        </Tabs>
       </div>
+
+      <AdTemplateSaveDialog
+        open={templateOpen}
+        onOpenChange={setTemplateOpen}
+        source={templateSourceFromAd(ad)}
+        defaultName={ad.name}
+      />
     </div>
   );
 }
@@ -1,9 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { useNavigate, useParams } from 'react-router-dom';
-import { ArrowLeft, Upload, Calendar as CalendarIcon, Clock, FileText, Star, Radio, Loader2, X, Settings, Zap, CheckCircle2, Plus, Image as ImageIcon, Package, Ticket, Plane, Lock, AlertTriangle, IndianRupee, Gavel, ChevronsUpDown, Check } from 'lucide-react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Upload, Calendar as CalendarIcon, Clock, FileText, Star, Radio, Loader2, X, Settings, Zap, CheckCircle2, Plus, Image as ImageIcon, Package, Ticket, Plane, Lock, AlertTriangle, ShieldAlert, LayoutTemplate, IndianRupee, Gavel, ChevronsUpDown, Check } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { VelvetBackButton } from '@/components/ui/velvet-back-button';
 import { VelvetLoader } from '@/components/ui/velvet-loader';
@@ -16,9 +15,12 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDes
 import { LocationAutoSuggest, BrandInput } from '@/components/ui/auto-suggest';
 import { MultiHierarchicalCategorySelector } from '@/components/ui/multi-hierarchical-category-selector';
 import { SiteSelect } from '@/components/ui/site-select';
-import { adService } from '@/services/adService';
-import { buildApiUrl } from '@/config/api';
-import { normalizeAd, normalizeRouteId, isV2Active, resolveCatIds } from '@/utils/v2Normalizer';
+import { adService, CreateAdData, UpdateAdData } from '@/services/adService';
+import { campaignService } from '@/services/campaignService';
+import { slotService } from '@/services/slotService';
+import { adHistoryService } from '@/services/adHistoryService';
+import { AdTemplate, adTemplateService } from '@/services/adTemplateService';
+import { normalizeRouteId, isV2Active, resolveCatIds } from '@/utils/v2Normalizer';
 
 // The ad's slot field now carries the real slotId (UUID in V2). Match a slot by its
 // slotId, with a slotType fallback so any legacy value still resolves.
@@ -27,15 +29,25 @@ const slotMatches = (slot: { slotId: string | number; slotType?: string | number
   return String(slot.slotId) === String(target) || (slot.slotType != null && String(slot.slotType) === String(target));
 };
 import { toast } from 'sonner';
-import { Slot, Ad, CategoryPath } from '@/types';
+import { Slot, Ad, ApiAd, CategoryPath, mapApiAdToAd } from '@/types';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from '@/components/ui/command';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { getPlatformName, PLATFORM_OPTIONS } from '@/utils/platform';
-import { getCacheBustedUrl, toLocalDateInput } from '@/utils/adUtils';
+import { adToUpdateData, getCacheBustedUrl, toLocalDateInput } from '@/utils/adUtils';
+import { AdFieldChange, diffAdEdit } from '@/utils/adDiff';
 import { usePermissions } from '@/context/PermissionsContext';
+import { useFormDraft } from '@/hooks/useFormDraft';
 import { FileUpload } from '@/components/ui/file-upload';
+import { ServeLintPanel } from '@/components/ads/ServeLintPanel';
+import { AdTemplateSaveDialog } from '@/components/ads/AdTemplateSaveDialog';
+import { AdUpdateConfirmDialog } from '@/components/ads/AdUpdateConfirmDialog';
+import { FormDraftPrompts } from '@/components/drafts/FormDraftPrompts';
+import { lintServeImpact, unacknowledgedIssues } from '@/utils/serveLint';
+import { AdFormData, adSchema, toApiGender, toFormGender } from '@/utils/adSchema';
+import { AdTemplateSource, templateSourceFromForm, templateToFormValues } from '@/utils/adTemplates';
+import { addDays, dateToYmd, todayYmd, ymdToDate } from '@/utils/dates';
 
 // Elegant Toggle Component
 interface ElegantToggleProps {
@@ -139,99 +151,6 @@ const ElegantToggle: React.FC<ElegantToggleProps> = ({
   );
 };
 
-// Schema validation
-const adSchema = z.object({
-  slotId: z.union([z.string().min(1, 'Slot selection is required'), z.number().min(1, 'Slot selection is required')]),
-  label: z.string().min(1, 'Ad label is required'),
-  impressionTarget: z.number().min(1, 'Impression target is required'),
-  clickTarget: z.number().min(1, 'Click target is required'),
-  impressionPixel: z.string().url('Must be a valid URL'),
-  clickPixel: z.string().url('Must be a valid URL'),
-  targetUrl: z.string().url('Must be a valid URL'),
-  categories: z.union([
-    z.record(z.union([z.string(), z.number()])),
-    z.object({
-      selections: z.array(z.object({
-        path: z.array(z.object({ catId: z.number(), catName: z.string() })),
-        selected: z.object({ catId: z.number(), catName: z.string() })
-      }))
-    })
-  ]),
-  sites: z.record(z.union([z.string(), z.number()])),
-  location: z.record(z.union([z.string(), z.number()])),
-  brandTargets: z.record(z.union([z.string(), z.number()])),
-  priceRangeMin: z.number().min(0, 'Minimum price must be 0 or greater'),
-  priceRangeMax: z.number().min(1, 'Maximum price must be greater than 0'),
-  ageRangeMin: z.number().min(0, 'Minimum age must be at least 0'),
-  ageRangeMax: z.number().min(0, 'Maximum age must be at least 0'),
-  priority: z.number().min(0, 'Priority must be at least 0').max(1000, 'Priority cannot exceed 1000'),
-  startDate: z.string().min(1, 'Start date is required'),
-  endDate: z.string().min(1, 'End date is required'),
-  startTime: z.string().optional(),
-  endTime: z.string().optional(),
-  creativeUrl: z.string().url('Creative URL must be valid'),
-  logo: z.string().optional(),
-  couponCode: z.string().optional(),
-  impressionCharge: z.number().min(0).optional(),
-  clickCharge: z.number().min(0).optional(),
-  minBid: z.number().min(0).optional(),
-  maxBid: z.number().min(0).optional(),
-  bidModel: z.number().min(0).optional(),
-  otherDetails: z.record(z.any()).optional(),
-  gender: z.string().optional(),
-  noGenderSpecificity: z.boolean().optional(),
-  noSpecificity: z.boolean().optional(),
-  status: z.number().min(0).max(1).optional().default(1),
-  isTestPhase: z.number().min(0).max(1).optional().default(0),
-  serveStrategy: z.number().min(0).max(4).optional().default(0),
-  isModelType: z.number().min(0).max(1).optional().default(0)
-}).refine((data) => {
-  // Validate impression target >= click target
-  if (data.impressionTarget && data.clickTarget) {
-    return data.impressionTarget >= data.clickTarget;
-  }
-  return true;
-}, {
-  message: "Impression target must be greater than or equal to click target",
-  path: ["impressionTarget"]
-}).refine((data) => {
-  if (!data.startDate || !data.endDate) return true; // Let required validation handle empty dates
-  const startDate = new Date(data.startDate);
-  const endDate = new Date(data.endDate);
-  return endDate >= startDate;
-}, {
-  message: "End date must be equal to or later than start date",
-  path: ["endDate"]
-}).refine((data) => {
-  // Validate that maximum price is greater than or equal to minimum price
-  if (data.priceRangeMin && data.priceRangeMax) {
-    return data.priceRangeMax >= data.priceRangeMin;
-  }
-  return true;
-}, {
-  message: "Maximum price must be equal to or greater than minimum price",
-  path: ["priceRangeMax"]
-}).refine((data) => {
-  // Validate that maximum age is greater than or equal to minimum age
-  if (data.ageRangeMin && data.ageRangeMax) {
-    return data.ageRangeMax >= data.ageRangeMin;
-  }
-  return true;
-}, {
-  message: "Maximum age must be equal to or greater than minimum age",
-  path: ["ageRangeMax"]
-}).refine((data) => {
-  // Coupon ads (serveStrategy=2) require a location match to ever serve (guide §5/§7).
-  if (data.serveStrategy === 2) {
-    return data.location && Object.keys(data.location).length > 0;
-  }
-  return true;
-}, {
-  message: "Coupon ads require at least one location, or they never serve.",
-  path: ["location"]
-});
-
-
 // ── Gender (guide §4): API stores only u / m / f. Anything else is rejected on
 // create, so the form must speak u/m/f — not the old Male/Female/Other/NA.
 const GENDER_OPTIONS = [
@@ -240,24 +159,6 @@ const GENDER_OPTIONS = [
   { value: 'f', label: 'Female only', hint: 'Serves only to users resolved as female' },
 ] as const;
 
-// Map any legacy/stored gender value onto the canonical u/m/f the form understands.
-const toFormGender = (raw: unknown): string => {
-  const v = String(raw ?? '').trim().toLowerCase();
-  if (v === 'm' || v === 'male') return 'm';
-  if (v === 'f' || v === 'female') return 'f';
-  return 'u'; // u, na, '', other, or anything unrecognized → unrestricted
-};
-
-// Convert the form's u/m/f to the shape each API version expects on write:
-// V2 stores u/m/f; V1 uses the legacy Male / Female / NA (NA = all genders).
-const toApiGender = (raw: unknown): string => {
-  const g = toFormGender(raw);
-  if (isV2Active()) return g;
-  if (g === 'm') return 'Male';
-  if (g === 'f') return 'Female';
-  return 'NA';
-};
-
 // serveStrategy (guide §7): the five real ad types and what each does when served.
 const SERVE_STRATEGIES = [
   { value: 0, label: 'Banner', icon: ImageIcon, tone: 'violet', desc: 'Creative + landing URL only. No product list.' },
@@ -267,16 +168,8 @@ const SERVE_STRATEGIES = [
   { value: 4, label: 'Category-locked', icon: Lock, tone: 'plum', desc: "Banner that serves only when the request's category is in this ad's categories." },
 ] as const;
 
-// ── Date helpers: the form stores dates as local YYYY-MM-DD strings. Parse/format
-// via local Y/M/D parts to avoid the UTC-midnight timezone shift.
-const ymdToDate = (s?: string): Date | undefined => {
-  if (!s) return undefined;
-  const [y, m, d] = s.split('-').map(Number);
-  if (!y || !m || !d) return undefined;
-  return new Date(y, m - 1, d);
-};
-const dateToYmd = (d: Date): string =>
-  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+// ── Date helpers: the form stores dates as YYYY-MM-DD strings; ymdToDate /
+// dateToYmd (utils/dates) go through local Y/M/D parts to avoid the UTC-midnight shift.
 const formatDateDisplay = (s?: string): string => {
   const d = ymdToDate(s);
   if (!d) return '';
@@ -341,7 +234,6 @@ function VelvetDatePicker({
   );
 }
 
-type AdFormData = z.infer<typeof adSchema>;
 
 
 export function AdForm() {
@@ -349,6 +241,7 @@ export function AdForm() {
   const { adId } = useParams<{ adId?: string }>();
   const isEditMode = !!adId;
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { canEdit } = usePermissions();
 
   // Redirect view-only users
@@ -386,6 +279,24 @@ export function AdForm() {
   const OC_TRACKING_END_DATE = '2099-12-31';
   const OC_TRACKING_PIXEL_PLACEHOLDER = 'https://buyhatke.com/_oc_tracking';
   const [isOCTracking, setIsOCTracking] = useState(false);
+  // Serve-impact lint: acknowledged rule ids, and the validated values of a
+  // save that is parked until the editor acknowledges the outstanding issues.
+  const [lintOpen, setLintOpen] = useState(false);
+  const [acknowledgedLint, setAcknowledgedLint] = useState<Set<string>>(() => new Set());
+  const [pendingSubmit, setPendingSubmit] = useState<AdFormData | null>(null);
+  // The ad as loaded in edit mode, so saves can be recorded in its change history
+  const [loadedAd, setLoadedAd] = useState<Ad | null>(null);
+  // Edit-mode save waiting on the field-by-field confirmation
+  const [pendingUpdate, setPendingUpdate] = useState<{ body: Record<string, unknown>; changes: AdFieldChange[] } | null>(null);
+  // Ad templates: the ones available to apply, the one in use, and the values
+  // captured when "Save as template" was opened.
+  const [templates] = useState<AdTemplate[]>(() => (isEditMode ? [] : adTemplateService.getTemplates()));
+  const [initialTemplate] = useState<AdTemplate | null>(() => {
+    const templateId = searchParams.get('template');
+    return !isEditMode && templateId ? adTemplateService.getTemplate(templateId) ?? null : null;
+  });
+  const [appliedTemplateName, setAppliedTemplateName] = useState(initialTemplate?.name ?? '');
+  const [templateSource, setTemplateSource] = useState<AdTemplateSource | null>(null);
 
   const form = useForm<AdFormData>({
     resolver: zodResolver(adSchema),
@@ -406,8 +317,8 @@ export function AdForm() {
       ageRangeMin: 0,
       ageRangeMax: 18,
       priority: 500,
-      startDate: new Date().toISOString().split('T')[0],
-      endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      startDate: todayYmd(),
+      endDate: addDays(todayYmd(), 30),
       startTime: '', // Blank by default
       endTime: '', // Blank by default
       creativeUrl: '',
@@ -425,9 +336,51 @@ export function AdForm() {
       status: 1,
       isTestPhase: 0,
       serveStrategy: 0,
-      isModelType: 0
+      isModelType: 0,
+      // New ads opened from the Ad Templates page arrive with ?template=<id>
+      ...(initialTemplate ? templateToFormValues(adTemplateService.forCurrentEnvironment(initialTemplate).source) : {})
     }
   });
+
+  const warnSlotDropped = (template: AdTemplate) =>
+    toast.warning(`"${template.name}" was saved on ${template.environment ?? 'another environment'}${template.apiVersion ? ` · ${template.apiVersion}` : ''}, so its slot was left out — pick one for this environment`);
+
+  // A template opened via ?template= is applied in defaultValues, before any toast can show
+  useEffect(() => {
+    if (initialTemplate && adTemplateService.forCurrentEnvironment(initialTemplate).slotDropped) warnSlotDropped(initialTemplate);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const applyTemplate = (template: AdTemplate) => {
+    const { source, slotDropped } = adTemplateService.forCurrentEnvironment(template);
+    const values = templateToFormValues(source);
+    (Object.keys(values) as Array<keyof AdFormData>).forEach((key) => {
+      form.setValue(key, values[key] as never, { shouldDirty: true, shouldValidate: form.formState.isSubmitted });
+    });
+    if (values.creativeUrl) setPreviewUrl(values.creativeUrl);
+    setAgeRange([form.getValues('ageRangeMin') || 0, form.getValues('ageRangeMax') || 18]);
+    setAppliedTemplateName(template.name);
+    toast.success(`Applied template "${template.name}"`);
+    if (slotDropped) warnSlotDropped(template);
+  };
+
+  // Autosaved draft of this form, keyed by route and environment
+  const draftLabel = form.watch('label');
+  const { draft, guardNavigate, clearDraft } = useFormDraft({
+    form,
+    kind: 'ad',
+    title: `${isEditMode ? 'Edit ad' : 'New ad'} · ${draftLabel || (isEditMode ? `#${adId}` : 'untitled')}${campaignName ? ` (${campaignName})` : ''}`,
+    ready: !formLoading && (!isEditMode || !!loadedAd),
+    extra: { otherDetailsFields, isOCTracking },
+    onRestore: (values, extra) => {
+      setPreviewUrl(values.creativeUrl || '');
+      setLogoPreviewUrl(values.logo || '');
+      setAgeRange([values.ageRangeMin || 0, values.ageRangeMax || 18]);
+      if (Array.isArray(extra.otherDetailsFields)) setOtherDetailsFields(extra.otherDetailsFields);
+      setIsOCTracking(extra.isOCTracking === true);
+      toast.success('Draft restored');
+    },
+  });
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -550,13 +503,13 @@ export function AdForm() {
 
   const fetchSlots = async () => {
     try {
-      const response = await fetch(`${buildApiUrl('/slots')}?isActive=1`);
-      if (!response.ok) throw new Error('Failed to fetch slots');
+      const result = await slotService.getSlots(undefined, 1);
+      if (!result.success) throw new Error(result.message);
 
-      const result = await response.json();
-      if (result.status === 1 && result.data?.slotList) {
-        setSlots(result.data.slotList);
-        setFilteredSlots(result.data.slotList); // Initialize filtered slots
+      if (result.data) {
+        const slotList = result.data as Slot[];
+        setSlots(slotList);
+        setFilteredSlots(slotList); // Initialize filtered slots
 
         // If editing and we have an adId, set the selected slot after form data is loaded
         if (isEditMode && adId) {
@@ -600,16 +553,11 @@ export function AdForm() {
 
         // Fetch campaign name
         if (campaignId) {
-          try {
-            const response = await fetch(`${buildApiUrl('/campaigns')}?campaignId=${campaignId}`);
-            if (response.ok) {
-              const result = await response.json();
-              if (result.status === 1 && result.data?.campaignList?.[0]) {
-                setCampaignName(result.data.campaignList[0].brandName);
-              }
-            }
-          } catch (error) {
-            console.error('Error fetching campaign name:', error);
+          const result = await campaignService.getCampaigns({ campaignId });
+          if (result.success && result.data?.[0]) {
+            setCampaignName(result.data[0].brandName || '');
+          } else if (!result.success) {
+            console.error('Error fetching campaign name:', result.message);
           }
         }
 
@@ -622,25 +570,12 @@ export function AdForm() {
           try {
             setFormLoading(true);
 
-            const params = new URLSearchParams({
-              campaignId: campaignId || '',
-              slotId: '',
-              adId: adId,
-              status: ''
-            });
+            const result = await adService.getAds({ campaignId, adId });
+            if (!result.success) throw new Error(result.message);
 
-            const response = await fetch(
-              `${buildApiUrl('/ads')}?${params.toString()}`
-            );
-
-            if (!response.ok) {
-              throw new Error('Failed to fetch ad');
-            }
-
-            const result = await response.json();
-
-            if (result.status === 1 && result.data?.adsList?.[0]) {
-              const adData = normalizeAd(result.data.adsList[0]);
+            if (result.data?.adsList?.[0]) {
+              const adData = result.data.adsList[0];
+              setLoadedAd(mapApiAdToAd(adData as ApiAd));
 
               // Transform categories from API format to form format
               let categoriesForForm: { selections: Array<{ path: Array<{ catId: number; catName: string }>; selected: { catId: number; catName: string } }> } = { selections: [] };
@@ -812,99 +747,122 @@ if (currentSlotId && slots.length > 0 && (!selectedSlot || !slotMatches(selected
     if (!form.getValues('targetUrl')) form.setValue('targetUrl', 'https://buyhatke.com/');
   };
 
-  const onSubmit = async (data: AdFormData) => {
-    console.log('🚀 onSubmit called with data:', data);
-    try {
-      setLoading(true);
-      // Safety latch: if the OC-tracking toggle is on, re-apply the safety fields
-      // server-side regardless of any post-toggle edits. This is the only thing
-      // that keeps the stub ad from accidentally going live.
-      if (isOCTracking) {
-        const trackingSlot = slots.find((s) => s.name === OC_TRACKING_SLOT_NAME);
-        data = {
-          ...data,
-          slotId: trackingSlot?.slotId || data.slotId,
-          status: 0,
-          isTestPhase: 1,
-          endDate: OC_TRACKING_END_DATE,
-        };
-      }
-      const url = isEditMode
-? `${buildApiUrl('/ads/update')}?userId=1`
-          : `${buildApiUrl('/ads')}?userId=1`;
-
-      const method = 'POST';
-
-      // Transform categories from selections format to {catId: catName}
-      let transformedCategories: Record<number, string> = {};
-      if (typeof data.categories === 'object' && 'selections' in data.categories) {
-        const categoryPath = data.categories as CategoryPath;
-        categoryPath.selections.forEach((selection) => {
-          transformedCategories[selection.selected.catId] = selection.selected.catName;
-        });
-      } else if (typeof data.categories === 'object') {
-        transformedCategories = data.categories as unknown as Record<number, string>;
-      }
-
-      // Build otherDetails object from key-value pairs
-      const parsedOtherDetails: Record<string, any> = {};
-      otherDetailsFields.forEach(field => {
-        if (field.key.trim()) {
-          // Try to parse value as JSON, if it fails use as string
-          try {
-            parsedOtherDetails[field.key] = JSON.parse(field.value);
-          } catch {
-            // Replace literal '\n' typed by user with actual newline character
-            parsedOtherDetails[field.key] = field.value.replace(/\\n/g, '\n');
-          }
-        }
+  // Builds the create/update body from validated form values.
+  const buildAdBody = (data: AdFormData) => {
+    // Safety latch: if the OC-tracking toggle is on, re-apply the safety fields
+    // server-side regardless of any post-toggle edits. This is the only thing
+    // that keeps the stub ad from accidentally going live.
+    if (isOCTracking) {
+      const trackingSlot = slots.find((s) => s.name === OC_TRACKING_SLOT_NAME);
+      data = {
+        ...data,
+        slotId: trackingSlot?.slotId || data.slotId,
+        status: 0,
+        isTestPhase: 1,
+        endDate: OC_TRACKING_END_DATE,
+      };
+    }
+    // Transform categories from selections format to {catId: catName}
+    let transformedCategories: Record<number, string> = {};
+    if (typeof data.categories === 'object' && 'selections' in data.categories) {
+      const categoryPath = data.categories as CategoryPath;
+      categoryPath.selections.forEach((selection) => {
+        transformedCategories[selection.selected.catId] = selection.selected.catName;
       });
+    } else if (typeof data.categories === 'object') {
+      transformedCategories = data.categories as unknown as Record<number, string>;
+    }
 
-      const { slotId: formSlotId, ...restData } = data;
-
-      // Both V1 and V2 create/update expect `slotId`. In V2 the slot field actually
-      // carries a `slotType` (multiple slots share a slotType, so the picker dedupes
-      // by it) — but the API requires a concrete slot UUID, which it validates and
-      // then derives `slotType` from. Resolve the selected value back to a real slot
-      // UUID: match a slot by id first (OC-tracking path already sets a UUID), then
-      // fall back to any slot with that slotType.
-      let outgoingSlotId: string | number = formSlotId;
-      if (isV2Active()) {
-        const matched =
-          slots.find(s => String(s.slotId) === String(formSlotId)) ||
-          slots.find(s => String(s.slotType) === String(formSlotId));
-        if (matched) outgoingSlotId = matched.slotId;
+    // Build otherDetails object from key-value pairs
+    const parsedOtherDetails: Record<string, any> = {};
+    otherDetailsFields.forEach(field => {
+      if (field.key.trim()) {
+        // Try to parse value as JSON, if it fails use as string
+        try {
+          parsedOtherDetails[field.key] = JSON.parse(field.value);
+        } catch {
+          // Replace literal '\n' typed by user with actual newline character
+          parsedOtherDetails[field.key] = field.value.replace(/\\n/g, '\n');
+        }
       }
+    });
 
-      const body = {
-        ...restData,
-        slotId: outgoingSlotId,
-        gender: toApiGender(data.gender), // V2 → u/m/f; V1 → Male/Female/NA
-        categories: transformedCategories,
-        campaignId: normalizeRouteId(campaignId),
-        logo: data.logo || '',
-        otherDetails: parsedOtherDetails,
-        ...(isEditMode && { adId: isV2Active() ? adId : Number(adId) })
-      };
+    const { slotId: formSlotId, ...restData } = data;
+
+    // Both V1 and V2 create/update expect `slotId`. In V2 the slot field actually
+    // carries a `slotType` (multiple slots share a slotType, so the picker dedupes
+    // by it) — but the API requires a concrete slot UUID, which it validates and
+    // then derives `slotType` from. Resolve the selected value back to a real slot
+    // UUID: match a slot by id first (OC-tracking path already sets a UUID), then
+    // fall back to any slot with that slotType.
+    let outgoingSlotId: string | number = formSlotId;
+    if (isV2Active()) {
+      const matched =
+        slots.find(s => String(s.slotId) === String(formSlotId)) ||
+        slots.find(s => String(s.slotType) === String(formSlotId));
+      if (matched) outgoingSlotId = matched.slotId;
+    }
 
-      const response = await fetch(url, {
-        method,
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body)
-      });
+    return {
+      ...restData,
+      slotId: outgoingSlotId,
+      gender: toApiGender(data.gender), // V2 → u/m/f; V1 → Male/Female/NA
+      categories: transformedCategories,
+      campaignId: normalizeRouteId(campaignId),
+      logo: data.logo || '',
+      otherDetails: parsedOtherDetails,
+      ...(isEditMode && { adId: isV2Active() ? adId : Number(adId) })
+    };
+  };
+
+  const onSubmit = async (data: AdFormData) => {
+    console.log('🚀 onSubmit called with data:', data);
+    const body = buildAdBody(data);
+
+    // Edit mode confirms the field-level diff against the loaded ad first
+    if (isEditMode && loadedAd) {
+      setPendingUpdate({ body, changes: diffAdEdit(adToUpdateData(loadedAd), body) });
+      return;
+    }
+    await saveAd(body);
+  };
 
-      if (!response.ok) throw new Error(`Failed to ${isEditMode ? 'update' : 'create'} ad`);
+  // V2 /ads/update keeps every field that isn't sent, so an edit sends only the
+  // changed fields; V1 replaces the record and still needs the whole ad.
+  const confirmUpdate = async () => {
+    if (!pendingUpdate) return;
+    const { body, changes } = pendingUpdate;
+    const payload = isV2Active()
+      ? {
+          adId: body.adId,
+          campaignId: body.campaignId,
+          ...Object.fromEntries(changes.map((c) => [c.field, body[c.field]])),
+        }
+      : body;
+    const saved = await saveAd(payload);
+    if (saved) setPendingUpdate(null);
+  };
+
+  const saveAd = async (body: Record<string, unknown>): Promise<boolean> => {
+    try {
+      setLoading(true);
+      const result = isEditMode
+        ? await adService.updateAd(body.adId as string | number, body as UpdateAdData)
+        : await adService.createAd(body as unknown as CreateAdData);
 
-      const result = await response.json();
-      if (result.status === 1) {
+      if (result.success) {
+        if (isEditMode && loadedAd) adHistoryService.record(loadedAd, 'update', body);
         toast.success(`Ad ${isEditMode ? 'updated' : 'created'} successfully`);
+        clearDraft();
         navigate(`/campaigns/${campaignId}/ads`);
+        return true;
       } else {
         throw new Error(result.message || 'Operation failed');
       }
     } catch (error) {
       console.error(`Error ${isEditMode ? 'updating' : 'creating'} ad:`, error);
       toast.error(`Failed to ${isEditMode ? 'update' : 'create'} ad: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     } finally {
       setLoading(false);
     }
@@ -912,6 +870,19 @@ if (currentSlotId && slots.length > 0 && (!selectedSlot || !slotMatches(selected
 
 
 
+  // OC-tracking rows are deliberately unservable, so the serve lint is skipped for them.
+  const handleValidSubmit = (data: AdFormData) => {
+    if (!isOCTracking && unacknowledgedIssues(lintServeImpact(data), acknowledgedLint).length > 0) {
+      setPendingSubmit(data);
+      setLintOpen(true);
+      return;
+    }
+    onSubmit(data);
+  };
+
+  const lintIssues = isOCTracking ? [] : lintServeImpact(form.watch());
+  const lintOutstanding = unacknowledgedIssues(lintIssues, acknowledgedLint).length;
+
   // Date validation handler
   const handleDateChange = (field: 'startDate' | 'endDate', value: string) => {
     form.setValue(field, value);
@@ -1046,7 +1017,7 @@ if (currentSlotId && slots.length > 0 && (!selectedSlot || !slotMatches(selected
             <div className="flex items-center gap-3 sm:gap-4">
               <VelvetBackButton
                 label="Back"
-                onClick={() => navigate(`/campaigns/${campaignId}/ads`)}
+                onClick={() => guardNavigate(`/campaigns/${campaignId}/ads`)}
               />
               <div className="min-w-0">
                 <h1 className="halo-title !text-lg sm:!text-xl">
@@ -1057,7 +1028,26 @@ if (currentSlotId && slots.length > 0 && (!selectedSlot || !slotMatches(selected
                 </p>
               </div>
             </div>
-            <div className="flex items-center">
+            <div className="flex flex-wrap items-center gap-2">
+              {!isEditMode && templates.length > 0 && (
+                <Select
+                  value=""
+                  onValueChange={(id) => {
+                    const template = templates.find((t) => t.id === id);
+                    if (template) applyTemplate(template);
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-[200px] text-[12.5px]">
+                    <LayoutTemplate className="mr-1.5 h-3.5 w-3.5 shrink-0 text-[var(--h-ink-3)]" strokeWidth={1.75} />
+                    <SelectValue placeholder={appliedTemplateName ? `Template: ${appliedTemplateName}` : 'Apply template…'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               <span className="halo-badge halo-badge-iris">
                 {isEditMode ? 'Edit mode' : 'Create mode'}
               </span>
@@ -1065,6 +1055,8 @@ if (currentSlotId && slots.length > 0 && (!selectedSlot || !slotMatches(selected
           </div>
         </motion.div>
 
+        <FormDraftPrompts draft={draft} />
+
         {/* OC-newest tracking mode toggle */}
         <motion.div
           initial={{ opacity: 0, y: -8 }}
@@ -1088,7 +1080,7 @@ if (currentSlotId && slots.length > 0 && (!selectedSlot || !slotMatches(selected
         </motion.div>
 
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit, (errors) => {
+          <form onSubmit={form.handleSubmit(handleValidSubmit, (errors) => {
             console.error('Form validation errors:', errors);
             const firstError = Object.values(errors)[0];
             if (firstError?.message) {
@@ -2553,7 +2545,29 @@ if (currentSlotId && slots.length > 0 && (!selectedSlot || !slotMatches(selected
             >
               <button
                 type="button"
-                onClick={() => navigate(`/campaigns/${campaignId}/ads`)}
+                onClick={() => setLintOpen(true)}
+                className="btn-halo-outline order-3 sm:order-none sm:mr-auto"
+              >
+                <ShieldAlert className="h-4 w-4" strokeWidth={1.75} />
+                Serve check
+                {lintIssues.length > 0 && (
+                  <span className={lintOutstanding > 0 ? 'halo-badge halo-badge-warn' : 'halo-badge'}>
+                    {lintOutstanding > 0 ? `${lintOutstanding} to review` : lintIssues.length}
+                  </span>
+                )}
+              </button>
+              <button
+                type="button"
+                onClick={() => setTemplateSource(templateSourceFromForm(form.getValues()))}
+                disabled={loading}
+                className="btn-halo-ghost order-4 sm:order-none"
+              >
+                <LayoutTemplate className="h-4 w-4" strokeWidth={1.75} />
+                Save as template
+              </button>
+              <button
+                type="button"
+                onClick={() => guardNavigate(`/campaigns/${campaignId}/ads`)}
                 disabled={loading}
                 className="btn-halo-ghost order-2 sm:order-1"
               >
@@ -2578,6 +2592,45 @@ if (currentSlotId && slots.length > 0 && (!selectedSlot || !slotMatches(selected
             </motion.div>
           </form>
         </Form>
+
+        <ServeLintPanel
+          open={lintOpen}
+          onOpenChange={(open) => {
+            setLintOpen(open);
+            if (!open) setPendingSubmit(null);
+          }}
+          issues={lintIssues}
+          acknowledged={acknowledgedLint}
+          onAcknowledgedChange={setAcknowledgedLint}
+          onConfirm={
+            pendingSubmit
+              ? () => {
+                  const data = pendingSubmit;
+                  setPendingSubmit(null);
+                  setLintOpen(false);
+                  onSubmit(data);
+                }
+              : undefined
+          }
+          confirmLabel={isEditMode ? 'Update ad' : 'Create ad'}
+        />
+
+        <AdTemplateSaveDialog
+          open={!!templateSource}
+          onOpenChange={(open) => !open && setTemplateSource(null)}
+          source={templateSource ?? { fields: {}, categoryNames: {} }}
+          defaultName={appliedTemplateName}
+        />
+
+        <AdUpdateConfirmDialog
+          open={!!pendingUpdate}
+          onOpenChange={(open) => !open && setPendingUpdate(null)}
+          changes={pendingUpdate?.changes ?? []}
+          partial={isV2Active()}
+          live={loadedAd?.status === 1}
+          saving={loading}
+          onConfirm={confirmUpdate}
+        />
       </div>
     </div>
   );
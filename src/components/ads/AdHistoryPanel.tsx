@@ -0,0 +1,188 @@
+import { useEffect, useState } from 'react';
+import { Download, FileJson, History, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AdChangeRows } from '@/components/ads/AdChangeRows';
+import { Ad } from '@/types';
+import { adService, UpdateAdData } from '@/services/adService';
+import { AD_CHANGE_ACTION_LABELS, AdChangeEntry, adHistoryService } from '@/services/adHistoryService';
+import { adToUpdateData } from '@/utils/adUtils';
+import { diffAdData } from '@/utils/adDiff';
+import { downloadJSON, exportToCsv } from '@/utils/csvExport';
+import { todayYmd } from '@/utils/dates';
+
+interface AdHistoryPanelProps {
+  ad: Ad;
+  canEdit: boolean;
+  /** Called after a version is re-applied, so the page can reload the ad. */
+  onRestored: () => void;
+}
+
+interface RestoreTarget {
+  entry: AdChangeEntry;
+  /** Which side of the entry to re-apply. */
+  side: 'before' | 'after';
+  payload: UpdateAdData;
+}
+
+const formatWhen = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Change history for one ad, as recorded locally by adHistoryService: who
+ * changed what and where, a field-by-field diff per change, and a way to
+ * re-apply the version before or after any recorded change.
+ */
+export function AdHistoryPanel({ ad, canEdit, onRestored }: AdHistoryPanelProps) {
+  const [entries, setEntries] = useState<AdChangeEntry[]>(() => adHistoryService.getEntries({ adId: ad.adId }));
+  const [target, setTarget] = useState<RestoreTarget | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  const reload = () => setEntries(adHistoryService.getEntries({ adId: ad.adId }));
+
+  // Status changes made from the page header are recorded while this panel is mounted.
+  useEffect(() => {
+    setEntries(adHistoryService.getEntries({ adId: ad.adId }));
+  }, [ad]);
+
+  const fileBase = `ad_${ad.adId}_history_${todayYmd()}`;
+  const canRestore = canEdit && ad.status !== -1;
+  const pendingChanges = target ? diffAdData(adToUpdateData(ad), target.payload) : [];
+
+  const handleRestore = async () => {
+    if (!target) return;
+    // Snapshots keep update fields only; /ads/update also needs the ad's id and
+    // a slotType matching the slot being restored.
+    const slotChanged = target.payload.slotId !== undefined && String(target.payload.slotId) !== String(ad.slotId);
+    const payload: UpdateAdData = {
+      ...adToUpdateData(ad),
+      ...target.payload,
+      adId: ad.adId,
+      slotType: slotChanged ? target.payload.slotId : ad.slotType ?? ad.slotId,
+    };
+    setRestoring(true);
+    const res = await adService.updateAd(ad.adId, payload);
+    setRestoring(false);
+    if (!res.success) {
+      toast.error(res.message || 'Failed to re-apply version');
+      return;
+    }
+    adHistoryService.record(
+      ad,
+      'restore',
+      payload,
+      `Re-applied the version ${target.side === 'before' ? 'before' : 'after'} the change of ${formatWhen(target.entry.timestamp)}`
+    );
+    toast.success('Version re-applied');
+    setTarget(null);
+    reload();
+    onRestored();
+  };
+
+  const handleClear = () => {
+    adHistoryService.clear(ad.adId);
+    reload();
+    toast.success('History cleared for this ad');
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="halo-inset flex items-center gap-3 p-4">
+        <span className="halo-chip"><History className="h-3.5 w-3.5" /></span>
+        <p className="text-[13px] text-[var(--h-ink-2)]">
+          No changes recorded for this ad in this browser yet. Edits, status changes, clones and archives made from the dashboard show up here.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-[12.5px] text-[var(--h-ink-2)]">
+          {entries.length} change{entries.length === 1 ? '' : 's'} recorded in this browser
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <button type="button" onClick={() => exportToCsv(adHistoryService.toCsvRows(entries), `${fileBase}.csv`)} className="btn-halo-outline btn-halo-sm">
+            <Download className="h-3.5 w-3.5" strokeWidth={1.75} />
+            CSV
+          </button>
+          <button type="button" onClick={() => downloadJSON(entries, `${fileBase}.json`)} className="btn-halo-outline btn-halo-sm">
+            <FileJson className="h-3.5 w-3.5" strokeWidth={1.75} />
+            JSON
+          </button>
+          <button type="button" onClick={handleClear} className="btn-halo-ghost btn-halo-sm text-[var(--h-coral)]">
+            <Trash2 className="h-3.5 w-3.5" strokeWidth={1.75} />
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <ol className="space-y-2.5">
+        {entries.map((entry) => (
+          <li key={entry.id} className="halo-inset space-y-2 p-3.5">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="halo-badge halo-badge-iris">{AD_CHANGE_ACTION_LABELS[entry.action]}</span>
+                <span className="text-[12.5px] font-semibold text-[var(--h-ink)]">{entry.user}</span>
+                <span className="num text-[12px] text-[var(--h-ink-3)]">{formatWhen(entry.timestamp)}</span>
+                <span className="halo-badge">{entry.environment} · {entry.apiVersion}</span>
+              </div>
+              {canRestore && entry.action !== 'clone' && (
+                <div className="flex items-center gap-1.5">
+                  <button
+                    type="button"
+                    onClick={() => setTarget({ entry, side: 'before', payload: entry.before })}
+                    className="btn-halo-ghost btn-halo-sm"
+                  >
+                    <RotateCcw className="h-3.5 w-3.5" strokeWidth={1.75} />
+                    Restore before
+                  </button>
+                  {entry.after && entry.action !== 'archive' && (
+                    <button
+                      type="button"
+                      onClick={() => entry.after && setTarget({ entry, side: 'after', payload: entry.after })}
+                      className="btn-halo-ghost btn-halo-sm"
+                    >
+                      Re-apply
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+            {entry.note && <p className="text-[12px] text-[var(--h-ink-2)]">{entry.note}</p>}
+            {entry.changes.length > 0 ? (
+              <AdChangeRows changes={entry.changes} />
+            ) : (
+              entry.action !== 'clone' && <p className="text-[12px] text-[var(--h-ink-3)]">No field changed.</p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      <Dialog open={!!target} onOpenChange={(open) => !open && !restoring && setTarget(null)}>
+        <DialogContent className="sm:max-w-lg halo-card rounded-[var(--h-r-xl)]">
+          <DialogHeader>
+            <DialogTitle className="halo-heading text-base">Re-apply this version?</DialogTitle>
+            <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+              The full version is sent as an update. Compared with the ad as it is now:
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {pendingChanges.length > 0 ? (
+              <AdChangeRows changes={pendingChanges} />
+            ) : (
+              <p className="halo-inset p-3 text-[12.5px] text-[var(--h-ink-2)]">This version matches the current ad.</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setTarget(null)} disabled={restoring} className="btn-halo-ghost btn-halo-sm">Cancel</button>
+            <button type="button" onClick={handleRestore} disabled={restoring || pendingChanges.length === 0} className="btn-halo btn-halo-sm">
+              {restoring ? 'Applying…' : 'Re-apply version'}
+            </button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import { Plus, Play, Pause, Edit, Copy, MoreHorizontal, Image as ImageIcon, ArrowLeft, RefreshCw, Download, TrendingUp, Eye, MousePointerClick, Search, X, AlertTriangle, Zap, Archive, Filter, Rows3 } from 'lucide-react';
+import { Plus, Play, Pause, Edit, Copy, MoreHorizontal, Image as ImageIcon, ArrowLeft, RefreshCw, Download, TrendingUp, Eye, MousePointerClick, Search, X, AlertTriangle, Zap, Archive, Filter, Rows3, Trophy, FileSpreadsheet, ListChecks } from 'lucide-react';
 import { StatusPill, type StatusKind } from '@/components/ui/status-pill';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -8,19 +8,24 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { ConfirmationModal } from '@/components/ui/confirmation-modal';
+import { Checkbox } from '@/components/ui/checkbox';
+import { AdBulkEditDialog } from '@/components/ads/AdBulkEditDialog';
 import { toast } from 'sonner';
-import { Ad, Slot, SlotListResponse, ApiAd, mapApiAdToAd } from '@/types';
+import { Ad, Slot, ApiAd, mapApiAdToAd } from '@/types';
 import { motion } from 'framer-motion';
 import { useTheme } from '@/context/ThemeContext';
 import { useNotifications } from '@/context/NotificationContext';
 import { analyticsService } from '@/services/analyticsService';
 import { adService } from '@/services/adService';
+import { campaignService } from '@/services/campaignService';
+import { slotService } from '@/services/slotService';
+import { adHistoryService } from '@/services/adHistoryService';
 import { exportToCsv } from '@/utils/csvExport';
-import { buildApiUrl } from '@/config/api';
-import { normalizeAdList, isV2Active } from '@/utils/v2Normalizer';
+import { isV2Active } from '@/utils/v2Normalizer';
 import { formatCount } from '@/lib/format';
 import { getPlatformName } from '@/utils/platform';
-import { extractCategoriesForUpdate, getCacheBustedUrl, toLocalDateInput } from '@/utils/adUtils';
+import { adToUpdateData, getCacheBustedUrl } from '@/utils/adUtils';
+import { todayYmd } from '@/utils/dates';
 import { usePermissions } from '@/context/PermissionsContext';
 import { useSpotlight } from '@/hooks/useSpotlight';
 import { useCountUp } from '@/hooks/useCountUp';
@@ -75,7 +80,7 @@ export function AdList() {
   const statusFilter = searchParams.get('status') || 'all';
   const [loading, setLoading] = useState(true);
   const [slots, setSlots] = useState<Record<string, any>>({});
-  const [campaign, setCampaign] = useState<{ brandName?: string; id?: number }>({});
+  const [campaign, setCampaign] = useState<{ brandName?: string; id?: number | string }>({});
   const [error, setError] = useState<string | null>(null);
   const [adMetrics, setAdMetrics] = useState<Record<string, { impressions: number; clicks: number; landingCount: number }>>({});
   const [confirmationModal, setConfirmationModal] = useState<{
@@ -83,6 +88,8 @@ export function AdList() {
     adId?: string | number;
     adName?: string;
   }>({ isOpen: false });
+  const [selectedAdIds, setSelectedAdIds] = useState<Set<string>>(() => new Set());
+  const [bulkEditOpen, setBulkEditOpen] = useState(false);
   // We use adService for auto-numbering, but don't need visual indicators in the UI
 
   useEffect(() => {
@@ -124,6 +131,7 @@ export function AdList() {
     };
 
     fetchData();
+    return () => analyticsService.cancelBatch('ad-list');
   }, [campaignId]);
 
   // Real-time performance monitoring for notifications
@@ -177,13 +185,12 @@ export function AdList() {
 
   const fetchSlots = async (): Promise<Record<string, any>> => {
     try {
-      const response = await fetch(buildApiUrl('/slots'));
-      if (!response.ok) throw new Error('Failed to fetch slots');
+      const result = await slotService.getSlots();
+      if (!result.success) throw new Error(result.message);
 
-      const result: SlotListResponse = await response.json();
-      if (result.status === 1 && result.data?.slotList) {
+      if (result.data) {
         const slotsMap: Record<string, any> = {};
-        result.data.slotList.forEach((slot: any) => {
+        result.data.forEach((slot: any) => {
           slotsMap[String(slot.slotId)] = slot;
           if (isV2Active() && slot.slotType) {
             slotsMap[String(slot.slotType)] = slot;
@@ -201,12 +208,11 @@ export function AdList() {
 
   const fetchCampaign = async () => {
     try {
-      const response = await fetch(`${buildApiUrl('/campaigns')}?campaignId=${campaignId}`);
-      if (!response.ok) throw new Error('Failed to fetch campaign');
+      const result = await campaignService.getCampaigns({ campaignId });
+      if (!result.success) throw new Error(result.message);
 
-      const result = await response.json();
-      if (result.status === 1 && result.data?.campaignList?.[0]) {
-        const campaignData = result.data.campaignList[0];
+      if (result.data?.[0]) {
+        const campaignData = result.data[0];
         setCampaign({
           ...campaignData,
           id: isV2Active() ? (campaignId || '') : parseInt(campaignId || '0', 10)
@@ -223,28 +229,12 @@ export function AdList() {
       setLoading(true);
       setError(null);
 
-      // Build query parameters
-      const params = new URLSearchParams({
-        campaignId: campaignId || '',
-        slotId: '',
-        adId: '',
-        status: ''
-      });
-
-      const response = await fetch(
-        `${buildApiUrl('/ads')}?${params.toString()}`
-      );
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch ads');
-      }
-
-      const result = await response.json();
+      const result = await adService.getAds({ campaignId });
+      if (!result.success) throw new Error(result.message);
 
-      if (result.status === 1 && result.data?.adsList) {
+      if (result.data?.adsList) {
         // Enrich ads with slot information and map to the frontend Ad type
-        const adsList = normalizeAdList(result.data.adsList);
-        const enrichedAds = adsList.map((apiAd: ApiAd) => {
+        const enrichedAds = result.data.adsList.map((apiAd: ApiAd) => {
           const ad = mapApiAdToAd(apiAd);
           const slot = slotsMap[ad.slotId] ?? slotsMap[String((apiAd as any).slotType)];
           return {
@@ -257,8 +247,10 @@ export function AdList() {
         setAds(enrichedAds);
         setFilteredAds(enrichedAds);
 
-        // fetch live metrics for ads
-        const today = new Date().toISOString().split('T')[0];
+        // fetch live metrics for ads — one call per row, run through the analytics
+        // query pool; a refetch or leaving the page cancels the previous round
+        const batch = analyticsService.beginBatch('ad-list');
+        const today = todayYmd();
         const metricsPromises = enrichedAds.map((ad: Ad) => {
           const fromDate = ad.createdAt.split('T')[0];
           return analyticsService.getMetrics({
@@ -266,10 +258,11 @@ export function AdList() {
             to: today,
             campaignId: (campaignId ? (isV2Active() ? campaignId : Number(campaignId)) : undefined) as any,
             adId: ad.adId as any
-          });
+          }, batch.signal);
         });
 
         const metricsResults = await Promise.all(metricsPromises);
+        if (batch.aborted) return;
 
         const newAdMetrics: Record<string, any> = {};
         metricsResults.forEach((resp, index) => {
@@ -315,6 +308,8 @@ export function AdList() {
       const response = await adService.cloneAd(adId, 1);
 
       if (response.success) {
+        const source = ads.find(a => a.adId === adId);
+        if (source) adHistoryService.record(source, 'clone', null, response.data?.adId ? `Cloned as ad #${response.data.adId}` : undefined);
         toast.success('Ad cloned successfully');
         fetchAds();
       } else {
@@ -342,6 +337,8 @@ export function AdList() {
       const response = await adService.archiveAd(confirmationModal.adId, 1);
 
       if (response.success) {
+        const archived = ads.find(a => a.adId === confirmationModal.adId);
+        if (archived) adHistoryService.record(archived, 'archive', { status: -1 });
         toast.success(`Ad "${confirmationModal.adName}" archived successfully`);
         fetchAds(); // Refresh the list
       } else {
@@ -386,7 +383,7 @@ export function AdList() {
       'Last Updated': ad.updatedAt ? new Date(ad.updatedAt).toLocaleDateString() : 'N/A'
     }));
 
-    const filename = `ads_campaign_${campaignId}_${new Date().toISOString().split('T')[0]}.csv`;
+    const filename = `ads_campaign_${campaignId}_${todayYmd()}.csv`;
     exportToCsv(csvData, filename);
     toast.success(`Exported ${filteredAds.length} ads to ${filename}`);
   };
@@ -400,60 +397,14 @@ export function AdList() {
         return;
       }
 
-      // Extract categories for payload
-      const categoriesPayload = extractCategoriesForUpdate(adToUpdate.categories);
-
       // Send full ad data to prevent backend from resetting missing fields
-      const response = await fetch(`${buildApiUrl('/ads/update')}?userId=1`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          adId,
-          campaignId: adToUpdate.campaignId,
-          name: adToUpdate.name,
-          label: adToUpdate.label,
-          slotType: adToUpdate.slotType ?? adToUpdate.slotId,
-          impressionTarget: adToUpdate.impressionTarget,
-          clickTarget: adToUpdate.clickTarget,
-          impressionPixel: adToUpdate.impressionPixel,
-          clickPixel: adToUpdate.clickPixel,
-          targetUrl: adToUpdate.targetUrl,
-          status: newStatus,
-          categories: categoriesPayload,
-          sites: adToUpdate.sites,
-          location: adToUpdate.location,
-          brandTargets: adToUpdate.brandTargets,
-          priceRangeMin: adToUpdate.priceRangeMin,
-          priceRangeMax: adToUpdate.priceRangeMax,
-          ageRangeMin: adToUpdate.ageRangeMin,
-          ageRangeMax: adToUpdate.ageRangeMax,
-          priority: adToUpdate.priority,
-          startDate: toLocalDateInput(adToUpdate.startDate),
-          startTime: adToUpdate.startTime,
-          endDate: toLocalDateInput(adToUpdate.endDate),
-          endTime: adToUpdate.endTime,
-          creativeUrl: adToUpdate.creativeUrl,
-          logo: adToUpdate.logo || '',
-          otherDetails: adToUpdate.otherDetails || {},
-          gender: adToUpdate.gender,
-          isTestPhase: adToUpdate.isTestPhase,
-          serveStrategy: adToUpdate.serveStrategy,
-          isModelType: adToUpdate.isModelType,
-          couponCode: adToUpdate.couponCode || '',
-          impressionCharge: adToUpdate.impressionCharge ?? 0,
-          clickCharge: adToUpdate.clickCharge ?? 0,
-          minBid: adToUpdate.minBid ?? 0,
-          maxBid: adToUpdate.maxBid ?? 0,
-          bidModel: adToUpdate.bidModel ?? 0,
-        })
-      });
-
-      if (!response.ok) throw new Error('Failed to update ad status');
-
-      const result = await response.json();
-      if (result.status === 1) {
+      const result = await adService.updateAd(adId, { ...adToUpdateData(adToUpdate), status: newStatus });
+      if (result.success) {
+        adHistoryService.record(adToUpdate, 'status', { status: newStatus });
         toast.success(`Ad ${newStatus === 1 ? 'activated' : 'paused'} successfully`, { id: 'ad-status' });
         fetchAds();
+      } else {
+        toast.error(result.message || 'Failed to update ad status', { id: 'ad-status' });
       }
     } catch (error) {
       console.error('Error updating ad status:', error);
@@ -490,6 +441,29 @@ export function AdList() {
 
   // Auto-numbering is handled by the adService.getSuggestedAdName function
 
+  // Bulk selection: archived ads can't be edited, so they are never selectable.
+  const selectableAds = canEdit ? filteredAds.filter(ad => ad.status !== -1) : [];
+  const selectedAds = ads.filter(ad => selectedAdIds.has(String(ad.adId)));
+  const allVisibleSelected = selectableAds.length > 0 && selectableAds.every(ad => selectedAdIds.has(String(ad.adId)));
+  const someVisibleSelected = selectableAds.some(ad => selectedAdIds.has(String(ad.adId)));
+
+  const toggleAdSelected = (adId: string | number, checked: boolean) => {
+    setSelectedAdIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(String(adId));
+      else next.delete(String(adId));
+      return next;
+    });
+  };
+
+  const toggleAllVisible = (checked: boolean) => {
+    setSelectedAdIds(prev => {
+      const next = new Set(prev);
+      selectableAds.forEach(ad => (checked ? next.add(String(ad.adId)) : next.delete(String(ad.adId))));
+      return next;
+    });
+  };
+
   // Calculate summary stats
   const totalAds = ads.length;
   const activeAds = ads.filter(ad => ad.status === 1).length;
@@ -783,6 +757,22 @@ export function AdList() {
                 <Download className="h-3.5 w-3.5" strokeWidth={1.75} />
                 Export
               </button>
+              <button
+                onClick={() => navigate(`/serve-simulator?campaignId=${campaignId}`)}
+                className="btn-halo-ghost btn-halo-sm"
+              >
+                <Trophy className="h-3.5 w-3.5" strokeWidth={1.75} />
+                Simulate serve
+              </button>
+              {canEdit && (
+                <button
+                  onClick={() => navigate(`/campaigns/${campaignId}/ads/bulk`)}
+                  className="btn-halo-outline btn-halo-sm"
+                >
+                  <FileSpreadsheet className="h-3.5 w-3.5" strokeWidth={1.75} />
+                  Bulk import
+                </button>
+              )}
               {canEdit && (
                 <button
                   onClick={() => navigate(`/campaigns/${campaignId}/ads/new`)}
@@ -927,6 +917,30 @@ export function AdList() {
           </motion.div>
         )}
 
+        {canEdit && selectedAds.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="halo-card p-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3"
+          >
+            <div className="flex items-center gap-2">
+              <span className="halo-chip"><ListChecks size={16} strokeWidth={1.75} /></span>
+              <span className="text-sm font-medium text-[var(--h-ink)]">
+                <span className="num">{selectedAds.length}</span> {selectedAds.length === 1 ? 'ad' : 'ads'} selected
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={() => setSelectedAdIds(new Set())} className="btn-halo-ghost btn-halo-sm">
+                Clear
+              </button>
+              <button onClick={() => setBulkEditOpen(true)} className="btn-halo btn-halo-sm">
+                <Edit className="h-3.5 w-3.5" strokeWidth={1.75} />
+                Edit selected
+              </button>
+            </div>
+          </motion.div>
+        )}
+
         {/* Ads Content */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -947,6 +961,16 @@ export function AdList() {
               <Table className="halo-table min-w-full">
                 <TableHeader>
                   <TableRow className="hover:bg-transparent">
+                    {canEdit && (
+                      <TableHead className="w-[44px] pl-4">
+                        <Checkbox
+                          aria-label="Select all ads"
+                          checked={allVisibleSelected ? true : someVisibleSelected ? 'indeterminate' : false}
+                          disabled={selectableAds.length === 0}
+                          onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                        />
+                      </TableHead>
+                    )}
                     <TableHead className="w-[100px] px-4">
                       Creative
                     </TableHead>
@@ -990,7 +1014,7 @@ export function AdList() {
                 <TableBody>
                   {filteredAds.length === 0 ? (
                     <TableRow className="hover:bg-transparent">
-                      <TableCell colSpan={12} className="h-32 text-center">
+                      <TableCell colSpan={canEdit ? 13 : 12} className="h-32 text-center">
                         <div className="flex flex-col items-center justify-center gap-2 py-6">
                           <span className="halo-chip-lg"><ImageIcon size={20} strokeWidth={1.75} /></span>
                           <span className="halo-heading">
@@ -1033,6 +1057,16 @@ export function AdList() {
                           onClick={() => navigate(`/campaigns/${campaignId}/ads/${ad.adId}`)}
                           className="group cursor-pointer"
                         >
+                          {canEdit && (
+                            <TableCell className="pl-4" onClick={(e) => e.stopPropagation()}>
+                              <Checkbox
+                                aria-label={`Select ${ad.name}`}
+                                checked={selectedAdIds.has(String(ad.adId))}
+                                disabled={ad.status === -1}
+                                onCheckedChange={(checked) => toggleAdSelected(ad.adId, checked === true)}
+                              />
+                            </TableCell>
+                          )}
                           <TableCell className="p-3">
                             <div className="h-14 w-20 flex items-center justify-center overflow-hidden halo-inset">
                               {ad.creativeUrl ? (
@@ -1243,6 +1277,16 @@ export function AdList() {
         </motion.div>
       </div>
 
+      <AdBulkEditDialog
+        open={bulkEditOpen}
+        onOpenChange={setBulkEditOpen}
+        ads={selectedAds}
+        onApplied={() => {
+          setSelectedAdIds(new Set());
+          fetchAds();
+        }}
+      />
+
       {/* Confirmation Modal */}
       <ConfirmationModal
         isOpen={confirmationModal.isOpen}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { adTemplateService } from '@/services/adTemplateService';
+import { AD_FIELD_LABELS } from '@/utils/adDiff';
+import { AD_TEMPLATE_FIELD_GROUPS, AdTemplateField, AdTemplateSource, pickTemplateFields, templateFieldText } from '@/utils/adTemplates';
+
+interface AdTemplateSaveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Everything the ad or form currently has; the user picks the subset to keep. */
+  source: AdTemplateSource;
+  defaultName?: string;
+}
+
+const defaultSelection = (source: AdTemplateSource) =>
+  new Set<AdTemplateField>(
+    AD_TEMPLATE_FIELD_GROUPS.filter((g) => g.selectedByDefault)
+      .flatMap((g) => g.fields)
+      .filter((f) => source.fields[f] !== undefined)
+  );
+
+/** Save the current ad or form values as a named template, choosing which fields it carries. */
+export function AdTemplateSaveDialog({ open, onOpenChange, source, defaultName = '' }: AdTemplateSaveDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl halo-card rounded-[var(--h-r-xl)] p-0 overflow-hidden">
+        {/* Content unmounts while closed, so every open starts from the current source. */}
+        <TemplateSaveForm source={source} defaultName={defaultName} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TemplateSaveForm({ source, defaultName, onDone }: { source: AdTemplateSource; defaultName: string; onDone: () => void }) {
+  const [name, setName] = useState(defaultName);
+  const [description, setDescription] = useState('');
+  const [selected, setSelected] = useState<Set<AdTemplateField>>(() => defaultSelection(source));
+
+  const nameTaken = name.trim() !== '' && adTemplateService.nameTaken(name);
+
+  const toggle = (fields: AdTemplateField[], checked: boolean) => {
+    const next = new Set(selected);
+    fields.forEach((f) => (checked ? next.add(f) : next.delete(f)));
+    setSelected(next);
+  };
+
+  const handleSave = () => {
+    const res = adTemplateService.saveTemplate({ name, description, ...pickTemplateFields(source, selected) }, true);
+    if (!res.success) {
+      toast.error(res.message || 'Failed to save template');
+      return;
+    }
+    toast.success(`Template "${res.data?.name}" saved`);
+    onDone();
+  };
+
+  return (
+    <>
+      <DialogHeader className="px-5 pt-5">
+        <DialogTitle className="halo-heading text-base">Save as template</DialogTitle>
+        <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+          Pick the fields to reuse. New ads started from this template are pre-filled with them.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="max-h-[60vh] space-y-4 overflow-y-auto px-5 py-4">
+        <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+          <label className="space-y-1.5">
+            <span className="halo-label">Name</span>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Male · Maharashtra · electronics" />
+            {nameTaken && <p className="text-[11.5px] text-[var(--h-amber)]">Saving replaces the existing template with this name.</p>}
+          </label>
+          <label className="space-y-1.5">
+            <span className="halo-label">Description</span>
+            <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Optional" />
+          </label>
+        </div>
+
+        {AD_TEMPLATE_FIELD_GROUPS.map((group) => {
+          const available = group.fields.filter((f) => source.fields[f] !== undefined);
+          if (available.length === 0) return null;
+          const allChecked = available.every((f) => selected.has(f));
+          const someChecked = available.some((f) => selected.has(f));
+          return (
+            <section key={group.id} className="halo-inset space-y-2 p-3">
+              <label className="flex cursor-pointer items-center gap-2">
+                <Checkbox
+                  checked={allChecked ? true : someChecked ? 'indeterminate' : false}
+                  onCheckedChange={(c) => toggle(available, c === true)}
+                />
+                <span className="halo-eyebrow">{group.label}</span>
+              </label>
+              <div className="space-y-1.5 pl-6">
+                {available.map((field) => (
+                  <label key={field} className="grid cursor-pointer grid-cols-[16px_120px_1fr] items-start gap-2 text-[12px]">
+                    <Checkbox checked={selected.has(field)} onCheckedChange={(c) => toggle([field], c === true)} />
+                    <span className="text-[var(--h-ink-3)]">{AD_FIELD_LABELS[field] ?? field}</span>
+                    <span className="break-all text-[var(--h-ink)]">{templateFieldText(source, field)}</span>
+                  </label>
+                ))}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 border-t border-[var(--h-line)] px-5 py-4">
+        <span className="text-[12.5px] text-[var(--h-ink-2)]">{selected.size} field{selected.size === 1 ? '' : 's'} selected</span>
+        <div className="flex gap-2">
+          <button type="button" onClick={onDone} className="btn-halo-ghost btn-halo-sm">Cancel</button>
+          <button type="button" onClick={handleSave} disabled={!name.trim() || selected.size === 0} className="btn-halo btn-halo-sm">
+            {nameTaken ? 'Replace template' : 'Save template'}
+          </button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+import { ShieldAlert } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AdChangeRows } from '@/components/ads/AdChangeRows';
+import type { AdFieldChange } from '@/utils/adDiff';
+import { AD_FIELD_GUIDE, AD_FIELD_ROLE_LABELS } from '@/utils/adFieldGuide';
+
+interface AdUpdateConfirmDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  changes: AdFieldChange[];
+  /** Whether only the changed fields are sent (V2), or the whole ad (V1). */
+  partial: boolean;
+  /** The ad is live, so eligibility changes take effect on the next serve. */
+  live: boolean;
+  saving: boolean;
+  onConfirm: () => void;
+}
+
+const ROLE_BADGE = {
+  gate: 'halo-badge halo-badge-warn',
+  ranking: 'halo-badge halo-badge-info',
+  metadata: 'halo-badge',
+  ops: 'halo-badge',
+} as const;
+
+/**
+ * Edit-mode save confirmation for AdForm: every field the save changes, old →
+ * new, with what that field does at serve time.
+ */
+export function AdUpdateConfirmDialog({ open, onOpenChange, changes, partial, live, saving, onConfirm }: AdUpdateConfirmDialogProps) {
+  const gateChanges = changes.filter((c) => AD_FIELD_GUIDE[c.field]?.role === 'gate').length;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-xl halo-card rounded-[var(--h-r-xl)]">
+        <DialogHeader>
+          <DialogTitle className="halo-heading text-base">
+            {changes.length === 0 ? 'No changes to save' : `Update ${changes.length} field${changes.length === 1 ? '' : 's'}?`}
+          </DialogTitle>
+          <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+            {changes.length === 0
+              ? 'The form matches the ad as it was loaded.'
+              : partial
+                ? 'Only these fields are sent; everything else on the ad is left as it is.'
+                : 'The V1 API replaces the whole ad, so every field is sent — these are the ones that differ.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {live && gateChanges > 0 && (
+          <p className="halo-inset flex items-start gap-2 p-3 text-[12.5px] text-[var(--h-amber)]">
+            <ShieldAlert className="mt-0.5 h-3.5 w-3.5 shrink-0" strokeWidth={1.75} />
+            This ad is live. {gateChanges} change{gateChanges === 1 ? '' : 's'} affect{gateChanges === 1 ? 's' : ''} who it can serve to from the next request.
+          </p>
+        )}
+
+        {changes.length > 0 && (
+          <div className="max-h-[50vh] space-y-2 overflow-y-auto">
+            {changes.map((change) => {
+              const guide = AD_FIELD_GUIDE[change.field];
+              return (
+                <div key={change.field} className="halo-inset space-y-1.5 p-3">
+                  <AdChangeRows changes={[change]} />
+                  {guide && (
+                    <p className="flex flex-wrap items-center gap-1.5 pl-[118px] text-[11.5px] text-[var(--h-ink-3)]">
+                      <span className={ROLE_BADGE[guide.role]}>{AD_FIELD_ROLE_LABELS[guide.role]}</span>
+                      {guide.note}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={() => onOpenChange(false)} disabled={saving} className="btn-halo-ghost btn-halo-sm">
+            Keep editing
+          </button>
+          <button type="button" onClick={onConfirm} disabled={saving || changes.length === 0} className="btn-halo btn-halo-sm">
+            {saving ? 'Saving…' : 'Update ad'}
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
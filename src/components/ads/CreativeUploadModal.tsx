@@ -3,7 +3,7 @@ import { Upload, AlertCircle, Check, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { buildApiUrl } from '@/config/api';
+import { apiClient, apiErrorMessage } from '@/services/apiClient';
 
 interface CreativeUploadModalProps {
   isOpen: boolean;
@@ -154,22 +154,20 @@ export default function CreativeUploadModal({
       // HALO: true upload-percentage progress needs an XHR/axios onUploadProgress
       // handler instead of fetch — left the request logic untouched, the bar
       // below is an indeterminate iris sweep while isUploading is true.
-      const response = await fetch(`${buildApiUrl('/ads/uploadCreative')}?userId=1`, {
-        method: 'POST',
-        body: formData
+      const data = await apiClient.post<{ creativeUrl?: string }>('/ads/uploadCreative', formData, {
+        query: { userId: 1 },
+        timeoutMs: 120_000,
       });
 
-      const data = await response.json();
-
-      if (data.status === 1 && data.data?.creativeUrl) {
-        onUpload(data.data.creativeUrl);
+      if (data?.creativeUrl) {
+        onUpload(data.creativeUrl);
         resetModal();
       } else {
-        setError(data.message || 'Failed to upload creative');
+        setError('Failed to upload creative');
       }
     } catch (err) {
       console.error('Error uploading creative:', err);
-      setError('An unexpected error occurred during upload');
+      setError(apiErrorMessage(err, 'Failed to upload creative'));
     } finally {
       setIsUploading(false);
     }
@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react';
+import { CheckCircle2, XCircle, HelpCircle, RotateCcw } from 'lucide-react';
+import { ServeRequestForm } from '@/components/ads/ServeRequestForm';
+import { Ad, Slot } from '@/types';
+import { cn } from '@/lib/utils';
+import {
+  GateOutcome,
+  evaluateEligibility,
+  isEligible,
+  adCategoryIds,
+  adLocationTokens,
+  adSiteIds,
+} from '@/utils/serveEligibility';
+import { ServeScoreProfile, emptyServeScoreProfile } from '@/utils/serveScore';
+
+const OUTCOME_STYLE: Record<GateOutcome, { icon: typeof CheckCircle2; tone: string; badge: string; label: string }> = {
+  pass: { icon: CheckCircle2, tone: 'text-[var(--h-mint)]', badge: 'halo-badge halo-badge-pos', label: 'Pass' },
+  fail: { icon: XCircle, tone: 'text-[var(--h-coral)]', badge: 'halo-badge halo-badge-neg', label: 'Fail' },
+  unknown: { icon: HelpCircle, tone: 'text-[var(--h-ink-3)]', badge: 'halo-badge', label: 'Not checked' },
+};
+
+/**
+ * Seed the hypothetical request from the ad's own targeting, so the panel
+ * opens on the "best case" user and any remaining failure is the ad's fault.
+ */
+const profileFromAd = (ad: Ad, slot: Slot | null): ServeScoreProfile => {
+  const base = emptyServeScoreProfile();
+  const location = adLocationTokens(ad);
+  const categories = adCategoryIds(ad);
+  return {
+    ...base,
+    gender: ad.gender === 'm' || ad.gender === 'f' ? ad.gender : base.gender,
+    pincode: location.find((t) => /^\d{6}$/.test(t)) ?? '',
+    state: location.find((t) => !/^\d{6}$/.test(t)) ?? '',
+    siteId: adSiteIds(ad)[0] ?? '',
+    slotId: String(ad.slotId ?? ''),
+    slotType: String(ad.slotType ?? slot?.slotType ?? ''),
+    ln: categories[0] ?? '',
+  };
+};
+
+/**
+ * "Why won't this ad serve?" — evaluates the ad against a hypothetical
+ * user/request and lists every HARD gate from the field guide as pass/fail.
+ */
+export function ServeEligibilityPanel({ ad, slot }: { ad: Ad; slot: Slot | null }) {
+  const [profile, setProfile] = useState<ServeScoreProfile>(() => profileFromAd(ad, slot));
+  const [formKey, setFormKey] = useState(0);
+
+  const gates = useMemo(() => evaluateEligibility(ad, profile), [ad, profile]);
+  const eligible = isEligible(gates);
+  const failures = gates.filter((g) => g.outcome === 'fail').length;
+
+  const reset = () => {
+    setProfile(profileFromAd(ad, slot));
+    setFormKey((k) => k + 1);
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-5 lg:grid-cols-5">
+      {/* Hypothetical request */}
+      <div className="space-y-3 lg:col-span-2">
+        <div className="flex items-center justify-between">
+          <p className="text-[13px] font-semibold text-[var(--h-ink)]">Simulated user & request</p>
+          <button type="button" onClick={reset} className="btn-halo-ghost btn-halo-sm">
+            <RotateCcw className="h-3.5 w-3.5" strokeWidth={1.75} />
+            Reset
+          </button>
+        </div>
+
+        <ServeRequestForm key={formKey} value={profile} onChange={setProfile} />
+      </div>
+
+      {/* Gate results */}
+      <div className="space-y-3 lg:col-span-3">
+        <div
+          className={cn(
+            'halo-inset flex items-center gap-3 p-3.5',
+            eligible ? 'border-[var(--h-mint)]/30' : 'border-[var(--h-coral)]/30'
+          )}
+        >
+          {eligible ? (
+            <CheckCircle2 className="h-5 w-5 text-[var(--h-mint)]" strokeWidth={1.75} />
+          ) : (
+            <XCircle className="h-5 w-5 text-[var(--h-coral)]" strokeWidth={1.75} />
+          )}
+          <div>
+            <p className="text-[13px] font-semibold text-[var(--h-ink)]">
+              {eligible ? 'Eligible for this request' : `Not servable — ${failures} gate${failures === 1 ? '' : 's'} failing`}
+            </p>
+            <p className="text-[12px] text-[var(--h-ink-3)]">
+              Eligibility only; ranking among eligible ads is decided by the soft score. Campaign caps and click exclusions are not evaluated.
+            </p>
+          </div>
+        </div>
+
+        <ul className="space-y-2">
+          {gates.map((g) => {
+            const style = OUTCOME_STYLE[g.outcome];
+            const Icon = style.icon;
+            return (
+              <li key={g.key} className="halo-inset flex items-start gap-3 p-3">
+                <Icon className={cn('mt-0.5 h-4 w-4 shrink-0', style.tone)} strokeWidth={1.75} />
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[13px] font-semibold text-[var(--h-ink)]">{g.label}</span>
+                    <span className={style.badge}>{style.label}</span>
+                  </div>
+                  <p className="mt-0.5 text-[12px] leading-relaxed text-[var(--h-ink-2)]">{g.reason}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
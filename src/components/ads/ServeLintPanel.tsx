@@ -0,0 +1,125 @@
+import { AlertTriangle, Info, XCircle } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Checkbox } from '@/components/ui/checkbox';
+import { cn } from '@/lib/utils';
+import {
+  SEVERITY_LABELS,
+  SEVERITY_ORDER,
+  ServeLintIssue,
+  ServeLintSeverity,
+  needsAcknowledgement,
+  unacknowledgedIssues,
+} from '@/utils/serveLint';
+
+const SEVERITY_STYLE: Record<ServeLintSeverity, { icon: typeof XCircle; tone: string; badge: string }> = {
+  critical: { icon: XCircle, tone: 'text-[var(--h-coral)]', badge: 'halo-badge halo-badge-neg' },
+  warning: { icon: AlertTriangle, tone: 'text-[var(--h-amber)]', badge: 'halo-badge halo-badge-warn' },
+  info: { icon: Info, tone: 'text-[var(--h-ink-3)]', badge: 'halo-badge halo-badge-info' },
+};
+
+interface ServeLintPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  issues: ServeLintIssue[];
+  acknowledged: ReadonlySet<string>;
+  onAcknowledgedChange: (next: Set<string>) => void;
+  /** When set, the panel was opened by a save attempt and offers to continue it. */
+  onConfirm?: () => void;
+  confirmLabel?: string;
+}
+
+/**
+ * Side panel listing serve-impact lint for the ad being edited, grouped by
+ * severity. Critical and warning items must be acknowledged before the
+ * pending save can continue; info items are for awareness only.
+ */
+export function ServeLintPanel({
+  open,
+  onOpenChange,
+  issues,
+  acknowledged,
+  onAcknowledgedChange,
+  onConfirm,
+  confirmLabel = 'Save anyway',
+}: ServeLintPanelProps) {
+  const outstanding = unacknowledgedIssues(issues, acknowledged);
+
+  const toggle = (id: string, checked: boolean) => {
+    const next = new Set(acknowledged);
+    if (checked) next.add(id);
+    else next.delete(id);
+    onAcknowledgedChange(next);
+  };
+
+  const acknowledgeAll = () => {
+    const next = new Set(acknowledged);
+    issues.filter(needsAcknowledgement).forEach((i) => next.add(i.id));
+    onAcknowledgedChange(next);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-0 p-0 sm:max-w-md">
+        <SheetHeader className="border-b border-[var(--h-line)] p-5 text-left">
+          <SheetTitle className="halo-heading">Serve-impact check</SheetTitle>
+          <SheetDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+            Valid settings that change who this ad can serve to. Review and acknowledge before saving.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 space-y-5 overflow-y-auto p-5">
+          {issues.length === 0 && (
+            <p className="halo-inset p-3.5 text-[13px] text-[var(--h-ink-2)]">No serve pitfalls found in the current settings.</p>
+          )}
+
+          {SEVERITY_ORDER.map((severity) => {
+            const group = issues.filter((i) => i.severity === severity);
+            if (group.length === 0) return null;
+            const style = SEVERITY_STYLE[severity];
+            const Icon = style.icon;
+            return (
+              <section key={severity} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="halo-eyebrow">{SEVERITY_LABELS[severity]}</span>
+                  <span className={style.badge}>{group.length}</span>
+                </div>
+                <ul className="space-y-2">
+                  {group.map((i) => (
+                    <li key={i.id} className="halo-inset flex items-start gap-3 p-3">
+                      <Icon className={cn('mt-0.5 h-4 w-4 shrink-0', style.tone)} strokeWidth={1.75} />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-[13px] font-semibold text-[var(--h-ink)]">{i.title}</p>
+                        <p className="mt-0.5 text-[12px] leading-relaxed text-[var(--h-ink-2)]">{i.detail}</p>
+                        {needsAcknowledgement(i) && (
+                          <label className="mt-2 flex cursor-pointer items-center gap-2 text-[12px] text-[var(--h-ink-2)]">
+                            <Checkbox checked={acknowledged.has(i.id)} onCheckedChange={(c) => toggle(i.id, c === true)} />
+                            I understand
+                          </label>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 border-t border-[var(--h-line)] p-4">
+          <button type="button" onClick={acknowledgeAll} disabled={outstanding.length === 0} className="btn-halo-ghost btn-halo-sm">
+            Acknowledge all
+          </button>
+          {onConfirm ? (
+            <button type="button" onClick={onConfirm} disabled={outstanding.length > 0} className="btn-halo btn-halo-sm">
+              {outstanding.length > 0 ? `${outstanding.length} to acknowledge` : confirmLabel}
+            </button>
+          ) : (
+            <button type="button" onClick={() => onOpenChange(false)} className="btn-halo-outline btn-halo-sm">
+              Close
+            </button>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
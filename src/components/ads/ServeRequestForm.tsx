@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { ServeRequestProfile } from '@/utils/serveEligibility';
+import { ServeScoreProfile } from '@/utils/serveScore';
+
+const GENDERS: Array<{ value: ServeRequestProfile['gender']; label: string }> = [
+  { value: 'm', label: 'Male' },
+  { value: 'f', label: 'Female' },
+  { value: 'NA', label: 'Unknown' },
+];
+
+const splitList = (raw: string): string[] => raw.split(',').map((s) => s.trim()).filter(Boolean);
+
+const parseOptionalNumber = (raw: string): number | null => {
+  if (raw.trim() === '') return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+};
+
+function ProfileField({ label, value, onChange, placeholder }: { label: string; value: string; onChange: (v: string) => void; placeholder?: string }) {
+  return (
+    <label className="block">
+      <span className="halo-label">{label}</span>
+      <Input
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 h-9 text-[12.5px]"
+      />
+    </label>
+  );
+}
+
+interface ServeRequestFormProps {
+  value: ServeScoreProfile;
+  onChange: (profile: ServeScoreProfile) => void;
+  /** Also collect the inputs that only affect ranking (age, brand affinity). */
+  showRankingInputs?: boolean;
+}
+
+/**
+ * The simulated user + serve request shared by the eligibility checker and the
+ * serve simulator. List and number inputs keep their raw text locally so typing
+ * "12, " isn't reformatted mid-keystroke; remount with a new `key` to reset.
+ */
+export function ServeRequestForm({ value, onChange, showRankingInputs = false }: ServeRequestFormProps) {
+  const [interestsText, setInterestsText] = useState(value.interestCategories.join(', '));
+  const [avgPriceText, setAvgPriceText] = useState(value.avgPrice === null ? '' : String(value.avgPrice));
+  const [ageText, setAgeText] = useState(value.age === null ? '' : String(value.age));
+  const [brandsText, setBrandsText] = useState(value.affinityBrands.join(', '));
+
+  const set = <K extends keyof ServeScoreProfile>(key: K) => (next: ServeScoreProfile[K]) =>
+    onChange({ ...value, [key]: next });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <span className="halo-label">User gender</span>
+        <div className="halo-segment mt-1 w-full">
+          {GENDERS.map((g) => (
+            <button
+              key={g.value}
+              type="button"
+              onClick={() => set('gender')(g.value)}
+              className={cn('halo-segment-item flex-1', value.gender === g.value && 'is-active')}
+            >
+              {g.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <ProfileField label="Pincode" value={value.pincode} onChange={set('pincode')} placeholder="400001" />
+        <ProfileField label="City" value={value.city} onChange={set('city')} placeholder="Mumbai" />
+        <ProfileField label="State" value={value.state} onChange={set('state')} placeholder="MH" />
+        <ProfileField label="Country" value={value.country} onChange={set('country')} placeholder="IN" />
+        <ProfileField label="Site ID" value={value.siteId} onChange={set('siteId')} />
+        <ProfileField label="ln category" value={value.ln} onChange={set('ln')} />
+        <ProfileField label="Slot ID" value={value.slotId} onChange={set('slotId')} />
+        <ProfileField label="Slot type" value={value.slotType} onChange={set('slotType')} placeholder="-1 / 0 / …" />
+        <ProfileField
+          label="Avg. price (₹)"
+          value={avgPriceText}
+          onChange={(v) => {
+            setAvgPriceText(v);
+            set('avgPrice')(parseOptionalNumber(v));
+          }}
+          placeholder="No signal"
+        />
+        <ProfileField label="Serve date" value={value.date} onChange={set('date')} placeholder="YYYY-MM-DD" />
+        {showRankingInputs && (
+          <ProfileField
+            label="User age"
+            value={ageText}
+            onChange={(v) => {
+              setAgeText(v);
+              set('age')(parseOptionalNumber(v));
+            }}
+            placeholder="Unknown"
+          />
+        )}
+      </div>
+      <ProfileField
+        label="User interest categories"
+        value={interestsText}
+        onChange={(v) => {
+          setInterestsText(v);
+          set('interestCategories')(splitList(v));
+        }}
+        placeholder="Comma-separated catIds"
+      />
+      {showRankingInputs && (
+        <ProfileField
+          label="Brand affinities"
+          value={brandsText}
+          onChange={(v) => {
+            setBrandsText(v);
+            set('affinityBrands')(splitList(v));
+          }}
+          placeholder="Comma-separated brands"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { memo, useMemo, useState } from 'react';
+import { Activity, BellPlus, TrendingDown, TrendingUp } from 'lucide-react';
+import { toast } from 'sonner';
+import { useNotifications } from '@/context/NotificationContext';
+import { formatChartValue } from '@/lib/format';
+import { formatPctChange } from '@/utils/comparison';
+import { ANOMALY_METRICS, type AnomalyMetric, type TrendAnomaly } from '@/utils/anomaly';
+import { formatYmd } from '@/utils/dates';
+
+interface AnomalyPanelProps {
+  anomalies: TrendAnomaly[];
+  /** What a series is — "Campaign", "Ad", "Slot", "POS". */
+  groupLabel: string;
+  /** Campaign/ad IDs for a series, attached to notifications when known. */
+  resolveTarget?: (series: string) => { campaignId?: number; adId?: number } | undefined;
+  title?: string;
+}
+
+const COLLAPSED_ROWS = 8;
+
+const metricLabel = (metric: AnomalyMetric) => ANOMALY_METRICS.find((m) => m.value === metric)?.label ?? metric;
+
+const formatDay = (value: string) => formatYmd(value, { month: 'short', day: 'numeric' });
+
+/**
+ * Points that broke sharply from their recent baseline, strongest first, with
+ * the series they belong to. Can push them to the notification centre as
+ * warnings.
+ */
+export const AnomalyPanel = memo(function AnomalyPanel({ anomalies, groupLabel, resolveTarget, title = 'Anomalies' }: AnomalyPanelProps) {
+  const { addNotification } = useNotifications();
+  const [metric, setMetric] = useState<AnomalyMetric | 'all'>('all');
+  const [expanded, setExpanded] = useState(false);
+
+  const filtered = useMemo(
+    () => (metric === 'all' ? anomalies : anomalies.filter((a) => a.metric === metric)),
+    [anomalies, metric]
+  );
+  const rows = expanded ? filtered : filtered.slice(0, COLLAPSED_ROWS);
+
+  const notify = () => {
+    filtered.forEach((a) => {
+      const target = resolveTarget?.(a.series);
+      const format = (v: number) => formatChartValue(v, a.metric);
+      addNotification({
+        type: 'warning',
+        title: `${metricLabel(a.metric)} ${a.direction} detected`,
+        message: `${a.series}: ${format(a.value)} on ${formatDay(a.date)} vs a usual ${format(a.baseline)} (${formatPctChange(a.magnitudePct)})`,
+        metadata: {
+          campaignId: target?.campaignId,
+          adId: target?.adId,
+          metric: a.metric,
+          target: a.baseline,
+          actual: a.value,
+          improvement: a.magnitudePct !== null ? Math.round(a.magnitudePct) : undefined,
+        },
+      });
+    });
+    toast.success(`${filtered.length} ${filtered.length === 1 ? 'anomaly' : 'anomalies'} sent to notifications`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <h3 className="halo-heading">{title}</h3>
+          {anomalies.length > 0 && <span className="halo-badge halo-badge-warn num">{anomalies.length}</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="halo-segment">
+            {[{ value: 'all' as const, label: 'All' }, ...ANOMALY_METRICS].map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setMetric(option.value)}
+                className={`halo-segment-item ${metric === option.value ? 'is-active' : ''}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <button type="button" onClick={notify} disabled={filtered.length === 0} className="btn-halo-ghost btn-halo-sm">
+            <BellPlus className="h-3.5 w-3.5" strokeWidth={1.75} />
+            Send to notifications
+          </button>
+        </div>
+      </div>
+
+      {filtered.length === 0 ? (
+        <div className="halo-inset flex flex-col items-center justify-center gap-2 py-8 text-center">
+          <span className="halo-chip-lg"><Activity size={20} strokeWidth={1.75} /></span>
+          <p className="halo-subtitle">No unusual {metric === 'all' ? 'points' : metricLabel(metric)} in this range.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[12px]">
+            <thead>
+              <tr className="border-b border-[var(--h-line)] text-left">
+                <th className="halo-label py-2 pr-3 font-medium">{groupLabel}</th>
+                <th className="halo-label py-2 px-2 font-medium">Metric</th>
+                <th className="halo-label py-2 px-2 font-medium">Date</th>
+                <th className="halo-label py-2 px-2 text-right font-medium">Value</th>
+                <th className="halo-label py-2 px-2 text-right font-medium">Baseline</th>
+                <th className="halo-label py-2 pl-2 text-right font-medium">Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((a) => {
+                const format = (v: number) => formatChartValue(v, a.metric);
+                const Icon = a.direction === 'spike' ? TrendingUp : TrendingDown;
+                return (
+                  <tr key={a.id} className="border-b border-[var(--h-line)] last:border-0">
+                    <td className="max-w-[14rem] truncate py-2 pr-3 font-medium text-[var(--h-ink)]" title={a.series}>{a.series}</td>
+                    <td className="py-2 px-2 text-[var(--h-ink-2)]">
+                      <span className="inline-flex items-center gap-1.5">
+                        <Icon
+                          className={`h-3.5 w-3.5 ${a.direction === 'drop' ? 'text-[var(--h-coral)]' : 'text-[var(--h-amber)]'}`}
+                          strokeWidth={1.75}
+                        />
+                        {metricLabel(a.metric)} {a.direction}
+                      </span>
+                    </td>
+                    <td className="num py-2 px-2 text-[var(--h-ink-2)]">{formatDay(a.date)}</td>
+                    <td className="num py-2 px-2 text-right font-semibold text-[var(--h-ink)]">{format(a.value)}</td>
+                    <td className="num py-2 px-2 text-right text-[var(--h-ink-3)]">{format(a.baseline)}</td>
+                    <td className="py-2 pl-2 text-right">
+                      <span
+                        className={`halo-delta halo-delta-bare halo-delta-${a.direction === 'spike' ? 'up' : 'down'} num`}
+                        title={`${Math.abs(a.score).toFixed(1)}× the usual day-to-day spread`}
+                      >
+                        {formatPctChange(a.magnitudePct)}
+                      </span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="mt-2 flex items-center justify-between gap-2">
+            <p className="text-[11px] text-[var(--h-ink-3)]">
+              Baseline: median of the preceding points. Marked on the charts in amber (spike) and coral (drop).
+            </p>
+            {filtered.length > COLLAPSED_ROWS && (
+              <button type="button" onClick={() => setExpanded((v) => !v)} className="btn-halo-ghost btn-halo-sm">
+                {expanded ? 'Show fewer' : `Show all ${filtered.length}`}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -6,6 +6,7 @@ import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
 import { coerceName, formatCount, isUnspecified } from '@/lib/format';
 import { getPlatformName } from '@/utils/platform';
 import { useTheme } from '@/context/ThemeContext';
+import { compareValues, formatPctChange, formatSignedDelta } from '@/utils/comparison';
 import { useHaloChartPalette, seriesColor, HaloTooltip } from './chartTheme';
 
 interface BreakdownModalProps {
@@ -13,6 +14,9 @@ interface BreakdownModalProps {
   onOpenChange: (open: boolean) => void;
   title: string;
   data: Array<{ name: unknown; value: number; percentage?: number }>;
+  /** The same breakdown over the comparison window. */
+  comparisonData?: Array<{ name: unknown; value: number }>;
+  comparisonLabel?: string;
 }
 
 const getChartIcon = (title: string) => {
@@ -29,7 +33,12 @@ const formatPercentage = (value: number) => Number(value || 0).toFixed(2);
 
 const easeOut = [0.22, 1, 0.36, 1] as const;
 
-export const BreakdownModal = memo<BreakdownModalProps>(({ open, onOpenChange, title, data }) => {
+const displayName = (name: unknown, isPlatform: boolean) =>
+  isPlatform && (typeof name === 'number' || (typeof name === 'string' && !isNaN(Number(name))))
+    ? getPlatformName(Number(name))
+    : coerceName(name, 'Unknown');
+
+export const BreakdownModal = memo<BreakdownModalProps>(({ open, onOpenChange, title, data, comparisonData, comparisonLabel = 'comparison' }) => {
   const { theme } = useTheme();
   const palette = useHaloChartPalette(theme);
   const IconComponent = useMemo(() => getChartIcon(title), [title]);
@@ -40,11 +49,7 @@ export const BreakdownModal = memo<BreakdownModalProps>(({ open, onOpenChange, t
     return [...data]
       .map((item) => ({
         ...item,
-        name: isPlatform
-          ? (typeof item.name === 'number' || (typeof item.name === 'string' && !isNaN(Number(item.name)))
-              ? getPlatformName(Number(item.name))
-              : coerceName(item.name, 'Unknown'))
-          : coerceName(item.name, 'Unknown'),
+        name: displayName(item.name, isPlatform),
         isMissing: isUnspecified(item.name),
       }))
       .filter((item) => typeof item.value === 'number' && item.value > 0)
@@ -58,6 +63,17 @@ export const BreakdownModal = memo<BreakdownModalProps>(({ open, onOpenChange, t
   );
   const topItem = enriched[0];
 
+  const previousByName = useMemo(() => {
+    if (!comparisonData || !Array.isArray(comparisonData)) return null;
+    const isPlatform = title.toLowerCase().includes('platform');
+    const map = new Map<string, number>();
+    comparisonData.forEach((item) => {
+      const name = displayName(item.name, isPlatform);
+      map.set(name, (map.get(name) || 0) + (Number(item.value) || 0));
+    });
+    return map;
+  }, [comparisonData, title]);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent
@@ -179,6 +195,7 @@ export const BreakdownModal = memo<BreakdownModalProps>(({ open, onOpenChange, t
                 enriched.map((item, idx) => {
                   const pct = formatPercentage(item.percentage || 0);
                   const barWidth = totalValue > 0 && topItem ? (item.value / topItem.value) * 100 : 0;
+                  const change = previousByName ? compareValues(item.value, previousByName.get(item.name) || 0) : null;
                   return (
                     <motion.div
                       key={`${item.name}-${idx}`}
@@ -203,6 +220,14 @@ export const BreakdownModal = memo<BreakdownModalProps>(({ open, onOpenChange, t
                           </p>
                           <p className="num text-[10.5px] text-[var(--h-ink-3)] mt-0.5">
                             {formatCount(item.value)} volume
+                            {change && (
+                              <>
+                                {' · '}vs {formatCount(change.previous)} {comparisonLabel}{' · '}
+                                <span className={`halo-delta halo-delta-bare halo-delta-${change.direction}`}>
+                                  {formatSignedDelta(change.delta, formatCount)} ({formatPctChange(change.pct)})
+                                </span>
+                              </>
+                            )}
                           </p>
                         </div>
                         <div className="text-right flex-shrink-0">
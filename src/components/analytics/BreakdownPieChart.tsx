@@ -10,6 +10,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { coerceName, isUnspecified, formatCount } from '@/lib/format';
 import { useTheme } from '@/context/ThemeContext';
+import { compareValues, formatPctChange } from '@/utils/comparison';
 import { useHaloChartPalette, seriesColor, HaloTooltip, HaloChartEmpty } from './chartTheme';
 
 interface BreakdownPieChartProps {
@@ -18,6 +19,9 @@ interface BreakdownPieChartProps {
   showInnerRadius?: boolean;
   showAnimation?: boolean;
   maxDisplayItems?: number;
+  /** The same breakdown over the comparison window; adds a change to every category. */
+  comparisonData?: Array<{ name: unknown; value: number }>;
+  comparisonLabel?: string;
 }
 
 const getPlatformName = (platformId: number | string | unknown): string => {
@@ -77,6 +81,8 @@ export const BreakdownPieChart: React.FC<BreakdownPieChartProps> = ({
   showInnerRadius = true,
   showAnimation = true,
   maxDisplayItems = 4,
+  comparisonData,
+  comparisonLabel = 'comparison',
 }) => {
   const { theme } = useTheme();
   const palette = useHaloChartPalette(theme);
@@ -100,6 +106,18 @@ export const BreakdownPieChart: React.FC<BreakdownPieChartProps> = ({
       .map((item, index) => ({ ...item, color: seriesColor(palette, index) }));
   }, [data, title, palette]);
 
+  // Comparison values keyed by the same display name the current slices use
+  const previousByName = useMemo(() => {
+    if (!comparisonData || !Array.isArray(comparisonData)) return null;
+    const isPlatform = title.toLowerCase().includes('platform');
+    const map = new Map<string, number>();
+    comparisonData.forEach((item) => {
+      const name = isPlatform ? getPlatformName(item.name) : coerceName(item.name, 'Unknown');
+      map.set(name, (map.get(name) || 0) + (Number(item.value) || 0));
+    });
+    return map;
+  }, [comparisonData, title]);
+
   const enrichedLength = enriched.length;
 
   const handleEnter = useCallback((_: any, index: number) => {
@@ -119,6 +137,11 @@ export const BreakdownPieChart: React.FC<BreakdownPieChartProps> = ({
   const top = enriched.slice(0, maxDisplayItems);
   const remaining = enriched.length - maxDisplayItems;
   const totalValue = enriched.reduce((sum, item) => sum + item.value, 0);
+  const changeFor = (name: string, value: number) =>
+    previousByName ? compareValues(value, previousByName.get(name) || 0) : null;
+  const totalChange = previousByName
+    ? compareValues(totalValue, Array.from(previousByName.values()).reduce((sum, v) => sum + v, 0))
+    : null;
 
   return (
     <div className="flex flex-col h-full min-h-[260px]">
@@ -221,7 +244,11 @@ export const BreakdownPieChart: React.FC<BreakdownPieChartProps> = ({
                       }))}
                       valueFormatter={(value, entry) => {
                         const pct = entry.payload?.percentage as number | undefined;
-                        return `${formatCount(value as number)} · ${formatPercentage(pct || 0)}%`;
+                        const share = `${formatCount(value as number)} · ${formatPercentage(pct || 0)}%`;
+                        const change = changeFor(coerceName(entry.payload?.name, 'Unknown'), Number(value) || 0);
+                        return change
+                          ? `${share} · vs ${formatCount(change.previous)} ${comparisonLabel} (${formatPctChange(change.pct)})`
+                          : share;
                       }}
                     />
                   );
@@ -241,9 +268,15 @@ export const BreakdownPieChart: React.FC<BreakdownPieChartProps> = ({
             <p className="halo-metric leading-none mt-1" style={{ fontSize: 18 }}>
               {formatCount(totalValue)}
             </p>
-            <p className={`text-[9px] max-w-[70%] truncate leading-none mt-1 ${top[0]?.isMissing ? 'text-[var(--h-ink-3)] italic' : 'text-[var(--h-ink-3)]'}`}>
-              {top[0]?.name}
-            </p>
+            {totalChange ? (
+              <p className={`halo-delta halo-delta-bare halo-delta-${totalChange.direction} leading-none mt-1`} title={`vs ${formatCount(totalChange.previous)} ${comparisonLabel}`}>
+                {formatPctChange(totalChange.pct)}
+              </p>
+            ) : (
+              <p className={`text-[9px] max-w-[70%] truncate leading-none mt-1 ${top[0]?.isMissing ? 'text-[var(--h-ink-3)] italic' : 'text-[var(--h-ink-3)]'}`}>
+                {top[0]?.name}
+              </p>
+            )}
           </div>
         )}
       </div>
@@ -265,6 +298,14 @@ export const BreakdownPieChart: React.FC<BreakdownPieChartProps> = ({
             <span className="num font-semibold">
               {formatPercentage(item.percentage || 0)}%
             </span>
+            {previousByName && (() => {
+              const change = changeFor(item.name, item.value)!;
+              return (
+                <span className={`halo-delta halo-delta-bare halo-delta-${change.direction}`} title={`vs ${formatCount(change.previous)} ${comparisonLabel}`}>
+                  {formatPctChange(change.pct)}
+                </span>
+              );
+            })()}
           </span>
         ))}
       </div>
@@ -4,21 +4,14 @@ import {
   Tooltip, ResponsiveContainer, ReferenceLine,
 } from 'recharts';
 import { formatChartValue, formatChartAxis } from '@/lib/format';
+import { formatYmd } from '@/utils/dates';
 import { useTheme } from '@/context/ThemeContext';
 import {
   useHaloChartPalette, haloGradientId, haloGridProps, haloXAxisProps, haloYAxisProps,
   haloBarProps, haloLineProps, haloBarCursor, HaloBarGradient, HaloTooltip, HaloChartEmpty,
 } from './chartTheme';
 
-const formatComboDate = (dateStr: string) => {
-  try {
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) return dateStr;
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  } catch {
-    return dateStr;
-  }
-};
+const formatComboDate = (dateStr: string) => formatYmd(dateStr, { month: 'short', day: 'numeric' });
 
 interface ComboChartProps {
   data: any[];
@@ -0,0 +1,64 @@
+import { GitCompare } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { COMPARISON_MODES, ComparisonDateRange, ComparisonMode, getComparisonRange } from '@/utils/comparison';
+
+interface ComparisonPickerProps {
+  mode: ComparisonMode;
+  onModeChange: (mode: ComparisonMode) => void;
+  /** Only used in 'custom' mode. */
+  custom: Partial<ComparisonDateRange>;
+  onCustomChange: (custom: Partial<ComparisonDateRange>) => void;
+  /** The current window, to show which dates the comparison resolves to. */
+  range?: ComparisonDateRange;
+}
+
+/** Picks the window metrics, trends and breakdowns are compared against. */
+export function ComparisonPicker({ mode, onModeChange, custom, onCustomChange, range }: ComparisonPickerProps) {
+  const resolved = range ? getComparisonRange(range, mode, custom) : null;
+
+  return (
+    <div className="space-y-1.5">
+      <Select value={mode} onValueChange={(value) => onModeChange(value as ComparisonMode)}>
+        <SelectTrigger>
+          <span className="flex items-center gap-1.5">
+            <GitCompare className="h-3.5 w-3.5 text-[var(--h-ink-3)]" strokeWidth={1.75} />
+            <SelectValue />
+          </span>
+        </SelectTrigger>
+        <SelectContent>
+          {COMPARISON_MODES.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {mode === 'custom' && (
+        <div className="grid grid-cols-2 gap-1.5">
+          <Input
+            type="date"
+            aria-label="Comparison start"
+            value={custom.from ?? ''}
+            max={custom.to}
+            onChange={(e) => onCustomChange({ ...custom, from: e.target.value || undefined })}
+            className="h-9"
+          />
+          <Input
+            type="date"
+            aria-label="Comparison end"
+            value={custom.to ?? ''}
+            min={custom.from}
+            onChange={(e) => onCustomChange({ ...custom, to: e.target.value || undefined })}
+            className="h-9"
+          />
+        </div>
+      )}
+
+      {mode !== 'off' && (
+        <p className="num text-[11px] text-[var(--h-ink-3)]">
+          {resolved ? `${resolved.from} – ${resolved.to}` : 'Pick both comparison dates'}
+        </p>
+      )}
+    </div>
+  );
+}
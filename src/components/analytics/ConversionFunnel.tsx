@@ -0,0 +1,151 @@
+import { memo, useMemo } from 'react';
+import { AlertTriangle, Filter } from 'lucide-react';
+import { formatCount } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import {
+  FUNNEL_STAGES,
+  FUNNEL_STEP_LABELS,
+  analyzeFunnels,
+  funnelRates,
+  sumFunnelCounts,
+  type FunnelAnalysis,
+  type FunnelCounts,
+  type FunnelGroup,
+} from '@/utils/funnel';
+
+interface ConversionFunnelProps {
+  groups: FunnelGroup[];
+  /** What a group is, for the table header — "Campaign", "Slot", "Ad", "POS". */
+  groupLabel: string;
+  /** Compare against this instead of the groups pooled, e.g. the ad's whole campaign. */
+  benchmark?: { label: string; counts: FunnelCounts };
+  title?: string;
+}
+
+const formatRate = (value: number | null) => (value === null ? '—' : `${value < 1 ? value.toFixed(2) : value.toFixed(1)}%`);
+
+const shortfall = (relative: number) => `${Math.round((1 - relative) * 100)}% below average`;
+
+/**
+ * Impression → click → landing → conversion drop-off for the selection, then
+ * per group with stage-to-stage rates. Each group's weakest step relative to
+ * the selection average (or the benchmark) is highlighted.
+ */
+export const ConversionFunnel = memo(function ConversionFunnel({ groups, groupLabel, benchmark, title = 'Conversion funnel' }: ConversionFunnelProps) {
+  const totals = useMemo(() => sumFunnelCounts(groups.map((g) => g.counts)), [groups]);
+  const totalRates = useMemo(() => funnelRates(totals), [totals]);
+  const analyses = useMemo(
+    () => analyzeFunnels(groups, benchmark?.counts).sort((a, b) => b.counts.impressions - a.counts.impressions),
+    [groups, benchmark]
+  );
+
+  // The single biggest leak across the selection, for the callout
+  const worst = useMemo(() => analyses.reduce<FunnelAnalysis | null>((acc, item) => {
+    if (!item.worstStep) return acc;
+    if (!acc?.worstStep) return item;
+    return (item.worstStep.relative as number) < (acc.worstStep.relative as number) ? item : acc;
+  }, null), [analyses]);
+
+  const averageLabel = benchmark ? benchmark.label : 'selection average';
+  const top = totals.impressions || 1;
+
+  if (totals.impressions === 0) {
+    return (
+      <div className="space-y-3">
+        <h3 className="halo-heading">{title}</h3>
+        <div className="halo-inset flex flex-col items-center justify-center gap-2 py-10 text-center">
+          <span className="halo-chip-lg"><Filter size={20} strokeWidth={1.75} /></span>
+          <p className="halo-subtitle">No impressions in this range yet.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="halo-heading">{title}</h3>
+        {worst?.worstStep && (
+          <span className="halo-badge halo-badge-warn inline-flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" strokeWidth={1.75} />
+            Biggest leak: {worst.name} · {FUNNEL_STEP_LABELS[worst.worstStep.stage]} {shortfall(worst.worstStep.relative as number)}
+          </span>
+        )}
+      </div>
+
+      {/* Selection funnel — bar width is the share of impressions left at each stage */}
+      <div className="space-y-1.5">
+        {FUNNEL_STAGES.map((stage, i) => {
+          const count = totals[stage.key];
+          return (
+            <div key={stage.key}>
+              {i > 0 && (
+                <p className="num py-0.5 pl-[7.5rem] text-[10.5px] text-[var(--h-ink-3)]">
+                  ↓ {formatRate(totalRates[i - 1])} {FUNNEL_STEP_LABELS[i].toLowerCase()}
+                  {benchmark && ` · ${averageLabel} ${formatRate(funnelRates(benchmark.counts)[i - 1])}`}
+                </p>
+              )}
+              <div className="flex items-center gap-3">
+                <span className="halo-label w-[6.75rem] shrink-0">{stage.label}</span>
+                <div className="h-7 flex-1 overflow-hidden rounded-[8px] bg-[var(--h-surface-3)]">
+                  <div
+                    className="flex h-full items-center rounded-[8px] bg-[var(--h-iris-500)] px-2"
+                    style={{ width: `${Math.max((count / top) * 100, 1.5)}%`, opacity: 1 - i * 0.18 }}
+                  />
+                </div>
+                <span className="num w-24 shrink-0 text-right text-[13px] font-semibold text-[var(--h-ink)]">{formatCount(count)}</span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Per-group split */}
+      {(analyses.length > 1 || benchmark) && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[12px]">
+            <thead>
+              <tr className="border-b border-[var(--h-line)] text-left">
+                <th className="halo-label py-2 pr-3 font-medium">{groupLabel}</th>
+                {FUNNEL_STAGES.map((stage) => (
+                  <th key={stage.key} className="halo-label py-2 px-2 text-right font-medium">{stage.label}</th>
+                ))}
+                {FUNNEL_STEP_LABELS.slice(1).map((label) => (
+                  <th key={label} className="halo-label py-2 px-2 text-right font-medium">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {analyses.map((item) => (
+                <tr key={item.name} className="border-b border-[var(--h-line)] last:border-0">
+                  <td className="max-w-[14rem] truncate py-2 pr-3 font-medium text-[var(--h-ink)]" title={item.name}>{item.name}</td>
+                  {FUNNEL_STAGES.map((stage) => (
+                    <td key={stage.key} className="num py-2 px-2 text-right text-[var(--h-ink-2)]">{formatCount(item.counts[stage.key])}</td>
+                  ))}
+                  {item.steps.map((step) => {
+                    const isWorst = item.worstStep === step;
+                    return (
+                      <td key={step.stage} className="py-2 px-2 text-right">
+                        <span
+                          className={cn('num', isWorst ? 'halo-badge halo-badge-warn' : 'text-[var(--h-ink-2)]')}
+                          title={step.relative !== null
+                            ? `${averageLabel}: ${formatRate(step.averageRate)}${isWorst ? ` — ${shortfall(step.relative)}` : ''}`
+                            : undefined}
+                        >
+                          {formatRate(step.rate)}
+                        </span>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-[11px] text-[var(--h-ink-3)]">
+            Highlighted: each {groupLabel.toLowerCase()}'s step furthest below the {averageLabel}.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+});
@@ -9,14 +9,11 @@ import {
   format,
   parse,
   isValid,
-  startOfMonth,
-  endOfMonth,
-  subDays,
-  addMonths,
   isAfter,
   isBefore,
   isSameDay
 } from 'date-fns'
+import { addDays, startOfMonth, todayYmd, ymdToDate } from '@/utils/dates'
 
 // ——— helpers ——
 function atNoon(d: Date) {
@@ -37,6 +34,11 @@ function toIsoDate(d?: Date) {
   return d ? format(d, 'yyyy-MM-dd') : undefined
 }
 
+// Preset ranges are counted from today in the reporting timezone, not the browser's
+function presetRange(from: string, to: string): DateRange {
+  return { from: atNoon(ymdToDate(from)!), to: atNoon(ymdToDate(to)!) }
+}
+
 export function DateRangePicker() {
   const { filters, updateFilters } = useFilters()
   const [isOpen, setIsOpen] = useState(false)
@@ -78,41 +80,36 @@ export function DateRangePicker() {
     {
       label: 'Last 7 days',
       getRange: () => {
-        const to = atNoon(new Date())
-        const from = atNoon(subDays(to, 6))
-        return { from, to }
+        const to = todayYmd()
+        return presetRange(addDays(to, -6), to)
       }
     },
     {
       label: 'Last 30 days',
       getRange: () => {
-        const to = atNoon(new Date())
-        const from = atNoon(subDays(to, 29))
-        return { from, to }
+        const to = todayYmd()
+        return presetRange(addDays(to, -29), to)
       }
     },
     {
       label: 'Last 90 days',
       getRange: () => {
-        const to = atNoon(new Date())
-        const from = atNoon(subDays(to, 89))
-        return { from, to }
+        const to = todayYmd()
+        return presetRange(addDays(to, -89), to)
       }
     },
     {
       label: 'This month',
       getRange: () => {
-        const from = atNoon(startOfMonth(new Date()))
-        const to = atNoon(new Date())
-        return { from, to }
+        const to = todayYmd()
+        return presetRange(startOfMonth(to), to)
       }
     },
     {
       label: 'Last month',
       getRange: () => {
-        const first = startOfMonth(addMonths(new Date(), -1))
-        const last = endOfMonth(addMonths(new Date(), -1))
-        return { from: atNoon(first), to: atNoon(last) }
+        const last = addDays(startOfMonth(todayYmd()), -1)
+        return presetRange(startOfMonth(last), last)
       }
     }
   ]
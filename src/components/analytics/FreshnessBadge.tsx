@@ -0,0 +1,45 @@
+import { Clock, RefreshCw } from 'lucide-react';
+
+export interface Freshness {
+  /** When the shown data is from (the oldest cached response used). */
+  asOf: number;
+  /** Cached responses are being refreshed in the background. */
+  revalidating: boolean;
+}
+
+interface FreshnessBadgeProps {
+  freshness: Freshness;
+  /** Refetch everything live, skipping the metrics cache. */
+  onBypass: () => void;
+  disabled?: boolean;
+}
+
+const formatAsOf = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit', hour12: false })
+    : date.toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+/** "As of HH:MM" for data that may have come from the metrics cache, with a live refetch. */
+export function FreshnessBadge({ freshness, onBypass, disabled }: FreshnessBadgeProps) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <span className="halo-badge num" title={new Date(freshness.asOf).toLocaleString('en-IN')}>
+        <Clock className="h-3 w-3" strokeWidth={1.75} />
+        {freshness.revalidating ? `As of ${formatAsOf(freshness.asOf)} · updating…` : `As of ${formatAsOf(freshness.asOf)}`}
+      </span>
+      <button
+        type="button"
+        onClick={onBypass}
+        disabled={disabled}
+        className="btn-halo-ghost btn-halo-sm"
+        title="Fetch everything live, skipping the cache"
+      >
+        <RefreshCw className="h-3.5 w-3.5" strokeWidth={1.75} />
+        Bypass cache
+      </button>
+    </div>
+  );
+}
@@ -4,27 +4,42 @@ import { MetricsData } from '@/types';
 import { formatCount, formatSmartPercent } from '@/lib/format';
 import { useCountUp } from '@/hooks/useCountUp';
 import { useSpotlight } from '@/hooks/useSpotlight';
+import { formatSignedDelta } from '@/utils/comparison';
 
 interface MetricsDashboardProps {
   data: MetricsData;
   comparisonData?: MetricsData;
   period?: '1d' | '7d' | '30d';
+  /** Names the comparison window under each value, e.g. "last year". */
+  comparisonLabel?: string;
   /** Daily impression values, oldest first. Draws the hero card's watermark sparkline. */
   trend?: number[];
 }
 
-type MetricChange = { delta: string; direction: 'up' | 'down' | 'flat' };
+type MetricChange = {
+  delta: string;
+  direction: 'up' | 'down' | 'flat';
+  /** The comparison value and the signed absolute difference, formatted like the metric. */
+  previous: string;
+  absolute: string;
+};
 type Family = 'iris' | 'cyan' | 'mint' | 'amber' | 'violet';
 
 const calculateChange = (
   current: number,
   previous: number,
-  hasComparison: boolean
+  hasComparison: boolean,
+  formatter: (v: number) => string
 ): MetricChange | undefined => {
   if (!hasComparison || previous === 0) return undefined;
   const percentChange = ((current - previous) / previous) * 100;
   const direction: MetricChange['direction'] = percentChange > 0.05 ? 'up' : percentChange < -0.05 ? 'down' : 'flat';
-  return { delta: `${percentChange >= 0 ? '+' : ''}${percentChange.toFixed(1)}%`, direction };
+  return {
+    delta: `${percentChange >= 0 ? '+' : ''}${percentChange.toFixed(1)}%`,
+    direction,
+    previous: formatter(previous),
+    absolute: formatSignedDelta(current - previous, formatter),
+  };
 };
 
 const DeltaIcon = { up: ArrowUp, down: ArrowDown, flat: Minus } as const;
@@ -81,12 +96,14 @@ const HeroCard = memo(function HeroCard({
   raw,
   formatter,
   change,
+  comparisonLabel,
   trend,
 }: {
   label: string;
   raw: number;
   formatter: (v: number) => string;
   change?: MetricChange;
+  comparisonLabel?: string;
   trend: number[];
 }) {
   const spotlight = useSpotlight();
@@ -114,7 +131,9 @@ const HeroCard = memo(function HeroCard({
         <p className="num text-[2.5rem] font-semibold leading-none tracking-[-0.03em] text-white">
           {formatter(animatedValue)}
         </p>
-        <p className="mt-2 text-[12.5px] text-white/60">Last 7 days, all live campaigns</p>
+        <p className="mt-2 text-[12.5px] text-white/60">
+          {change ? `vs ${change.previous} ${comparisonLabel ?? 'before'} · ${change.absolute}` : 'Last 7 days, all live campaigns'}
+        </p>
       </div>
     </div>
   );
@@ -128,6 +147,7 @@ const MetricRow = memo(function MetricRow({
   icon: Icon,
   family,
   change,
+  comparisonLabel,
 }: {
   label: string;
   raw: number;
@@ -135,6 +155,7 @@ const MetricRow = memo(function MetricRow({
   icon: typeof Eye;
   family: Family;
   change?: MetricChange;
+  comparisonLabel?: string;
 }) {
   const animatedValue = useCountUp(raw, 800);
   const Delta = change ? DeltaIcon[change.direction] : null;
@@ -148,6 +169,11 @@ const MetricRow = memo(function MetricRow({
         <span className="truncate text-[13px] font-medium text-[var(--h-ink-2)]">{label}</span>
       </div>
       <div className="flex flex-none items-baseline gap-2">
+        {change && (
+          <span className="num hidden text-[11px] text-[var(--h-ink-3)] sm:inline" title={`vs ${comparisonLabel ?? 'comparison'}`}>
+            vs {change.previous} · {change.absolute}
+          </span>
+        )}
         {change && Delta && (
           <span className={`halo-delta halo-delta-bare halo-delta-${change.direction}`}>
             <Delta className="h-2.5 w-2.5" strokeWidth={2.5} />
@@ -163,6 +189,7 @@ const MetricRow = memo(function MetricRow({
 export const MetricsDashboard = memo(function MetricsDashboard({
   data,
   comparisonData,
+  comparisonLabel,
   trend = [],
 }: MetricsDashboardProps) {
   const hasComparison = !!comparisonData;
@@ -181,7 +208,7 @@ export const MetricsDashboard = memo(function MetricsDashboard({
     { label: 'Conversions', raw: data.conversions, key: 'conversions', icon: Target, family: 'mint', formatter: formatCount },
   ];
 
-  const impressionsChange = calculateChange(data.impressions, comparisonData?.impressions || 0, hasComparison);
+  const impressionsChange = calculateChange(data.impressions, comparisonData?.impressions || 0, hasComparison, formatCount);
 
   return (
     <div className="grid grid-cols-1 gap-5 lg:grid-cols-5 items-stretch">
@@ -191,6 +218,7 @@ export const MetricsDashboard = memo(function MetricsDashboard({
           raw={data.impressions}
           formatter={formatCount}
           change={impressionsChange}
+          comparisonLabel={comparisonLabel}
           trend={trend}
         />
       </div>
@@ -205,7 +233,8 @@ export const MetricsDashboard = memo(function MetricsDashboard({
               formatter={item.formatter}
               icon={item.icon}
               family={item.family}
-              change={calculateChange(item.raw, (comparisonData?.[item.key] as number) || 0, hasComparison)}
+              change={calculateChange(item.raw, (comparisonData?.[item.key] as number) || 0, hasComparison, item.formatter)}
+              comparisonLabel={comparisonLabel}
             />
           ))}
         </div>
@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { AlertTriangle, ArrowUpRight, Pin, PinOff, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useEnvironment } from '@/context/EnvironmentContext';
+import { SavedReport, savedReportService } from '@/services/savedReportService';
+import { MetricsData } from '@/types';
+import { formatCount } from '@/lib/format';
+
+type CardState =
+  | { status: 'loading' }
+  | { status: 'ready'; data: MetricsData }
+  | { status: 'error'; message: string };
+
+/**
+ * Saved Analytics reports pinned to the Dashboard, each with the headline
+ * metrics for its filters. Reports saved on another environment or API
+ * version are shown but not loaded — their IDs don't apply here.
+ */
+export function PinnedReports() {
+  const { environment, apiVersion } = useEnvironment();
+  const [reports, setReports] = useState<SavedReport[]>(() => savedReportService.getPinnedReports());
+
+  useEffect(() => {
+    setReports(savedReportService.getPinnedReports());
+  }, [environment, apiVersion]);
+
+  if (reports.length === 0) return null;
+
+  const unpin = (report: SavedReport) => {
+    const res = savedReportService.setPinned(report.id, false);
+    if (!res.success) {
+      toast.error(res.message || 'Failed to unpin report');
+      return;
+    }
+    setReports(savedReportService.getPinnedReports());
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Pin className="h-3.5 w-3.5 text-[var(--h-iris-500)]" strokeWidth={1.75} />
+        <h3 className="halo-heading">Pinned reports</h3>
+      </div>
+      <div className="grid grid-cols-1 gap-5 md:grid-cols-2 xl:grid-cols-3">
+        {reports.map((report) => (
+          <PinnedReportCard
+            key={`${report.id}-${environment}-${apiVersion}`}
+            report={report}
+            usable={savedReportService.isUsable(report)}
+            onUnpin={() => unpin(report)}
+          />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function PinnedReportCard({ report, usable, onUnpin }: { report: SavedReport; usable: boolean; onUnpin: () => void }) {
+  const navigate = useNavigate();
+  const [state, setState] = useState<CardState>({ status: 'loading' });
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (!usable) return;
+    const controller = new AbortController();
+    setState({ status: 'loading' });
+    savedReportService.fetchMetrics(report, controller.signal).then((res) => {
+      if (controller.signal.aborted) return;
+      setState(res.success && res.data
+        ? { status: 'ready', data: res.data }
+        : { status: 'error', message: res.message || 'Failed to load metrics' });
+    });
+    return () => controller.abort();
+  }, [report, usable, reloadKey]);
+
+  const metrics = state.status === 'ready' ? state.data : null;
+
+  return (
+    <div className="halo-card flex flex-col gap-4 p-5">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="truncate text-[14px] font-semibold text-[var(--h-ink)]">{report.name}</p>
+          <p className="mt-0.5 truncate text-[11.5px] text-[var(--h-ink-3)]">{savedReportService.describe(report)}</p>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          {usable && (
+            <button
+              type="button"
+              onClick={() => setReloadKey((k) => k + 1)}
+              disabled={state.status === 'loading'}
+              aria-label="Reload"
+              className="btn-halo-ghost btn-halo-icon btn-halo-sm"
+            >
+              <RefreshCw className={`h-3.5 w-3.5 ${state.status === 'loading' ? 'animate-spin' : ''}`} strokeWidth={1.75} />
+            </button>
+          )}
+          <button type="button" onClick={onUnpin} aria-label="Unpin" title="Unpin" className="btn-halo-ghost btn-halo-icon btn-halo-sm">
+            <PinOff className="h-3.5 w-3.5" strokeWidth={1.75} />
+          </button>
+        </div>
+      </div>
+
+      {!usable ? (
+        <p className="halo-inset flex items-start gap-2 p-3 text-[12.5px] text-[var(--h-ink-2)]">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-[var(--h-amber)]" strokeWidth={1.75} />
+          Saved on {report.environment} {report.apiVersion.toUpperCase()} — switch to it to load this report.
+        </p>
+      ) : state.status === 'error' ? (
+        <p className="halo-inset flex items-start gap-2 p-3 text-[12.5px] text-[var(--h-coral)]">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0" strokeWidth={1.75} />
+          {state.message}
+        </p>
+      ) : (
+        <dl className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+          {[
+            { label: 'Impressions', value: metrics ? formatCount(metrics.impressions) : null },
+            { label: 'Clicks', value: metrics ? formatCount(metrics.clicks) : null },
+            { label: 'CTR', value: metrics ? `${metrics.ctr.toFixed(2)}%` : null },
+            { label: 'Landings', value: metrics ? formatCount(metrics.landingCount) : null },
+          ].map((row) => (
+            <div key={row.label} className="halo-inset px-3 py-2.5">
+              <dt className="halo-label">{row.label}</dt>
+              <dd className="num mt-1 text-[15px] font-semibold text-[var(--h-ink)]">
+                {row.value ?? <span className="halo-skeleton inline-block h-4 w-12 align-middle" />}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+
+      <div className="mt-auto flex justify-end">
+        <button
+          type="button"
+          onClick={() => navigate(`/analytics?${savedReportService.toSearchParams(report).toString()}`)}
+          disabled={!usable}
+          className="btn-halo-ghost btn-halo-sm"
+        >
+          Open in Analytics
+          <ArrowUpRight className="h-3.5 w-3.5" strokeWidth={1.75} />
+        </button>
+      </div>
+    </div>
+  );
+}
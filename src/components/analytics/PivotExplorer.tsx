@@ -0,0 +1,334 @@
+import { Fragment, useEffect, useMemo, useState, type DragEvent } from 'react';
+import { AlertTriangle, Download, GripVertical, Play, Table2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatCount } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import { exportToCSV } from '@/utils/csvExport';
+import { todayYmd } from '@/utils/dates';
+import { pivotService, type PivotFetchResult, type PivotQuery } from '@/services/pivotService';
+import {
+  PIVOT_DIMENSIONS,
+  PIVOT_MEASURES,
+  buildPivot,
+  dimensionKind,
+  dimensionLabel,
+  measureValue,
+  pivotToCsvRows,
+  validatePivotLayout,
+  type PivotCounts,
+  type PivotDimension,
+  type PivotMeasure,
+} from '@/utils/pivot';
+
+interface PivotExplorerProps {
+  /** Dates, filters and members from the last Analytics fetch; null until one has run. */
+  scope: Omit<PivotQuery, 'dimensions'> | null;
+}
+
+type Zone = 'rows' | 'columns';
+
+interface Built {
+  dimensions: PivotDimension[];
+  result: PivotFetchResult;
+}
+
+const DRAG_TYPE = 'application/x-pivot-dimension';
+
+const sameSet = (a: PivotDimension[], b: PivotDimension[]) => a.length === b.length && a.every((d) => b.includes(d));
+
+const formatMeasure = (counts: PivotCounts, measure: PivotMeasure) => {
+  const value = measureValue(counts, measure);
+  if (value === null) return '—';
+  return measure === 'ctr' ? `${value.toFixed(2)}%` : formatCount(value);
+};
+
+/**
+ * Drag dimensions into rows and columns, pick measures, and build a pivot
+ * over the current Analytics filters with subtotals and grand totals. Moving
+ * dimensions between rows and columns re-pivots what's already loaded; adding
+ * or removing one fetches again, reusing cached slices.
+ */
+export function PivotExplorer({ scope }: PivotExplorerProps) {
+  const [rows, setRows] = useState<PivotDimension[]>(['campaign']);
+  const [columns, setColumns] = useState<PivotDimension[]>(['platform']);
+  const [measures, setMeasures] = useState<PivotMeasure[]>(['impressions', 'clicks', 'ctr']);
+  const [built, setBuilt] = useState<Built | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [dragOver, setDragOver] = useState<Zone | 'pool' | null>(null);
+
+  // A new Analytics fetch means new dates/filters — drop the old table
+  useEffect(() => {
+    setBuilt(null);
+    setError(null);
+  }, [scope]);
+
+  const dimensions = useMemo(() => [...rows, ...columns], [rows, columns]);
+  const layoutError = validatePivotLayout(rows, columns);
+  const hasBreakdown = dimensions.some((d) => dimensionKind(d) === 'breakdown');
+  const callCount = scope && !layoutError ? pivotService.countCalls({ ...scope, dimensions }) : 0;
+  const loading = progress !== null;
+  const current = built && sameSet(built.dimensions, dimensions) ? built : null;
+
+  const pivot = useMemo(
+    () => (current ? buildPivot(current.result.records, rows, columns) : null),
+    [current, rows, columns]
+  );
+  const shownMeasures = measures.filter((m) => !(m === 'landingCount' && hasBreakdown));
+
+  const place = (dimension: PivotDimension, zone: Zone | 'pool') => {
+    setRows((prev) => {
+      const next = prev.filter((d) => d !== dimension);
+      return zone === 'rows' ? [...next, dimension] : next;
+    });
+    setColumns((prev) => {
+      const next = prev.filter((d) => d !== dimension);
+      return zone === 'columns' ? [...next, dimension] : next;
+    });
+  };
+
+  const dropProps = (zone: Zone | 'pool') => ({
+    onDragOver: (e: DragEvent) => {
+      if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+      e.preventDefault();
+      setDragOver(zone);
+    },
+    onDragLeave: () => setDragOver((prev) => (prev === zone ? null : prev)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      setDragOver(null);
+      const dimension = e.dataTransfer.getData(DRAG_TYPE) as PivotDimension;
+      if (dimension) place(dimension, zone);
+    },
+  });
+
+  const chip = (dimension: PivotDimension, zone: Zone | 'pool') => (
+    <span
+      key={dimension}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData(DRAG_TYPE, dimension);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onClick={zone === 'pool' ? () => place(dimension, 'rows') : undefined}
+      title={zone === 'pool' ? 'Drag to rows or columns (click adds to rows)' : 'Drag to move'}
+      className="halo-badge inline-flex cursor-grab items-center gap-1 active:cursor-grabbing"
+    >
+      <GripVertical className="h-3 w-3 text-[var(--h-ink-3)]" strokeWidth={1.75} />
+      {dimensionLabel(dimension)}
+      {zone !== 'pool' && (
+        <button
+          type="button"
+          onClick={() => place(dimension, 'pool')}
+          aria-label={`Remove ${dimensionLabel(dimension)}`}
+          className="text-[var(--h-ink-3)] hover:text-[var(--h-ink)]"
+        >
+          <X className="h-3 w-3" strokeWidth={1.75} />
+        </button>
+      )}
+    </span>
+  );
+
+  const zoneClass = (zone: Zone | 'pool') => cn(
+    'halo-inset flex min-h-[2.75rem] flex-wrap items-center gap-1.5 px-3 py-2 transition-colors',
+    dragOver === zone && 'ring-2 ring-[var(--h-iris-500)]'
+  );
+
+  const run = async () => {
+    if (!scope || layoutError) return;
+    setError(null);
+    const res = await pivotService.fetchRecords(
+      { ...scope, dimensions },
+      (done, total) => setProgress({ done, total })
+    );
+    setProgress(null);
+    if (!res.success || !res.data) {
+      setError(res.message || 'Failed to build pivot');
+      return;
+    }
+    setBuilt({ dimensions, result: res.data });
+    if (res.data.failed > 0) {
+      toast.warning(`${res.data.failed} of ${res.data.calls} calls failed — their rows are missing`);
+    }
+  };
+
+  const exportCsv = () => {
+    if (!pivot) return;
+    exportToCSV({
+      filename: `pivot-${[...rows, ...columns].join('-') || 'total'}-${todayYmd()}.csv`,
+      data: pivotToCsvRows(pivot, rows, columns, shownMeasures),
+    });
+  };
+
+  const pool = PIVOT_DIMENSIONS.map((d) => d.value).filter((d) => !dimensions.includes(d));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="halo-heading flex items-center gap-1.5">
+            <Table2 className="h-3.5 w-3.5" style={{ color: 'var(--h-iris-500)' }} strokeWidth={1.75} />
+            Pivot explorer
+          </h3>
+          <p className="halo-subtitle mt-0.5">Cross any two views of the current filters, with subtotals</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button type="button" onClick={exportCsv} disabled={!pivot} className="btn-halo-ghost btn-halo-sm">
+            <Download className="h-3.5 w-3.5" strokeWidth={1.75} />
+            Export CSV
+          </button>
+          <button
+            type="button"
+            onClick={run}
+            disabled={!scope || !!layoutError || loading || callCount === 0}
+            className="btn-halo btn-halo-sm"
+          >
+            <Play className="h-3.5 w-3.5" strokeWidth={1.75} />
+            {progress ? `${progress.done}/${progress.total} calls` : current ? 'Rebuild' : 'Build pivot'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 lg:grid-cols-3">
+        <div className="space-y-1.5">
+          <p className="halo-label">Dimensions</p>
+          <div className={zoneClass('pool')} {...dropProps('pool')}>
+            {pool.length > 0 ? pool.map((d) => chip(d, 'pool')) : <span className="text-[11px] text-[var(--h-ink-3)]">All in use</span>}
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <p className="halo-label">Rows</p>
+          <div className={zoneClass('rows')} {...dropProps('rows')}>
+            {rows.length > 0 ? rows.map((d) => chip(d, 'rows')) : <span className="text-[11px] text-[var(--h-ink-3)]">Drop dimensions here</span>}
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <p className="halo-label">Columns</p>
+          <div className={zoneClass('columns')} {...dropProps('columns')}>
+            {columns.length > 0 ? columns.map((d) => chip(d, 'columns')) : <span className="text-[11px] text-[var(--h-ink-3)]">Drop dimensions here</span>}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1.5">
+        <span className="halo-label mr-1">Measures</span>
+        {PIVOT_MEASURES.map((m) => {
+          const active = measures.includes(m.value);
+          const unavailable = m.value === 'landingCount' && hasBreakdown;
+          return (
+            <button
+              key={m.value}
+              type="button"
+              disabled={unavailable}
+              title={unavailable ? 'Breakdowns don\'t report landings' : undefined}
+              onClick={() => setMeasures((prev) => (active
+                ? prev.length > 1 ? prev.filter((x) => x !== m.value) : prev
+                : PIVOT_MEASURES.map((x) => x.value).filter((x) => x === m.value || prev.includes(x))))}
+              className={cn('halo-segment-item rounded-full border border-[var(--h-line)] disabled:opacity-45', active && !unavailable && 'is-active')}
+            >
+              {m.label}
+            </button>
+          );
+        })}
+        {scope && !layoutError && (
+          <span className="num ml-auto text-[11px] text-[var(--h-ink-3)]">
+            {callCount} {callCount === 1 ? 'call' : 'calls'} · cached slices are reused
+          </span>
+        )}
+      </div>
+
+      {(layoutError || error) && (
+        <p className="halo-inset flex items-start gap-2 p-3 text-[12.5px] text-[var(--h-ink-2)]">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-[var(--h-amber)]" strokeWidth={1.75} />
+          {layoutError || error}
+        </p>
+      )}
+
+      {!scope ? (
+        <p className="halo-subtitle">Fetch results first — the pivot uses the same dates and filters.</p>
+      ) : built && !current ? (
+        <p className="halo-subtitle">Dimensions changed — rebuild to load the new layout.</p>
+      ) : pivot && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-[12px]">
+            <thead>
+              <tr className="border-b border-[var(--h-line)] text-left">
+                {(rows.length > 0 ? rows : [null]).map((d, i) => (
+                  <th key={d ?? i} rowSpan={columns.length > 0 ? 2 : 1} className="halo-label py-2 pr-3 align-bottom font-medium">
+                    {d ? dimensionLabel(d) : ''}
+                  </th>
+                ))}
+                {columns.length > 0 ? (
+                  <>
+                    {pivot.columns.map((key) => (
+                      <th key={key.join('/')} colSpan={shownMeasures.length} className="halo-label border-l border-[var(--h-line)] px-2 py-2 text-center font-medium">
+                        {key.join(' / ')}
+                      </th>
+                    ))}
+                    <th colSpan={shownMeasures.length} className="halo-label border-l border-[var(--h-line)] px-2 py-2 text-center font-semibold">Total</th>
+                  </>
+                ) : (
+                  shownMeasures.map((m) => (
+                    <th key={m} className="halo-label px-2 py-2 text-right font-medium">{PIVOT_MEASURES.find((x) => x.value === m)?.label}</th>
+                  ))
+                )}
+              </tr>
+              {columns.length > 0 && (
+                <tr className="border-b border-[var(--h-line)]">
+                  {[...pivot.columns, null].map((key, ci) => shownMeasures.map((m, mi) => (
+                    <th
+                      key={`${ci}-${m}`}
+                      className={cn('halo-label px-2 py-1.5 text-right font-medium', mi === 0 && 'border-l border-[var(--h-line)]')}
+                    >
+                      {PIVOT_MEASURES.find((x) => x.value === m)?.label}
+                    </th>
+                  )))}
+                </tr>
+              )}
+            </thead>
+            <tbody>
+              {[...pivot.rows, ...(rows.length > 0 ? [{ keys: [], subtotal: true, cells: pivot.columnTotals, total: pivot.grandTotal }] : [])].map((row, ri) => {
+                const grand = rows.length > 0 && row.keys.length === 0;
+                return (
+                  <tr
+                    key={`${ri}-${row.keys.join('/')}`}
+                    className={cn(
+                      'border-b border-[var(--h-line)] last:border-0',
+                      row.subtotal && 'bg-[var(--h-surface-3)] font-semibold',
+                      grand && 'border-t-2'
+                    )}
+                  >
+                    {(rows.length > 0 ? rows : [null]).map((_, di) => (
+                      <td key={di} className="max-w-[12rem] truncate py-2 pr-3 text-[var(--h-ink)]" title={row.keys[di]}>
+                        {row.keys[di] ?? (di === row.keys.length ? (grand ? 'Grand total' : row.subtotal ? 'Subtotal' : rows.length === 0 ? 'All' : '') : '')}
+                      </td>
+                    ))}
+                    {(columns.length > 0 ? [...row.cells, row.total] : [row.total]).map((counts, ci) => (
+                      <Fragment key={ci}>
+                        {shownMeasures.map((m, mi) => (
+                          <td
+                            key={m}
+                            className={cn('num px-2 py-2 text-right text-[var(--h-ink-2)]', columns.length > 0 && mi === 0 && 'border-l border-[var(--h-line)]')}
+                          >
+                            {formatMeasure(counts, m)}
+                          </td>
+                        ))}
+                      </Fragment>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {current && (
+            <p className="mt-2 text-[11px] text-[var(--h-ink-3)]">
+              {current.result.calls} {current.result.calls === 1 ? 'call' : 'calls'}, {current.result.cached} from cache
+              {current.result.failed > 0 && ` · ${current.result.failed} failed`}
+              {hasBreakdown && ' · breakdowns don\'t report landings'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
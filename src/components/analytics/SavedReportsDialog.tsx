@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { Bookmark, Check, Edit, Pin, PinOff, Save, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { SavedReport, SavedReportFilters, SavedReportRange, savedReportService } from '@/services/savedReportService';
+import { cn } from '@/lib/utils';
+import { daysBetweenYmd, todayYmd } from '@/utils/dates';
+
+interface SavedReportsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The filters on screen, offered for saving. */
+  current: { filters: SavedReportFilters; from?: string; to?: string };
+  onOpenReport: (report: SavedReport) => void;
+}
+
+/**
+ * Save the current Analytics filters as a named report, and manage the
+ * signed-in user's library: open, rename, pin to the Dashboard, delete.
+ */
+export function SavedReportsDialog({ open, onOpenChange, current, onOpenReport }: SavedReportsDialogProps) {
+  const [reports, setReports] = useState<SavedReport[]>([]);
+  const [name, setName] = useState('');
+  const [rolling, setRolling] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const reload = () => setReports(savedReportService.getReports());
+
+  useEffect(() => {
+    if (!open) return;
+    reload();
+    setName('');
+    setEditing(null);
+    setConfirmDeleteId(null);
+  }, [open]);
+
+  const { from, to } = current;
+  const rangeDays = from && to ? daysBetweenYmd(from, to) + 1 : 0;
+  // Only a range that runs up to today reads naturally as "the last N days"
+  const canRoll = rangeDays > 0 && to === todayYmd();
+
+  const handleSave = () => {
+    if (!from || !to) {
+      toast.error('Pick a date range first');
+      return;
+    }
+    const range: SavedReportRange = rolling && canRoll ? { kind: 'rolling', days: rangeDays } : { kind: 'fixed', from, to };
+    const res = savedReportService.saveReport({ name, filters: current.filters, range });
+    if (!res.success) {
+      toast.error(res.message || 'Failed to save report');
+      return;
+    }
+    toast.success(`Saved "${res.data?.name}"`);
+    setName('');
+    reload();
+  };
+
+  const handleRename = () => {
+    if (!editing) return;
+    const res = savedReportService.renameReport(editing.id, editing.name);
+    if (!res.success) {
+      toast.error(res.message || 'Failed to rename report');
+      return;
+    }
+    setEditing(null);
+    reload();
+  };
+
+  const togglePin = (report: SavedReport) => {
+    const res = savedReportService.setPinned(report.id, !report.pinned);
+    if (!res.success) {
+      toast.error(res.message || 'Failed to update report');
+      return;
+    }
+    toast.success(report.pinned ? `Unpinned "${report.name}"` : `Pinned "${report.name}" to the Dashboard`);
+    reload();
+  };
+
+  const handleDelete = (report: SavedReport) => {
+    const res = savedReportService.deleteReport(report.id);
+    setConfirmDeleteId(null);
+    if (!res.success) {
+      toast.error(res.message || 'Failed to delete report');
+      return;
+    }
+    reload();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl halo-card rounded-[var(--h-r-xl)]">
+        <DialogHeader>
+          <DialogTitle className="halo-heading text-base">Saved reports</DialogTitle>
+          <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+            Your named Analytics views. Each opens only on the environment and API version it was saved on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="halo-inset space-y-3 p-3.5">
+          <p className="halo-label">Save current view</p>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="e.g. Electronics CPC weekly"
+          />
+          <div className="flex flex-wrap items-center gap-1.5">
+            <button
+              type="button"
+              onClick={() => setRolling(false)}
+              className={cn('halo-segment-item', !rolling && 'is-active')}
+            >
+              These dates{from && to ? ` (${from} – ${to})` : ''}
+            </button>
+            <button
+              type="button"
+              onClick={() => setRolling(true)}
+              disabled={!canRoll}
+              title={canRoll ? undefined : 'Available when the range ends today'}
+              className={cn('halo-segment-item disabled:opacity-50', rolling && canRoll && 'is-active')}
+            >
+              Rolling: last {rangeDays || 'N'} days
+            </button>
+            <button type="button" onClick={handleSave} disabled={!name.trim()} className="btn-halo btn-halo-sm ml-auto">
+              <Save className="h-3.5 w-3.5" strokeWidth={1.75} />
+              Save
+            </button>
+          </div>
+        </div>
+
+        <div className="max-h-[45vh] overflow-y-auto">
+          {reports.length === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-2 py-10 text-center">
+              <span className="halo-chip-lg"><Bookmark size={20} strokeWidth={1.75} /></span>
+              <p className="halo-heading">No saved reports</p>
+              <p className="halo-subtitle">Name the view above to keep it.</p>
+            </div>
+          ) : (
+            <ul className="space-y-2">
+              {reports.map((report) => {
+                const usable = savedReportService.isUsable(report);
+                const isEditing = editing?.id === report.id;
+                return (
+                  <li key={report.id} className="halo-inset flex items-start gap-3 p-3">
+                    <div className="min-w-0 flex-1">
+                      {isEditing ? (
+                        <Input
+                          autoFocus
+                          value={editing.name}
+                          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                          onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+                        />
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => onOpenReport(report)}
+                          disabled={!usable}
+                          className="block max-w-full truncate text-left text-[13px] font-semibold text-[var(--h-ink)] hover:text-[var(--h-iris-500)] disabled:cursor-default disabled:hover:text-[var(--h-ink)]"
+                        >
+                          {report.name}
+                        </button>
+                      )}
+                      <p className="mt-0.5 truncate text-[11.5px] text-[var(--h-ink-3)]">{savedReportService.describe(report)}</p>
+                      <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+                        <span className={usable ? 'halo-badge' : 'halo-badge halo-badge-warn'}>
+                          {report.environment} · {report.apiVersion.toUpperCase()}
+                        </span>
+                        {report.pinned && <span className="halo-badge halo-badge-iris">Pinned</span>}
+                        {!usable && (
+                          <span className="text-[11.5px] text-[var(--h-ink-3)]">
+                            Switch to {report.environment} {report.apiVersion.toUpperCase()} to open
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex shrink-0 items-center gap-1">
+                      {isEditing ? (
+                        <>
+                          <button type="button" onClick={handleRename} aria-label="Save name" className="btn-halo-ghost btn-halo-icon btn-halo-sm">
+                            <Check className="h-3.5 w-3.5" strokeWidth={1.75} />
+                          </button>
+                          <button type="button" onClick={() => setEditing(null)} aria-label="Cancel rename" className="btn-halo-ghost btn-halo-icon btn-halo-sm">
+                            <X className="h-3.5 w-3.5" strokeWidth={1.75} />
+                          </button>
+                        </>
+                      ) : confirmDeleteId === report.id ? (
+                        <>
+                          <button type="button" onClick={() => handleDelete(report)} className="btn-halo-ghost btn-halo-sm text-[var(--h-coral)]">
+                            Delete
+                          </button>
+                          <button type="button" onClick={() => setConfirmDeleteId(null)} aria-label="Keep report" className="btn-halo-ghost btn-halo-icon btn-halo-sm">
+                            <X className="h-3.5 w-3.5" strokeWidth={1.75} />
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => togglePin(report)}
+                            aria-label={report.pinned ? 'Unpin from Dashboard' : 'Pin to Dashboard'}
+                            title={report.pinned ? 'Unpin from Dashboard' : 'Pin to Dashboard'}
+                            className="btn-halo-ghost btn-halo-icon btn-halo-sm"
+                          >
+                            {report.pinned ? <PinOff className="h-3.5 w-3.5" strokeWidth={1.75} /> : <Pin className="h-3.5 w-3.5" strokeWidth={1.75} />}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setEditing({ id: report.id, name: report.name })}
+                            aria-label="Rename"
+                            className="btn-halo-ghost btn-halo-icon btn-halo-sm"
+                          >
+                            <Edit className="h-3.5 w-3.5" strokeWidth={1.75} />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setConfirmDeleteId(report.id)}
+                            aria-label="Delete"
+                            className="btn-halo-ghost btn-halo-icon btn-halo-sm text-[var(--h-coral)]"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" strokeWidth={1.75} />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
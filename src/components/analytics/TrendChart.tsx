@@ -1,11 +1,14 @@
 import { memo, useMemo, useState, useCallback } from 'react';
 import {
-  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip,
-  ResponsiveContainer, Area, AreaChart, ComposedChart, ReferenceLine,
+  LineChart, Line, Bar, XAxis, YAxis, CartesianGrid, Tooltip,
+  ResponsiveContainer, Area, AreaChart, ComposedChart, ReferenceLine, ReferenceDot,
 } from 'recharts';
 import { Plane, TrendingUp, CheckSquare, Square } from 'lucide-react';
-import { TrendChartSeries } from '@/types';
+import { TrendChartSeries, TrendDataPoint } from '@/types';
 import { formatChartValue, formatChartAxis } from '@/lib/format';
+import { alignByDayOffset, compareValues, formatPctChange, formatSignedDelta } from '@/utils/comparison';
+import type { TrendAnomaly } from '@/utils/anomaly';
+import { formatYmd } from '@/utils/dates';
 import { useTheme } from '@/context/ThemeContext';
 import {
   useHaloChartPalette, seriesColor, haloGradientId,
@@ -16,6 +19,15 @@ import {
 
 export type ChartType = 'line' | 'bar' | 'area';
 
+/** The same series over a comparison window, overlaid dashed on the current dates. */
+export interface TrendComparison {
+  series: TrendChartSeries[];
+  /** Legend suffix, e.g. "last year". */
+  label: string;
+  /** Days from the comparison window's start to the current window's start. */
+  offsetDays: number;
+}
+
 interface TrendChartProps {
   series: TrendChartSeries[];
   title: string;
@@ -28,28 +40,29 @@ interface TrendChartProps {
   enableSeriesFilters?: boolean;
   enablePlatformFilter?: boolean;
   chartType?: ChartType;
+  comparison?: TrendComparison;
+  /** Flagged points; those for this chart's metric are marked on their series. */
+  anomalies?: TrendAnomaly[];
 }
 
-const formatDate = (dateStr: string) => {
-  try {
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) return dateStr;
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  } catch {
-    return dateStr;
-  }
-};
+// Bucket dates are calendar days; formatYmd labels them without a timezone shift
+const formatDate = (dateStr: string) => formatYmd(dateStr, { month: 'short', day: 'numeric' });
+
+const COMPARE_SUFFIX = '__cmp';
 
-const formatFullDate = (dateStr: string | number) => {
-  try {
-    const date = new Date(dateStr);
-    if (isNaN(date.getTime())) return String(dateStr);
-    return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
-  } catch {
-    return String(dateStr);
+/** Total of one metric over a series; CTR is re-derived from the click and impression totals. */
+const seriesTotal = (points: TrendDataPoint[], dataKey: NonNullable<TrendChartProps['dataKey']>) => {
+  if (dataKey === 'ctr') {
+    const impressions = points.reduce((sum, p) => sum + (p.impressions || 0), 0);
+    const clicks = points.reduce((sum, p) => sum + (p.clicks || 0), 0);
+    return impressions > 0 ? (clicks / impressions) * 100 : 0;
   }
+  return points.reduce((sum, p) => sum + (p[dataKey] || 0), 0);
 };
 
+const formatFullDate = (dateStr: string | number) =>
+  formatYmd(String(dateStr), { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
 /* ── Main Chart ── */
 export const TrendChart = memo<TrendChartProps>(({
   series,
@@ -61,6 +74,9 @@ export const TrendChart = memo<TrendChartProps>(({
   enableSeriesFilters: _enableSeriesFilters = false,
   enablePlatformFilter: _enablePlatformFilter = false,
   chartType = 'line',
+  period = '1d',
+  comparison,
+  anomalies,
 }) => {
   const { theme } = useTheme();
   const palette = useHaloChartPalette(theme);
@@ -73,8 +89,16 @@ export const TrendChart = memo<TrendChartProps>(({
   const seriesColorMap = useMemo(() => {
     const map = new Map(series.map((item, index) => [item.name, seriesColor(palette, index)]));
     map.set('Combined Total', palette.series[0]);
+    if (comparison) {
+      series.forEach((item, index) => map.set(`${item.name} (${comparison.label})`, seriesColor(palette, index)));
+    }
     return map;
-  }, [series, palette]);
+  }, [series, palette, comparison]);
+
+  const comparisonByName = useMemo(
+    () => new Map((comparison?.series ?? []).map((item) => [item.name, item.data])),
+    [comparison]
+  );
 
   const { combinedData, seriesNames } = useMemo(() => {
     if (!series || series.length === 0) return { combinedData: [], seriesNames: [] };
@@ -97,12 +121,25 @@ export const TrendChart = memo<TrendChartProps>(({
       });
     });
 
+    // Comparison points land on the current dates they line up with by day offset
+    if (comparison) {
+      const currentDates = Array.from(dataMap.keys());
+      series.forEach(s => {
+        const points = comparisonByName.get(s.name);
+        if (!points) return;
+        alignByDayOffset(currentDates, points, comparison.offsetDays, period).forEach(({ date, point }) => {
+          if (!dataMap.has(date)) dataMap.set(date, { date });
+          dataMap.get(date)[`${s.name}${COMPARE_SUFFIX}`] = point[dataKey] || 0;
+        });
+      });
+    }
+
     const data = Array.from(dataMap.values()).sort(
       (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
     );
 
     return { combinedData: data, seriesNames: names };
-  }, [series, dataKey, isCTR]);
+  }, [series, dataKey, isCTR, comparison, comparisonByName, period]);
 
   const toggleSeries = useCallback((name: string) => {
     setHiddenSeries(prev => {
@@ -123,6 +160,11 @@ export const TrendChart = memo<TrendChartProps>(({
     [seriesNames, hiddenSeries]
   );
 
+  const comparedNames = useMemo(
+    () => visibleNames.filter(n => comparisonByName.has(n)),
+    [visibleNames, comparisonByName]
+  );
+
   /* ── Combined total data ── */
   const chartData = useMemo(() => {
     if (!showCombined || visibleNames.length < 2) return combinedData;
@@ -145,7 +187,7 @@ export const TrendChart = memo<TrendChartProps>(({
     if (!isCTR || !chartData.length) return undefined;
     let min = Infinity;
     let max = -Infinity;
-    visibleNames.forEach(name => {
+    [...visibleNames, ...comparedNames.map(n => `${n}${COMPARE_SUFFIX}`)].forEach(name => {
       chartData.forEach((d: any) => {
         const v = d[name];
         if (v != null && v > 0) {
@@ -166,7 +208,7 @@ export const TrendChart = memo<TrendChartProps>(({
     if (min === Infinity || max === -Infinity) return undefined;
     const padding = Math.max((max - min) * 0.15, 0.5);
     return [Math.max(0, min - padding), max + padding];
-  }, [isCTR, chartData, visibleNames, showCombined]);
+  }, [isCTR, chartData, visibleNames, comparedNames, showCombined]);
 
   const avgValue = useMemo(() => {
     if (!chartData.length || !visibleNames.length) return null;
@@ -186,13 +228,62 @@ export const TrendChart = memo<TrendChartProps>(({
       <HaloTooltip
         {...props}
         labelFormatter={formatFullDate}
-        valueFormatter={(value) => formatChartValue(value as number, isCTR ? 'ctr' : dataKey)}
+        valueFormatter={(value, entry) => {
+          const formatted = formatChartValue(value as number, isCTR ? 'ctr' : dataKey);
+          const previous = entry.payload?.[`${String(entry.dataKey)}${COMPARE_SUFFIX}`];
+          if (typeof previous !== 'number') return formatted;
+          return `${formatted} · ${formatPctChange(compareValues(Number(value) || 0, previous).pct)}`;
+        }}
         colorForEntry={(entry) => seriesColorMap.get(String(entry.name)) || palette.series[0]}
       />
     ),
     [seriesColorMap, palette, dataKey, isCTR]
   );
 
+  /* ── Dashed comparison overlay, shared by every chart type ── */
+  const comparisonLines = comparison
+    ? comparedNames.map((name) => {
+        const color = seriesColorMap.get(name) || palette.series[0];
+        return (
+          <Line
+            key={`cmp-${name}`}
+            type="monotone"
+            dataKey={`${name}${COMPARE_SUFFIX}`}
+            name={`${name} (${comparison.label})`}
+            stroke={color}
+            strokeWidth={1.5}
+            strokeOpacity={0.55}
+            strokeDasharray="3 4"
+            dot={false}
+            activeDot={false}
+            connectNulls
+            animationDuration={animated ? 600 : 0}
+            isAnimationActive={animated}
+          />
+        );
+      })
+    : null;
+
+  /* ── Anomaly markers, on the series' own plotted value ── */
+  const anomalyDots = (anomalies ?? [])
+    .filter((a) => a.metric === dataKey && visibleNames.includes(a.series))
+    .map((a) => {
+      const y = chartData.find((d) => d.date === a.date)?.[a.series];
+      if (typeof y !== 'number') return null;
+      return (
+        <ReferenceDot
+          key={`anomaly-${a.id}`}
+          x={a.date}
+          y={y}
+          r={5}
+          fill={a.direction === 'drop' ? 'var(--h-coral)' : 'var(--h-amber)'}
+          stroke="var(--h-surface)"
+          strokeWidth={2}
+          ifOverflow="extendDomain"
+        />
+      );
+    });
+
   /* ── Empty state ── */
   if (!combinedData.length) {
     return (
@@ -286,7 +377,7 @@ export const TrendChart = memo<TrendChartProps>(({
           <ResponsiveContainer width="100%" height="100%">
             {chartType === 'bar' ? (
               /* ── Bar Chart ── */
-              <BarChart data={chartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
+              <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
                 <defs>
                   {visibleNames.map((name, idx) => (
                     <HaloBarGradient
@@ -334,7 +425,9 @@ export const TrendChart = memo<TrendChartProps>(({
                     {...haloBarProps}
                   />
                 )}
-              </BarChart>
+                {comparisonLines}
+                {anomalyDots}
+              </ComposedChart>
             ) : chartType === 'area' ? (
               /* ── Area Chart ── */
               <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: -10, bottom: 0 }}>
@@ -393,6 +486,8 @@ export const TrendChart = memo<TrendChartProps>(({
                     {...haloLineProps(palette.series[0], palette)}
                   />
                 )}
+                {comparisonLines}
+                {anomalyDots}
               </ComposedChart>
             ) : useArea ? (
               /* ── Single-series Line → Area ── */
@@ -439,6 +534,8 @@ export const TrendChart = memo<TrendChartProps>(({
                     {...haloLineProps(palette.series[0], palette)}
                   />
                 )}
+                {comparisonLines}
+                {anomalyDots}
               </ComposedChart>
             ) : (
               /* ── Multi-series Line ── */
@@ -481,11 +578,38 @@ export const TrendChart = memo<TrendChartProps>(({
                     {...haloLineProps(palette.series[0], palette)}
                   />
                 )}
+                {comparisonLines}
+                {anomalyDots}
               </LineChart>
             )}
           </ResponsiveContainer>
         )}
       </div>
+
+      {/* Per-series totals against the comparison window */}
+      {comparison && comparedNames.length > 0 && (
+        <div className="border-t border-[var(--h-line)] pt-3">
+          <p className="halo-eyebrow mb-2">Totals vs {comparison.label}</p>
+          <div className="grid grid-cols-1 gap-1.5 sm:grid-cols-2 xl:grid-cols-3">
+            {comparedNames.map((name) => {
+              const current = seriesTotal(series.find((s) => s.name === name)?.data ?? [], dataKey);
+              const change = compareValues(current, seriesTotal(comparisonByName.get(name) ?? [], dataKey));
+              const format = (v: number) => formatChartValue(v, dataKey);
+              return (
+                <div key={name} className="halo-inset flex items-center gap-2 px-3 py-2 text-[11px]">
+                  <span className="h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: seriesColorMap.get(name) || palette.series[0] }} />
+                  <span className="min-w-0 flex-1 truncate text-[var(--h-ink-2)]" title={name}>{name}</span>
+                  <span className="num font-semibold text-[var(--h-ink)]">{format(current)}</span>
+                  <span className="num text-[var(--h-ink-3)]">vs {format(change.previous)}</span>
+                  <span className={`halo-delta halo-delta-bare halo-delta-${change.direction} num`}>
+                    {formatSignedDelta(change.delta, format)} · {formatPctChange(change.pct)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 });
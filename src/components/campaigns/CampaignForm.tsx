@@ -10,9 +10,11 @@ import { VelvetBackButton } from '@/components/ui/velvet-back-button';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { buildApiUrl } from '@/config/api';
+import { apiClient, apiErrorMessage } from '@/services/apiClient';
 import { isV2Active } from '@/utils/v2Normalizer';
 import { usePermissions } from '@/context/PermissionsContext';
+import { useFormDraft } from '@/hooks/useFormDraft';
+import { FormDraftPrompts } from '@/components/drafts/FormDraftPrompts';
 
 const campaignFormSchema = z.object({
   brandName: z.string().min(1, 'Brand name is required'),
@@ -30,6 +32,7 @@ export function CampaignForm() {
   const { canEdit } = usePermissions();
   const [loading, setLoading] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
+  const [loaded, setLoaded] = useState(false);
 
   // Redirect view-only users
   useEffect(() => {
@@ -49,6 +52,14 @@ export function CampaignForm() {
     },
   });
 
+  const brandName = form.watch('brandName');
+  const { draft, guardNavigate, clearDraft } = useFormDraft({
+    form,
+    kind: 'campaign',
+    title: campaignId ? `Edit campaign · ${brandName || campaignId}` : `New campaign${brandName ? ` · ${brandName}` : ''}`,
+    ready: !campaignId || loaded,
+  });
+
   useEffect(() => {
     if (campaignId) {
       setIsEditMode(true);
@@ -58,25 +69,21 @@ export function CampaignForm() {
 
   const fetchCampaign = async () => {
     try {
-      const response = await fetch(`${buildApiUrl('/campaigns')}?campaignId=${campaignId}`, {
-        credentials: 'omit'
-      });
-      if (!response.ok) throw new Error('Failed to fetch campaign');
-
-      const result = await response.json();
-      if (result.status === 1 && result.data?.campaignList?.[0]) {
-        const campaign = result.data.campaignList[0];
+      const data = await apiClient.get<{ campaignList?: Array<Omit<CampaignFormValues, 'totalBudget'> & { totalBudget: string | number }> }>('/campaigns', { campaignId });
+      if (data?.campaignList?.[0]) {
+        const campaign = data.campaignList[0];
         form.reset({
           brandName: campaign.brandName,
           impressionTarget: campaign.impressionTarget,
           clickTarget: campaign.clickTarget,
-          totalBudget: parseFloat(campaign.totalBudget),
+          totalBudget: parseFloat(String(campaign.totalBudget)),
           status: campaign.status,
         });
+        setLoaded(true);
       }
     } catch (error) {
       console.error('Error fetching campaign:', error);
-      toast.error('Failed to load campaign');
+      toast.error(apiErrorMessage(error, 'Failed to load campaign'));
     }
   };
 
@@ -102,31 +109,16 @@ export function CampaignForm() {
           status: Number(data.status)
         };
 
-      // Determine the URL based on whether we're creating or updating
-      const url = isEditMode
-? `${buildApiUrl('/campaigns/update')}?userId=1`
-          : `${buildApiUrl('/campaigns')}?userId=1`;
-
-      const response = await fetch(url, {
-        method: 'POST',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
+      // Determine the path based on whether we're creating or updating
+      const path = isEditMode ? '/campaigns/update' : '/campaigns';
+      await apiClient.post(path, payload, { query: { userId: 1 } });
 
-      const result = await response.json();
-
-      if (result.status === 1) {
-        toast.success(`Campaign ${isEditMode ? 'updated' : 'created'} successfully`);
-        navigate('/campaigns');
-      } else {
-        throw new Error(result.message || 'Operation failed');
-      }
+      toast.success(`Campaign ${isEditMode ? 'updated' : 'created'} successfully`);
+      clearDraft();
+      navigate('/campaigns');
     } catch (error) {
       console.error(`Error ${isEditMode ? 'updating' : 'creating'} campaign:`, error);
-      toast.error(`Failed to ${isEditMode ? 'update' : 'create'} campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      toast.error(apiErrorMessage(error, `Failed to ${isEditMode ? 'update' : 'create'} campaign`));
     } finally {
       setLoading(false);
     }
@@ -138,7 +130,7 @@ export function CampaignForm() {
         <div className="flex items-center gap-4">
           <VelvetBackButton
             label="Back"
-            onClick={() => navigate(-1)}
+            onClick={() => guardNavigate(-1)}
           />
           <div>
             <p className="halo-eyebrow mb-1">Campaigns</p>
@@ -151,6 +143,8 @@ export function CampaignForm() {
           </div>
         </div>
 
+        <FormDraftPrompts draft={draft} />
+
         <div className="halo-card halo-rail overflow-hidden">
           <div className="halo-panel-head halo-rail-full">
             <div className="halo-panel-head-title">
@@ -291,7 +285,7 @@ export function CampaignForm() {
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={() => navigate('/campaigns')}
+                    onClick={() => guardNavigate('/campaigns')}
                     disabled={loading}
                     className="btn-halo-ghost order-2 sm:order-1"
                   >
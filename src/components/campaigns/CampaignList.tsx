@@ -7,13 +7,14 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
-import { Campaign, CampaignResponse } from '@/types';
+import { Campaign } from '@/types';
 import { motion } from 'framer-motion';
 import { analyticsService } from '@/services/analyticsService';
 import { campaignService } from '@/services/campaignService';
+import { adService } from '@/services/adService';
 import { ConfirmationModal } from '@/components/ui/confirmation-modal';
 import { exportToCsv } from '@/utils/csvExport';
-import { buildApiUrl } from '@/config/api';
+import { todayYmd } from '@/utils/dates';
 import { usePermissions } from '@/context/PermissionsContext';
 import { formatCount, familyForString } from '@/lib/format';
 
@@ -60,6 +61,8 @@ export function CampaignList() {
 
   useEffect(() => {
     fetchCampaigns();
+    // A filter change or leaving the page cancels the per-campaign metrics still loading
+    return () => analyticsService.cancelBatch('campaign-list');
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [statusFilter, brandNameFilter]);
 
@@ -68,41 +71,35 @@ export function CampaignList() {
       setLoading(true);
       setError(null);
 
-      const response = await fetch(`${buildApiUrl('/campaigns')}?userId=1`);
-      if (!response.ok) throw new Error('Failed to fetch campaigns');
-      const result: CampaignResponse = await response.json();
+      const result = await campaignService.getCampaigns();
+      if (!result.success) throw new Error(result.message);
+      // The service types only the fields it uses; the list reads the full row
+      const campaignList = (result.data ?? []) as unknown as Campaign[];
 
-      if (result.status === 1 && result.data?.campaignList) {
-        setCampaigns(result.data.campaignList);
+      if (campaignList.length > 0) {
+        setCampaigns(campaignList);
 
-        const today = new Date().toISOString().split('T')[0];
-        const metricsArr = await Promise.all(result.data.campaignList.map(async (c) => {
+        // One metrics call per row, run through the analytics query pool
+        const batch = analyticsService.beginBatch('campaign-list');
+        const today = todayYmd();
+        const metricsArr = await Promise.all(campaignList.map(async (c) => {
           const fromDate = c.createdAt ? c.createdAt.split('T')[0] : analyticsService.getDateRange('30d').from;
-          const mRes = await analyticsService.getMetrics({ from: fromDate, to: today, campaignId: c.campaignId });
+          const mRes = await analyticsService.getMetrics({ from: fromDate, to: today, campaignId: c.campaignId }, batch.signal);
           return { id: c.campaignId, metrics: mRes.success && mRes.data ? mRes.data : null };
         }));
+        if (batch.aborted) return;
         const metricMap: Record<string, { impressions: number; clicks: number; landingCount: number }> = {};
         metricsArr.forEach(({ id, metrics }) => {
           if (metrics) metricMap[id] = { impressions: metrics.impressions, clicks: metrics.clicks, landingCount: metrics.landingCount };
         });
         setCampaignMetrics(metricMap);
 
-        const liveAdsPromises = result.data.campaignList.map(async (c) => {
-          try {
-            const adsResponse = await fetch(`${buildApiUrl('/ads')}?campaignId=${c.campaignId}`);
-            if (adsResponse.ok) {
-              const adsResult = await adsResponse.json();
-              if (adsResult.status === 1 && adsResult.data?.adsList) {
-                const liveAds = adsResult.data.adsList.filter((ad: any) => ad.status === 1);
-                return { campaignId: c.campaignId, count: liveAds.length };
-              }
-            }
-            return { campaignId: c.campaignId, count: 0 };
-          } catch {
-            return { campaignId: c.campaignId, count: 0 };
-          }
-        });
-        const liveAdsResults = await Promise.all(liveAdsPromises);
+        const liveAdsResults = await Promise.all(campaignList.map(async (c) => {
+          const adsResult = await adService.getAds({ campaignId: c.campaignId }, batch.signal);
+          const adsList: any[] = adsResult.success ? adsResult.data?.adsList ?? [] : [];
+          return { campaignId: c.campaignId, count: adsList.filter((ad) => ad.status === 1).length };
+        }));
+        if (batch.aborted) return;
         const liveAdsMap: Record<string, number> = {};
         liveAdsResults.forEach(({ campaignId, count }) => {
           liveAdsMap[campaignId] = count;
@@ -142,7 +139,7 @@ export function CampaignList() {
       'Created Date': campaign.createdAt ? new Date(campaign.createdAt).toLocaleDateString() : 'N/A',
       'Last Updated': campaign.updatedAt ? new Date(campaign.updatedAt).toLocaleDateString() : 'N/A'
     }));
-    const filename = `campaigns_${new Date().toISOString().split('T')[0]}.csv`;
+    const filename = `campaigns_${todayYmd()}.csv`;
     exportToCsv(csvData, filename);
     toast.success(`Exported ${filteredCampaigns.length} campaigns to ${filename}`);
   };
@@ -187,16 +184,12 @@ export function CampaignList() {
 
   const handleStatusChange = async (campaignId: string | number, newStatus: number) => {
     try {
-      const response = await fetch(`${buildApiUrl('/campaigns/update')}?userId=1`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ campaignId, status: newStatus }),
-      });
-      if (!response.ok) throw new Error('Failed to update campaign status');
-      const result = await response.json();
-      if (result.status === 1) {
+      const result = await campaignService.updateCampaign(campaignId, { status: newStatus }, 1);
+      if (result.success) {
         toast.success(`Campaign ${statusMap[newStatus as keyof typeof statusMap]?.label?.toLowerCase()} successfully`);
         fetchCampaigns();
+      } else {
+        toast.error(result.message || 'Failed to update campaign status');
       }
     } catch {
       toast.error('Failed to update campaign status');
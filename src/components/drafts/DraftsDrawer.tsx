@@ -0,0 +1,100 @@
+import { useNavigate } from 'react-router-dom';
+import { FileClock, FileText, Megaphone, Trash2 } from 'lucide-react';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useEnvironment } from '@/context/EnvironmentContext';
+import { useFormDrafts } from '@/hooks/useFormDraft';
+import { FormDraft, formDraftService } from '@/services/formDraftService';
+
+interface DraftsDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatWhen = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Every autosaved AdForm / CampaignForm draft in this browser. Drafts from the
+ * current environment open their form, where the restore is offered; drafts
+ * from another environment are listed so they aren't forgotten.
+ */
+export function DraftsDrawer({ open, onOpenChange }: DraftsDrawerProps) {
+  const navigate = useNavigate();
+  const { environment } = useEnvironment();
+  const drafts = useFormDrafts();
+
+  const openDraft = (draft: FormDraft) => {
+    onOpenChange(false);
+    navigate(draft.path);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="z-[100000] flex w-full flex-col gap-0 p-0 sm:max-w-md">
+        <SheetHeader className="border-b border-[var(--h-line)] p-5 text-left">
+          <SheetTitle className="halo-heading">Drafts</SheetTitle>
+          <SheetDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+            Unsubmitted ad and campaign forms, autosaved in this browser.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {drafts.length === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-2 py-16 text-center">
+              <span className="halo-chip-lg"><FileClock size={20} strokeWidth={1.75} /></span>
+              <p className="halo-heading">No open drafts</p>
+              <p className="halo-subtitle">Half-filled ad and campaign forms show up here.</p>
+            </div>
+          ) : (
+            <ul className="space-y-2.5">
+              {drafts.map((draft) => {
+                const here = draft.environment === environment;
+                const Icon = draft.kind === 'ad' ? FileText : Megaphone;
+                return (
+                  <li key={draft.key} className="halo-inset flex items-start gap-3 p-3.5">
+                    <span className="halo-chip"><Icon className="h-3.5 w-3.5" /></span>
+                    <div className="min-w-0 flex-1">
+                      <button
+                        type="button"
+                        onClick={() => openDraft(draft)}
+                        disabled={!here}
+                        className="block max-w-full truncate text-left text-[13px] font-semibold text-[var(--h-ink)] hover:text-[var(--h-iris-500)] disabled:cursor-default disabled:hover:text-[var(--h-ink)]"
+                      >
+                        {draft.title}
+                      </button>
+                      <p className="truncate text-[11.5px] text-[var(--h-ink-3)]">{draft.path}</p>
+                      <div className="mt-1.5 flex flex-wrap items-center gap-1.5">
+                        <span className="num text-[11.5px] text-[var(--h-ink-3)]">{formatWhen(draft.updatedAt)}</span>
+                        <span className={here ? 'halo-badge' : 'halo-badge halo-badge-warn'}>{draft.environment}</span>
+                        {!here && <span className="text-[11.5px] text-[var(--h-ink-3)]">Switch to {draft.environment} to open</span>}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => formDraftService.removeDraft(draft.key)}
+                      aria-label="Discard draft"
+                      className="btn-halo-ghost btn-halo-icon btn-halo-sm text-[var(--h-coral)]"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" strokeWidth={1.75} />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {drafts.length > 0 && (
+          <div className="flex items-center justify-between gap-3 border-t border-[var(--h-line)] px-5 py-4">
+            <span className="text-[12.5px] text-[var(--h-ink-2)]">
+              <span className="num">{drafts.length}</span> draft{drafts.length === 1 ? '' : 's'}
+            </span>
+            <button type="button" onClick={() => formDraftService.clearAll()} className="btn-halo-ghost btn-halo-sm text-[var(--h-coral)]">
+              Discard all
+            </button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,80 @@
+import { AlertTriangle, FileClock, RotateCcw, Trash2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { FormDraftState } from '@/hooks/useFormDraft';
+
+const formatDraftTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString('en-IN', { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+/**
+ * Draft UI for a form using useFormDraft: the restore offer when the form is
+ * reopened with a saved draft, an autosave note, and the leave confirmation.
+ */
+export function FormDraftPrompts({ draft }: { draft: FormDraftState }) {
+  const { offer, savedAt, leaveTo } = draft;
+
+  return (
+    <>
+      {offer ? (
+        <div className="halo-card flex flex-col gap-3 p-4 sm:flex-row sm:items-center sm:justify-between">
+          <div className="flex items-start gap-3">
+            <span className="halo-chip"><FileClock className="h-3.5 w-3.5" /></span>
+            <div>
+              <p className="text-[13px] font-semibold text-[var(--h-ink)]">
+                Unsaved draft from {formatDraftTime(offer.draft.updatedAt)}
+              </p>
+              <p className="text-[12.5px] text-[var(--h-ink-2)]">
+                Restore it to pick up where you left off. Autosave is paused until you restore or discard it.
+              </p>
+              {offer.stale && (
+                <p className="mt-1 flex items-center gap-1.5 text-[12px] text-[var(--h-amber)]">
+                  <AlertTriangle className="h-3.5 w-3.5" strokeWidth={1.75} />
+                  This record has been saved since the draft was taken — restoring overwrites those changes in the form.
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <button type="button" onClick={draft.discardDraft} className="btn-halo-ghost btn-halo-sm">
+              <Trash2 className="h-3.5 w-3.5" strokeWidth={1.75} />
+              Discard
+            </button>
+            <button type="button" onClick={draft.restoreDraft} className="btn-halo btn-halo-sm">
+              <RotateCcw className="h-3.5 w-3.5" strokeWidth={1.75} />
+              Restore draft
+            </button>
+          </div>
+        </div>
+      ) : (
+        savedAt !== null && (
+          <p className="flex items-center gap-1.5 text-[12px] text-[var(--h-ink-3)]">
+            <FileClock className="h-3.5 w-3.5" strokeWidth={1.75} />
+            Draft autosaved at <span className="num">{formatDraftTime(savedAt)}</span>
+          </p>
+        )
+      )}
+
+      <Dialog open={leaveTo !== null} onOpenChange={(open) => !open && draft.stay()}>
+        <DialogContent className="sm:max-w-md halo-card rounded-[var(--h-r-xl)]">
+          <DialogHeader>
+            <DialogTitle className="halo-heading text-base">Leave with unsaved changes?</DialogTitle>
+            <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+              Your changes haven't been submitted. Keep them as a draft to restore later from Drafts, or discard them.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-wrap justify-end gap-2">
+            <button type="button" onClick={draft.stay} className="btn-halo-ghost btn-halo-sm">Stay</button>
+            <button type="button" onClick={() => draft.leave(true)} className="btn-halo-ghost btn-halo-sm text-[var(--h-coral)]">
+              Discard & leave
+            </button>
+            <button type="button" onClick={() => draft.leave(false)} className="btn-halo btn-halo-sm">Keep draft & leave</button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -25,13 +25,21 @@ import {
   TrendingUp,
   CheckCircle,
   Clock,
-  Trash2
+  Trash2,
+  FileClock,
+  Globe,
+  Check
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTheme } from '@/context/ThemeContext';
 import { useAccent } from '@/context/AccentContext';
 import { NotificationsModal } from './NotificationsModal';
 import { useNavItems } from './Sidebar';
+import { DraftsDrawer } from '@/components/drafts/DraftsDrawer';
+import { useFormDrafts } from '@/hooks/useFormDraft';
+import { useReportingTimezone } from '@/hooks/useReportingTimezone';
+import { REPORTING_TIMEZONES, timezoneLabel } from '@/utils/dates';
 
 function getInitials(userName: string | null | undefined) {
   if (!userName) return 'U';
@@ -229,14 +237,27 @@ interface HeaderProps {
 
 export function Header({ onMenuClick }: HeaderProps) {
   const { user, logout } = useAuth();
-  const { userRole } = usePermissions();
+  const { userRole, canEdit } = usePermissions();
   const { unreadCount } = useNotifications();
+  const drafts = useFormDrafts();
+  const [draftsOpen, setDraftsOpen] = useState(false);
   const { apiVersion, setApiVersion, isV2 } = useEnvironment();
   const navigate = useNavigate();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
   const { theme, toggleTheme } = useTheme();
   const { accent, setAccent } = useAccent();
   const navItems = useNavItems();
+  const [timeZone, setTimeZone] = useReportingTimezone();
+
+  const handleTimezoneChange = (next: string) => {
+    if (next === timeZone) return;
+    const result = setTimeZone(next);
+    if (!result.success) {
+      toast.error(result.message || 'Failed to change the timezone');
+      return;
+    }
+    toast.success(`Reporting timezone: ${timezoneLabel(next)}`, { description: 'Date ranges and presets now follow it. Refetch to apply it to loaded data.' });
+  };
 
   const handleLogout = async () => {
     setIsLoggingOut(true);
@@ -410,6 +431,20 @@ export function Header({ onMenuClick }: HeaderProps) {
             </button>
           </div>
 
+          {canEdit && (
+            <button
+              onClick={() => setDraftsOpen(true)}
+              className="btn-halo-ghost btn-halo-icon relative"
+              aria-label="Drafts"
+              title={drafts.length > 0 ? `${drafts.length} unsaved draft${drafts.length === 1 ? '' : 's'}` : 'Drafts'}
+            >
+              <FileClock size={16} strokeWidth={1.75} />
+              {drafts.length > 0 && (
+                <span className="halo-dot absolute top-2 right-2 text-[var(--h-amber)]" />
+              )}
+            </button>
+          )}
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <button
@@ -461,6 +496,23 @@ export function Header({ onMenuClick }: HeaderProps) {
                   </div>
                 </div>
 
+                <div className="p-1.5" style={{ borderBottom: '1px solid var(--h-line)' }}>
+                  <p className="halo-eyebrow flex items-center gap-1.5 px-3 pt-1.5 pb-1">
+                    <Globe size={12} strokeWidth={1.75} />
+                    Reporting timezone
+                  </p>
+                  {REPORTING_TIMEZONES.map((tz) => (
+                    <DropdownMenuItem
+                      key={tz.value}
+                      onClick={() => handleTimezoneChange(tz.value)}
+                      className="flex items-center justify-between gap-2 px-3 py-1.5 rounded-[var(--h-r-sm)] text-[12.5px] text-[var(--h-ink-2)] hover:bg-[var(--h-tint)] focus:bg-[var(--h-tint)] cursor-pointer"
+                    >
+                      <span>{tz.label}</span>
+                      {tz.value === timeZone && <Check size={14} strokeWidth={1.75} className="text-[var(--h-iris-600)]" />}
+                    </DropdownMenuItem>
+                  ))}
+                </div>
+
                 <div className="p-1.5">
                   <DropdownMenuItem
                     onClick={handleLogout}
@@ -478,6 +530,7 @@ export function Header({ onMenuClick }: HeaderProps) {
       </div>
 
       <NotificationsModal />
+      {canEdit && <DraftsDrawer open={draftsOpen} onOpenChange={setDraftsOpen} />}
     </header>
   );
 }
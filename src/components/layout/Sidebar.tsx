@@ -1,7 +1,7 @@
 import { useEffect, useState } from 'react';
 import { NavLink, useNavigate } from 'react-router-dom';
 import type { LucideIcon } from 'lucide-react';
-import { BarChart3, Megaphone, TrendingUp, Settings, X, Shield, ImagePlus, ChevronsLeft, ChevronsRight } from 'lucide-react';
+import { BarChart3, Megaphone, TrendingUp, Settings, X, Shield, ImagePlus, ChevronsLeft, ChevronsRight, Trophy, LayoutTemplate } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { usePermissions } from '@/context/PermissionsContext';
 import { useAuth } from '@/context/AuthContext';
@@ -19,6 +19,7 @@ export const NAV_ITEMS: NavItem[] = [
   { name: 'Campaigns', href: '/campaigns', icon: Megaphone },
   { name: 'Analytics', href: '/analytics', icon: TrendingUp },
   { name: 'Slot Management', href: '/slot-management', icon: Settings },
+  { name: 'Serve Simulator', href: '/serve-simulator', icon: Trophy },
 ];
 
 /** Full nav list including permission-gated routes. Both Header and Sidebar
@@ -27,7 +28,12 @@ export function useNavItems(): NavItem[] {
   const { isAdmin, canEdit } = usePermissions();
   return [
     ...NAV_ITEMS,
-    ...(canEdit ? [{ name: 'Offers Config', href: '/offers-config', icon: ImagePlus }] : []),
+    ...(canEdit
+      ? [
+          { name: 'Ad Templates', href: '/ad-templates', icon: LayoutTemplate },
+          { name: 'Offers Config', href: '/offers-config', icon: ImagePlus },
+        ]
+      : []),
     ...(isAdmin ? [{ name: 'Admin Panel', href: '/admin', icon: Shield }] : []),
   ];
 }
@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { OfferConfigMap } from '@/services/offerConfigService';
+import type { OfferConflict } from '@/utils/offerConflicts';
+
+interface OfferConflictsProps {
+  configMap: OfferConfigMap;
+  conflicts: OfferConflict[];
+  /** Open an offer in the editor. */
+  onSelect?: (offerId: string) => void;
+}
+
+type Lane = { offerId: string; start: number; end: number; windows: Array<{ start: number; end: number; exact: boolean }> };
+
+const formatDay = (epoch: number) =>
+  new Date(epoch * 1000).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+
+/** Per POS, the offers involved in conflicts and where their windows collide. */
+function lanesByPos(configMap: OfferConfigMap, conflicts: OfferConflict[]): Array<{ pos: string; lanes: Lane[] }> {
+  const byPos = new Map<string, Map<string, Lane>>();
+  conflicts.forEach((conflict) => {
+    conflict.posList.forEach((pos) => {
+      const lanes = byPos.get(pos) ?? new Map<string, Lane>();
+      byPos.set(pos, lanes);
+      [conflict.a, conflict.b].forEach((offerId) => {
+        const offer = (configMap[pos] || []).find((o) => o.offer_id === offerId);
+        if (!offer) return;
+        const lane = lanes.get(offerId) ?? { offerId, start: offer.start, end: offer.end, windows: [] };
+        lane.windows.push({ start: conflict.start, end: conflict.end, exact: conflict.overlap === 'exact' });
+        lanes.set(offerId, lane);
+      });
+    });
+  });
+  return Array.from(byPos.entries())
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([pos, lanes]) => ({ pos, lanes: Array.from(lanes.values()).sort((x, y) => x.start - y.start) }));
+}
+
+/**
+ * Conflicting offers, laid out per POS on a shared time axis. Bars are the
+ * offers' windows; coral segments are where they collide with another offer
+ * (amber when the collision is only same-site).
+ */
+export function OfferConflicts({ configMap, conflicts, onSelect }: OfferConflictsProps) {
+  const groups = useMemo(() => lanesByPos(configMap, conflicts), [configMap, conflicts]);
+
+  const axis = useMemo(() => {
+    const now = Date.now() / 1000;
+    const lanes = groups.flatMap((g) => g.lanes);
+    const from = Math.min(now, ...lanes.map((l) => l.start));
+    const to = Math.max(now + 1, ...lanes.map((l) => l.end));
+    return { from, to, now };
+  }, [groups]);
+
+  const pct = (epoch: number) => `${((Math.min(Math.max(epoch, axis.from), axis.to) - axis.from) / (axis.to - axis.from)) * 100}%`;
+  const span = (start: number, end: number) => ({
+    left: pct(start),
+    width: `calc(${pct(end)} - ${pct(start)})`,
+  });
+
+  if (!conflicts.length) {
+    return (
+      <div className="halo-inset flex items-center gap-2 p-3 text-xs" style={{ color: 'var(--h-ink-3)' }}>
+        <CheckCircle2 strokeWidth={1.75} className="h-3.5 w-3.5" style={{ color: 'var(--h-mint)' }} />
+        No current or upcoming offers target the same pages on the same POS.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between text-[10px] num" style={{ color: 'var(--h-ink-3)' }}>
+        <span>{formatDay(axis.from)}</span>
+        <span>{formatDay(axis.to)}</span>
+      </div>
+
+      {groups.map(({ pos, lanes }) => (
+        <div key={pos} className="space-y-1.5">
+          <p className="halo-label">POS {pos}</p>
+          {lanes.map((lane) => (
+            <div key={lane.offerId} className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={() => onSelect?.(lane.offerId)}
+                className="w-28 flex-shrink-0 truncate text-left text-xs font-medium"
+                style={{ color: 'var(--h-ink)' }}
+                title={lane.offerId}
+              >
+                {lane.offerId}
+              </button>
+              <div className="relative flex-1 h-4 rounded" style={{ background: 'var(--h-line)' }}>
+                <div
+                  className="absolute inset-y-0 rounded"
+                  style={{ ...span(lane.start, lane.end), background: 'var(--h-iris-500)', opacity: 0.35 }}
+                  title={`${formatDay(lane.start)} → ${formatDay(lane.end)}`}
+                />
+                {lane.windows.map((w, i) => (
+                  <div
+                    key={i}
+                    className="absolute inset-y-0 rounded"
+                    style={{ ...span(w.start, w.end), background: w.exact ? 'var(--h-coral)' : 'var(--h-amber)', opacity: 0.85 }}
+                    title={`Collides ${formatDay(w.start)} → ${formatDay(w.end)}`}
+                  />
+                ))}
+                <div className="absolute inset-y-[-2px] w-px" style={{ left: pct(axis.now), background: 'var(--h-ink)' }} title="Now" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        {conflicts.map((conflict) => (
+          <div key={`${conflict.a}|${conflict.b}`} className="flex items-start gap-2 text-xs">
+            <AlertTriangle
+              strokeWidth={1.75}
+              className="h-3.5 w-3.5 mt-px flex-shrink-0"
+              style={{ color: conflict.overlap === 'exact' ? 'var(--h-coral)' : 'var(--h-amber)' }}
+            />
+            <div className="min-w-0">
+              <p style={{ color: 'var(--h-ink)' }}>
+                <span className="font-semibold">{conflict.a}</span> and <span className="font-semibold">{conflict.b}</span>
+                <span style={{ color: 'var(--h-ink-3)' }}> · POS {conflict.posList.join(', ')} · {formatDay(conflict.start)} → {formatDay(conflict.end)}</span>
+              </p>
+              <p className="truncate" style={{ color: 'var(--h-ink-3)', fontFamily: 'var(--h-font-mono)' }}>{conflict.reasons.join(' · ')}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
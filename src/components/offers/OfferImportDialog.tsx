@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useEnvironment } from '@/context/EnvironmentContext';
+import type { Campaign } from '@/services/campaignService';
+import { offerConfigService, type OfferConfigMap } from '@/services/offerConfigService';
+import {
+  bundleTrackingIds, previewImport,
+  type ImportPreviewRow, type ImportStatus, type OfferBundle, type TrackingIdRemap,
+} from '@/utils/offerBundle';
+
+interface OfferImportDialogProps {
+  /** The parsed file; the dialog is open while this is set. */
+  bundle: OfferBundle | null;
+  /** Offers in the file that failed validation. */
+  invalid: Array<{ offerId: string; reason: string }>;
+  configMap: OfferConfigMap;
+  /** Campaigns in the current environment, for remapping tracking IDs. */
+  campaigns: Campaign[];
+  onClose: () => void;
+  /** Called with the config the last applied call answered with. */
+  onApplied: (configMap: OfferConfigMap) => void;
+}
+
+const KEEP = '__keep';
+
+const STATUS_BADGE: Record<ImportStatus, { label: string; className: string }> = {
+  new: { label: 'New', className: 'halo-badge halo-badge-pos' },
+  changed: { label: 'Changed', className: 'halo-badge halo-badge-warn' },
+  unchanged: { label: 'Unchanged', className: 'halo-badge' },
+  conflict: { label: 'Conflict', className: 'halo-badge halo-badge-neg' },
+  unmapped: { label: 'Needs IDs', className: 'halo-badge halo-badge-neg' },
+};
+
+const formatExportedAt = (iso: string) =>
+  iso ? new Date(iso).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' }) : 'unknown time';
+
+/**
+ * Dry run and apply for an offers export: remap tracking IDs for this
+ * environment, see per offer whether it's new, changed, unchanged, would
+ * collide with a live offer here (or one applied earlier from the same
+ * file) or still has tracking IDs that can't be sent here, then create/edit
+ * the ones picked.
+ */
+export function OfferImportDialog({ bundle, invalid, configMap, campaigns, onClose, onApplied }: OfferImportDialogProps) {
+  const { environment, apiVersion, isProd } = useEnvironment();
+  const [remap, setRemap] = useState<TrackingIdRemap>({ campaigns: {}, ads: {} });
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    setRemap({ campaigns: {}, ads: {} });
+    setExcluded(new Set());
+  }, [bundle]);
+
+  const ids = useMemo(() => (bundle ? bundleTrackingIds(bundle) : { campaigns: [], ads: [] }), [bundle]);
+  const preview = useMemo(
+    () => (bundle ? previewImport(bundle, configMap, remap, apiVersion, excluded) : []),
+    [bundle, configMap, remap, apiVersion, excluded]
+  );
+
+  const applicable = (row: ImportPreviewRow) => row.status === 'new' || row.status === 'changed';
+  const toApply = preview.filter((row) => applicable(row) && !excluded.has(row.offerId));
+  const counts = preview.reduce<Record<ImportStatus, number>>(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, changed: 0, unchanged: 0, conflict: 0, unmapped: 0 }
+  );
+  const crossEnvironment = !!bundle && bundle.environment !== environment;
+  const crossVersion = !!bundle && bundle.apiVersion !== apiVersion;
+
+  const toggle = (offerId: string) => setExcluded((prev) => {
+    const next = new Set(prev);
+    if (next.has(offerId)) next.delete(offerId);
+    else next.add(offerId);
+    return next;
+  });
+
+  const setMapping = (kind: keyof TrackingIdRemap, from: string, to: string) =>
+    setRemap((prev) => ({ ...prev, [kind]: { ...prev[kind], [from]: to === KEEP ? '' : to } }));
+
+  const handleApply = async () => {
+    if (!bundle) return;
+    const note = `Imported from ${bundle.environment} export of ${formatExportedAt(bundle.exportedAt)}`;
+    let latest: OfferConfigMap | undefined;
+    let failed = false;
+    setProgress({ done: 0, total: toApply.length });
+    for (const [i, row] of toApply.entries()) {
+      const result = row.status === 'new'
+        ? await offerConfigService.createOffer({ posList: row.posList, offer: row.offer }, note)
+        : await offerConfigService.editOffer({ posList: row.posList, offer: row.offer, previousOfferId: row.offerId }, note);
+      if (!result.success) {
+        toast.error(`${row.offerId} failed after ${i} of ${toApply.length}: ${result.message || 'request failed'}`);
+        failed = true;
+        break;
+      }
+      latest = result.data ?? latest;
+      setProgress({ done: i + 1, total: toApply.length });
+    }
+    setProgress(null);
+    if (latest) onApplied(latest);
+    if (!failed) {
+      toast.success(`Imported ${toApply.length} offer${toApply.length === 1 ? '' : 's'} into ${environment}`);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={!!bundle} onOpenChange={(open) => !open && !progress && onClose()}>
+      <DialogContent className="sm:max-w-2xl halo-card rounded-[var(--h-r-xl)]">
+        <DialogHeader>
+          <DialogTitle className="halo-heading text-base">Import offers</DialogTitle>
+          <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+            {bundle && (
+              <span className="flex flex-wrap items-center gap-1.5">
+                {bundle.offers.length} offer{bundle.offers.length === 1 ? '' : 's'} exported from
+                <span className="halo-badge">{bundle.environment} · {bundle.apiVersion}</span>
+                <ArrowRight className="h-3 w-3" />
+                <span className={isProd ? 'halo-badge halo-badge-neg' : 'halo-badge halo-badge-iris'}>{environment} · {apiVersion}</span>
+                on {formatExportedAt(bundle.exportedAt)}
+              </span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] space-y-4 overflow-y-auto pr-1">
+          {invalid.length > 0 && (
+            <div className="halo-inset space-y-1 p-3 text-[12px]">
+              <p className="halo-label">Skipped — failed validation ({invalid.length})</p>
+              {invalid.map((item) => (
+                <p key={item.offerId} className="text-[var(--h-ink-2)]">
+                  <span className="font-semibold text-[var(--h-ink)]">{item.offerId}</span>: {item.reason}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {(ids.campaigns.length > 0 || ids.ads.length > 0) && (
+            <div className="space-y-2">
+              <p className="halo-label">
+                Tracking IDs {crossVersion
+                  ? `— ${bundle?.apiVersion} IDs don't exist on ${apiVersion}, remap every one`
+                  : crossEnvironment ? `— ${bundle?.environment} IDs usually differ on ${environment}` : ''}
+              </p>
+              {ids.campaigns.map((id) => (
+                <div key={`c${id}`} className="grid grid-cols-[120px_16px_1fr] items-center gap-2 text-[12.5px]">
+                  <span className="num text-[var(--h-ink-2)]">Campaign #{id}</span>
+                  <ArrowRight className="h-3 w-3 text-[var(--h-ink-3)]" />
+                  <Select value={remap.campaigns[id] || KEEP} onValueChange={(v) => setMapping('campaigns', id, v)}>
+                    <SelectTrigger className="halo-field h-8 text-sm"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={KEEP}>Keep #{id}</SelectItem>
+                      {campaigns.map((c) => {
+                        const cid = String(c.campaignId ?? c.id);
+                        return <SelectItem key={cid} value={cid}>{c.brandName || c.name || `Campaign ${cid}`} #{cid}</SelectItem>;
+                      })}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              {ids.ads.map((id) => (
+                <div key={`a${id}`} className="grid grid-cols-[120px_16px_1fr] items-center gap-2 text-[12.5px]">
+                  <span className="num text-[var(--h-ink-2)]">Ad #{id}</span>
+                  <ArrowRight className="h-3 w-3 text-[var(--h-ink-3)]" />
+                  <Input
+                    value={remap.ads[id] ?? ''}
+                    onChange={(e) => setMapping('ads', id, e.target.value)}
+                    placeholder={`Keep #${id}`}
+                    className="halo-field h-8 text-sm num"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <p className="halo-label">
+              Dry run — {counts.new} new · {counts.changed} changed · {counts.unchanged} unchanged · {counts.conflict} conflicting
+              {counts.unmapped > 0 && ` · ${counts.unmapped} need tracking IDs`}
+            </p>
+            {preview.map((row) => {
+              const badge = STATUS_BADGE[row.status];
+              return (
+                <div key={row.offerId} className="halo-inset space-y-1.5 p-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={applicable(row) && !excluded.has(row.offerId)}
+                      disabled={!applicable(row) || !!progress}
+                      onChange={() => toggle(row.offerId)}
+                      aria-label={`Apply ${row.offerId}`}
+                    />
+                    <span className="text-[12.5px] font-semibold text-[var(--h-ink)]">{row.offerId}</span>
+                    <span className={badge.className}>{badge.label}</span>
+                    <span className="text-[12px] text-[var(--h-ink-3)]">POS {row.posList.join(', ')}</span>
+                    {row.posAdded.length > 0 && row.status !== 'new' && <span className="text-[12px] text-[var(--h-ink-3)]">+POS {row.posAdded.join(', ')}</span>}
+                    {row.posRemoved.length > 0 && <span className="text-[12px] text-[var(--h-ink-3)]">−POS {row.posRemoved.join(', ')}</span>}
+                  </div>
+                  {row.unmapped.map((problem) => (
+                    <p key={problem} className="flex items-start gap-1.5 text-[12px] text-[var(--h-coral)]">
+                      <AlertTriangle className="mt-px h-3.5 w-3.5 shrink-0" strokeWidth={1.75} />
+                      {problem}
+                    </p>
+                  ))}
+                  {row.changes.map((c) => (
+                    <div key={c.field} className="grid grid-cols-[110px_1fr] items-start gap-2 text-[12px]">
+                      <span className="text-[var(--h-ink-3)]">{c.label}</span>
+                      <span className="flex min-w-0 flex-wrap items-center gap-1.5 break-all text-[var(--h-ink-2)]">
+                        <span className="line-through decoration-[var(--h-coral)]/60">{c.before}</span>
+                        <ArrowRight className="h-3 w-3 shrink-0 text-[var(--h-ink-3)]" />
+                        <span className="font-medium text-[var(--h-ink)]">{c.after}</span>
+                      </span>
+                    </div>
+                  ))}
+                  {[...row.blocking, ...row.warnings].map((c) => {
+                    const other = c.a === row.offerId ? c.b : c.a;
+                    return (
+                      <p
+                        key={`${c.a}|${c.b}`}
+                        className="flex items-start gap-1.5 text-[12px]"
+                        style={{ color: row.blocking.includes(c) ? 'var(--h-coral)' : 'var(--h-amber)' }}
+                      >
+                        <AlertTriangle className="mt-px h-3.5 w-3.5 shrink-0" strokeWidth={1.75} />
+                        {row.blocking.includes(c) ? 'Collides with live offer' : 'Overlaps'} {other}
+                        {row.fromBundle.includes(other) ? ' (earlier in this file)' : ''} on POS {c.posList.join(', ')} — {c.reasons.join(' · ')}
+                      </p>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end gap-2">
+          {isProd && toApply.length > 0 && (
+            <span className="mr-auto flex items-center gap-1.5 text-[12px] text-[var(--h-coral)]">
+              <AlertTriangle className="h-3.5 w-3.5" strokeWidth={1.75} /> Applies to production
+            </span>
+          )}
+          <button type="button" onClick={onClose} disabled={!!progress} className="btn-halo-ghost btn-halo-sm">Cancel</button>
+          <button type="button" onClick={handleApply} disabled={!!progress || toApply.length === 0} className="btn-halo btn-halo-sm">
+            {progress ? `Applying ${progress.done}/${progress.total}…` : `Apply ${toApply.length} offer${toApply.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
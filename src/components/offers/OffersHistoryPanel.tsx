@@ -0,0 +1,275 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowRight, History, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { offerConfigService, type OfferConfigMap } from '@/services/offerConfigService';
+import { OFFER_CHANGE_ACTION_LABELS, OfferConfigVersion, offerConfigHistoryService } from '@/services/offerConfigHistoryService';
+import { diffOfferConfigs, planReplay, type OfferConfigDiff, type OfferReplayStep } from '@/utils/offerConfigDiff';
+
+interface OffersHistoryPanelProps {
+  /** The config as last loaded; the "Current" version. */
+  configMap: OfferConfigMap;
+  canEdit: boolean;
+  /** Called with the config the last rollback call answered with. */
+  onRestored: (configMap: OfferConfigMap) => void;
+}
+
+const CURRENT = 'current';
+
+const formatWhen = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const STEP_LABELS: Record<OfferReplayStep['action'], string> = { create: 'Re-create', edit: 'Edit', delete: 'Delete' };
+
+/** Per-POS summary and per-offer, per-field rows for a config diff. */
+export function OfferConfigDiffView({ diff }: { diff: OfferConfigDiff }) {
+  if (!diff.offers.length) {
+    return <p className="halo-inset p-3 text-[12.5px] text-[var(--h-ink-2)]">The two versions are the same.</p>;
+  }
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {diff.byPos.map((p) => (
+          <span key={p.pos} className="halo-badge num">
+            POS {p.pos}
+            {p.added.length > 0 && <span className="text-[var(--h-mint)]"> +{p.added.length}</span>}
+            {p.removed.length > 0 && <span className="text-[var(--h-coral)]"> −{p.removed.length}</span>}
+            {p.changed.length > 0 && <span className="text-[var(--h-amber)]"> ~{p.changed.length}</span>}
+          </span>
+        ))}
+      </div>
+      {diff.offers.map((offer) => (
+        <div key={offer.offerId} className="halo-inset space-y-1.5 p-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-[12.5px] font-semibold text-[var(--h-ink)]">{offer.offerId}</span>
+            {offer.kind === 'added' && <span className="halo-badge halo-badge-pos">Added</span>}
+            {offer.kind === 'removed' && <span className="halo-badge halo-badge-neg">Removed</span>}
+            {offer.kind === 'changed' && <span className="halo-badge halo-badge-warn">Changed</span>}
+            {offer.posAdded.length > 0 && <span className="text-[12px] text-[var(--h-ink-3)]">+POS {offer.posAdded.join(', ')}</span>}
+            {offer.posRemoved.length > 0 && <span className="text-[12px] text-[var(--h-ink-3)]">−POS {offer.posRemoved.join(', ')}</span>}
+          </div>
+          {offer.changes.map((c) => (
+            <div key={c.field} className="grid grid-cols-[110px_1fr] items-start gap-2 text-[12px]">
+              <span className="text-[var(--h-ink-3)]">{c.label}</span>
+              <span className="flex min-w-0 flex-wrap items-center gap-1.5 break-all text-[var(--h-ink-2)]">
+                <span className="line-through decoration-[var(--h-coral)]/60">{c.before}</span>
+                <ArrowRight className="h-3 w-3 shrink-0 text-[var(--h-ink-3)]" />
+                <span className="font-medium text-[var(--h-ink)]">{c.after}</span>
+              </span>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Versions of the offers config recorded in this browser (one per
+ * create/edit/delete, taken just before it), a diff between any two, and
+ * rollback to the version before any change by replaying the calls needed.
+ */
+export function OffersHistoryPanel({ configMap, canEdit, onRestored }: OffersHistoryPanelProps) {
+  const [entries, setEntries] = useState<OfferConfigVersion[]>(() => offerConfigHistoryService.getEntries());
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>(CURRENT);
+  const [target, setTarget] = useState<OfferConfigVersion | null>(null);
+  // The server's config as of opening the rollback dialog; the plan is built against this
+  const [live, setLive] = useState<{ configMap?: OfferConfigMap; message?: string } | null>(null);
+  const liveRequest = useRef(0);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Every change made from the page lands here before the page gets the new config
+  useEffect(() => {
+    setEntries(offerConfigHistoryService.getEntries());
+  }, [configMap]);
+
+  const from = fromId || entries[0]?.id || CURRENT;
+  const compare = useMemo(() => {
+    const a = from === CURRENT ? configMap : entries.find((e) => e.id === from)?.before;
+    const b = toId === CURRENT ? configMap : entries.find((e) => e.id === toId)?.before;
+    return a && b ? diffOfferConfigs(a, b) : null;
+  }, [from, toId, entries, configMap]);
+
+  const plan = useMemo(
+    () => (target && live?.configMap ? planReplay(live.configMap, target.before) : []),
+    [target, live]
+  );
+  const stale = useMemo(
+    () => !!live?.configMap && diffOfferConfigs(configMap, live.configMap).offers.length > 0,
+    [configMap, live]
+  );
+
+  // Another user or tab may have changed the config since this page loaded,
+  // so the rollback is planned against what the server has now
+  const openRollback = async (entry: OfferConfigVersion) => {
+    const request = ++liveRequest.current;
+    setTarget(entry);
+    setLive(null);
+    const res = await offerConfigService.getConfig();
+    if (request !== liveRequest.current) return;
+    setLive(res.success && res.data ? { configMap: res.data } : { message: res.message || 'Failed to fetch the current offers config' });
+  };
+
+  const closeRollback = () => {
+    liveRequest.current++;
+    setTarget(null);
+    setLive(null);
+  };
+
+  const handleRollback = async () => {
+    if (!target) return;
+    const note = `Rollback to the version before ${OFFER_CHANGE_ACTION_LABELS[target.action].toLowerCase()} ${target.offerId} (${formatWhen(target.timestamp)})`;
+    let latest: OfferConfigMap | undefined;
+    let failed = false;
+    setProgress({ done: 0, total: plan.length });
+    for (const [i, step] of plan.entries()) {
+      const result = step.action === 'delete'
+        ? await offerConfigService.deleteOffer(step.offerId, note)
+        : step.action === 'create'
+          ? await offerConfigService.createOffer({ posList: step.posList, offer: step.offer }, note)
+          : await offerConfigService.editOffer({ posList: step.posList, offer: step.offer, previousOfferId: step.offerId }, note);
+      if (!result.success) {
+        toast.error(`${STEP_LABELS[step.action]} ${step.offerId} failed after ${i} of ${plan.length} steps: ${result.message || 'request failed'}`);
+        failed = true;
+        break;
+      }
+      latest = result.data ?? latest;
+      setProgress({ done: i + 1, total: plan.length });
+    }
+    if (latest) onRestored(latest);
+    if (!failed) toast.success('Offers config rolled back');
+    setProgress(null);
+    closeRollback();
+    setEntries(offerConfigHistoryService.getEntries());
+  };
+
+  const handleClear = () => {
+    offerConfigHistoryService.clear();
+    setEntries([]);
+    toast.success('Offers config history cleared');
+  };
+
+  if (entries.length === 0) {
+    return (
+      <div className="halo-inset flex items-center gap-3 p-4">
+        <span className="halo-chip"><History className="h-3.5 w-3.5" /></span>
+        <p className="text-[13px] text-[var(--h-ink-2)]">
+          No versions recorded in this browser yet. Every create, edit and delete saves the config as it was just before.
+        </p>
+      </div>
+    );
+  }
+
+  const versionLabel = (entry: OfferConfigVersion) =>
+    `Before ${OFFER_CHANGE_ACTION_LABELS[entry.action].toLowerCase()} ${entry.offerId} · ${formatWhen(entry.timestamp)}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-[12.5px] text-[var(--h-ink-2)]">
+          {entries.length} version{entries.length === 1 ? '' : 's'} recorded in this browser
+        </p>
+        <button type="button" onClick={handleClear} className="btn-halo-ghost btn-halo-sm text-[var(--h-coral)]">
+          <Trash2 className="h-3.5 w-3.5" strokeWidth={1.75} />
+          Clear
+        </button>
+      </div>
+
+      <ol className="space-y-2.5 max-h-[360px] overflow-y-auto">
+        {entries.map((entry) => (
+          <li key={entry.id} className="halo-inset flex flex-wrap items-center justify-between gap-2 p-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="halo-badge halo-badge-iris">{OFFER_CHANGE_ACTION_LABELS[entry.action]}</span>
+              <span className="text-[12.5px] font-semibold text-[var(--h-ink)]">{entry.offerId || '—'}</span>
+              <span className="text-[12px] text-[var(--h-ink-2)]">{entry.user}</span>
+              <span className="num text-[12px] text-[var(--h-ink-3)]">{formatWhen(entry.timestamp)}</span>
+              <span className="halo-badge">{entry.environment} · {entry.apiVersion}</span>
+              {entry.note && <span className="w-full text-[12px] text-[var(--h-ink-3)]">{entry.note}</span>}
+            </div>
+            <div className="flex items-center gap-1.5">
+              <button type="button" onClick={() => { setFromId(entry.id); setToId(CURRENT); }} className="btn-halo-ghost btn-halo-sm">
+                Compare
+              </button>
+              {canEdit && (
+                <button type="button" onClick={() => openRollback(entry)} className="btn-halo-ghost btn-halo-sm">
+                  <RotateCcw className="h-3.5 w-3.5" strokeWidth={1.75} />
+                  Roll back
+                </button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="halo-label">Compare</span>
+          <Select value={from} onValueChange={setFromId}>
+            <SelectTrigger className="halo-field h-9 w-72 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CURRENT}>Current</SelectItem>
+              {entries.map((e) => <SelectItem key={e.id} value={e.id}>{versionLabel(e)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-3.5 w-3.5 text-[var(--h-ink-3)]" />
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger className="halo-field h-9 w-72 text-sm"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={CURRENT}>Current</SelectItem>
+              {entries.map((e) => <SelectItem key={e.id} value={e.id}>{versionLabel(e)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        {compare && <OfferConfigDiffView diff={compare} />}
+      </div>
+
+      <Dialog open={!!target} onOpenChange={(open) => !open && !progress && closeRollback()}>
+        <DialogContent className="sm:max-w-lg halo-card rounded-[var(--h-r-xl)]">
+          <DialogHeader>
+            <DialogTitle className="halo-heading text-base">Roll back the offers config?</DialogTitle>
+            <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+              {target && `Back to: ${versionLabel(target)}. `}
+              These calls are made in order against the config the server has now; each one is recorded as a new version.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-[50vh] space-y-3 overflow-y-auto">
+            {stale && (
+              <p className="halo-inset p-3 text-[12.5px] text-[var(--h-amber)]">
+                The config changed on the server since this page loaded. The plan below undoes those changes too.
+              </p>
+            )}
+            {!live ? (
+              <p className="halo-inset p-3 text-[12.5px] text-[var(--h-ink-2)]">Fetching the current config…</p>
+            ) : live.message ? (
+              <p className="halo-inset p-3 text-[12.5px] text-[var(--h-coral)]">{live.message} — can't plan the rollback.</p>
+            ) : plan.length > 0 ? (
+              <>
+                <ol className="space-y-1 text-[12.5px] text-[var(--h-ink-2)]">
+                  {plan.map((step, i) => (
+                    <li key={`${step.action}-${step.offerId}`} className="flex items-center gap-2">
+                      <span className="num w-5 text-right text-[var(--h-ink-3)]">{i + 1}</span>
+                      <span className="font-medium text-[var(--h-ink)]">{STEP_LABELS[step.action]}</span>
+                      {step.offerId}
+                      {step.action !== 'delete' && <span className="text-[var(--h-ink-3)]">on POS {step.posList.join(', ')}</span>}
+                    </li>
+                  ))}
+                </ol>
+                {target && live.configMap && <OfferConfigDiffView diff={diffOfferConfigs(live.configMap, target.before)} />}
+              </>
+            ) : (
+              <p className="halo-inset p-3 text-[12.5px] text-[var(--h-ink-2)]">That version matches the current config.</p>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={closeRollback} disabled={!!progress} className="btn-halo-ghost btn-halo-sm">Cancel</button>
+            <button type="button" onClick={handleRollback} disabled={!!progress || plan.length === 0} className="btn-halo btn-halo-sm">
+              {progress ? `Applying ${progress.done}/${progress.total}…` : `Roll back (${plan.length} call${plan.length === 1 ? '' : 's'})`}
+            </button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, Crosshair } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { OfferConfigItem, OfferConfigMap } from '@/services/offerConfigService';
+import { coverageGaps, offerStatus, type OfferStatus } from '@/utils/offerConfig';
+
+interface OffersTimelineProps {
+  configMap: OfferConfigMap;
+  canEdit: boolean;
+  /** Save new dates for an offer (on every POS it runs on). Resolves false if the save didn't go through. */
+  onReschedule: (offerId: string, start: number, end: number) => Promise<boolean>;
+  /** Open an offer in the editor. */
+  onSelect?: (offerId: string) => void;
+}
+
+type Scale = '2w' | '6w' | '3m';
+type DragMode = 'move' | 'start' | 'end';
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+const SCALES: Record<Scale, { label: string; days: number; tickDays: number; snap: number }> = {
+  '2w': { label: '2 weeks', days: 14, tickDays: 1, snap: HOUR },
+  '6w': { label: '6 weeks', days: 42, tickDays: 7, snap: DAY / 4 },
+  '3m': { label: '3 months', days: 91, tickDays: 7, snap: DAY },
+};
+
+/** Days ahead to check each POS for stretches with no offer running. */
+const GAP_HORIZON_DAYS = 14;
+
+const STATUS_STYLE: Record<OfferStatus, { background: string; label: string }> = {
+  live: { background: 'var(--h-mint)', label: 'Live' },
+  scheduled: { background: 'var(--h-iris-500)', label: 'Scheduled' },
+  expired: { background: 'var(--h-ink-3)', label: 'Expired' },
+};
+
+const startOfLocalDay = (epoch: number) => {
+  const date = new Date(epoch * 1000);
+  date.setHours(0, 0, 0, 0);
+  return Math.floor(date.getTime() / 1000);
+};
+
+const formatTick = (epoch: number) => new Date(epoch * 1000).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' });
+const formatWhen = (epoch: number) =>
+  new Date(epoch * 1000).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit', hour12: false });
+
+/** Stack a POS's offers into rows so overlapping bars don't cover each other. */
+function packRows(offers: OfferConfigItem[]): OfferConfigItem[][] {
+  const rows: OfferConfigItem[][] = [];
+  [...offers].sort((a, b) => a.start - b.start).forEach((offer) => {
+    const row = rows.find((r) => r[r.length - 1].end <= offer.start);
+    if (row) row.push(offer);
+    else rows.push([offer]);
+  });
+  return rows;
+}
+
+/**
+ * Every offer as a bar per POS over the selected window, coloured by status.
+ * Bars can be dragged (or their ends pulled) to reschedule; POS with no offer
+ * running at some point in the next two weeks are flagged.
+ */
+export function OffersTimeline({ configMap, canEdit, onReschedule, onSelect }: OffersTimelineProps) {
+  const [scale, setScale] = useState<Scale>('2w');
+  const [offsetDays, setOffsetDays] = useState(0);
+  const [drag, setDrag] = useState<{ offerId: string; mode: DragMode; originX: number; width: number; start: number; end: number; delta: number } | null>(null);
+  const [pending, setPending] = useState<Record<string, { start: number; end: number }>>({});
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const nowEpoch = Math.floor(Date.now() / 1000);
+  const { days, tickDays, snap } = SCALES[scale];
+  const from = startOfLocalDay(nowEpoch) - Math.round(days / 4) * DAY + offsetDays * DAY;
+  const to = from + days * DAY;
+
+  const lanes = useMemo(
+    () => Object.entries(configMap || {})
+      .sort(([a], [b]) => Number(a) - Number(b))
+      .map(([pos, offers]) => ({ pos, rows: packRows((offers || []).filter((o) => o.end > from && o.start < to)) })),
+    [configMap, from, to]
+  );
+
+  const gaps = useMemo(() => {
+    const now = Math.floor(Date.now() / 1000);
+    return coverageGaps(configMap, now, now + GAP_HORIZON_DAYS * DAY).filter((entry) => entry.gaps.length);
+  }, [configMap]);
+  const gapsByPos = useMemo(() => new Map(gaps.map((entry) => [entry.pos, entry.gaps])), [gaps]);
+
+  const ticks = useMemo(() => {
+    const out: number[] = [];
+    for (let t = from; t <= to; t += tickDays * DAY) out.push(t);
+    return out;
+  }, [from, to, tickDays]);
+
+  const pct = (epoch: number) => ((Math.min(Math.max(epoch, from), to) - from) / (to - from)) * 100;
+  const span = (start: number, end: number) => ({ left: `${pct(start)}%`, width: `${Math.max(pct(end) - pct(start), 0.4)}%` });
+
+  /** Dates a bar shows: the mid-drag preview, else an in-flight save, else what's saved. */
+  const windowOf = (offer: OfferConfigItem) => {
+    if (drag?.offerId === offer.offer_id) {
+      const start = drag.mode === 'end' ? drag.start : drag.start + drag.delta;
+      const end = drag.mode === 'start' ? drag.end : drag.end + drag.delta;
+      return { start, end: Math.max(end, start + snap) };
+    }
+    return pending[offer.offer_id] ?? { start: offer.start, end: offer.end };
+  };
+
+  const beginDrag = (e: React.PointerEvent, offer: OfferConfigItem, mode: DragMode) => {
+    if (!canEdit || pending[offer.offer_id] || !trackRef.current) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { width } = trackRef.current.getBoundingClientRect();
+    setDrag({ offerId: offer.offer_id, mode, originX: e.clientX, width, start: offer.start, end: offer.end, delta: 0 });
+  };
+
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const seconds = ((e.clientX - drag.originX) / drag.width) * (to - from);
+    const delta = Math.round(seconds / snap) * snap;
+    if (delta !== drag.delta) setDrag({ ...drag, delta });
+  };
+
+  const endDrag = async (offer: OfferConfigItem) => {
+    if (!drag) return;
+    const target = windowOf(offer);
+    setDrag(null);
+    if (!drag.delta) {
+      onSelect?.(offer.offer_id);
+      return;
+    }
+    setPending((prev) => ({ ...prev, [offer.offer_id]: target }));
+    await onReschedule(offer.offer_id, target.start, target.end);
+    setPending((prev) => {
+      const next = { ...prev };
+      delete next[offer.offer_id];
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="halo-segment">
+          {(Object.keys(SCALES) as Scale[]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => { setScale(key); setOffsetDays(0); }}
+              className={cn('halo-segment-item', scale === key && 'is-active')}
+            >
+              {SCALES[key].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button type="button" onClick={() => setOffsetDays((d) => d - tickDays * 2)} className="btn-halo-ghost btn-halo-icon" title="Earlier">
+            <ChevronLeft strokeWidth={1.75} className="h-4 w-4" />
+          </button>
+          <button type="button" onClick={() => setOffsetDays(0)} className="btn-halo-ghost btn-halo-sm" title="Back to today">
+            <Crosshair strokeWidth={1.75} className="h-3.5 w-3.5" /> Today
+          </button>
+          <button type="button" onClick={() => setOffsetDays((d) => d + tickDays * 2)} className="btn-halo-ghost btn-halo-icon" title="Later">
+            <ChevronRight strokeWidth={1.75} className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3 text-[10px]" style={{ color: 'var(--h-ink-3)' }}>
+        {(Object.keys(STATUS_STYLE) as OfferStatus[]).map((status) => (
+          <span key={status} className="flex items-center gap-1.5">
+            <span className="h-2 w-3 rounded-sm" style={{ background: STATUS_STYLE[status].background }} />
+            {STATUS_STYLE[status].label}
+          </span>
+        ))}
+        <span className="flex items-center gap-1.5">
+          <span className="h-2 w-3 rounded-sm" style={{ background: 'var(--h-amber)', opacity: 0.35 }} />
+          No offer (next {GAP_HORIZON_DAYS} days)
+        </span>
+        {canEdit && <span className="ml-auto">Drag a bar to move it, or its ends to change start/end</span>}
+      </div>
+
+      <div className="flex gap-3">
+        <div className="w-16 flex-shrink-0" />
+        <div ref={trackRef} className="relative flex-1 h-4">
+          {ticks.map((t) => (
+            <span key={t} className="absolute text-[10px] num -translate-x-1/2 whitespace-nowrap" style={{ left: `${pct(t)}%`, color: 'var(--h-ink-3)' }}>
+              {formatTick(t)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {lanes.map(({ pos, rows }) => (
+        <div key={pos} className="flex gap-3">
+          <div className="w-16 flex-shrink-0 pt-1">
+            <p className="halo-label">POS {pos}</p>
+            {gapsByPos.has(pos) && (
+              <span className="flex items-center gap-1 text-[10px] mt-0.5" style={{ color: 'var(--h-amber)' }}>
+                <AlertTriangle strokeWidth={1.75} className="h-3 w-3" /> Gap
+              </span>
+            )}
+          </div>
+          <div className="relative flex-1 rounded-lg py-1 space-y-1" style={{ background: 'var(--h-line)', minHeight: 28 }}>
+            {ticks.map((t) => (
+              <div key={t} className="absolute inset-y-0 w-px" style={{ left: `${pct(t)}%`, background: 'var(--h-line)' }} />
+            ))}
+            {(gapsByPos.get(pos) ?? []).map((gap) => (
+              <div
+                key={gap.start}
+                className="absolute inset-y-0"
+                style={{ ...span(gap.start, gap.end), background: 'var(--h-amber)', opacity: 0.2 }}
+                title={`No offer ${formatWhen(gap.start)} → ${formatWhen(gap.end)}`}
+              />
+            ))}
+            {rows.map((row, i) => (
+              <div key={i} className="relative h-5">
+                {row.map((offer) => {
+                  const shown = windowOf(offer);
+                  const status = offerStatus(shown, Date.now());
+                  const saving = !!pending[offer.offer_id];
+                  return (
+                    <div
+                      key={offer.offer_id}
+                      className={cn('absolute inset-y-0 rounded flex items-center overflow-hidden select-none', canEdit && !saving && 'cursor-grab', drag?.offerId === offer.offer_id && 'cursor-grabbing')}
+                      style={{ ...span(shown.start, shown.end), background: STATUS_STYLE[status].background, opacity: saving ? 0.5 : 0.9 }}
+                      title={`${offer.offer_id} · ${formatWhen(shown.start)} → ${formatWhen(shown.end)}`}
+                      onPointerDown={(e) => beginDrag(e, offer, 'move')}
+                      onPointerMove={moveDrag}
+                      onPointerUp={() => endDrag(offer)}
+                      onPointerCancel={() => setDrag(null)}
+                      onClick={() => { if (!canEdit) onSelect?.(offer.offer_id); }}
+                    >
+                      {canEdit && (
+                        <span
+                          className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize"
+                          onPointerDown={(e) => beginDrag(e, offer, 'start')}
+                        />
+                      )}
+                      <span className="px-2 text-[10px] font-medium truncate" style={{ color: 'white' }}>{offer.offer_id}</span>
+                      {canEdit && (
+                        <span
+                          className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize"
+                          onPointerDown={(e) => beginDrag(e, offer, 'end')}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+            {nowEpoch >= from && nowEpoch <= to && (
+              <div className="absolute -inset-y-1 w-0.5 pointer-events-none" style={{ left: `${pct(nowEpoch)}%`, background: 'var(--h-coral)' }} title="Now" />
+            )}
+          </div>
+        </div>
+      ))}
+
+      {gaps.length > 0 && (
+        <div className="halo-inset p-3 space-y-1">
+          <p className="halo-label">Coverage gaps in the next {GAP_HORIZON_DAYS} days</p>
+          {gaps.map(({ pos, gaps: posGaps }) => (
+            <p key={pos} className="text-xs num" style={{ color: 'var(--h-ink-2)' }}>
+              <span className="font-semibold" style={{ color: 'var(--h-ink)' }}>POS {pos}</span>
+              {' — '}
+              {posGaps.map((gap) => `${formatWhen(gap.start)} → ${formatWhen(gap.end)}`).join(', ')}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, CheckCircle2, FlaskConical, ShieldAlert, Timer } from 'lucide-react';
+import { Textarea } from '@/components/ui/textarea';
+import type { OfferConfigMap } from '@/services/offerConfigService';
+import {
+  analyzePattern, auditConfigPatterns, parseSampleUrls, skippedPatterns, testOfferUrls,
+  type DraftOffer, type OfferUrlMatch, type PatternWarning,
+} from '@/utils/offerRegex';
+import type { OfferStatus } from '@/utils/offerConfig';
+
+interface RegexWorkbenchProps {
+  configMap: OfferConfigMap;
+  /** The offer in the editor, tested with its unsaved patterns in place of the saved ones. */
+  draft: DraftOffer;
+}
+
+const STATUS_BADGE: Record<OfferStatus, { label: string; className: string }> = {
+  live: { label: 'Active', className: 'halo-badge halo-badge-pos' },
+  scheduled: { label: 'Scheduled', className: 'halo-badge' },
+  expired: { label: 'Expired', className: 'halo-badge halo-badge-neg' },
+};
+
+function PatternWarnings({ warnings }: { warnings: PatternWarning[] }) {
+  if (!warnings.length) return null;
+  return (
+    <ul className="space-y-1">
+      {warnings.map((warning) => (
+        <li
+          key={warning.kind}
+          className="flex items-start gap-1.5 text-xs"
+          style={{ color: warning.severity === 'danger' ? 'var(--h-coral)' : 'var(--h-amber)', fontFamily: 'var(--h-font)' }}
+        >
+          <AlertTriangle strokeWidth={1.75} className="h-3.5 w-3.5 mt-px flex-shrink-0" />
+          {warning.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function MatchRow({ match }: { match: OfferUrlMatch }) {
+  const status = STATUS_BADGE[match.status];
+  return (
+    <div className="space-y-1.5 px-3 py-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="font-semibold text-sm" style={{ color: 'var(--h-ink)' }}>{match.offerId}</span>
+        {match.draft && <span className="halo-badge halo-badge-iris">Editing</span>}
+        <span className={status.className}>{status.label}</span>
+        <span className="text-xs" style={{ color: 'var(--h-ink-3)' }}>POS {match.posList.join(', ') || '—'}</span>
+      </div>
+      {match.hits.map((hit) => (
+        <div key={hit.pattern} className="flex items-center gap-1.5 flex-wrap text-xs" style={{ fontFamily: 'var(--h-font-mono)' }}>
+          <span className="truncate max-w-full" style={{ color: 'var(--h-ink-2)' }}>{hit.pattern}</span>
+          {hit.groups.map((group, i) => (
+            <span key={i} className="halo-badge num" title={group === undefined ? 'Group did not take part in the match' : undefined}>
+              ${i + 1} = {group === undefined ? '∅' : `"${group}"`}
+            </span>
+          ))}
+          {Object.entries(hit.named).map(([name, group]) => (
+            <span key={name} className="halo-badge halo-badge-iris num">
+              {name} = {group === undefined ? '∅' : `"${group}"`}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Paste sample URLs and see which offers (across every POS) would fire on
+ * each, through which patterns and with what captures — plus warnings for
+ * patterns that are slow or match far more than intended.
+ */
+export function RegexWorkbench({ configMap, draft }: RegexWorkbenchProps) {
+  const [urlText, setUrlText] = useState('');
+  const [showAudit, setShowAudit] = useState(false);
+
+  const urls = useMemo(() => parseSampleUrls(urlText), [urlText]);
+  const results = useMemo(() => testOfferUrls(urls, configMap, draft), [urls, configMap, draft]);
+  const skipped = useMemo(() => (urls.length ? skippedPatterns(configMap, draft) : []), [urls.length, configMap, draft]);
+  const draftWarnings = useMemo(
+    () => draft.patterns.map((pattern) => ({ pattern, warnings: analyzePattern(pattern) })).filter((entry) => entry.warnings.length),
+    [draft.patterns]
+  );
+  const audit = useMemo(() => (showAudit ? auditConfigPatterns(configMap) : []), [showAudit, configMap]);
+
+  const unmatched = results.filter((result) => !result.matches.length).length;
+  const draftMisses = draft.patterns.length ? results.filter((result) => !result.matches.some((m) => m.draft)).length : 0;
+
+  return (
+    <div className="halo-inset p-4 space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <FlaskConical strokeWidth={1.75} className="h-4 w-4" style={{ color: 'var(--h-iris-500)' }} />
+          <span className="halo-eyebrow">Regex workbench</span>
+        </div>
+        <button type="button" onClick={() => setShowAudit((v) => !v)} className="btn-halo-ghost btn-halo-sm">
+          <ShieldAlert strokeWidth={1.75} className="h-3.5 w-3.5" />
+          {showAudit ? 'Hide config audit' : 'Audit all patterns'}
+        </button>
+      </div>
+
+      {draftWarnings.length > 0 && (
+        <div className="space-y-2">
+          {draftWarnings.map(({ pattern, warnings }) => (
+            <div key={pattern} className="space-y-1">
+              <p className="text-xs truncate" style={{ color: 'var(--h-ink-2)', fontFamily: 'var(--h-font-mono)' }}>{pattern}</p>
+              <PatternWarnings warnings={warnings} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showAudit && (
+        <div className="space-y-2">
+          <p className="halo-label">Risky patterns in the saved config ({audit.length})</p>
+          {!audit.length && <p className="text-xs" style={{ color: 'var(--h-ink-3)' }}>No saved pattern looks risky.</p>}
+          {audit.map(({ pattern, offerIds, warnings }) => (
+            <div key={pattern} className="space-y-1">
+              <p className="text-xs truncate" style={{ color: 'var(--h-ink-2)', fontFamily: 'var(--h-font-mono)' }}>
+                {pattern} <span style={{ color: 'var(--h-ink-3)', fontFamily: 'var(--h-font)' }}>· {offerIds.join(', ')}</span>
+              </p>
+              <PatternWarnings warnings={warnings} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1.5">
+        <p className="halo-label">Sample URLs (one per line)</p>
+        <Textarea
+          value={urlText}
+          onChange={(e) => setUrlText(e.target.value)}
+          placeholder={'https://in.puma.com/in/en/pd/some-shoe/123456\nhttps://www.amazon.in/dp/B0CHX1W1XY'}
+          className="halo-field min-h-[88px] text-xs"
+          style={{ fontFamily: 'var(--h-font-mono)' }}
+          spellCheck={false}
+        />
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-xs num" style={{ color: 'var(--h-ink-3)' }}>
+            {results.length} URL{results.length !== 1 ? 's' : ''} · {unmatched} with no offer
+            {draft.patterns.length > 0 && ` · ${draftMisses} missed by this offer`}
+          </p>
+          {skipped.length > 0 && (
+            <div className="space-y-1">
+              <p className="flex items-center gap-1.5 text-xs" style={{ color: 'var(--h-coral)' }}>
+                <AlertTriangle strokeWidth={1.75} className="h-3.5 w-3.5 flex-shrink-0" />
+                Not tested — nested quantifiers could freeze this tab, so these offers may fire on more URLs than shown:
+              </p>
+              {skipped.map((entry) => (
+                <p key={`${entry.offerId}|${entry.pattern}`} className="text-xs truncate pl-5" style={{ color: 'var(--h-ink-2)', fontFamily: 'var(--h-font-mono)' }}>
+                  {entry.pattern} <span style={{ color: 'var(--h-ink-3)', fontFamily: 'var(--h-font)' }}>· {entry.draft ? `${entry.offerId} (editing)` : entry.offerId}</span>
+                </p>
+              ))}
+            </div>
+          )}
+          {results.map((result) => (
+            <div key={result.url} className="rounded-lg overflow-hidden" style={{ border: '1px solid var(--h-line)' }}>
+              <div className="flex items-center gap-2 px-3 py-2" style={{ borderBottom: result.matches.length ? '1px solid var(--h-line)' : undefined }}>
+                {result.matches.length
+                  ? <CheckCircle2 strokeWidth={1.75} className="h-3.5 w-3.5 flex-shrink-0" style={{ color: 'var(--h-mint)' }} />
+                  : <span className="h-3.5 w-3.5 flex-shrink-0 rounded-full" style={{ border: '1px solid var(--h-ink-3)' }} />}
+                <span className="text-xs truncate flex-1" style={{ color: 'var(--h-ink)', fontFamily: 'var(--h-font-mono)' }} title={result.url}>{result.url}</span>
+                {!result.wellFormed && <span className="halo-badge halo-badge-warn">Not a URL</span>}
+                {result.slow && (
+                  <span className="halo-badge halo-badge-warn num" title={result.slow.pattern}>
+                    <Timer strokeWidth={1.75} className="h-3 w-3" /> {Math.round(result.slow.ms)} ms
+                  </span>
+                )}
+                <span className="halo-badge num">{result.matches.length} offer{result.matches.length !== 1 ? 's' : ''}</span>
+              </div>
+              {result.matches.map((match) => <MatchRow key={match.offerId} match={match} />)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,10 @@
 import { createContext, useContext, useEffect, useState, ReactNode, useCallback } from 'react';
 import { authService, User, LoginCredentials } from '../services/authService';
 import { forceProductionEnvironment } from '../config/api';
+import { adHistoryService } from '../services/adHistoryService';
+import { offerConfigHistoryService } from '../services/offerConfigHistoryService';
+import { savedReportService } from '../services/savedReportService';
+import { reportingTimezoneService } from '../services/reportingTimezoneService';
 
 interface AuthContextType {
   user: User | null;
@@ -14,6 +18,16 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Attribute locally recorded changes and saved reports to whoever is signed in,
+// and apply their reporting timezone. Runs before the user is stored so that
+// providers below (FilterProvider's default range) render with it in place.
+const attributeTo = (user: User | null) => {
+  adHistoryService.setActor(user?.username ?? null);
+  offerConfigHistoryService.setActor(user?.username ?? null);
+  savedReportService.setOwner(user?.username ?? null);
+  reportingTimezoneService.setOwner(user?.username ?? null);
+};
+
 // Session constants for local mode
 const LOCAL_SESSION_KEY = 'dashboard_local_auth_session';
 const SESSION_EXPIRY = 3 * 24 * 60 * 60 * 1000; // 3 days persistence per user request
@@ -28,6 +42,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const { user: savedUser, expiry } = JSON.parse(localSession);
         if (Date.now() < expiry) {
           console.debug('✅ Sync initialization: Valid local session found');
+          attributeTo(savedUser);
           return savedUser;
         }
         localStorage.removeItem(LOCAL_SESSION_KEY);
@@ -42,6 +57,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Wrapper for setUser that handles persistence automatically
   const setUser = useCallback((newUser: User | null) => {
+    attributeTo(newUser);
     setUserState(newUser);
     if (newUser) {
       localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify({
@@ -1,5 +1,7 @@
-import { createContext, useContext, useReducer, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useReducer, ReactNode } from 'react';
 import { FilterState } from '@/types';
+import { daysAgo, todayYmd } from '@/utils/dates';
+import { reportingTimezoneService } from '@/services/reportingTimezoneService';
 
 interface FilterContextType {
   filters: FilterState;
@@ -9,36 +11,49 @@ interface FilterContextType {
 
 const FilterContext = createContext<FilterContextType | undefined>(undefined);
 
-const initialState: FilterState = {
-  dateRange: {
-    from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    to: new Date().toISOString().split('T')[0]
-  },
+// Built on use rather than at import, so "today" is the current day in the
+// reporting timezone of whoever is signed in (AuthProvider applies it before
+// this renders)
+const defaultDateRange = (): FilterState['dateRange'] => ({
+  from: daysAgo(30),
+  to: todayYmd()
+});
+
+const initialState = (): FilterState => ({
+  dateRange: defaultDateRange(),
   periodType: 'daily',
   campaigns: [],
   platforms: [],
   gender: [],
   ageGroups: [],
   adNames: []
-};
+});
 
 type FilterAction = 
   | { type: 'UPDATE_FILTERS'; payload: Partial<FilterState> }
-  | { type: 'RESET_FILTERS' };
+  | { type: 'RESET_FILTERS' }
+  | { type: 'RESET_DATE_RANGE' };
 
 function filterReducer(state: FilterState, action: FilterAction): FilterState {
   switch (action.type) {
     case 'UPDATE_FILTERS':
       return { ...state, ...action.payload };
     case 'RESET_FILTERS':
-      return initialState;
+      return initialState();
+    case 'RESET_DATE_RANGE':
+      return { ...state, dateRange: defaultDateRange() };
     default:
       return state;
   }
 }
 
 export function FilterProvider({ children }: { children: ReactNode }) {
-  const [filters, dispatch] = useReducer(filterReducer, initialState);
+  const [filters, dispatch] = useReducer(filterReducer, undefined, initialState);
+
+  // A range picked under one timezone names different days in another, so a
+  // timezone change (sign-in as someone else, or the Header picker) starts
+  // over from the default range in the new zone
+  useEffect(() => reportingTimezoneService.subscribe(() => dispatch({ type: 'RESET_DATE_RANGE' })), []);
 
   const updateFilters = (newFilters: Partial<FilterState>) => {
     dispatch({ type: 'UPDATE_FILTERS', payload: newFilters });
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { FieldValues, UseFormReturn } from 'react-hook-form';
+import { FormDraft, FormDraftKind, formDraftService } from '@/services/formDraftService';
+
+const SAVE_DELAY_MS = 800;
+
+interface UseFormDraftOptions<T extends FieldValues> {
+  form: UseFormReturn<T>;
+  kind: FormDraftKind;
+  /** Shown in the Drafts drawer, e.g. "New ad · Acme". */
+  title: string;
+  /** False until the form holds what it was opened with (in edit mode, once the record has loaded). */
+  ready: boolean;
+  /** Form state kept outside react-hook-form that belongs in the draft. */
+  extra?: Record<string, unknown>;
+  /** Re-sync state derived from the form (previews, sliders, `extra`) after a draft is restored. */
+  onRestore?: (values: T, extra: Record<string, unknown>) => void;
+}
+
+export interface FormDraftOffer {
+  draft: FormDraft;
+  /** The record was saved by someone since this draft was taken. */
+  stale: boolean;
+}
+
+export interface FormDraftState {
+  offer: FormDraftOffer | null;
+  restoreDraft: () => void;
+  discardDraft: () => void;
+  /** When the current edits were last autosaved, or null if there is nothing to save. */
+  savedAt: number | null;
+  /** Where the user tried to go with unsaved changes, pending confirmation. */
+  leaveTo: string | number | null;
+  stay: () => void;
+  leave: (discard: boolean) => void;
+}
+
+const serialize = (values: unknown, extra: unknown) => JSON.stringify({ values, extra: extra ?? {} });
+
+/**
+ * Autosave a react-hook-form form as a draft keyed by route and environment.
+ *
+ * Edits are written to formDraftService shortly after they happen. When the
+ * form is reopened with a draft that differs from what it loaded, the draft is
+ * offered for restore and autosave waits until the user decides. Leaving with
+ * unsaved changes is confirmed: reloads and closing the tab through
+ * beforeunload, in-app links by intercepting their clicks, and the form's own
+ * buttons through `guardNavigate`. The app uses BrowserRouter, so browser
+ * back/forward can't be blocked — the draft is already saved by then.
+ */
+export function useFormDraft<T extends FieldValues>({ form, kind, title, ready, extra, onRestore }: UseFormDraftOptions<T>) {
+  const { pathname } = useLocation();
+  const navigate = useNavigate();
+  const [offer, setOffer] = useState<FormDraftOffer | null>(null);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  const [leaveTo, setLeaveTo] = useState<string | number | null>(null);
+
+  // Serialized values the form was opened with; null until `ready`
+  const baselineRef = useRef<string | null>(null);
+  const offerRef = useRef<FormDraftOffer | null>(null);
+  // Set once the form is submitted or abandoned, so nothing is saved after it
+  const finishedRef = useRef(false);
+  const timerRef = useRef<number | undefined>(undefined);
+  const latest = useRef({ title, extra, onRestore });
+  latest.current = { title, extra, onRestore };
+
+  const isDirtyNow = useCallback(
+    () => baselineRef.current !== null && serialize(form.getValues(), latest.current.extra) !== baselineRef.current,
+    [form]
+  );
+
+  const flush = useCallback(() => {
+    window.clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+    const baseline = baselineRef.current;
+    if (baseline === null || finishedRef.current || offerRef.current) return;
+
+    const values = form.getValues();
+    const extraValues = latest.current.extra ?? {};
+    if (serialize(values, extraValues) === baseline) {
+      formDraftService.removeDraft(formDraftService.keyFor(pathname));
+      setSavedAt(null);
+      return;
+    }
+    const draft = formDraftService.saveDraft({ kind, path: pathname, title: latest.current.title, values, extra: extraValues, baseline });
+    setSavedAt(draft.updatedAt);
+  }, [form, kind, pathname]);
+
+  const scheduleSave = useCallback(() => {
+    if (baselineRef.current === null || finishedRef.current || offerRef.current) return;
+    window.clearTimeout(timerRef.current);
+    timerRef.current = window.setTimeout(flush, SAVE_DELAY_MS);
+  }, [flush]);
+
+  // Take the baseline once the form is loaded, and offer any draft that differs from it
+  useEffect(() => {
+    if (!ready || baselineRef.current !== null) return;
+    const baseline = serialize(form.getValues(), latest.current.extra);
+    baselineRef.current = baseline;
+
+    const draft = formDraftService.getDraft(pathname);
+    if (!draft) return;
+    if (serialize(draft.values, draft.extra) === baseline) {
+      formDraftService.removeDraft(draft.key);
+      return;
+    }
+    offerRef.current = { draft, stale: draft.baseline !== baseline };
+    setOffer(offerRef.current);
+  }, [ready, form, pathname]);
+
+  useEffect(() => {
+    const subscription = form.watch(() => scheduleSave());
+    return () => subscription.unsubscribe();
+  }, [form, scheduleSave]);
+
+  const extraKey = JSON.stringify(extra ?? {});
+  useEffect(() => {
+    scheduleSave();
+  }, [extraKey, scheduleSave]);
+
+  // Don't drop the last keystrokes when the form unmounts mid-debounce
+  useEffect(() => () => {
+    if (timerRef.current !== undefined) flush();
+  }, [flush]);
+
+  useEffect(() => {
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (timerRef.current !== undefined) flush();
+      if (finishedRef.current || !isDirtyNow()) return;
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [flush, isDirtyNow]);
+
+  // Catch in-app links (header nav, breadcrumbs) before React Router handles them
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      const anchor = (e.target as Element | null)?.closest?.('a[href]') as HTMLAnchorElement | null;
+      if (!anchor || (anchor.target && anchor.target !== '_self') || anchor.hasAttribute('download')) return;
+      const url = new URL(anchor.href, window.location.href);
+      if (url.origin !== window.location.origin || url.pathname === window.location.pathname) return;
+      if (finishedRef.current || !isDirtyNow()) return;
+      e.preventDefault();
+      e.stopPropagation();
+      setLeaveTo(url.pathname + url.search + url.hash);
+    };
+    document.addEventListener('click', handleClick, true);
+    return () => document.removeEventListener('click', handleClick, true);
+  }, [isDirtyNow]);
+
+  const go = useCallback((to: string | number) => {
+    if (typeof to === 'number') navigate(to);
+    else navigate(to);
+  }, [navigate]);
+
+  /** Navigate, asking first if there are unsaved changes. */
+  const guardNavigate = useCallback((to: string | number) => {
+    if (!finishedRef.current && isDirtyNow()) setLeaveTo(to);
+    else go(to);
+  }, [go, isDirtyNow]);
+
+  /** Drop the draft for good — call once the form is saved. */
+  const clearDraft = useCallback(() => {
+    finishedRef.current = true;
+    window.clearTimeout(timerRef.current);
+    timerRef.current = undefined;
+    formDraftService.removeDraft(formDraftService.keyFor(pathname));
+  }, [pathname]);
+
+  const restoreDraft = () => {
+    const current = offerRef.current;
+    if (!current) return;
+    offerRef.current = null;
+    setOffer(null);
+    form.reset(current.draft.values as T, { keepDefaultValues: true });
+    latest.current.onRestore?.(form.getValues(), current.draft.extra ?? {});
+    setSavedAt(current.draft.updatedAt);
+  };
+
+  const discardDraft = () => {
+    const current = offerRef.current;
+    if (!current) return;
+    offerRef.current = null;
+    setOffer(null);
+    formDraftService.removeDraft(current.draft.key);
+    scheduleSave();
+  };
+
+  const leave = (discard: boolean) => {
+    if (leaveTo === null) return;
+    if (discard) clearDraft();
+    else {
+      flush();
+      finishedRef.current = true;
+    }
+    setLeaveTo(null);
+    go(leaveTo);
+  };
+
+  const state: FormDraftState = {
+    offer,
+    restoreDraft,
+    discardDraft,
+    savedAt,
+    leaveTo,
+    stay: () => setLeaveTo(null),
+    leave,
+  };
+
+  return { draft: state, guardNavigate, clearDraft };
+}
+
+/** All saved drafts, kept current as they change in this tab or another. */
+export function useFormDrafts(): FormDraft[] {
+  const [drafts, setDrafts] = useState<FormDraft[]>(() => formDraftService.getDrafts());
+  useEffect(() => formDraftService.subscribe(() => setDrafts(formDraftService.getDrafts())), []);
+  return drafts;
+}
@@ -0,0 +1,17 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { reportingTimezoneService } from '@/services/reportingTimezoneService';
+
+/**
+ * The signed-in user's reporting timezone, re-rendering when it changes.
+ *
+ * Usage:
+ *   const [timeZone, setTimeZone] = useReportingTimezone();
+ */
+export function useReportingTimezone() {
+  const timeZone = useSyncExternalStore(
+    useCallback((onChange: () => void) => reportingTimezoneService.subscribe(onChange), []),
+    () => reportingTimezoneService.getTimezone()
+  );
+  const setTimeZone = useCallback((next: string) => reportingTimezoneService.setTimezone(next), []);
+  return [timeZone, setTimeZone] as const;
+}
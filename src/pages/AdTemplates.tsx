@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Check, ChevronDown, Download, Edit, LayoutTemplate, Plus, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { PageHeader } from '@/components/ui/page-header';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { campaignService, Campaign } from '@/services/campaignService';
+import { AdTemplate, adTemplateService } from '@/services/adTemplateService';
+import { AD_FIELD_LABELS } from '@/utils/adDiff';
+import { AD_TEMPLATE_FIELDS, templateFieldText } from '@/utils/adTemplates';
+import { downloadJSON } from '@/utils/csvExport';
+import { todayYmd } from '@/utils/dates';
+import { cn } from '@/lib/utils';
+
+const easeOut = [0.22, 1, 0.36, 1] as const;
+
+const exportFilename = (suffix: string) => `ad_templates_${suffix}_${todayYmd()}.json`;
+
+/**
+ * Ad templates — named subsets of ad fields saved from AdDetail or AdForm.
+ * Rename, delete, share as JSON, or start a new ad in any campaign from one.
+ */
+export function AdTemplates() {
+  const navigate = useNavigate();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [templates, setTemplates] = useState<AdTemplate[]>(() => adTemplateService.getTemplates());
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; name: string; description: string } | null>(null);
+  const [deleting, setDeleting] = useState<AdTemplate | null>(null);
+  const [using, setUsing] = useState<AdTemplate | null>(null);
+  const [useCampaignId, setUseCampaignId] = useState('');
+
+  const reload = () => setTemplates(adTemplateService.getTemplates());
+
+  useEffect(() => {
+    campaignService.getCampaigns().then((res) => {
+      if (res.success && res.data) setCampaigns(res.data.filter((c) => c.status !== -1));
+    });
+  }, []);
+
+  const handleImport = async (file: File) => {
+    const res = adTemplateService.importTemplates(await file.text());
+    if (!res.success || !res.data) {
+      toast.error(res.message || 'Import failed');
+      return;
+    }
+    toast.success(`Imported templates: ${res.data.added} added, ${res.data.replaced} replaced`);
+    reload();
+  };
+
+  const handleRename = () => {
+    if (!editing) return;
+    const res = adTemplateService.updateTemplate(editing.id, { name: editing.name, description: editing.description });
+    if (!res.success) {
+      toast.error(res.message || 'Failed to update template');
+      return;
+    }
+    setEditing(null);
+    reload();
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    adTemplateService.deleteTemplate(deleting.id);
+    toast.success(`Template "${deleting.name}" deleted`);
+    setDeleting(null);
+    reload();
+  };
+
+  const startAd = () => {
+    if (!using || !useCampaignId) return;
+    navigate(`/campaigns/${useCampaignId}/ads/new?template=${encodeURIComponent(using.id)}`);
+  };
+
+  return (
+    <div className="halo-page">
+      <div className="space-y-5">
+        <PageHeader
+          eyebrow="Ads · Templates"
+          title="Ad"
+          moment="templates."
+          subhead="Reusable targeting and delivery presets. Save one from an ad or the ad form, then start new ads from it."
+          actions={
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+              <button type="button" onClick={() => fileInputRef.current?.click()} className="btn-halo-outline btn-halo-sm">
+                <Upload className="h-3.5 w-3.5" strokeWidth={1.75} />
+                Import JSON
+              </button>
+              <button
+                type="button"
+                onClick={() => downloadJSON(adTemplateService.buildExport(), exportFilename('all'))}
+                disabled={templates.length === 0}
+                className="btn-halo-outline btn-halo-sm"
+              >
+                <Download className="h-3.5 w-3.5" strokeWidth={1.75} />
+                Export all
+              </button>
+            </div>
+          }
+        />
+
+        <motion.section
+          initial={{ opacity: 0, y: 14 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.45, ease: easeOut }}
+          className="halo-card overflow-hidden"
+        >
+          <div className="halo-panel-head halo-rail-full">
+            <div className="halo-panel-head-title">
+              <span className="halo-chip"><LayoutTemplate className="h-3.5 w-3.5" /></span>
+              <h3 className="halo-heading">Saved templates</h3>
+            </div>
+            <span className="halo-badge">{templates.length}</span>
+          </div>
+
+          {templates.length === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-2 py-16 text-center">
+              <span className="halo-chip-lg"><LayoutTemplate size={20} strokeWidth={1.75} /></span>
+              <p className="halo-heading">No templates yet</p>
+              <p className="halo-subtitle">Use "Save as template" on an ad, or import a file from a teammate.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-[var(--h-line)]">
+              {templates.map((t) => {
+                const fields = AD_TEMPLATE_FIELDS.filter((f) => t.fields[f] !== undefined);
+                const expanded = expandedId === t.id;
+                const isEditing = editing?.id === t.id;
+                return (
+                  <li key={t.id} className="space-y-3 p-4 sm:p-5">
+                    <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                      {isEditing ? (
+                        <div className="grid flex-1 grid-cols-1 gap-2 sm:grid-cols-2">
+                          <Input value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} placeholder="Name" />
+                          <Input value={editing.description} onChange={(e) => setEditing({ ...editing, description: e.target.value })} placeholder="Description" />
+                        </div>
+                      ) : (
+                        <button type="button" onClick={() => setExpandedId(expanded ? null : t.id)} className="min-w-0 flex-1 text-left">
+                          <div className="flex items-center gap-2">
+                            <ChevronDown className={cn('h-4 w-4 text-[var(--h-ink-3)] transition-transform', !expanded && '-rotate-90')} />
+                            <span className="truncate text-[14px] font-semibold text-[var(--h-ink)]">{t.name}</span>
+                            <span className="halo-badge">{fields.length} field{fields.length === 1 ? '' : 's'}</span>
+                          </div>
+                          {t.description && <p className="mt-1 pl-6 text-[12.5px] text-[var(--h-ink-2)]">{t.description}</p>}
+                          <p className="mt-1 pl-6 text-[11.5px] text-[var(--h-ink-3)]">
+                            Updated {new Date(t.updatedAt).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' })}
+                          </p>
+                        </button>
+                      )}
+
+                      <div className="flex flex-wrap items-center gap-1.5">
+                        {isEditing ? (
+                          <>
+                            <button type="button" onClick={handleRename} className="btn-halo btn-halo-sm">
+                              <Check className="h-3.5 w-3.5" strokeWidth={1.75} />
+                              Save
+                            </button>
+                            <button type="button" onClick={() => setEditing(null)} className="btn-halo-ghost btn-halo-sm">
+                              <X className="h-3.5 w-3.5" strokeWidth={1.75} />
+                              Cancel
+                            </button>
+                          </>
+                        ) : (
+                          <>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setUsing(t);
+                                setUseCampaignId('');
+                              }}
+                              className="btn-halo btn-halo-sm"
+                            >
+                              <Plus className="h-3.5 w-3.5" strokeWidth={1.75} />
+                              New ad
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => setEditing({ id: t.id, name: t.name, description: t.description })}
+                              className="btn-halo-ghost btn-halo-sm"
+                            >
+                              <Edit className="h-3.5 w-3.5" strokeWidth={1.75} />
+                              Rename
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => downloadJSON(adTemplateService.buildExport([t.id]), exportFilename(t.name.replace(/[^a-zA-Z0-9]/g, '_')))}
+                              className="btn-halo-ghost btn-halo-sm"
+                            >
+                              <Download className="h-3.5 w-3.5" strokeWidth={1.75} />
+                              Export
+                            </button>
+                            <button type="button" onClick={() => setDeleting(t)} className="btn-halo-ghost btn-halo-sm text-[var(--h-coral)]">
+                              <Trash2 className="h-3.5 w-3.5" strokeWidth={1.75} />
+                              Delete
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+
+                    {expanded && !isEditing && (
+                      <div className="halo-inset grid grid-cols-1 gap-x-6 gap-y-1.5 p-3 sm:grid-cols-2">
+                        {fields.map((field) => (
+                          <div key={field} className="grid grid-cols-[120px_1fr] gap-2 text-[12px]">
+                            <span className="text-[var(--h-ink-3)]">{AD_FIELD_LABELS[field] ?? field}</span>
+                            <span className="break-all text-[var(--h-ink)]">{templateFieldText(t, field)}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </motion.section>
+      </div>
+
+      <Dialog open={!!using} onOpenChange={(open) => !open && setUsing(null)}>
+        <DialogContent className="sm:max-w-md halo-card rounded-[var(--h-r-xl)]">
+          <DialogHeader>
+            <DialogTitle className="halo-heading text-base">New ad from "{using?.name}"</DialogTitle>
+            <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+              Choose the campaign. The ad form opens pre-filled with the template's fields.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={useCampaignId} onValueChange={setUseCampaignId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a campaign…" />
+            </SelectTrigger>
+            <SelectContent>
+              {campaigns.map((c) => (
+                <SelectItem key={c.campaignId} value={String(c.campaignId)}>
+                  {c.brandName || c.name || `Campaign ${c.campaignId}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setUsing(null)} className="btn-halo-ghost btn-halo-sm">Cancel</button>
+            <button type="button" onClick={startAd} disabled={!useCampaignId} className="btn-halo btn-halo-sm">Open ad form</button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="sm:max-w-md halo-card rounded-[var(--h-r-xl)]">
+          <DialogHeader>
+            <DialogTitle className="halo-heading text-base">Delete "{deleting?.name}"?</DialogTitle>
+            <DialogDescription className="text-[12.5px] text-[var(--h-ink-3)]">
+              This removes the template from this browser. Ads already created from it are not affected.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setDeleting(null)} className="btn-halo-ghost btn-halo-sm">Cancel</button>
+            <button type="button" onClick={handleDelete} className="btn-halo btn-halo-sm">Delete template</button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
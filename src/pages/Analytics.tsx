@@ -1,6 +1,7 @@
 import { useState, useEffect, useMemo, type ReactNode, type CSSProperties } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Download, RefreshCw, Calendar, TrendingUp, Filter, BarChart3, Tag, Plane, MapPin, Eye, CheckCircle2, Inbox, X, Sparkles, SlidersHorizontal, AlertTriangle } from 'lucide-react';
+import { Download, RefreshCw, Calendar, TrendingUp, Filter, BarChart3, Tag, Plane, MapPin, Eye, CheckCircle2, Inbox, X, Sparkles, SlidersHorizontal, AlertTriangle, Link2, Bookmark } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { PageHeader } from '@/components/ui/page-header';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -16,6 +17,12 @@ import { useFilters } from '@/context/FilterContext';
 import { useSpotlight } from '@/hooks/useSpotlight';
 import { PLATFORM_OPTIONS } from '@/utils/platform';
 import { DataTable } from '@/components/analytics/DataTable';
+import { SavedReportsDialog } from '@/components/analytics/SavedReportsDialog';
+import { ComparisonPicker } from '@/components/analytics/ComparisonPicker';
+import { ConversionFunnel } from '@/components/analytics/ConversionFunnel';
+import { AnomalyPanel } from '@/components/analytics/AnomalyPanel';
+import { PivotExplorer } from '@/components/analytics/PivotExplorer';
+import { FreshnessBadge, type Freshness } from '@/components/analytics/FreshnessBadge';
 
 // Analytics Components
 import { MetricsDashboard } from '@/components/analytics/MetricsDashboard';
@@ -26,11 +33,19 @@ import {
   MetricsPayload
 } from '@/services/analyticsService';
 import { adService } from '@/services/adService';
+import type { PivotQuery } from '@/services/pivotService';
+import type { QueryProgress } from '@/services/queryPool';
+import { SavedReport, SavedReportFilters, savedReportService } from '@/services/savedReportService';
 
 // Utils
 import { exportToCSV, formatMetricsForCSV } from '@/utils/csvExport';
 import { formatCount, formatSmartPercent, coerceName } from '@/lib/format';
 import { normalizeFilterIds, matchesId, matchSlotId, normalizeRouteId, toLookupKey, isV2Active } from '@/utils/v2Normalizer';
+import { decodeAnalyticsUrlState, encodeAnalyticsUrlState, hasAnalyticsUrlState, type AnalyticsView, type AnalyticsGrouping } from '@/utils/analyticsUrlState';
+import { funnelGroupsFromTrend } from '@/utils/funnel';
+import { daysAgo, todayYmd } from '@/utils/dates';
+import { detectSeriesAnomalies } from '@/utils/anomaly';
+import { comparisonShortLabel, daysBetween, getComparisonRange, type ComparisonDateRange, type ComparisonMode } from '@/utils/comparison';
 
 // Types
 import {
@@ -132,14 +147,28 @@ const sanitizeSlots = (rawSlots: Slot[]): Slot[] => {
   return Array.from(uniqueSlots.values());
 };
 
+// Restoring a shared link: match its IDs once the dropdown data is in, then its
+// ad names once their options are, then run the fetch it describes.
+type UrlRestoreStage = 'ids' | 'adNames' | 'fetch' | 'done';
+
 export default function Analytics() {
-  const { filters } = useFilters(); // Get filters from context
+  const { filters, updateFilters } = useFilters(); // Get filters from context
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Read once: the URL seeds the page, after which the page drives the URL
+  const [urlSeed, setUrlSeed] = useState(() => ({ shared: hasAnalyticsUrlState(searchParams), ...decodeAnalyticsUrlState(searchParams) }));
+  const [urlRestore, setUrlRestore] = useState<UrlRestoreStage>(urlSeed.shared ? 'ids' : 'done');
+  const [urlIssues, setUrlIssues] = useState<string[]>(urlSeed.problems);
+  const [savedReportsOpen, setSavedReportsOpen] = useState(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [selectedTimeRange, setSelectedTimeRange] = useState('7d');
-  const [dataGrouping, setDataGrouping] = useState<'1d' | '7d' | '30d'>('7d'); // For data aggregation
-  const [isFilterExpanded, setIsFilterExpanded] = useState(false);
-  const [activeView, setActiveView] = useState<'campaign' | 'slot' | 'ad' | 'pos'>('campaign');
-  const [chartType, setChartType] = useState<ChartType>('line');
+  const [dataGrouping, setDataGrouping] = useState<AnalyticsGrouping>(urlSeed.state.grouping); // For data aggregation
+  const [isFilterExpanded, setIsFilterExpanded] = useState(
+    urlSeed.state.exactAdNames.length > 0 || urlSeed.state.startsWithAdNames.length > 0
+  );
+  const [activeView, setActiveView] = useState<AnalyticsView>(urlSeed.state.view);
+  const [chartType, setChartType] = useState<ChartType>(urlSeed.state.chartType);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous');
+  const [customComparison, setCustomComparison] = useState<Partial<ComparisonDateRange>>({});
 
   // Filter states
   const [selectedCampaigns, setSelectedCampaigns] = useState<(string | number)[]>([]);
@@ -153,6 +182,8 @@ export default function Analytics() {
   const [selectedStartsWithAdNames, setSelectedStartsWithAdNames] = useState<string[]>([]);
   const [adNameOptions, setAdNameOptions] = useState<AdOption[]>([]);
   const [adNamesLoading, setAdNamesLoading] = useState(false);
+  // Bumped each time a load of ad name options finishes
+  const [adNameOptionsVersion, setAdNameOptionsVersion] = useState(0);
 
   // Data states
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
@@ -174,8 +205,16 @@ export default function Analytics() {
     platform: [],
     location: []
   });
-
-  const [breakdownModal, setBreakdownModal] = useState<{ open: boolean; title: string; data: any[] }>({
+  // The comparison window the last fetch used, with the same series and
+  // breakdowns over it. Kept apart from the picker so labels match the data.
+  const [comparisonWindow, setComparisonWindow] = useState<{ mode: ComparisonMode; range: ComparisonDateRange; offsetDays: number } | null>(null);
+  const [comparisonTrendData, setComparisonTrendData] = useState<TrendChartSeries[]>([]);
+  const [comparisonLandingTrendData, setComparisonLandingTrendData] = useState<TrendChartSeries[]>([]);
+  const [comparisonBreakdownData, setComparisonBreakdownData] = useState<typeof breakdownData | null>(null);
+  // Dates, filters and members of the last fetch, for the pivot explorer
+  const [pivotScope, setPivotScope] = useState<Omit<PivotQuery, 'dimensions'> | null>(null);
+
+  const [breakdownModal, setBreakdownModal] = useState<{ open: boolean; title: string; data: any[]; comparisonData?: BreakdownData[] }>({
     open: false,
     title: '',
     data: []
@@ -193,6 +232,10 @@ export default function Analytics() {
   // Loading states
   const [loading, setLoading] = useState(true);
   const [dataLoading, setDataLoading] = useState(false);
+  // Trend series loaded so far in the current fetch
+  const [loadProgress, setLoadProgress] = useState<QueryProgress | null>(null);
+  // How current the loaded data is, when some of it came from the metrics cache
+  const [freshness, setFreshness] = useState<Freshness | null>(null);
   // HALO: additive-only UI state — captures the last fetch error for the styled
   // error banner. Does not alter fetching, caching, or handler behaviour.
   const [dataFetchError, setDataFetchError] = useState<string | null>(null);
@@ -235,9 +278,173 @@ export default function Analytics() {
   // Fetch dropdown data on component mount
   useEffect(() => {
     fetchDropdownData();
-    // Don't auto-fetch analytics data on mount, let user manually trigger it
+    // Don't auto-fetch analytics data on mount, let user manually trigger it —
+    // unless the URL is a shared report (see the restore effects below)
+    if (urlSeed.state.from && urlSeed.state.to) {
+      updateFilters({ dateRange: { from: urlSeed.state.from, to: urlSeed.state.to } });
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Leaving the page cancels a fetch still in flight
+  useEffect(() => () => analyticsService.cancelBatch('analytics'), []);
+
+  // Shared link, step 1: match the URL's IDs against what was loaded. Anything
+  // that no longer exists is reported rather than quietly left out.
+  useEffect(() => {
+    if (loading || urlRestore !== 'ids') return;
+    const { state } = urlSeed;
+    const issues: string[] = [];
+
+    const resolve = <T,>(ids: string[], pool: T[], idOf: (item: T) => string | number, noun: string) => {
+      const found: (string | number)[] = [];
+      const missing: string[] = [];
+      ids.forEach((id) => {
+        const match = pool.find((item) => matchesId(idOf(item), id));
+        if (match) found.push(idOf(match));
+        else missing.push(id);
+      });
+      if (missing.length > 0) issues.push(`${noun}${missing.length === 1 ? '' : 's'} not found: ${missing.join(', ')}`);
+      return found;
+    };
+
+    const platforms = resolve(state.platforms, PLATFORM_OPTIONS, (p) => p.value, 'Platform');
+    let slotIds = resolve(state.slots, slots, (slot) => slot.slotId, 'Slot');
+    if (platforms.length > 0) {
+      const offPlatform = slotIds.filter((id) => {
+        const slot = slots.find((s) => matchesId(s.slotId, id));
+        return !slot || !platforms.includes(slot.platform);
+      });
+      if (offPlatform.length > 0) {
+        issues.push(`Slot${offPlatform.length === 1 ? '' : 's'} not on the selected platforms: ${offPlatform.join(', ')}`);
+        slotIds = slotIds.filter((id) => !offPlatform.includes(id));
+      }
+    }
+    const campaignIds = resolve(state.campaigns, campaigns, (c) => c.campaignId, 'Campaign');
+
+    setSelectedPlatforms(platforms);
+    setSelectedSlots(slotIds);
+    setSelectedCampaigns(campaignIds);
+    setSelectedPOS(resolve(state.pos, sites, (site) => site.posId, 'Marketplace'));
+    setSelectedExactAdNames([]);
+    setSelectedStartsWithAdNames([]);
+
+    let next: UrlRestoreStage = 'fetch';
+    const adNameCount = state.exactAdNames.length + state.startsWithAdNames.length;
+    if (adNameCount > 0) {
+      // Ad names map to IDs through the options, which only load for the Ads view or selected campaigns
+      if (state.view === 'ad' || campaignIds.length > 0) next = 'adNames';
+      else issues.push(`Ad name filters need a campaign or the Ads view — ${adNameCount} ignored`);
+    }
+
+    setUrlIssues((prev) => [...prev, ...issues]);
+    setUrlRestore(next);
+  }, [loading, urlRestore, urlSeed, campaigns, slots, sites]);
+
+  // Shared link, step 2: match ad names once their options have loaded
+  useEffect(() => {
+    if (urlRestore !== 'adNames' || adNamesLoading || adNameOptionsVersion === 0) return;
+    const { exactAdNames, startsWithAdNames } = urlSeed.state;
+    const exact = exactAdNames.filter((name) => adNameOptions.some((opt) => opt.name === name));
+    const startsWith = startsWithAdNames.filter((label) => adNameOptions.some((opt) => opt.label === label));
+    const missing = [
+      ...exactAdNames.filter((name) => !exact.includes(name)),
+      ...startsWithAdNames.filter((label) => !startsWith.includes(label)),
+    ];
+    if (missing.length > 0) {
+      setUrlIssues((prev) => [...prev, `Ad name${missing.length === 1 ? '' : 's'} not found: ${missing.join(', ')}`]);
+    }
+    setSelectedExactAdNames(exact);
+    setSelectedStartsWithAdNames(startsWith);
+    setUrlRestore('fetch');
+  }, [urlRestore, urlSeed, adNamesLoading, adNameOptionsVersion, adNameOptions]);
+
+  // Shared link, step 3: run the report with the restored filters
+  useEffect(() => {
+    if (urlRestore !== 'fetch') return;
+    setUrlRestore('done');
+    fetchAnalyticsData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [urlRestore]);
+
+  // The filters on screen, in the shape the URL and saved reports use
+  const currentFilters: SavedReportFilters = useMemo(() => ({
+    view: activeView,
+    campaigns: selectedCampaigns.map(String),
+    slots: selectedSlots.map(String),
+    pos: selectedPOS.map(String),
+    platforms: selectedPlatforms.map(String),
+    exactAdNames: selectedExactAdNames,
+    startsWithAdNames: selectedStartsWithAdNames,
+    grouping: dataGrouping,
+    chartType,
+  }), [
+    activeView, selectedCampaigns, selectedSlots, selectedPOS, selectedPlatforms,
+    selectedExactAdNames, selectedStartsWithAdNames, dataGrouping, chartType,
+  ]);
+
+  // Keep the URL in step with the filters so it can be shared at any time
+  useEffect(() => {
+    if (urlRestore === 'ids' || urlRestore === 'adNames') return;
+    const next = encodeAnalyticsUrlState({ ...currentFilters, from: filters.dateRange?.from, to: filters.dateRange?.to });
+    if (next.toString() !== searchParams.toString()) setSearchParams(next, { replace: true });
+  }, [urlRestore, currentFilters, filters.dateRange, searchParams, setSearchParams]);
+
+  // Opening a saved report goes through the same restore steps as a shared link
+  const comparisonLabel = comparisonWindow
+    ? comparisonWindow.mode === 'custom'
+      ? `${comparisonWindow.range.from} – ${comparisonWindow.range.to}`
+      : comparisonShortLabel(comparisonWindow.mode)
+    : undefined;
+  const trendComparison = useMemo(
+    () => comparisonWindow && comparisonLabel && comparisonTrendData.length > 0
+      ? { series: comparisonTrendData, label: comparisonLabel, offsetDays: comparisonWindow.offsetDays }
+      : undefined,
+    [comparisonWindow, comparisonLabel, comparisonTrendData]
+  );
+  const landingComparison = useMemo(
+    () => trendComparison && comparisonLandingTrendData.length > 0
+      ? { ...trendComparison, series: comparisonLandingTrendData }
+      : undefined,
+    [trendComparison, comparisonLandingTrendData]
+  );
+
+  const funnelGroups = useMemo(() => funnelGroupsFromTrend(trendData), [trendData]);
+  const anomalies = useMemo(
+    () => detectSeriesAnomalies(trendData, undefined, { period: dataGrouping }),
+    // Only re-run when new data lands; the grouping picker changes ahead of the fetch
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [trendData]
+  );
+
+  // Series are named after their campaign or ad, so map names back to IDs for notifications
+  const resolveAnomalyTarget = (series: string) => {
+    if (activeView === 'campaign') {
+      const campaign = campaigns.find(c => (c.brandName || `Campaign ${c.campaignId}`) === series);
+      return campaign ? { campaignId: Number(campaign.campaignId) } : undefined;
+    }
+    if (activeView === 'ad') {
+      const ad = adNameOptions.find(opt => (opt.label || opt.name) === series);
+      return ad ? { adId: Number(ad.adId) } : undefined;
+    }
+    return undefined;
+  };
+
+  const openSavedReport = (report: SavedReport) => {
+    const range = savedReportService.resolveRange(report.range);
+    const state = { ...report.filters, ...range };
+    setSavedReportsOpen(false);
+    setUrlSeed({ shared: true, state, problems: [] });
+    setUrlIssues([]);
+    setActiveView(state.view);
+    setDataGrouping(state.grouping);
+    setChartType(state.chartType);
+    if (state.exactAdNames.length > 0 || state.startsWithAdNames.length > 0) setIsFilterExpanded(true);
+    updateFilters({ dateRange: range });
+    setUrlRestore('ids');
+    toast.message(`Opening "${report.name}"`, { id: 'analytics-fetch' });
+  };
+
   // Manual fetch - removed automatic fetching on filter changes
 
   // Fetch ad names only when the ad-name picker is actually in use: it renders
@@ -245,9 +452,11 @@ export default function Analytics() {
   // 'ad' view needs options too. Previously this fired for ALL campaigns on
   // mount — N extra requests on every page load that competed with the
   // analytics fetch for connection slots.
+  const urlIdsPending = urlRestore === 'ids';
   useEffect(() => {
-    // Don't fetch ad names if data is still loading or no campaigns available
-    if (loading || campaigns.length === 0) return;
+    // Don't fetch ad names if data is still loading or no campaigns available,
+    // or before a shared link's campaigns have been applied
+    if (loading || campaigns.length === 0 || urlIdsPending) return;
 
     const filtersNeedAdNames = isFilterExpanded && selectedCampaigns.length > 0;
     if (!filtersNeedAdNames && activeView !== 'ad') return;
@@ -299,10 +508,11 @@ export default function Analytics() {
         toast.error('Failed to load ad names');
       } finally {
         setAdNamesLoading(false);
+        setAdNameOptionsVersion((v) => v + 1);
       }
     };
     loadAdNames();
-  }, [selectedCampaigns, campaigns, isFilterExpanded, activeView]); // Fetches only when the ad picker/view needs options
+  }, [selectedCampaigns, campaigns, isFilterExpanded, activeView, urlIdsPending]); // Fetches only when the ad picker/view needs options
 
   // Filter slots based on selected platforms
   useEffect(() => {
@@ -378,44 +588,37 @@ export default function Analytics() {
     }
   };
 
-  const fetchAnalyticsData = async () => {
-    // Prevent concurrent calls
-    if (dataLoading) {
-      console.log('⏳ Skipping fetch - already loading data');
-      return;
-    }
+  // `bypassCache` refetches everything live; `silent` redraws without the
+  // skeleton or toast (after a background refresh of cached responses).
+  const fetchAnalyticsData = async (options: { bypassCache?: boolean; silent?: boolean } = {}) => {
+    // A new fetch supersedes one still in flight: its requests are aborted and
+    // everything below bails out before touching state once `batch.aborted`.
+    const batch = analyticsService.beginBatch('analytics', setLoadProgress, { bypassCache: options.bypassCache });
 
     try {
-      setDataLoading(true);
+      if (!options.silent) setDataLoading(true);
       setDataFetchError(null);
+      setLoadProgress(null);
 
       // Use date range from context (DateRangePicker) with safety check
-      const dateRange = filters.dateRange || {
-        from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-        to: new Date().toISOString().split('T')[0]
-      };
+      const dateRange = filters.dateRange || { from: daysAgo(30), to: todayYmd() };
 
-      // Calculate comparison date range based on period
-      const calculateComparisonDateRange = (currentRange: any, period: '1d' | '7d' | '30d') => {
-        const fromDate = new Date(currentRange.from);
-        const toDate = new Date(currentRange.to);
-        const rangeDays = Math.ceil((toDate.getTime() - fromDate.getTime()) / (1000 * 60 * 60 * 24));
-
-        // Calculate previous period
-        const comparisonToDate = new Date(fromDate);
-        comparisonToDate.setDate(comparisonToDate.getDate() - 1); // End one day before current period starts
-
-        const comparisonFromDate = new Date(comparisonToDate);
-        comparisonFromDate.setDate(comparisonFromDate.getDate() - rangeDays + 1); // Go back the same number of days
+      // Comparison window from the picker (null when off, or custom dates are incomplete)
+      const comparisonDateRange = getComparisonRange(dateRange, comparisonMode, customComparison);
+      if (comparisonMode === 'custom' && !comparisonDateRange) {
+        toast.message('Comparison skipped', { description: 'Pick both custom comparison dates to compare.' });
+      }
 
-        return {
-          from: comparisonFromDate.toISOString().split('T')[0],
-          to: comparisonToDate.toISOString().split('T')[0]
-        };
+      // Every trend series is fetched again over the comparison window for the dashed overlay
+      const comparisonSeries: TrendChartSeries[] = [];
+      const fetchComparisonTrend = async (name: string, payload: MetricsPayload) => {
+        if (!comparisonDateRange) return;
+        const res = await analyticsService.getTrendData({ ...payload, ...comparisonDateRange }, batch.signal);
+        if (res.success && Array.isArray(res.data) && res.data.length > 0) {
+          comparisonSeries.push({ name, data: res.data });
+        }
       };
 
-      const comparisonDateRange = calculateComparisonDateRange(dateRange, dataGrouping);
-
       console.log('Fetching analytics data with:', {
         dateRange,
         comparisonDateRange,
@@ -446,6 +649,31 @@ export default function Analytics() {
         ? dedupeNumericIds(selectedPOS.filter(id => sites.some(s => matchesId(s.posId, id))))
         : undefined;
 
+      setPivotScope({
+        base: {
+          ...dateRange,
+          campaignId: validCampaignIdsAcrossViews ? normalizeFilterIds(validCampaignIdsAcrossViews) : undefined,
+          slotId: selectedSlots.length > 0 && validSlotIdsAcrossViews ? normalizeFilterIds(validSlotIdsAcrossViews) : undefined,
+          siteId: validPOSIdsAcrossViews ? normalizeFilterIds(validPOSIdsAcrossViews) : undefined,
+          adId: validAdIds ? normalizeFilterIds(validAdIds) : undefined,
+          interval: dataGrouping
+        },
+        members: {
+          campaign: campaigns
+            .filter(c => !validCampaignIdsAcrossViews || validCampaignIdsAcrossViews.some(id => matchesId(c.campaignId, id)))
+            .map(c => ({ id: c.campaignId, name: c.brandName || `Campaign ${c.campaignId}` })),
+          ad: adNameOptions
+            .filter(opt => !validAdIds || validAdIds.some(id => matchesId(opt.adId, id)))
+            .map(opt => ({ id: opt.adId, name: opt.label || opt.name })),
+          slot: filteredSlots
+            .filter(slot => !validSlotIdsAcrossViews || validSlotIdsAcrossViews.some(id => matchesId(slot.slotId, id)))
+            .map(slot => ({ id: slot.slotId, name: getSlotDisplayLabel(slot) })),
+          site: sites
+            .filter(site => !validPOSIdsAcrossViews || validPOSIdsAcrossViews.some(id => matchesId(site.posId, id)))
+            .map(site => ({ id: site.posId, name: site.name }))
+        }
+      });
+
       // Build payload based on active view
       let trendSeries: TrendChartSeries[] = [];
       let aggregatedMetrics: MetricsData = getDefaultMetrics();
@@ -468,7 +696,7 @@ export default function Analytics() {
           siteId: validPOSIdsAcrossViews ? normalizeFilterIds(validPOSIdsAcrossViews) : undefined,
           adId: validAdIds,
           interval: dataGrouping
-        });
+        }, batch.signal);
 
         if (metricsRes.success && metricsRes.data) {
           aggregatedMetrics = metricsRes.data;
@@ -490,12 +718,16 @@ export default function Analytics() {
               interval: dataGrouping
             };
 
-            const trendRes = await analyticsService.getTrendData(payload);
-
             const campaign = campaigns.find(c => c.campaignId === campaignId);
+            const campaignName = campaign?.brandName || `Campaign ${campaignId}`;
+            const [trendRes] = await Promise.all([
+              batch.track(analyticsService.getTrendData(payload, batch.signal)),
+              fetchComparisonTrend(campaignName, payload)
+            ]);
+
             return {
               campaignId,
-              campaignName: campaign?.brandName || `Campaign ${campaignId}`,
+              campaignName,
               trendData: trendRes.success ? trendRes.data : []
             };
           })
@@ -536,15 +768,17 @@ export default function Analytics() {
               interval: dataGrouping
             };
 
+            const slot = slots.find(s => matchesId(s.slotId, slotId));
+            const slotName = slot ? getSlotDisplayLabel(slot) : `Slot ${slotId}`;
             const [metricsRes, trendRes] = await Promise.all([
-              analyticsService.getMetrics(payload),
-              analyticsService.getTrendData(payload)
+              analyticsService.getMetrics(payload, batch.signal),
+              batch.track(analyticsService.getTrendData(payload, batch.signal)),
+              fetchComparisonTrend(slotName, payload)
             ]);
 
-            const slot = slots.find(s => matchesId(s.slotId, slotId));
             return {
               slotId,
-              slotName: slot ? getSlotDisplayLabel(slot) : `Slot ${slotId}`,
+              slotName,
               metrics: metricsRes.success ? metricsRes.data : getDefaultMetrics(),
               trendData: trendRes.success ? trendRes.data : []
             };
@@ -609,7 +843,7 @@ export default function Analytics() {
           slotId: selectedSlots.length > 0 ? validSlotIdsAcrossViews ? normalizeFilterIds(validSlotIdsAcrossViews) : undefined : undefined,
           adId: validAdIds,
           interval: dataGrouping
-        });
+        }, batch.signal);
 
         if (posMetricsRes.success && posMetricsRes.data) {
           aggregatedMetrics = posMetricsRes.data;
@@ -630,12 +864,16 @@ export default function Analytics() {
               interval: dataGrouping
             };
 
-            const trendRes = await analyticsService.getTrendData(payload);
-
             const site = sites.find(s => s.posId === posId.toString());
+            const posName = site?.name || `POS ${posId}`;
+            const [trendRes] = await Promise.all([
+              batch.track(analyticsService.getTrendData(payload, batch.signal)),
+              fetchComparisonTrend(posName, payload)
+            ]);
+
             return {
               posId,
-              posName: site?.name || `POS ${posId}`,
+              posName,
               trendData: trendRes.success ? trendRes.data : []
             };
           })
@@ -661,20 +899,28 @@ export default function Analytics() {
           ? adNameOptions.filter(opt => selectedExactAdNames.includes(opt.name) || selectedStartsWithAdNames.includes(opt.label))
           : adNameOptions;
 
-        console.log(`📊 Processing ${adsToProcess.length} ads individually`);
+        console.log(`📊 Processing ${adsToProcess.length} ads`);
 
-        // Take top 20 ads to avoid excessive requests, but ensure they are sorted or meaningful
+        // Take top 20 ads to keep the multi-series chart readable
         const limitedAds = adsToProcess.slice(0, 20);
 
-        // Batched metrics: one call for all ad ids (old code: one per ad).
-        const adMetricsRes = await analyticsService.getMetrics({
+        const adPayload: MetricsPayload = {
           ...dateRange,
           adId: normalizeFilterIds(limitedAds.map(ad => ad.adId)),
           campaignId: validCampaignIdsAcrossViews ? normalizeFilterIds(validCampaignIdsAcrossViews) : undefined,
           slotId: selectedSlots.length > 0 ? normalizeFilterIds(selectedSlots) : undefined,
           siteId: validPOSIdsAcrossViews ? normalizeFilterIds(validPOSIdsAcrossViews) : undefined,
           interval: dataGrouping
-        });
+        };
+
+        // Batched metrics: one call for all ad ids (old code: one per ad). One
+        // /metrics/trend3 call returns every ad's series (old code: one
+        // /metrics/trend call per ad, and again for the comparison window).
+        const [adMetricsRes, multiTrend, comparisonMultiTrend] = await Promise.all([
+          analyticsService.getMetrics(adPayload, batch.signal),
+          batch.track(analyticsService.getMultiTrendData(adPayload, batch.signal)),
+          comparisonDateRange ? analyticsService.getMultiTrendData({ ...adPayload, ...comparisonDateRange }, batch.signal) : null
+        ]);
 
         if (adMetricsRes.success && adMetricsRes.data) {
           aggregatedMetrics = adMetricsRes.data;
@@ -683,37 +929,19 @@ export default function Analytics() {
             (aggregatedMetrics.clicks / aggregatedMetrics.impressions) * 100 : 0;
         }
 
-        // Per-ad trend calls stay — the multi-series chart needs one series per ad.
-        const adResults = await Promise.all(
-          limitedAds.map(async (ad) => {
-            const payload: MetricsPayload = {
-              ...dateRange,
-              adId: normalizeFilterIds([ad.adId]),
-              campaignId: validCampaignIdsAcrossViews ? normalizeFilterIds(validCampaignIdsAcrossViews) : undefined,
-              slotId: selectedSlots.length > 0 ? normalizeFilterIds(selectedSlots) : undefined,
-              siteId: validPOSIdsAcrossViews ? normalizeFilterIds(validPOSIdsAcrossViews) : undefined,
-              interval: dataGrouping
-            };
-
-            const trend = await analyticsService.getTrendData(payload);
-
-            return {
-              adName: ad.label || ad.name,
-              trendData: trend.success ? trend.data : []
-            };
-          })
-        );
+        if (!multiTrend.success) {
+          console.error('Error fetching per-ad trend data:', multiTrend.message);
+        }
 
-        adResults.forEach(result => {
-          try {
-            if (result.trendData && Array.isArray(result.trendData) && result.trendData.length > 0) {
-              trendSeries.push({
-                name: result.adName,
-                data: result.trendData
-              });
-            }
-          } catch (error) {
-            console.error('Error processing ad results:', error, result);
+        limitedAds.forEach(ad => {
+          const adName = ad.label || ad.name;
+          const data = multiTrend.data?.byAd[String(ad.adId)] ?? [];
+          if (data.length > 0) {
+            trendSeries.push({ name: adName, data });
+          }
+          const comparisonData = comparisonMultiTrend?.data?.byAd[String(ad.adId)] ?? [];
+          if (comparisonData.length > 0) {
+            comparisonSeries.push({ name: adName, data: comparisonData });
           }
         });
 
@@ -741,8 +969,9 @@ export default function Analytics() {
         };
 
         const [metricsResult, trendResult] = await Promise.all([
-          analyticsService.getMetrics(basePayload),
-          analyticsService.getTrendData(basePayload)
+          analyticsService.getMetrics(basePayload, batch.signal),
+          batch.track(analyticsService.getTrendData(basePayload, batch.signal)),
+          fetchComparisonTrend('Overall Performance', basePayload)
         ]);
 
         if (metricsResult.success && metricsResult.data) {
@@ -757,9 +986,15 @@ export default function Analytics() {
         }
       }
 
+      if (batch.aborted) return;
+
       // Set the processed data
       setMetricsData(aggregatedMetrics);
       setTrendData(trendSeries);
+      setComparisonTrendData(comparisonSeries);
+      setComparisonWindow(comparisonDateRange
+        ? { mode: comparisonMode, range: comparisonDateRange, offsetDays: daysBetween(comparisonDateRange.from, dateRange.from) }
+        : null);
 
       // Reset per-slot metrics unless the active view is 'slot' (handled in that branch)
       if (activeView !== 'slot') {
@@ -767,9 +1002,9 @@ export default function Analytics() {
       }
 
       // Build landing trend — per-series breakdown (not aggregated)
-      try {
+      const toLandingSeries = (seriesList: TrendChartSeries[]) => {
         const landingSeries: TrendChartSeries[] = [];
-        trendSeries.forEach((series) => {
+        seriesList.forEach((series) => {
           const landingPoints = series.data
             .filter((point: TrendDataPoint) => (point.landingCount || 0) > 0)
             .map((point: TrendDataPoint) => ({
@@ -787,28 +1022,37 @@ export default function Analytics() {
             landingSeries.push({ name: series.name, data: landingPoints });
           }
         });
+        return landingSeries;
+      };
 
+      try {
+        const landingSeries = toLandingSeries(trendSeries);
         setLandingTrendData(landingSeries);
+        setComparisonLandingTrendData(toLandingSeries(comparisonSeries));
         console.log('Landing trend data built per-series:', landingSeries.length, 'series');
       } catch (error) {
         console.error('Error building landing trend data:', error);
         setLandingTrendData([]);
+        setComparisonLandingTrendData([]);
       }
 
-      // Fetch comparison metrics for the previous period
+      // Fetch comparison metrics for the chosen comparison window
       try {
-        const comparisonPayload: MetricsPayload = {
-          ...comparisonDateRange,
-          campaignId: selectedCampaigns.length > 0 ? normalizeFilterIds(selectedCampaigns) : undefined,
-          slotId: selectedSlots.length > 0 ? normalizeFilterIds(selectedSlots) : undefined,
-          siteId: selectedPOS.length > 0 ? normalizeFilterIds(selectedPOS) : undefined,
-          interval: dataGrouping
-        };
-
-        const comparisonResult = await analyticsService.getMetrics(comparisonPayload);
-
-        if (comparisonResult.success && comparisonResult.data) {
-          setComparisonMetricsData(comparisonResult.data);
+        const comparisonResult = comparisonDateRange
+          ? await analyticsService.getMetrics({
+            ...comparisonDateRange,
+            campaignId: selectedCampaigns.length > 0 ? normalizeFilterIds(selectedCampaigns) : undefined,
+            slotId: selectedSlots.length > 0 ? normalizeFilterIds(selectedSlots) : undefined,
+            siteId: selectedPOS.length > 0 ? normalizeFilterIds(selectedPOS) : undefined,
+            adId: validAdIds,
+            interval: dataGrouping
+          }, batch.signal)
+          : null;
+        if (batch.aborted) return;
+
+        if (comparisonResult?.success && comparisonResult.data) {
+          const { impressions, clicks } = comparisonResult.data;
+          setComparisonMetricsData({ ...comparisonResult.data, ctr: impressions > 0 ? (clicks / impressions) * 100 : 0 });
           console.log('Comparison metrics fetched successfully:', comparisonResult.data);
         } else {
           setComparisonMetricsData(null);
@@ -857,14 +1101,21 @@ export default function Analytics() {
 
       console.log('📊 Breakdown payload with validated filters:', breakdownPayload);
 
+      // Same breakdowns over the comparison window, in flight alongside the current ones
+      const comparisonBreakdownsPromise = comparisonDateRange
+        ? Promise.all((['gender', 'age', 'platform', 'location'] as const).map((by) =>
+          analyticsService.getBreakdownData({ ...breakdownPayload, ...comparisonDateRange, by }, batch.signal)))
+        : Promise.resolve(null);
+
       const [genderResult, ageResult, platformResult, locationResult, locationTableResult, slotTableResult] = await Promise.all([
-        analyticsService.getBreakdownData({ ...breakdownPayload, by: 'gender' }),
-        analyticsService.getBreakdownData({ ...breakdownPayload, by: 'age' }),
-        analyticsService.getBreakdownData({ ...breakdownPayload, by: 'platform' }),
-        analyticsService.getBreakdownData({ ...breakdownPayload, by: 'location' }),
-        analyticsService.getTableData('location', 'impressions'),
-        analyticsService.getTableData('slotId', 'impressions')
+        analyticsService.getBreakdownData({ ...breakdownPayload, by: 'gender' }, batch.signal),
+        analyticsService.getBreakdownData({ ...breakdownPayload, by: 'age' }, batch.signal),
+        analyticsService.getBreakdownData({ ...breakdownPayload, by: 'platform' }, batch.signal),
+        analyticsService.getBreakdownData({ ...breakdownPayload, by: 'location' }, batch.signal),
+        analyticsService.getTableData('location', 'impressions', batch.signal),
+        analyticsService.getTableData('slotId', 'impressions', batch.signal)
       ]);
+      if (batch.aborted) return;
 
       // Safely process breakdown data
       try {
@@ -894,6 +1145,26 @@ export default function Analytics() {
         setBreakdownData({ gender: [], age: [], platform: [], location: [] });
       }
 
+      try {
+        const comparisonBreakdowns = await comparisonBreakdownsPromise;
+        if (batch.aborted) return;
+        if (comparisonBreakdowns) {
+          const [gender, age, platform, location] = comparisonBreakdowns.map((res) =>
+            res.success && Array.isArray(res.data) ? res.data : []);
+          setComparisonBreakdownData({
+            gender,
+            age: transformAgeBucketData(age),
+            platform: platform.map(item => ({ ...item, name: getPlatformName(item.name || 'Unknown') })),
+            location
+          });
+        } else {
+          setComparisonBreakdownData(null);
+        }
+      } catch (error) {
+        console.error('Error setting comparison breakdown data:', error);
+        setComparisonBreakdownData(null);
+      }
+
       // Safely process table data
       try {
         if (locationTableResult && locationTableResult.success && Array.isArray(locationTableResult.data)) {
@@ -923,27 +1194,48 @@ export default function Analytics() {
         breakdownDataItems: Object.keys(breakdownData).length
       });
 
-      toast.success('Analytics data fetched', { id: 'analytics-fetch', description: `${trendSeries.length} series · ${formatCount(aggregatedMetrics.impressions)} impressions` });
+      setFreshness({ asOf: batch.asOf, revalidating: batch.revalidating });
+      if (batch.revalidating) {
+        // Stale responses are being refreshed; redraw from the cache once they're in
+        batch.revalidated().then((changed) => {
+          if (batch.aborted) return;
+          if (changed) fetchAnalyticsData({ silent: true });
+          else setFreshness({ asOf: Date.now(), revalidating: false });
+        });
+      }
+
+      if (!options.silent) {
+        toast.success('Analytics data fetched', { id: 'analytics-fetch', description: `${trendSeries.length} series · ${formatCount(aggregatedMetrics.impressions)} impressions` });
+      }
 
     } catch (error) {
+      if (batch.aborted) return;
       console.error('Error fetching analytics data:', error);
       const message = error instanceof Error ? error.message : 'Unknown error';
       toast.error(`Failed to load analytics data: ${message}`);
       setDataFetchError(message);
+      setFreshness(null);
 
       // Reset data to safe defaults on error
       setMetricsData(getDefaultMetrics());
       setComparisonMetricsData(null);
+      setComparisonWindow(null);
       setTrendData([]);
       setLandingTrendData([]);
+      setComparisonTrendData([]);
+      setComparisonLandingTrendData([]);
+      setComparisonBreakdownData(null);
       setBreakdownData({ gender: [], age: [], platform: [], location: [] });
       setTopLocations([]);
       setTopSlotsData([]);
       setSlotMetrics([]);
 
     } finally {
-      setDataLoading(false);
-      console.log('Data loading completed');
+      if (!batch.aborted) {
+        setDataLoading(false);
+        setLoadProgress(null);
+        console.log('Data loading completed');
+      }
     }
   };
 
@@ -1187,8 +1479,25 @@ export default function Analytics() {
     selectedExactAdNames.length +
     selectedStartsWithAdNames.length;
 
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied', { description: 'Opening it shows this report with the same filters.' });
+    } catch {
+      toast.error('Copy failed — copy the address bar instead');
+    }
+  };
+
   const headerActions = (
     <>
+      <Button variant="ghost" size="sm" onClick={() => setSavedReportsOpen(true)}>
+        <Bookmark className="h-3.5 w-3.5" />
+        Reports
+      </Button>
+      <Button variant="ghost" size="sm" onClick={handleCopyLink}>
+        <Link2 className="h-3.5 w-3.5" />
+        Copy link
+      </Button>
       <Button variant="ghost" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
         <RefreshCw className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
         Refresh
@@ -1210,6 +1519,25 @@ export default function Analytics() {
       />
 
       <div className="mt-5 space-y-5">
+        {urlIssues.length > 0 && (
+          <div className="halo-card p-5 flex items-start gap-3" role="status">
+            <div className="halo-chip flex-none" style={{ background: 'var(--h-warn-soft)', color: 'var(--h-amber)' }}>
+              <Link2 className="h-4 w-4" strokeWidth={1.75} />
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="halo-heading">Parts of this link couldn't be applied</p>
+              <ul className="halo-subtitle mt-1 space-y-0.5">
+                {urlIssues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+            <button type="button" onClick={() => setUrlIssues([])} aria-label="Dismiss" className="btn-halo-ghost btn-halo-icon btn-halo-sm">
+              <X className="h-3.5 w-3.5" strokeWidth={1.75} />
+            </button>
+          </div>
+        )}
+
         {dataFetchError && (
           <div className="halo-card p-5 flex items-start gap-3" role="alert">
             <div className="halo-chip flex-none" style={{ background: 'var(--h-neg-soft)', color: 'var(--h-coral)' }}>
@@ -1219,7 +1547,7 @@ export default function Analytics() {
               <p className="halo-heading">Couldn't load analytics data</p>
               <p className="halo-subtitle mt-0.5">{dataFetchError} — check your filters and connection, then try again.</p>
             </div>
-            <Button variant="outline" size="sm" onClick={fetchAnalyticsData} disabled={dataLoading}>
+            <Button variant="outline" size="sm" onClick={() => fetchAnalyticsData()} disabled={dataLoading}>
               <RefreshCw className={`h-3.5 w-3.5 ${dataLoading ? 'animate-spin' : ''}`} />
               Retry
             </Button>
@@ -1227,10 +1555,10 @@ export default function Analytics() {
         )}
 
         <div className="halo-card halo-rail p-5">
-          <div className="grid grid-cols-1 gap-3 md:grid-cols-2 lg:grid-cols-5 items-end">
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2 lg:grid-cols-6 items-start">
             <div className="space-y-1.5">
               <label className="halo-label">View type</label>
-              <Select value={activeView} onValueChange={(value) => setActiveView(value as 'campaign' | 'slot' | 'ad' | 'pos')}>
+              <Select value={activeView} onValueChange={(value) => setActiveView(value as AnalyticsView)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select view" />
                 </SelectTrigger>
@@ -1250,7 +1578,7 @@ export default function Analytics() {
 
             <div className="space-y-1.5">
               <label className="halo-label">Grouping</label>
-              <Select value={dataGrouping} onValueChange={(value) => setDataGrouping(value as '1d' | '7d' | '30d')}>
+              <Select value={dataGrouping} onValueChange={(value) => setDataGrouping(value as AnalyticsGrouping)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
@@ -1277,16 +1605,30 @@ export default function Analytics() {
             </div>
 
             <div className="space-y-1.5">
+              <label className="halo-label">Compare to</label>
+              <ComparisonPicker
+                mode={comparisonMode}
+                onModeChange={setComparisonMode}
+                custom={customComparison}
+                onCustomChange={setCustomComparison}
+                range={filters.dateRange}
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <label className="halo-label invisible" aria-hidden="true">Fetch</label>
               <Button
                 type="button"
-                onClick={fetchAnalyticsData}
-                disabled={dataLoading}
+                onClick={() => fetchAnalyticsData()}
+                title={dataLoading ? 'Restart with the current filters' : undefined}
                 className="w-full"
               >
                 {dataLoading ? (
                   <>
                     <RefreshCw className="h-3.5 w-3.5 animate-spin" />
-                    Fetching…
+                    {loadProgress && loadProgress.total > 0
+                      ? `${loadProgress.done}/${loadProgress.total} series loaded`
+                      : 'Fetching…'}
                   </>
                 ) : (
                   <>
@@ -1299,6 +1641,11 @@ export default function Analytics() {
           </div>
 
           <div className="mt-4 pt-4 flex items-center justify-end gap-2 flex-wrap" style={{ borderTop: '1px solid var(--h-line)' }}>
+            {freshness && (
+              <div className="mr-auto">
+                <FreshnessBadge freshness={freshness} onBypass={() => fetchAnalyticsData({ bypassCache: true })} disabled={dataLoading} />
+              </div>
+            )}
             <button
               type="button"
               onClick={() => setIsFilterExpanded(!isFilterExpanded)}
@@ -1566,6 +1913,7 @@ export default function Analytics() {
               <MetricsDashboard
                 data={metricsData}
                 comparisonData={comparisonMetricsData || undefined}
+                comparisonLabel={comparisonLabel}
                 period={dataGrouping}
               />
             ) : (
@@ -1577,6 +1925,37 @@ export default function Analytics() {
             )}
           </motion.div>
 
+          {/* Conversion funnel, one row per series of the active view */}
+          {!dataLoading && funnelGroups.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.4, delay: 0.08, ease: 'easeOut' }}
+              className="halo-card p-5"
+            >
+              <ConversionFunnel
+                groups={funnelGroups}
+                groupLabel={activeView === 'slot' ? 'Slot' : activeView === 'campaign' ? 'Campaign' : activeView === 'ad' ? 'Ad' : 'POS'}
+              />
+            </motion.div>
+          )}
+
+          {/* Anomalies across the active view's series */}
+          {!dataLoading && trendData.length > 0 && (
+            <motion.div
+              initial={{ opacity: 0, y: 12 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.4, delay: 0.09, ease: 'easeOut' }}
+              className="halo-card p-5"
+            >
+              <AnomalyPanel
+                anomalies={anomalies}
+                groupLabel={activeView === 'slot' ? 'Slot' : activeView === 'campaign' ? 'Campaign' : activeView === 'ad' ? 'Ad' : 'POS'}
+                resolveTarget={resolveAnomalyTarget}
+              />
+            </motion.div>
+          )}
+
           {/* Analytics Chart */}
           <motion.div
             initial={{ opacity: 0, y: 12 }}
@@ -1601,7 +1980,15 @@ export default function Analytics() {
             </div>
 
             {dataLoading ? (
-              <div className="halo-skeleton w-full" style={{ height: 400 }} />
+              <div className="space-y-2">
+                <div className="halo-skeleton w-full" style={{ height: 400 }} />
+                {loadProgress && loadProgress.total > 0 && (
+                  <p className="num text-[11px] text-[var(--h-ink-3)]">
+                    {loadProgress.done}/{loadProgress.total} series loaded
+                    {loadProgress.failed > 0 && ` · ${loadProgress.failed} failed`}
+                  </p>
+                )}
+              </div>
             ) : (
               <div className="w-full">
                 {trendData && trendData.length > 0 ? (
@@ -1616,6 +2003,8 @@ export default function Analytics() {
                     enablePlatformFilter={activeView === 'slot'}
                     height={400}
                     chartType={chartType}
+                    comparison={trendComparison}
+                    anomalies={anomalies}
                   />
                 ) : (
                   <EmptyState
@@ -1645,6 +2034,8 @@ export default function Analytics() {
               enablePlatformFilter={activeView === 'slot'}
               height={380}
               chartType={chartType}
+              comparison={trendComparison}
+              anomalies={anomalies}
             />
           </motion.div>
 
@@ -1665,6 +2056,8 @@ export default function Analytics() {
               enablePlatformFilter={activeView === 'slot'}
               height={380}
               chartType={chartType}
+              comparison={trendComparison}
+              anomalies={anomalies}
             />
           </motion.div>
 
@@ -1684,6 +2077,7 @@ export default function Analytics() {
                 period={dataGrouping}
                 height={380}
                 chartType={chartType}
+                comparison={landingComparison}
               />
             ) : (
               <EmptyState
@@ -1915,22 +2309,32 @@ export default function Analytics() {
 
           {/* Demographic and Platform Analytics */}
           <div className="grid grid-cols-2 gap-5 xl:grid-cols-4 items-stretch">
-            {[
-              { data: breakdownData.gender, title: 'Gender' },
-              { data: breakdownData.age, title: 'Age' },
-              { data: breakdownData.platform, title: 'Platform' },
-              { data: breakdownData.location, title: 'Location' },
-            ].map(({ data, title }, idx) => (
+            {([
+              { data: breakdownData.gender, comparisonData: comparisonBreakdownData?.gender, title: 'Gender' },
+              { data: breakdownData.age, comparisonData: comparisonBreakdownData?.age, title: 'Age' },
+              { data: breakdownData.platform, comparisonData: comparisonBreakdownData?.platform, title: 'Platform' },
+              { data: breakdownData.location, comparisonData: comparisonBreakdownData?.location, title: 'Location' },
+            ]).map(({ data, comparisonData, title }, idx) => (
               <BreakdownTile
                 key={title}
                 index={idx}
-                onClick={() => setBreakdownModal({ open: true, title, data })}
+                onClick={() => setBreakdownModal({ open: true, title, data, comparisonData })}
               >
-                <BreakdownPieChart data={data} title={title} />
+                <BreakdownPieChart data={data} title={title} comparisonData={comparisonData} comparisonLabel={comparisonLabel} />
               </BreakdownTile>
             ))}
           </div>
 
+          {/* Pivot explorer over the same filters */}
+          <motion.div
+            initial={{ opacity: 0, y: 12 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4, delay: 0.3, ease: 'easeOut' }}
+            className="halo-card p-5"
+          >
+            <PivotExplorer scope={pivotScope} />
+          </motion.div>
+
           {/* Age-wise Analysis — DISABLED: not used, was duplicated below.
               TODO: re-enable only if a separate "Performance by age" KPI panel is needed. */}
           {false && (
@@ -1954,6 +2358,15 @@ export default function Analytics() {
         onOpenChange={(open: boolean) => setBreakdownModal((prev) => ({ ...prev, open }))}
         title={breakdownModal.title}
         data={breakdownModal.data}
+        comparisonData={breakdownModal.comparisonData}
+        comparisonLabel={comparisonLabel}
+      />
+
+      <SavedReportsDialog
+        open={savedReportsOpen}
+        onOpenChange={setSavedReportsOpen}
+        current={{ filters: currentFilters, from: filters.dateRange?.from, to: filters.dateRange?.to }}
+        onOpenReport={openSavedReport}
       />
     </div>
   );
@@ -4,16 +4,22 @@ import { MetricsDashboard } from '@/components/analytics/MetricsDashboard';
 import { TrendChart } from '@/components/analytics/TrendChart';
 import { BreakdownPieChart } from '@/components/analytics/BreakdownPieChart';
 import { BreakdownModal } from '@/components/analytics/BreakdownModal';
+import { PinnedReports } from '@/components/analytics/PinnedReports';
+import { FreshnessBadge, type Freshness } from '@/components/analytics/FreshnessBadge';
+import { ComparisonPicker } from '@/components/analytics/ComparisonPicker';
 import { RefreshCw, Download, TrendingUp, Zap, Activity, BarChart3, ArrowUpRight, Percent, Gauge, LayoutGrid, AlertTriangle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { PageHeader } from '@/components/ui/page-header';
 import { CometCard } from '@/components/ui/comet-card';
 import { useSpotlight } from '@/hooks/useSpotlight';
 import { analyticsService, MetricsPayload } from '@/services/analyticsService';
+import { cacheService } from '@/services/cacheService';
 import { MetricsData, BreakdownData, TrendChartSeries, Campaign } from '@/types';
 import { toast } from 'sonner';
 import { coerceName } from '@/lib/format';
 import { normalizeFilterIds } from '@/utils/v2Normalizer';
+import { addDays, todayYmd } from '@/utils/dates';
+import { comparisonShortLabel, daysBetween, getComparisonRange, type ComparisonDateRange, type ComparisonMode } from '@/utils/comparison';
 
 // Utils
 import { exportToCSV, formatDashboardForCSV } from '@/utils/csvExport';
@@ -70,6 +76,12 @@ const loadDashboardCache = () => {
   }
 };
 
+// The window fetchDashboardData covers: the last 7 days, today included
+const getLast7DaysRange = (): ComparisonDateRange => {
+  const today = todayYmd();
+  return { from: addDays(today, -6), to: today };
+};
+
 // Helper function to map platform numbers to names
 const getPlatformName = (platformId: number | string): string => {
   const id = Number(platformId);
@@ -99,11 +111,19 @@ export function Dashboard() {
   // HALO: additive-only UI state — captures the last fetch error for the styled
   // error banner. Does not alter fetching, caching, or handler behaviour.
   const [fetchError, setFetchError] = useState<string | null>(null);
+  // How current the loaded data is, when some of it came from the metrics cache
+  const [freshness, setFreshness] = useState<Freshness | null>(null);
 
   // Real data states
   const [metricsData, setMetricsData] = useState<MetricsData>(getDefaultMetrics());
   const [comparisonMetricsData, setComparisonMetricsData] = useState<MetricsData | null>(null);
   const [trendData, setTrendData] = useState<TrendChartSeries[]>([]);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous');
+  const [customComparison, setCustomComparison] = useState<Partial<ComparisonDateRange>>({});
+  // What the loaded comparison numbers cover — the picker only applies on the next fetch
+  const [comparisonWindow, setComparisonWindow] = useState<{ mode: ComparisonMode; range: ComparisonDateRange; offsetDays: number } | null>(null);
+  const [comparisonTrendData, setComparisonTrendData] = useState<TrendChartSeries[]>([]);
+  const [comparisonBreakdowns, setComparisonBreakdowns] = useState<Record<string, BreakdownData[]> | null>(null);
   const [genderBreakdown, setGenderBreakdown] = useState<BreakdownData[]>([]);
   const [platformBreakdown, setPlatformBreakdown] = useState<BreakdownData[]>([]);
   const [ageBreakdown, setAgeBreakdown] = useState<BreakdownData[]>([]);
@@ -116,7 +136,7 @@ export function Dashboard() {
     conversionRate: 0
   });
 
-  const [breakdownModal, setBreakdownModal] = useState<{ open: boolean; title: string; data: any[] }>({
+  const [breakdownModal, setBreakdownModal] = useState<{ open: boolean; title: string; data: any[]; comparisonData?: BreakdownData[] }>({
     open: false,
     title: '',
     data: []
@@ -129,11 +149,15 @@ export function Dashboard() {
       // Load cached data
       setMetricsData(cachedData.metricsData || getDefaultMetrics());
       setComparisonMetricsData(cachedData.comparisonMetricsData || null);
+      setComparisonWindow(cachedData.comparisonWindow || null);
+      setComparisonTrendData(cachedData.comparisonTrendData || []);
+      setComparisonBreakdowns(cachedData.comparisonBreakdowns || null);
       setTrendData(cachedData.trendData || []);
       setGenderBreakdown(cachedData.genderBreakdown || []);
       setPlatformBreakdown(cachedData.platformBreakdown || []);
       setAgeBreakdown(cachedData.ageBreakdown || []);
       setLocationBreakdown(cachedData.locationBreakdown || []);
+      setFreshness(cachedData.asOf ? { asOf: cachedData.asOf, revalidating: false } : null);
       setQuickStats(cachedData.quickStats || {
         activeCampaigns: 0,
         bestCTR: 0,
@@ -144,39 +168,39 @@ export function Dashboard() {
     }
   }, []);
 
-  // Fetch all dashboard data
-  const fetchDashboardData = async () => {
+  useEffect(() => () => analyticsService.cancelBatch('dashboard'), []);
+
+  // Fetch all dashboard data. `bypassCache` refetches everything live; `silent`
+  // redraws without the skeleton or toast (after a background cache refresh).
+  const fetchDashboardData = async (options: { bypassCache?: boolean; silent?: boolean } = {}) => {
+    const batch = analyticsService.beginBatch('dashboard', undefined, { bypassCache: options.bypassCache });
+
     try {
-      setLoading(true);
+      if (!options.silent) setLoading(true);
       setFetchError(null);
 
       console.log('📊 Fetching LAST 7 DAYS data using individual campaign approach like Analytics');
 
-      // Create last 7 days date range (exactly 7 days from today)
-      const today = new Date();
-      const sevenDaysAgo = new Date(today.getTime() - 6 * 24 * 60 * 60 * 1000); // 6 days ago + today = 7 days
-
+      // Last 7 days in the reporting timezone (6 days ago + today)
       const last7DaysPayload: MetricsPayload = {
-        from: sevenDaysAgo.toISOString().split('T')[0],
-        to: today.toISOString().split('T')[0],
+        ...getLast7DaysRange(),
         interval: '1d' // Daily intervals for better line chart
       };
 
       console.log('📊 Date range (exactly 7 days):', {
         from: last7DaysPayload.from,
-        to: last7DaysPayload.to,
-        totalDays: Math.ceil((today.getTime() - sevenDaysAgo.getTime()) / (24 * 60 * 60 * 1000)) + 1
+        to: last7DaysPayload.to
       });
 
-      // Create comparison period (previous 7 days)
-      const fourteenDaysAgo = new Date(today.getTime() - 13 * 24 * 60 * 60 * 1000); // 13 days ago + 7 days ago = previous 7 days
-      const comparisonPayload: MetricsPayload = {
-        from: fourteenDaysAgo.toISOString().split('T')[0],
-        to: sevenDaysAgo.toISOString().split('T')[0],
-        interval: '1d'
-      };
+      // Comparison window from the picker (previous 7 days by default)
+      const comparisonRange = getComparisonRange(
+        { from: last7DaysPayload.from, to: last7DaysPayload.to },
+        comparisonMode,
+        customComparison
+      );
+      const comparisonPayload: MetricsPayload | null = comparisonRange ? { ...comparisonRange, interval: '1d' } : null;
 
-      console.log('📊 Comparison date range (previous 7 days):', comparisonPayload);
+      console.log('📊 Comparison date range:', comparisonPayload);
 
       // First, fetch campaigns list
       const campaignsResult = await analyticsService.getCampaigns();
@@ -212,20 +236,24 @@ export function Dashboard() {
 
       console.log(`📊 Fetching metrics + trend for ALL ${campaignIds.length} campaigns in 2 batched calls...`);
 
-      const [metricsResult, trendResult] = await Promise.all([
+      const [metricsResult, trendResult, comparisonTrendResult] = await Promise.all([
         analyticsService.getMetrics({
           ...last7DaysPayload,
           campaignId: campaignIds,
           slotId: undefined,
           siteId: undefined
-        }),
+        }, batch.signal),
         analyticsService.getTrendData({
           ...last7DaysPayload,
           campaignId: campaignIds,
           slotId: undefined,
           siteId: undefined
-        })
+        }, batch.signal),
+        comparisonPayload
+          ? analyticsService.getTrendData({ ...comparisonPayload, campaignId: campaignIds }, batch.signal)
+          : Promise.resolve(null)
       ]);
+      if (batch.aborted) return;
 
       const campaignResults = [{
         campaignId: 'all',
@@ -301,6 +329,18 @@ export function Dashboard() {
         setTrendData([]);
       }
 
+      const comparisonTrendPoints = comparisonTrendResult?.success ? comparisonTrendResult.data ?? [] : [];
+      const comparisonTrendSeries: TrendChartSeries[] = comparisonTrendPoints.length > 0
+        ? [{
+          name: 'Overall Performance',
+          data: comparisonTrendPoints.map((point) => ({
+            ...point,
+            ctr: point.impressions > 0 ? (point.clicks / point.impressions) * 100 : 0
+          }))
+        }]
+        : [];
+      setComparisonTrendData(comparisonTrendSeries);
+
       // Fetch each breakdown type for ALL campaigns in ONE batched call.
       // The API aggregates across the campaignId array — this collapses the
       // old per-campaign × per-type fan-out (4N requests) into 4 requests.
@@ -309,20 +349,20 @@ export function Dashboard() {
       console.log('📊 Fetching breakdown data for ALL campaigns in 4 batched calls...');
       const breakdownTypes = ['gender', 'platform', 'age', 'location'];
 
-      // Create all breakdown promises (one per type, all campaigns batched)
-      const allBreakdownPromises = breakdownTypes.map(async (breakdownType) => {
+      // One breakdown type over one window (all campaigns batched)
+      const fetchBreakdown = async (breakdownType: string, windowPayload: MetricsPayload) => {
         const breakdownByType: { [key: string]: any } = {};
 
         try {
           const breakdownPayload = {
-            ...last7DaysPayload,
+            ...windowPayload,
             campaignId: campaignIds,
             slotId: undefined,
             siteId: undefined,
             by: breakdownType
           };
 
-          const breakdownResult = await analyticsService.getBreakdownData(breakdownPayload);
+          const breakdownResult = await analyticsService.getBreakdownData(breakdownPayload, batch.signal);
 
           const allCampaignBreakdownData = (breakdownResult.success && Array.isArray(breakdownResult.data))
             ? [breakdownResult.data]
@@ -378,10 +418,14 @@ export function Dashboard() {
           console.error(`Error fetching ${breakdownType} breakdown:`, error);
           return { type: breakdownType, data: [] };
         }
-      });
+      };
 
-      // Execute all breakdown calls in parallel (all types, one batched call each)
-      const allBreakdownResults = await Promise.all(allBreakdownPromises);
+      // Execute all breakdown calls in parallel (all types, one batched call each),
+      // for the comparison window too when there is one
+      const [allBreakdownResults, comparisonBreakdownResults] = await Promise.all([
+        Promise.all(breakdownTypes.map((type) => fetchBreakdown(type, last7DaysPayload))),
+        comparisonPayload ? Promise.all(breakdownTypes.map((type) => fetchBreakdown(type, comparisonPayload))) : Promise.resolve(null)
+      ]);
       console.log('📊 All breakdown results (batched):', allBreakdownResults);
 
       // Set breakdown data by type
@@ -403,6 +447,17 @@ export function Dashboard() {
       setAgeBreakdown(aggregatedBreakdownData.age || []);
       setLocationBreakdown(aggregatedBreakdownData.location || []);
 
+      let comparisonBreakdownData: Record<string, BreakdownData[]> | null = null;
+      if (comparisonBreakdownResults) {
+        comparisonBreakdownData = {};
+        comparisonBreakdownResults.forEach(result => {
+          comparisonBreakdownData![result.type] = result.type === 'platform'
+            ? result.data.map((item) => ({ ...item, name: getPlatformName(item.name) }))
+            : result.data;
+        });
+      }
+      setComparisonBreakdowns(comparisonBreakdownData);
+
       console.log('✅ Set aggregated breakdown data (parallel processing):', {
         gender: aggregatedBreakdownData.gender?.length || 0,
         platform: mappedPlatformData.length,
@@ -432,40 +487,64 @@ export function Dashboard() {
       });
       console.log('✅ Set quick stats using aggregated data:', { activeCampaigns: activeCampaignsCount, bestCTR, topPlatform, conversionRate });
 
-      // Also fetch comparison data (previous 7 days) in ONE batched call.
-      // Note: comparisonPayload (computed above with the correct previous-7-day
-      // from/to) is used here. The old code spread last7DaysPayload and added
+      // Also fetch comparison metrics in ONE batched call.
+      // Note: comparisonPayload (computed above from the picked comparison
+      // window) is used here. The old code spread last7DaysPayload and added
       // startDate/endDate keys the API ignores, so the comparison silently
       // fetched the SAME period as the current one (growth always ~0%).
+      let aggregatedComparison: MetricsData | null = null;
       try {
-        console.log('📊 Fetching comparison data for ALL campaigns in 1 batched call...');
+        if (comparisonPayload) {
+          console.log('📊 Fetching comparison data for ALL campaigns in 1 batched call...');
 
-        const comparisonMetricsRes = await analyticsService.getMetrics({
-          ...comparisonPayload,
-          campaignId: campaignIds,
-          slotId: undefined,
-          siteId: undefined
-        });
+          const comparisonMetricsRes = await analyticsService.getMetrics({
+            ...comparisonPayload,
+            campaignId: campaignIds,
+            slotId: undefined,
+            siteId: undefined
+          }, batch.signal);
 
-        const aggregatedComparison = comparisonMetricsRes.success && comparisonMetricsRes.data
-          ? comparisonMetricsRes.data
-          : getDefaultMetrics();
+          aggregatedComparison = comparisonMetricsRes.success && comparisonMetricsRes.data
+            ? comparisonMetricsRes.data
+            : getDefaultMetrics();
 
-        // Recalculate derived metrics (parity with the aggregation path above)
-        aggregatedComparison.ctr = aggregatedComparison.impressions > 0 ?
-          (aggregatedComparison.clicks / aggregatedComparison.impressions) * 100 : 0;
+          // Recalculate derived metrics (parity with the aggregation path above)
+          aggregatedComparison.ctr = aggregatedComparison.impressions > 0 ?
+            (aggregatedComparison.clicks / aggregatedComparison.impressions) * 100 : 0;
 
-        setComparisonMetricsData(aggregatedComparison);
-        console.log('✅ Set comparison metrics (batched):', aggregatedComparison);
+          console.log('✅ Set comparison metrics (batched):', aggregatedComparison);
+        }
       } catch (error) {
         console.error('Error fetching comparison data:', error);
-        setComparisonMetricsData(null);
+        aggregatedComparison = null;
+      }
+      setComparisonMetricsData(aggregatedComparison);
+
+      const loadedComparisonWindow = comparisonRange
+        ? { mode: comparisonMode, range: comparisonRange, offsetDays: daysBetween(comparisonRange.from, last7DaysPayload.from) }
+        : null;
+      setComparisonWindow(loadedComparisonWindow);
+
+      if (batch.aborted) return;
+      const loadedFreshness = { asOf: batch.asOf, revalidating: batch.revalidating };
+      setFreshness(loadedFreshness);
+      if (batch.revalidating) {
+        // Stale responses are being refreshed; redraw from the cache once they're in
+        batch.revalidated().then((changed) => {
+          if (batch.aborted) return;
+          if (changed) fetchDashboardData({ silent: true });
+          else setFreshness({ asOf: Date.now(), revalidating: false });
+        });
       }
 
       // Save all data to localStorage for 24-hour caching
       const dataToCache = {
+        asOf: loadedFreshness.asOf,
         metricsData: aggregatedMetrics,
-        comparisonMetricsData: comparisonMetricsData,
+        comparisonMetricsData: aggregatedComparison,
+        comparisonWindow: loadedComparisonWindow,
+        comparisonTrendData: comparisonTrendSeries,
+        comparisonBreakdowns: comparisonBreakdownData,
         trendData: aggregatedTrendData.length > 0 ? [{
           name: 'Overall Performance',
           data: aggregatedTrendData
@@ -484,9 +563,12 @@ export function Dashboard() {
       saveDashboardCache(dataToCache);
       setDataLoaded(true);
 
-      toast.success(`Last 7 days combined data loaded from ${allCampaignIds.length} campaigns!`);
+      if (!options.silent) {
+        toast.success(`Last 7 days combined data loaded from ${allCampaignIds.length} campaigns!`);
+      }
 
     } catch (error) {
+      if (batch.aborted) return;
       console.error('❌ Error fetching 7-day dashboard data:', error);
       const message = error instanceof Error ? error.message : 'Unknown error';
       toast.error('Failed to load 7-day dashboard data');
@@ -494,6 +576,9 @@ export function Dashboard() {
       // Clear all data on error
       setMetricsData(getDefaultMetrics());
       setComparisonMetricsData(null);
+      setComparisonWindow(null);
+      setComparisonTrendData([]);
+      setComparisonBreakdowns(null);
       setTrendData([]);
       setGenderBreakdown([]);
       setPlatformBreakdown([]);
@@ -505,8 +590,9 @@ export function Dashboard() {
         topPlatform: 'Unknown',
         conversionRate: 0
       });
+      setFreshness(null);
     } finally {
-      setLoading(false);
+      if (!batch.aborted) setLoading(false);
     }
   };
 
@@ -520,11 +606,16 @@ export function Dashboard() {
     await fetchDashboardData();
   };
 
-  const handleClearCache = () => {
+  const handleClearCache = async () => {
     localStorage.removeItem(DASHBOARD_CACHE_KEY);
+    await cacheService.clearMetricsCache();
     setDataLoaded(false);
+    setFreshness(null);
     setMetricsData(getDefaultMetrics());
     setComparisonMetricsData(null);
+    setComparisonWindow(null);
+    setComparisonTrendData([]);
+    setComparisonBreakdowns(null);
     setTrendData([]);
     setGenderBreakdown([]);
     setPlatformBreakdown([]);
@@ -536,7 +627,7 @@ export function Dashboard() {
       topPlatform: 'Unknown',
       conversionRate: 0
     });
-    toast.success('Dashboard cache cleared');
+    toast.success('Dashboard and metrics caches cleared');
   };
 
   const handleRefresh = async () => {
@@ -623,6 +714,19 @@ export function Dashboard() {
     clicksGrowth
   });
 
+  const comparisonLabel = comparisonWindow
+    ? comparisonWindow.mode === 'custom'
+      ? `${comparisonWindow.range.from} – ${comparisonWindow.range.to}`
+      : comparisonShortLabel(comparisonWindow.mode)
+    : undefined;
+  const trendComparison = comparisonWindow && comparisonLabel && comparisonTrendData.length > 0
+    ? { series: comparisonTrendData, label: comparisonLabel, offsetDays: comparisonWindow.offsetDays }
+    : undefined;
+  const last7Days = getLast7DaysRange();
+  const pickedComparison = getComparisonRange(last7Days, comparisonMode, customComparison);
+  const comparisonPending = (pickedComparison?.from ?? null) !== (comparisonWindow?.range.from ?? null)
+    || (pickedComparison?.to ?? null) !== (comparisonWindow?.range.to ?? null);
+
   const headerActions = dataLoaded ? (
     <>
       <Button variant="ghost" size="sm" onClick={handleClearCache}>
@@ -670,6 +774,8 @@ export function Dashboard() {
           </div>
         )}
 
+        <PinnedReports />
+
         {loading ? (
           <DashboardSkeleton />
         ) : !dataLoaded ? (
@@ -690,6 +796,36 @@ export function Dashboard() {
           </div>
         ) : (
           <div className="space-y-5">
+            <div className="halo-card p-5 flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+              <div className="min-w-0">
+                <p className="halo-heading">Comparison</p>
+                <p className="halo-subtitle mt-0.5">
+                  {comparisonWindow
+                    ? `Changes are against ${comparisonLabel} (${comparisonWindow.range.from} – ${comparisonWindow.range.to}).`
+                    : 'No comparison loaded.'}
+                </p>
+                {freshness && (
+                  <div className="mt-2">
+                    <FreshnessBadge freshness={freshness} onBypass={() => fetchDashboardData({ bypassCache: true })} disabled={loading} />
+                  </div>
+                )}
+              </div>
+              <div className="flex items-start gap-2">
+                <div className="w-64">
+                  <ComparisonPicker
+                    mode={comparisonMode}
+                    onModeChange={setComparisonMode}
+                    custom={customComparison}
+                    onCustomChange={setCustomComparison}
+                    range={last7Days}
+                  />
+                </div>
+                <Button size="sm" onClick={handleRefresh} disabled={isRefreshing || !comparisonPending} className="mt-1">
+                  Apply
+                </Button>
+              </div>
+            </div>
+
             {hasComparisonData && ctrGrowth !== null && (
               <div className="grid grid-cols-1 gap-5 md:grid-cols-3 items-stretch">
                 <div className="halo-card halo-rail halo-rail-iris halo-tile-iris halo-rise p-5 flex items-center gap-3" style={{ '--i': 0 } as CSSProperties}>
@@ -698,7 +834,7 @@ export function Dashboard() {
                   </div>
                   <div className="min-w-0">
                     <p className="text-[13px] font-medium text-[var(--h-ink-2)]">7-day period</p>
-                    <p className="mt-0.5 truncate font-semibold text-[var(--h-ink)]">Week-over-week</p>
+                    <p className="mt-0.5 truncate font-semibold text-[var(--h-ink)]">vs {comparisonLabel ?? 'previous period'}</p>
                   </div>
                 </div>
                 <div
@@ -733,6 +869,7 @@ export function Dashboard() {
               <MetricsDashboard
                 data={metricsData}
                 comparisonData={comparisonMetricsData || undefined}
+                comparisonLabel={comparisonLabel}
                 period="7d"
                 trend={trendData[0]?.data.map((d) => d.impressions) ?? []}
               />
@@ -757,7 +894,7 @@ export function Dashboard() {
             <div className="grid grid-cols-1 gap-5 xl:grid-cols-12 items-stretch">
               <div className="halo-card p-5 flex flex-col min-h-[360px] xl:col-span-8">
                 <div className="flex-1 min-h-[300px]">
-                  <TrendChart series={trendData} title="7-day performance" showGrid animated={false} height={300} />
+                  <TrendChart series={trendData} title="7-day performance" showGrid animated={false} height={300} comparison={trendComparison} />
                 </div>
               </div>
               <div className="halo-card p-5 flex flex-col min-h-[360px] xl:col-span-4">
@@ -791,17 +928,23 @@ export function Dashboard() {
 
             <div className="grid grid-cols-2 gap-5 xl:grid-cols-4 items-stretch">
               {[
-                { data: genderBreakdown, title: 'Gender' },
-                { data: platformBreakdown, title: 'Platform' },
-                { data: ageBreakdown, title: 'Age' },
-                { data: locationBreakdown, title: 'Location' },
-              ].map(({ data, title }, idx) => (
+                { data: genderBreakdown, comparisonData: comparisonBreakdowns?.gender, title: 'Gender' },
+                { data: platformBreakdown, comparisonData: comparisonBreakdowns?.platform, title: 'Platform' },
+                { data: ageBreakdown, comparisonData: comparisonBreakdowns?.age, title: 'Age' },
+                { data: locationBreakdown, comparisonData: comparisonBreakdowns?.location, title: 'Location' },
+              ].map(({ data, comparisonData, title }, idx) => (
                 <BreakdownCard
                   key={title}
                   index={idx}
-                  onClick={() => setBreakdownModal({ open: true, title: `${title} · 7 days`, data })}
+                  onClick={() => setBreakdownModal({ open: true, title: `${title} · 7 days`, data, comparisonData })}
                 >
-                  <BreakdownPieChart data={data} title={`${title} · 7 days`} showAnimation={false} />
+                  <BreakdownPieChart
+                    data={data}
+                    title={`${title} · 7 days`}
+                    showAnimation={false}
+                    comparisonData={comparisonData}
+                    comparisonLabel={comparisonLabel}
+                  />
                 </BreakdownCard>
               ))}
             </div>
@@ -814,6 +957,8 @@ export function Dashboard() {
         onOpenChange={(open: boolean) => setBreakdownModal((prev) => ({ ...prev, open }))}
         title={breakdownModal.title}
         data={breakdownModal.data}
+        comparisonData={breakdownModal.comparisonData}
+        comparisonLabel={comparisonLabel}
       />
     </div>
   );
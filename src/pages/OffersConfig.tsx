@@ -1,13 +1,14 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   CalendarIcon, ImagePlus, Pencil, Plus, RefreshCw, Save, Trash2,
   X, Upload, Clock, Link, Globe, Eye, Zap, Hash, ChevronDown, ChevronUp,
-  Target,
+  Target, AlertTriangle, ShieldAlert, GanttChart, History, Download,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { usePermissions } from '@/context/PermissionsContext';
+import { useEnvironment } from '@/context/EnvironmentContext';
 import { PageHeader } from '@/components/ui/page-header';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -19,10 +20,21 @@ import {
   AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 import { cn } from '@/lib/utils';
-import { offerConfigService, OfferConfigItem, OfferConfigMap } from '@/services/offerConfigService';
+import { offerConfigService, OfferConfigMap } from '@/services/offerConfigService';
 import { campaignService, Campaign } from '@/services/campaignService';
 import { adService } from '@/services/adService';
 import { isV2Active } from '@/utils/v2Normalizer';
+import { groupOffersById, type OfferRow } from '@/utils/offerConfig';
+import { analyzePattern, type DraftOffer } from '@/utils/offerRegex';
+import { RegexWorkbench } from '@/components/offers/RegexWorkbench';
+import { OfferConflicts } from '@/components/offers/OfferConflicts';
+import { OffersTimeline } from '@/components/offers/OffersTimeline';
+import { OffersHistoryPanel } from '@/components/offers/OffersHistoryPanel';
+import { OfferImportDialog } from '@/components/offers/OfferImportDialog';
+import { buildOfferBundle, parseOfferBundle, type OfferBundle } from '@/utils/offerBundle';
+import { downloadJSON } from '@/utils/csvExport';
+import { todayYmd } from '@/utils/dates';
+import { conflictsForSave, findOfferConflicts, type SaveConflicts } from '@/utils/offerConflicts';
 
 // Tracking slot is fixed for OC floating banner. Mirrors hardcoded slotId='84' in
 // Ext-138 utility_all2.js trackImpressionPixel / trackClickPixel calls.
@@ -30,8 +42,6 @@ const OC_TRACKING_SLOT_ID = 84;
 
 type AdOption = { adId: string | number; name: string; label: string };
 
-type OfferRow = { offer: OfferConfigItem; posList: string[] };
-
 type OfferFormState = {
   offer_id: string;
   url: string;
@@ -198,6 +208,7 @@ function formatEpochDisplay(epoch: number): string {
 
 export default function OffersConfig() {
   const { canEdit } = usePermissions();
+  const { environment, apiVersion } = useEnvironment();
 
   const [configMap, setConfigMap] = useState<OfferConfigMap>({});
   const [loading, setLoading] = useState(false);
@@ -223,6 +234,10 @@ export default function OffersConfig() {
 
   const [expandedOfferId, setExpandedOfferId] = useState<string | null>(null);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [saveWarnings, setSaveWarnings] = useState<SaveConflicts['warnings'] | null>(null);
+  const [exportIds, setExportIds] = useState<string[]>([]);
+  const [importing, setImporting] = useState<{ bundle: OfferBundle; invalid: Array<{ offerId: string; reason: string }> } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const [campaigns, setCampaigns] = useState<Campaign[]>([]);
   const [ads, setAds] = useState<AdOption[]>([]);
@@ -233,22 +248,21 @@ export default function OffersConfig() {
     [configMap]
   );
 
-  const rows = useMemo<OfferRow[]>(() => {
-    const map = new Map<string, OfferRow>();
-    Object.entries(configMap || {}).forEach(([pos, offers]) => {
-      if (selectedPosFilter !== 'all' && selectedPosFilter !== pos) return;
-      (offers || []).forEach((offer) => {
-        if (!offer?.offer_id) return;
-        const existing = map.get(offer.offer_id);
-        if (existing) {
-          if (!existing.posList.includes(pos)) existing.posList.push(pos);
-        } else {
-          map.set(offer.offer_id, { offer, posList: [pos] });
-        }
-      });
-    });
-    return Array.from(map.values()).sort((a, b) => b.offer.start - a.offer.start);
-  }, [configMap, selectedPosFilter]);
+  const rows = useMemo<OfferRow[]>(
+    () => groupOffersById(configMap, selectedPosFilter).sort((a, b) => b.offer.start - a.offer.start),
+    [configMap, selectedPosFilter]
+  );
+
+  const conflicts = useMemo(() => findOfferConflicts(configMap), [configMap]);
+
+  const regexWarnings = useMemo(() => regexList.map(analyzePattern), [regexList]);
+  const workbenchDraft = useMemo<DraftOffer>(() => ({
+    offerId: editingOfferId || form.offer_id.trim(),
+    posList: selectedPosList,
+    patterns: regexList,
+    start: startDate ? Math.floor(startDate.getTime() / 1000) : undefined,
+    end: endDate ? Math.floor(endDate.getTime() / 1000) : undefined,
+  }), [editingOfferId, form.offer_id, selectedPosList, regexList, startDate, endDate]);
 
   const resetForm = () => {
     setForm(emptyForm);
@@ -276,14 +290,15 @@ export default function OffersConfig() {
     setLoading(false);
   };
 
-  useEffect(() => { loadConfig(); }, []);
+  // Reloaded on environment switch, so an export from test can be imported straight into prod
+  useEffect(() => { loadConfig(); setExportIds([]); }, [environment]);
 
   // Campaigns list for the tracking selector
   useEffect(() => {
     campaignService.getCampaigns().then((res) => {
       if (res.success && res.data) setCampaigns(res.data);
     });
-  }, []);
+  }, [environment]);
 
   // Load ads for the selected campaign, filtered to OC tracking slot (84)
   useEffect(() => {
@@ -321,6 +336,8 @@ export default function OffersConfig() {
     if (!val) return;
     try { new RegExp(val); } catch { toast.error('Invalid regex'); return; }
     if (regexList.includes(val)) { toast.error('Already added'); return; }
+    const risky = analyzePattern(val).find((w) => w.severity === 'danger');
+    if (risky) toast.warning(risky.message);
     setRegexList((prev) => [...prev, val]);
     setRegexInput('');
   };
@@ -391,9 +408,26 @@ export default function OffersConfig() {
     return '';
   };
 
-  const handleSave = async () => {
+  const handleSave = async (ignoreWarnings = false) => {
     const err = validateForm();
     if (err) { toast.error(err); return; }
+
+    const collisions = conflictsForSave(
+      {
+        offer_id: form.offer_id.trim(), start: getStartEpoch(), end: getEndEpoch(),
+        url_reg_arr: regexList, bread_arr: breadList,
+        price_range: { min: Number(form.price_min), max: Number(form.price_max) },
+      },
+      selectedPosList, configMap, editingOfferId || undefined
+    );
+    if (collisions.blocking.length) {
+      const ids = collisions.blocking.map((c) => c.other.offer.offer_id).join(', ');
+      toast.error(`Collides with live offer${collisions.blocking.length > 1 ? 's' : ''} ${ids} on the same pages and POS — change the targeting or start after it ends`);
+      return;
+    }
+    if (collisions.warnings.length && !ignoreWarnings) { setSaveWarnings(collisions.warnings); return; }
+    setSaveWarnings(null);
+
     setSaving(true);
     const iW = Number(form.image_size_width), iH = Number(form.image_size_height);
     const offerData = {
@@ -441,6 +475,62 @@ export default function OffersConfig() {
     setSaving(false);
   };
 
+  const editOfferById = (offerId: string) => {
+    const row = groupOffersById(configMap).find((r) => r.offer.offer_id === offerId);
+    if (row) editRow(row);
+  };
+
+  // Timeline drag: same conflict rules as the form, but there's no dialog to confirm warnings in
+  const handleReschedule = async (offerId: string, start: number, end: number) => {
+    const row = groupOffersById(configMap).find((r) => r.offer.offer_id === offerId);
+    if (!row || !canEdit) return false;
+    const offer = { ...row.offer, start, end };
+    const collisions = conflictsForSave(offer, row.posList, configMap, offerId);
+    if (collisions.blocking.length) {
+      toast.error(`Collides with live offer ${collisions.blocking.map((c) => c.other.offer.offer_id).join(', ')} — not moved`);
+      return false;
+    }
+    const result = await offerConfigService.editOffer({ posList: row.posList, offer, previousOfferId: offerId });
+    if (!result.success || !result.data) {
+      toast.error(result.message || 'Reschedule failed');
+      return false;
+    }
+    setConfigMap(result.data);
+    if (editingOfferId === offerId) {
+      setStartDate(new Date(start * 1000));
+      setEndDate(new Date(end * 1000));
+    }
+    toast.success(`${offerId}: ${formatEpochDisplay(start)} → ${formatEpochDisplay(end)}`);
+    if (collisions.warnings.length) {
+      toast.warning(`Now overlaps ${collisions.warnings.map((c) => c.other.offer.offer_id).join(', ')}`);
+    }
+    return true;
+  };
+
+  // Selected offers if any are ticked, otherwise everything on the POS filter
+  const handleExport = () => {
+    const pos = exportIds.length ? 'all' : selectedPosFilter;
+    const bundle = buildOfferBundle(configMap, { offerIds: exportIds, pos }, environment, apiVersion);
+    if (!bundle.offers.length) { toast.error('Nothing to export'); return; }
+    const scope = exportIds.length ? 'selected' : pos === 'all' ? 'all' : `pos${pos}`;
+    downloadJSON(bundle, `offers_${environment}_${scope}_${todayYmd()}.json`);
+    toast.success(`Exported ${bundle.offers.length} offer${bundle.offers.length !== 1 ? 's' : ''}`);
+  };
+
+  const handleImportFile = async (file: File) => {
+    const res = parseOfferBundle(await file.text());
+    if (!res.success || !res.data) { toast.error(res.message || 'Import failed'); return; }
+    setImporting(res.data);
+  };
+
+  const toggleExportId = (offerId: string) =>
+    setExportIds((prev) => (prev.includes(offerId) ? prev.filter((id) => id !== offerId) : [...prev, offerId]));
+
+  const handleRestored = (restored: OfferConfigMap) => {
+    setConfigMap(restored);
+    resetForm();
+  };
+
   const handleDelete = async (offerId: string) => {
     if (!canEdit) return;
     setDeleteConfirmId(null);
@@ -894,6 +984,15 @@ export default function OffersConfig() {
                           <div className="flex items-center gap-2 min-w-0">
                             <span className="text-[10px] w-4 text-right num" style={{ color: 'var(--h-ink-3)', fontFamily: 'var(--h-font)' }}>{i + 1}</span>
                             <span className="truncate" style={{ color: 'var(--h-ink-2)' }}>{r}</span>
+                            {regexWarnings[i]?.length > 0 && (
+                              <span title={regexWarnings[i].map((w) => w.message).join('\n')} className="flex-shrink-0">
+                                <AlertTriangle
+                                  strokeWidth={1.75}
+                                  className="h-3.5 w-3.5"
+                                  style={{ color: regexWarnings[i].some((w) => w.severity === 'danger') ? 'var(--h-coral)' : 'var(--h-amber)' }}
+                                />
+                              </span>
+                            )}
                           </div>
                           <button onClick={() => removeRegex(i)} className="flex-shrink-0 transition-colors" style={{ color: 'var(--h-ink-3)' }}>
                             <X strokeWidth={1.75} className="h-4 w-4" />
@@ -903,6 +1002,7 @@ export default function OffersConfig() {
                     </motion.div>
                   )}
                 </AnimatePresence>
+                <RegexWorkbench configMap={configMap} draft={workbenchDraft} />
               </div>
 
               <hr className="halo-divider" />
@@ -952,7 +1052,7 @@ export default function OffersConfig() {
               {/* ─ Actions ─ */}
               <div className="flex items-center gap-3 pt-2">
                 <button
-                  onClick={handleSave}
+                  onClick={() => handleSave()}
                   disabled={!canEdit || saving}
                   className="btn-halo"
                 >
@@ -967,6 +1067,68 @@ export default function OffersConfig() {
           </div>
         </motion.div>
 
+        {/* ── Timeline ── */}
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.15 }}>
+          <div className="halo-card overflow-hidden">
+            <div className="halo-panel-head halo-rail-full">
+              <div className="halo-panel-head-title">
+                <span className="halo-chip">
+                  <GanttChart strokeWidth={1.75} className="h-3.5 w-3.5" />
+                </span>
+                <div>
+                  <span className="halo-heading">Timeline</span>
+                  <p className="text-xs mt-0.5" style={{ color: 'var(--h-ink-3)' }}>Offers per POS over time</p>
+                </div>
+              </div>
+            </div>
+            <div className="p-5">
+              <OffersTimeline configMap={configMap} canEdit={canEdit && !saving} onReschedule={handleReschedule} onSelect={editOfferById} />
+            </div>
+          </div>
+        </motion.div>
+
+        {/* ── Conflicts ── */}
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.15 }}>
+          <div className="halo-card overflow-hidden">
+            <div className="halo-panel-head halo-rail-full">
+              <div className="halo-panel-head-title">
+                <span className="halo-chip">
+                  <ShieldAlert strokeWidth={1.75} className="h-3.5 w-3.5" />
+                </span>
+                <div>
+                  <span className="halo-heading">Conflicts</span>
+                  <p className="text-xs mt-0.5 num" style={{ color: 'var(--h-ink-3)' }}>
+                    {conflicts.length} overlapping pair{conflicts.length !== 1 ? 's' : ''} across POS
+                  </p>
+                </div>
+              </div>
+            </div>
+            <div className="p-5">
+              <OfferConflicts configMap={configMap} conflicts={conflicts} onSelect={editOfferById} />
+            </div>
+          </div>
+        </motion.div>
+
+        {/* ── History ── */}
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.15 }}>
+          <div className="halo-card overflow-hidden">
+            <div className="halo-panel-head halo-rail-full">
+              <div className="halo-panel-head-title">
+                <span className="halo-chip">
+                  <History strokeWidth={1.75} className="h-3.5 w-3.5" />
+                </span>
+                <div>
+                  <span className="halo-heading">History</span>
+                  <p className="text-xs mt-0.5" style={{ color: 'var(--h-ink-3)' }}>Config versions, diffs and rollback</p>
+                </div>
+              </div>
+            </div>
+            <div className="p-5">
+              <OffersHistoryPanel configMap={configMap} canEdit={canEdit && !saving} onRestored={handleRestored} />
+            </div>
+          </div>
+        </motion.div>
+
         {/* ── Existing Offers ── */}
         <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.2 }}>
           <div className="halo-card overflow-hidden">
@@ -980,17 +1142,38 @@ export default function OffersConfig() {
                   <p className="text-xs mt-0.5 num" style={{ color: 'var(--h-ink-3)' }}>{rows.length} offer{rows.length !== 1 ? 's' : ''}</p>
                 </div>
               </div>
-              <Select value={selectedPosFilter} onValueChange={setSelectedPosFilter}>
-                <SelectTrigger className="halo-field w-36 h-9 text-sm">
-                  <SelectValue placeholder="Filter" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All POS</SelectItem>
-                  {posOptions.map((pos) => (
-                    <SelectItem key={pos} value={pos}>POS {pos}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <div className="flex items-center gap-2 flex-wrap">
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleImportFile(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button type="button" onClick={() => importInputRef.current?.click()} disabled={!canEdit} className="btn-halo-outline btn-halo-sm">
+                  <Upload strokeWidth={1.75} className="h-3.5 w-3.5" />
+                  Import JSON
+                </button>
+                <button type="button" onClick={handleExport} disabled={!rows.length} className="btn-halo-outline btn-halo-sm">
+                  <Download strokeWidth={1.75} className="h-3.5 w-3.5" />
+                  {exportIds.length ? `Export ${exportIds.length} selected` : selectedPosFilter === 'all' ? 'Export all' : `Export POS ${selectedPosFilter}`}
+                </button>
+                <Select value={selectedPosFilter} onValueChange={setSelectedPosFilter}>
+                  <SelectTrigger className="halo-field w-36 h-9 text-sm">
+                    <SelectValue placeholder="Filter" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All POS</SelectItem>
+                    {posOptions.map((pos) => (
+                      <SelectItem key={pos} value={pos}>POS {pos}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <div className="p-5 space-y-3">
               {loading ? (
@@ -1021,6 +1204,14 @@ export default function OffersConfig() {
                           style={{ background: expired ? 'var(--h-neg-soft)' : active ? 'var(--h-pos-soft)' : 'transparent' }}
                           onClick={() => setExpandedOfferId(expanded ? null : row.offer.offer_id)}
                         >
+                          <input
+                            type="checkbox"
+                            checked={exportIds.includes(row.offer.offer_id)}
+                            onChange={() => toggleExportId(row.offer.offer_id)}
+                            onClick={(e) => e.stopPropagation()}
+                            aria-label={`Select ${row.offer.offer_id} for export`}
+                            className="flex-shrink-0"
+                          />
                           {row.offer.image_url && (
                             <img src={row.offer.image_url} alt="" className="h-12 w-20 object-cover rounded-lg flex-shrink-0" style={{ border: '1px solid var(--h-line)' }} />
                           )}
@@ -1152,6 +1343,47 @@ export default function OffersConfig() {
         </motion.div>
       </div>
 
+      <OfferImportDialog
+        bundle={importing?.bundle ?? null}
+        invalid={importing?.invalid ?? []}
+        configMap={configMap}
+        campaigns={campaigns}
+        onClose={() => setImporting(null)}
+        onApplied={setConfigMap}
+      />
+
+      {/* Save conflict warning */}
+      <AlertDialog open={!!saveWarnings} onOpenChange={(open) => { if (!open) setSaveWarnings(null); }}>
+        <AlertDialogContent className="halo-card rounded-[var(--h-r-xl)]">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2" style={{ color: 'var(--h-amber)' }}>
+              <AlertTriangle strokeWidth={1.75} className="h-5 w-5" />
+              Overlapping offers
+            </AlertDialogTitle>
+            <AlertDialogDescription asChild>
+              <div className="space-y-2 text-sm" style={{ color: 'var(--h-ink-2)' }}>
+                <p>This offer may show on the same pages, POS and dates as:</p>
+                {saveWarnings?.map((c) => (
+                  <div key={c.other.offer.offer_id} className="halo-inset p-2.5 text-xs">
+                    <p>
+                      <span className="font-semibold" style={{ color: 'var(--h-ink)' }}>{c.other.offer.offer_id}</span>
+                      {' '}· POS {c.posList.join(', ')} · {formatEpochDisplay(c.start)} &rarr; {formatEpochDisplay(c.end)}
+                    </p>
+                    <p className="truncate" style={{ color: 'var(--h-ink-3)', fontFamily: 'var(--h-font-mono)' }}>{c.reasons.join(' · ')}</p>
+                  </div>
+                ))}
+              </div>
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="btn-halo-ghost">Keep editing</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleSave(true)} className="btn-halo">
+              Save anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!deleteConfirmId} onOpenChange={(open) => { if (!open) setDeleteConfirmId(null); }}>
         <AlertDialogContent className="halo-card rounded-[var(--h-r-xl)]">
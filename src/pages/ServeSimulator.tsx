@@ -0,0 +1,295 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Trophy, RefreshCw, RotateCcw, Inbox, Rows3, Ban } from 'lucide-react';
+import { toast } from 'sonner';
+import { PageHeader } from '@/components/ui/page-header';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { MultiSelectDropdown } from '@/components/analytics/MultiSelectDropdown';
+import { ServeRequestForm } from '@/components/ads/ServeRequestForm';
+import { campaignService, Campaign } from '@/services/campaignService';
+import { adService } from '@/services/adService';
+import { Ad, ApiAd, mapApiAdToAd } from '@/types';
+import { ScoreTermKey, SCORE_TERM_LABELS, ServeScoreProfile, emptyServeScoreProfile, rankAds } from '@/utils/serveScore';
+
+const easeOut = [0.22, 1, 0.36, 1] as const;
+
+const TERM_COLUMNS: ScoreTermKey[] = ['priority', 'gender', 'location', 'site', 'age', 'brand', 'fatigue'];
+
+const formatScore = (n: number) => (Number.isInteger(n) ? String(n) : n.toFixed(1));
+
+/**
+ * Serve score simulator — loads every ad of the chosen campaigns, filters them
+ * through the HARD gates for a simulated request, and ranks the eligible ones by
+ * the documented SOFT score so `priority` can be tuned deliberately.
+ */
+export function ServeSimulator() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [ads, setAds] = useState<Ad[]>([]);
+  const [loadingAds, setLoadingAds] = useState(false);
+  const [profile, setProfile] = useState<ServeScoreProfile>(emptyServeScoreProfile);
+  const [formKey, setFormKey] = useState(0);
+  const [recentImpressions, setRecentImpressions] = useState<Record<string, number>>({});
+
+  const selectedCampaignIds = useMemo(
+    () => (searchParams.get('campaignId') || '').split(',').filter(Boolean),
+    [searchParams]
+  );
+
+  useEffect(() => {
+    campaignService.getCampaigns().then((res) => {
+      if (res.success && res.data) {
+        setCampaigns(res.data.filter((c) => c.status !== -1));
+      } else {
+        toast.error(res.message || 'Failed to load campaigns');
+      }
+    });
+  }, []);
+
+  const loadAds = async (ids: string[]) => {
+    if (ids.length === 0) {
+      setAds([]);
+      return;
+    }
+    setLoadingAds(true);
+    try {
+      const results = await Promise.all(ids.map((id) => adService.getAds({ campaignId: id })));
+      const loaded: Ad[] = [];
+      results.forEach((res, i) => {
+        if (res.success && Array.isArray(res.data?.adsList)) {
+          loaded.push(...res.data.adsList.map((apiAd: ApiAd) => mapApiAdToAd(apiAd)));
+        } else {
+          toast.error(`Failed to load ads for campaign ${ids[i]}`);
+        }
+      });
+      setAds(loaded.filter((ad) => ad.status !== -1));
+    } finally {
+      setLoadingAds(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAds(selectedCampaignIds);
+  }, [selectedCampaignIds]);
+
+  const setSelectedCampaigns = (values: (string | number)[]) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      if (values.length > 0) next.set('campaignId', values.map(String).join(','));
+      else next.delete('campaignId');
+      return next;
+    });
+  };
+
+  const ranked = useMemo(() => rankAds(ads, profile, recentImpressions), [ads, profile, recentImpressions]);
+  const eligible = ranked.filter((r) => r.eligible);
+  const ineligible = ranked.filter((r) => !r.eligible);
+
+  const campaignLabel = (c: Campaign) => c.brandName || c.name || `Campaign ${c.campaignId}`;
+  const campaignName = (id: string | number) => {
+    const match = campaigns.find((c) => String(c.campaignId) === String(id));
+    return match ? campaignLabel(match) : String(id);
+  };
+
+  const resetProfile = () => {
+    setProfile(emptyServeScoreProfile());
+    setRecentImpressions({});
+    setFormKey((k) => k + 1);
+  };
+
+  return (
+    <div className="halo-page">
+      <div className="space-y-5">
+        <PageHeader
+          eyebrow="Ads · Serve"
+          title="Serve"
+          moment="simulator."
+          subhead="Which eligible ad wins a request, and by how much — using the scoring from the field guide."
+          actions={
+            <button
+              onClick={() => loadAds(selectedCampaignIds)}
+              disabled={loadingAds || selectedCampaignIds.length === 0}
+              className="btn-halo-outline btn-halo-sm"
+            >
+              <RefreshCw strokeWidth={1.75} className={`h-3.5 w-3.5 ${loadingAds ? 'animate-spin' : ''}`} />
+              Reload ads
+            </button>
+          }
+        />
+
+        <div className="grid grid-cols-1 gap-5 xl:grid-cols-4">
+          {/* Request */}
+          <motion.section
+            initial={{ opacity: 0, y: 14 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.45, ease: easeOut }}
+            className="halo-card h-fit overflow-hidden xl:col-span-1"
+          >
+            <div className="halo-panel-head halo-rail-full">
+              <div className="halo-panel-head-title">
+                <span className="halo-chip"><Rows3 className="h-3.5 w-3.5" /></span>
+                <h3 className="halo-heading">Simulated request</h3>
+              </div>
+              <button type="button" onClick={resetProfile} className="btn-halo-ghost btn-halo-sm">
+                <RotateCcw className="h-3.5 w-3.5" strokeWidth={1.75} />
+                Reset
+              </button>
+            </div>
+            <div className="space-y-4 p-4 sm:p-5">
+              <MultiSelectDropdown
+                label="Campaigns"
+                options={campaigns.map((c) => ({ value: String(c.campaignId), label: campaignLabel(c) }))}
+                selectedValues={selectedCampaignIds}
+                onChange={setSelectedCampaigns}
+                placeholder="Select campaigns…"
+              />
+              <ServeRequestForm key={formKey} value={profile} onChange={setProfile} showRankingInputs />
+            </div>
+          </motion.section>
+
+          {/* Ranking */}
+          <div className="space-y-5 xl:col-span-3">
+            <motion.section
+              initial={{ opacity: 0, y: 14 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.45, delay: 0.06, ease: easeOut }}
+              className="halo-card overflow-hidden"
+            >
+              <div className="halo-panel-head halo-rail-full">
+                <div className="halo-panel-head-title">
+                  <span className="halo-chip"><Trophy className="h-3.5 w-3.5" /></span>
+                  <h3 className="halo-heading">Eligible ads by finalScore</h3>
+                </div>
+                <span className="halo-badge">{eligible.length} of {ads.length} eligible</span>
+              </div>
+
+              <div className="halo-scroll-x">
+                {loadingAds ? (
+                  <div className="space-y-2 p-4">
+                    {Array.from({ length: 5 }).map((_, i) => (
+                      <div key={i} className="halo-skeleton h-11 rounded-[var(--h-r-sm)]" />
+                    ))}
+                  </div>
+                ) : eligible.length === 0 ? (
+                  <div className="flex flex-col items-center justify-center gap-2 py-16 text-center">
+                    <span className="halo-chip-lg"><Inbox size={20} strokeWidth={1.75} /></span>
+                    <p className="halo-heading">{ads.length === 0 ? 'No ads loaded' : 'No ad is eligible for this request'}</p>
+                    <p className="halo-subtitle">
+                      {ads.length === 0 ? 'Pick one or more campaigns to load their ads.' : 'See the gate failures below.'}
+                    </p>
+                  </div>
+                ) : (
+                  <Table className="halo-table">
+                    <TableHeader>
+                      <TableRow className="hover:bg-transparent">
+                        <TableHead className="w-[48px] text-center">#</TableHead>
+                        <TableHead className="w-[220px]">Ad</TableHead>
+                        {TERM_COLUMNS.map((key) => (
+                          <TableHead key={key} className="col-num w-[80px]">{SCORE_TERM_LABELS[key]}</TableHead>
+                        ))}
+                        <TableHead className="col-num w-[90px]">Impr. / 1h</TableHead>
+                        <TableHead className="col-num w-[90px]">Final</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {eligible.map((row, index) => {
+                        const id = String(row.ad.adId);
+                        return (
+                          <TableRow key={id} className={index === 0 ? 'bg-[var(--h-pos-soft)]' : undefined}>
+                            <TableCell className="text-center">
+                              {index === 0 ? (
+                                <Trophy className="mx-auto h-4 w-4 text-[var(--h-mint)]" strokeWidth={1.75} />
+                              ) : (
+                                <span className="num text-[12px] text-[var(--h-ink-3)]">{index + 1}</span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <button
+                                type="button"
+                                onClick={() => navigate(`/campaigns/${row.ad.campaignId}/ads/${row.ad.adId}`)}
+                                className="text-left"
+                              >
+                                <span className="block text-[12.5px] font-semibold text-[var(--h-ink)]">{row.ad.label || row.ad.name}</span>
+                                <span className="block text-[11px] text-[var(--h-ink-3)]">{campaignName(row.ad.campaignId)}</span>
+                              </button>
+                            </TableCell>
+                            {TERM_COLUMNS.map((key) => {
+                              const t = row.terms.find((term) => term.key === key);
+                              const value = t?.value ?? 0;
+                              return (
+                                <TableCell key={key} className="col-num" title={t?.detail}>
+                                  <span className={value < 0 ? 'text-[var(--h-coral)]' : value > 0 ? 'text-[var(--h-ink)]' : 'text-[var(--h-ink-3)]'}>
+                                    {value > 0 && key !== 'priority' ? '+' : ''}{formatScore(value)}
+                                  </span>
+                                </TableCell>
+                              );
+                            })}
+                            <TableCell className="col-num">
+                              <Input
+                                type="number"
+                                min={0}
+                                value={recentImpressions[id] ?? 0}
+                                onChange={(e) =>
+                                  setRecentImpressions((prev) => ({ ...prev, [id]: Math.max(0, Number(e.target.value) || 0) }))
+                                }
+                                className="h-8 w-20 text-right text-[12px] num"
+                              />
+                            </TableCell>
+                            <TableCell className="col-num">
+                              <span className="text-[13px] font-semibold text-[var(--h-ink)]">{formatScore(row.finalScore)}</span>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+              <p className="px-4 pb-4 pt-3 text-[11.5px] text-[var(--h-ink-3)] sm:px-5">
+                Category interest scores depend on the user's inferred interest weights and are not included. Brand overlap is estimated at +2.0 per shared brand.
+              </p>
+            </motion.section>
+
+            {ineligible.length > 0 && (
+              <motion.section
+                initial={{ opacity: 0, y: 14 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.45, delay: 0.1, ease: easeOut }}
+                className="halo-card overflow-hidden"
+              >
+                <div className="halo-panel-head halo-rail-full">
+                  <div className="halo-panel-head-title">
+                    <span className="halo-chip"><Ban className="h-3.5 w-3.5" /></span>
+                    <h3 className="halo-heading">Filtered out by hard gates</h3>
+                  </div>
+                  <span className="halo-badge halo-badge-neg">{ineligible.length} ads</span>
+                </div>
+                <ul className="divide-y divide-[var(--h-line)]">
+                  {ineligible.map((row) => {
+                    const failing = row.gates.filter((g) => g.outcome === 'fail');
+                    return (
+                      <li key={String(row.ad.adId)} className="flex flex-col gap-1 px-4 py-3 sm:px-5">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="text-[12.5px] font-semibold text-[var(--h-ink)]">{row.ad.label || row.ad.name}</span>
+                          <span className="text-[11px] text-[var(--h-ink-3)]">{campaignName(row.ad.campaignId)}</span>
+                        </div>
+                        {failing.map((g) => (
+                          <p key={g.key} className="text-[12px] text-[var(--h-ink-2)]">
+                            <span className="font-semibold text-[var(--h-coral)]">{g.label}:</span> {g.reason}
+                          </p>
+                        ))}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </motion.section>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
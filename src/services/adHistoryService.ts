@@ -0,0 +1,126 @@
+import { Ad } from '@/types';
+import type { UpdateAdData } from '@/services/adService';
+import { ApiVersion, Environment, getApiVersion, getCurrentEnvironment } from '@/config/api';
+import { adToUpdateData } from '@/utils/adUtils';
+import { AdFieldChange, diffAdData, toAdSnapshot } from '@/utils/adDiff';
+import { LocalListStore, createLocalId } from '@/utils/localStore';
+
+export type AdChangeAction = 'update' | 'status' | 'archive' | 'clone' | 'restore';
+
+export interface AdChangeEntry {
+  id: string;
+  adId: string;
+  campaignId: string;
+  adName: string;
+  action: AdChangeAction;
+  user: string;
+  timestamp: number;
+  environment: Environment;
+  apiVersion: ApiVersion;
+  /** Full update payload of the ad before the change. */
+  before: UpdateAdData;
+  /** Payload that was sent, or null when the change has no payload (clone). */
+  after: UpdateAdData | null;
+  changes: AdFieldChange[];
+  note?: string;
+}
+
+export const AD_CHANGE_ACTION_LABELS: Record<AdChangeAction, string> = {
+  update: 'Edited',
+  status: 'Status changed',
+  archive: 'Archived',
+  clone: 'Cloned',
+  restore: 'Restored version',
+};
+
+/**
+ * Local, per-browser log of the ad mutations made from this dashboard. The
+ * backend keeps no change history, so this is what AdDetail's History tab and
+ * "re-apply version" work from.
+ */
+class AdHistoryService {
+  private readonly store = new LocalListStore<AdChangeEntry>('buyhatke_ad_history', 'ad history');
+  private readonly MAX_ENTRIES = 1000;
+  private actor: string | null = null;
+
+  /** Kept in sync with the signed-in user by AuthProvider. */
+  setActor(username: string | null): void {
+    this.actor = username;
+  }
+
+  private readAll(): AdChangeEntry[] {
+    return this.store.read();
+  }
+
+  private writeAll(entries: AdChangeEntry[]): void {
+    this.store.save(entries.slice(-this.MAX_ENTRIES));
+  }
+
+  /**
+   * Record a change that the backend accepted. `after` is the payload that was
+   * sent (screens build it with their own loose field types, and fields it
+   * leaves out are taken as unchanged); the before-state is taken from the ad
+   * as it was loaded.
+   */
+  record(ad: Ad, action: AdChangeAction, after: { [K in keyof UpdateAdData]?: unknown } | null, note?: string): AdChangeEntry {
+    const before = toAdSnapshot(adToUpdateData(ad));
+    const snapshot = after ? toAdSnapshot({ ...before, ...after } as UpdateAdData) : null;
+    const entry: AdChangeEntry = {
+      id: createLocalId(),
+      adId: String(ad.adId),
+      campaignId: String(ad.campaignId),
+      adName: ad.name,
+      action,
+      user: this.actor || 'unknown',
+      timestamp: Date.now(),
+      environment: getCurrentEnvironment(),
+      apiVersion: getApiVersion(),
+      before,
+      after: snapshot,
+      changes: snapshot ? diffAdData(before, snapshot) : [],
+      note,
+    };
+    this.writeAll([...this.readAll(), entry]);
+    return entry;
+  }
+
+  /** Entries for the current environment, newest first. */
+  getEntries(filter: { adId?: string | number; campaignId?: string | number } = {}): AdChangeEntry[] {
+    const environment = getCurrentEnvironment();
+    return this.readAll()
+      .filter((e) => e.environment === environment)
+      .filter((e) => filter.adId === undefined || e.adId === String(filter.adId))
+      .filter((e) => filter.campaignId === undefined || e.campaignId === String(filter.campaignId))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /** One row per changed field, for CSV export. */
+  toCsvRows(entries: AdChangeEntry[]): Record<string, string | number>[] {
+    return entries.flatMap((e) => {
+      const base = {
+        'Timestamp': new Date(e.timestamp).toISOString(),
+        'User': e.user,
+        'Environment': e.environment,
+        'API Version': e.apiVersion,
+        'Campaign ID': e.campaignId,
+        'Ad ID': e.adId,
+        'Ad Name': e.adName,
+        'Action': AD_CHANGE_ACTION_LABELS[e.action],
+        'Note': e.note || '',
+      };
+      if (e.changes.length === 0) return [{ ...base, 'Field': '', 'Before': '', 'After': '' }];
+      return e.changes.map((c) => ({ ...base, 'Field': c.label, 'Before': c.before, 'After': c.after }));
+    });
+  }
+
+  clear(adId?: string | number): void {
+    const environment = getCurrentEnvironment();
+    this.writeAll(
+      adId === undefined
+        ? this.readAll().filter((e) => e.environment !== environment)
+        : this.readAll().filter((e) => e.environment !== environment || e.adId !== String(adId))
+    );
+  }
+}
+
+export const adHistoryService = new AdHistoryService();
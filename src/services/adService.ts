@@ -1,7 +1,9 @@
-import { buildApiUrl } from '@/config/api';
 import { normalizeAdList } from '@/utils/v2Normalizer';
+import { apiClient, apiFailure, isApiError } from '@/services/apiClient';
 
-const getAdApiUrl = () => buildApiUrl('/ads');
+const AD_PATH = '/ads';
+// Creative uploads go through image validation server-side and can be slow
+const UPLOAD_TIMEOUT_MS = 120_000;
 
 export interface SiteDetail {
   domain: string[];
@@ -35,8 +37,8 @@ export interface CreativeUploadResponse {
 }
 
 export interface CreateAdData {
-  campaignId: number;
-  slotId: number;
+  campaignId: number | string;
+  slotId: number | string;
   label: string;
   impressionTarget: number;
   clickTarget: number;
@@ -71,8 +73,11 @@ export interface CreateAdData {
 }
 
 export interface UpdateAdData {
-  campaignId?: number;
-  slotId?: number;
+  adId?: number | string;
+  campaignId?: number | string;
+  slotId?: number | string;
+  slotType?: number | string;
+  name?: string;
   label?: string;
   impressionTarget?: number;
   clickTarget?: number;
@@ -93,6 +98,8 @@ export interface UpdateAdData {
   endDate?: string;
   endTime?: string;
   creativeUrl?: string;
+  logo?: string;
+  otherDetails?: Record<string, unknown>;
   gender?: string;
   status?: number;
   isTestPhase?: number;
@@ -109,130 +116,77 @@ export interface UpdateAdData {
 class AdService {
   // Get ads with filters
   async getAds(filters?: {
-    campaignId?: number;
-    slotId?: number;
-    adId?: number;
+    campaignId?: number | string;
+    slotId?: number | string;
+    adId?: number | string;
     status?: number;
-  }): Promise<{ success: boolean; data?: any; message?: string }> {
+  }, signal?: AbortSignal): Promise<{ success: boolean; data?: any; message?: string }> {
     try {
-      const params = new URLSearchParams();
-      if (filters?.campaignId) params.append('campaignId', filters.campaignId.toString());
-      if (filters?.slotId) params.append('slotId', filters.slotId.toString());
-      if (filters?.adId) params.append('adId', filters.adId.toString());
-      if (filters?.status !== undefined) params.append('status', filters.status.toString());
-
-      const url = `${getAdApiUrl()}${params.toString() ? `?${params.toString()}` : ''}`;
-      const response = await fetch(url, {
-        method: 'GET',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
+      const result = await apiClient.envelope<{ adsList?: unknown[] }>(AD_PATH, {
+        query: {
+          campaignId: filters?.campaignId,
+          slotId: filters?.slotId,
+          adId: filters?.adId,
+          status: filters?.status,
         },
+        signal,
       });
-
-      const result = await response.json();
       if (result.data?.adsList) {
         result.data.adsList = normalizeAdList(result.data.adsList);
       }
       return {
-        success: result.status === 1,
+        success: true,
         data: result.data,
         message: result.message
       };
     } catch (error) {
-      console.error('Error fetching ads:', error);
-      return {
-        success: false,
-        message: 'Failed to fetch ads'
-      };
+      return apiFailure(error, 'Failed to fetch ads');
     }
   }
 
   // Get site details for dropdown
   async getSiteDetails(): Promise<{ success: boolean; data?: SiteDetails; message?: string }> {
     try {
-      const response = await fetch(`${getAdApiUrl()}/siteDetails`, {
-        method: 'GET',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const result = await response.json();
+      const data = await apiClient.get<{ siteDetails?: SiteDetails }>(`${AD_PATH}/siteDetails`);
       return {
-        success: result.status === 1,
-        data: result.data?.siteDetails,
-        message: result.message
+        success: true,
+        data: data?.siteDetails,
       };
     } catch (error) {
-      console.error('Error fetching site details:', error);
-      return {
-        success: false,
-        message: 'Failed to fetch site details'
-      };
+      return apiFailure(error, 'Failed to fetch site details');
     }
   }
 
   // Get location details for auto-suggestion
   async getLocationDetails(): Promise<{ success: boolean; data?: LocationDetails; message?: string }> {
     try {
-      const response = await fetch(`${getAdApiUrl()}/locationDetails`, {
-        method: 'GET',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const result = await response.json();
+      const data = await apiClient.get<{ locationDetails?: Record<string, string | number> }>(`${AD_PATH}/locationDetails`);
 
       // Convert string values to numbers to match the interface
-      let locationDetails: LocationDetails = {};
-      if (result.status === 1 && result.data?.locationDetails) {
-        locationDetails = Object.entries(result.data.locationDetails).reduce((acc, [locationName, value]) => {
-          acc[locationName] = parseInt(value as string, 10) || 0;
-          return acc;
-        }, {} as LocationDetails);
-      }
+      const locationDetails = Object.entries(data?.locationDetails ?? {}).reduce((acc, [locationName, value]) => {
+        acc[locationName] = parseInt(String(value), 10) || 0;
+        return acc;
+      }, {} as LocationDetails);
 
       return {
-        success: result.status === 1,
+        success: true,
         data: locationDetails,
-        message: result.message
       };
     } catch (error) {
-      console.error('Error fetching location details:', error);
-      return {
-        success: false,
-        message: 'Failed to fetch location details'
-      };
+      return apiFailure(error, 'Failed to fetch location details');
     }
   }
 
   // Get category suggestions based on search term (LEGACY)
   async getCategoryDetails(searchTerm: string): Promise<{ success: boolean; data?: CategoryDetails; message?: string }> {
     try {
-      const response = await fetch(`${getAdApiUrl()}/categoryDetails?param=${encodeURIComponent(searchTerm)}`, {
-        method: 'GET',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const result = await response.json();
+      const data = await apiClient.get<{ categoryDetails?: CategoryDetails }>(`${AD_PATH}/categoryDetails`, { param: searchTerm });
       return {
-        success: result.status === 1,
-        data: result.data?.categoryDetails,
-        message: result.message
+        success: true,
+        data: data?.categoryDetails,
       };
     } catch (error) {
-      console.error('Error fetching category details:', error);
-      return {
-        success: false,
-        message: 'Failed to fetch category details'
-      };
+      return apiFailure(error, 'Failed to fetch category details');
     }
   }
 
@@ -243,39 +197,23 @@ class AdService {
     message?: string
   }> {
     try {
-      const url = catId
-        ? `${getAdApiUrl()}/categoryDetails2?catId=${catId}`
-        : `${getAdApiUrl()}/categoryDetails2`;
-
-      const response = await fetch(url, {
-        method: 'GET',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const result = await response.json();
-      const categoryDetails = result.data?.categoryDetails || [];
+      const data = await apiClient.get<{ categoryDetails?: Array<{ catId: number; catName: string }> }>(
+        `${AD_PATH}/categoryDetails2`,
+        { catId: catId || undefined }
+      );
 
       // Transform array to {catId: catName} format
-      const transformedData = categoryDetails.reduce((acc: Record<number, string>, item: { catId: number; catName: string }) => {
+      const transformedData = (data?.categoryDetails || []).reduce((acc: Record<number, string>, item) => {
         acc[item.catId] = item.catName;
         return acc;
       }, {});
 
       return {
-        success: result.status === 1,
+        success: true,
         data: transformedData,
-        message: result.message
       };
     } catch (error) {
-      console.error('Error fetching hierarchical category details:', error);
-      return {
-        success: false,
-        data: {},
-        message: 'Failed to fetch category details'
-      };
+      return { ...apiFailure(error, 'Failed to fetch category details'), data: {} };
     }
   }
 
@@ -286,30 +224,17 @@ class AdService {
     formData.append('slotId', String(slotId));
 
     try {
-      const response = await fetch(`${getAdApiUrl()}/uploadCreative?userId=1`, {
-        method: 'POST',
-        body: formData,
+      const data = await apiClient.post<CreativeUploadResponse['data']>(`${AD_PATH}/uploadCreative`, formData, {
+        query: { userId: 1 },
+        timeoutMs: UPLOAD_TIMEOUT_MS,
       });
-
-      const result: CreativeUploadResponse = await response.json();
-
-      if (result.status === 1 && result.data?.creativeUrl) {
-        return {
-          success: true,
-          creativeUrl: result.data.creativeUrl,
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'File upload failed'
-        };
-      }
-    } catch (error) {
-      console.error('Error uploading creative:', error);
+      if (!data?.creativeUrl) return { success: false, message: 'File upload failed' };
       return {
-        success: false,
-        message: 'An unexpected error occurred'
+        success: true,
+        creativeUrl: data.creativeUrl,
       };
+    } catch (error) {
+      return apiFailure(error, 'File upload failed');
     }
   }
 
@@ -327,30 +252,17 @@ class AdService {
     formData.append('slotId', String(slotId));
 
     try {
-      const response = await fetch(`${getAdApiUrl()}/uploadCreative?userId=1`, {
-        method: 'POST',
-        body: formData,
+      const data = await apiClient.post<CreativeUploadResponse['data']>(`${AD_PATH}/uploadCreative`, formData, {
+        query: { userId: 1 },
+        timeoutMs: UPLOAD_TIMEOUT_MS,
       });
-
-      const result: CreativeUploadResponse = await response.json();
-
-      if (result.status === 1 && result.data?.creativeUrl) {
-        return {
-          success: true,
-          creativeUrl: result.data.creativeUrl,
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'Logo upload failed'
-        };
-      }
-    } catch (error) {
-      console.error('Error uploading logo:', error);
+      if (!data?.creativeUrl) return { success: false, message: 'Logo upload failed' };
       return {
-        success: false,
-        message: 'An unexpected error occurred'
+        success: true,
+        creativeUrl: data.creativeUrl,
       };
+    } catch (error) {
+      return apiFailure(error, 'Logo upload failed');
     }
   }
 
@@ -364,209 +276,106 @@ class AdService {
         endTime: adData.endTime ? (adData.endTime.split(':').length === 2 ? `${adData.endTime}:59` : adData.endTime) : '23:59:59'
       };
 
-      const response = await fetch(`${getAdApiUrl()}?userId=${userId}`, {
-        method: 'POST',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formattedData),
-      });
-
-      const result = await response.json();
+      const result = await apiClient.envelope(AD_PATH, { method: 'POST', query: { userId }, body: formattedData });
       return {
-        success: result.status === 1,
+        success: true,
         data: result.data,
         message: result.message
       };
     } catch (error) {
-      console.error('Error creating ad:', error);
-      return {
-        success: false,
-        message: 'Failed to create ad'
-      };
+      return apiFailure(error, 'Failed to create ad');
     }
   }
 
-  // Update an existing ad
-  async updateAd(adId: string | number, data: UpdateAdData): Promise<{ success: boolean; data?: any; message?: string }> {
+  // Update an existing ad (POST /ads/update, with adId and slotType in the body)
+  async updateAd(adId: string | number, data: UpdateAdData, userId: number = 1): Promise<{ success: boolean; data?: any; message?: string }> {
     try {
       // Ensure time is in HH:mm:ss format if provided as HH:mm
       const formattedData = {
         ...data,
+        adId,
         startTime: data.startTime ? (data.startTime.split(':').length === 2 ? `${data.startTime}:00` : data.startTime) : data.startTime,
         endTime: data.endTime ? (data.endTime.split(':').length === 2 ? `${data.endTime}:59` : data.endTime) : data.endTime
       };
 
-      const response = await fetch(`${getAdApiUrl()}/${adId}`, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formattedData)
-      });
-
-      const result = await response.json();
-
-      if (result.status === 1) {
-        return {
-          success: true,
-          data: result.data
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'Failed to update ad'
-        };
-      }
-    } catch (error) {
-      console.error('Error updating ad:', error);
+      const result = await apiClient.envelope(`${AD_PATH}/update`, { method: 'POST', query: { userId }, body: formattedData });
       return {
-        success: false,
-        message: 'An unexpected error occurred'
+        success: true,
+        data: result.data
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to update ad');
     }
   }
 
   // Clone existing ad
   async cloneAd(adId: string | number, userId: number = 1): Promise<{ success: boolean; data?: any; message?: string }> {
     try {
-      const response = await fetch(`${getAdApiUrl()}/clone?userId=${userId}`, {
-        method: 'POST',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ adId }),
-      });
-
-      const result = await response.json();
+      const result = await apiClient.envelope(`${AD_PATH}/clone`, { method: 'POST', query: { userId }, body: { adId } });
       return {
-        success: result.status === 1,
+        success: true,
         data: result.data,
         message: result.message
       };
     } catch (error) {
-      console.error('Error cloning ad:', error);
-      return {
-        success: false,
-        message: 'Failed to clone ad'
-      };
+      return apiFailure(error, 'Failed to clone ad');
     }
   }
 
   // Get ad labels for suggestion
   async getAdLabels(campaignId: string | number): Promise<{ success: boolean; data?: Array<{ name: string; label: string; adId: string | number }>; message?: string }> {
     try {
-      console.log(`🔍 Fetching ad labels for campaign ID: ${campaignId}`);
-
-      // Using the correct API endpoint
-      const response = await fetch(`${getAdApiUrl()}?campaignId=${campaignId}`);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+      const data = await apiClient.get<{ adsList?: unknown[] }>(AD_PATH, { campaignId });
+      const adsList = normalizeAdList(data?.adsList ?? []);
+
+      // Extract both name, label and adId for each ad; use label as name if name is missing (common pattern)
+      const adInfo = adsList
+        .map((ad: any, index: number) => ({
+          name: String(ad.name || ad.label || `Ad ${ad.adId || index + 1}`).trim(),
+          label: String(ad.label || ad.name || `Label ${ad.adId || index + 1}`).trim(),
+          adId: ad.adId,
+        }))
+        .filter((info: { name: string; label: string; adId: string | number }) => {
+          const isValid = info.name && info.label && info.adId != null && String(info.adId) !== '';
+          if (!isValid) {
+            console.warn(`⚠️ Filtered out invalid ad info:`, info);
+          }
+          return isValid;
+        });
 
-      const result = await response.json();
-      console.log(`📊 Raw API response for campaign ${campaignId}:`, result);
-
-      if (result.status === 1 && result.data?.adsList) {
-        console.log(`📝 Found ${result.data.adsList.length} ads in campaign ${campaignId}`);
-        const adsList = normalizeAdList(result.data.adsList);
-
-        // Extract both name, label and adId for each ad with better error handling
-        const adInfo = adsList
-          .map((ad: any, index: number) => {
-            console.log(`🔍 Processing ad ${index + 1}:`, ad);
-
-            // Use label as name if name is missing (common pattern)
-            const name = ad.name || ad.label || `Ad ${ad.adId || index + 1}`;
-            const label = ad.label || ad.name || `Label ${ad.adId || index + 1}`;
-            const adId = ad.adId;
-
-            return {
-              name: String(name).trim(),
-              label: String(label).trim(),
-              adId: adId
-            };
-          })
-          .filter((info: { name: string; label: string; adId: string | number }) => {
-            const isValid = info.name && info.name !== '' && info.label && info.label !== '' && info.adId != null && String(info.adId) !== '';
-            if (!isValid) {
-              console.warn(`⚠️ Filtered out invalid ad info:`, info);
-            }
-            return isValid;
-          });
-
-        console.log(`✅ Processed ${adInfo.length} valid ad labels for campaign ${campaignId}:`, adInfo);
-
-        return {
-          success: true,
-          data: adInfo,
-          message: `Found ${adInfo.length} ads`
-        };
-      } else {
-        const message = result.message || 'No ads found in this campaign';
-        console.log(`ℹ️ No ads found for campaign ${campaignId}:`, message);
-
-        return {
-          success: true, // Changed to true since this is not an error, just no data
-          data: [],
-          message: message,
-        };
-      }
-    } catch (error) {
-      console.error(`❌ Error fetching ad labels for campaign ${campaignId}:`, error);
       return {
-        success: false,
-        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+        success: true,
+        data: adInfo,
+        message: `Found ${adInfo.length} ads`
       };
+    } catch (error) {
+      // An empty campaign comes back as a backend "no ads" status — not an error here
+      if (isApiError(error) && error.kind === 'backend') {
+        return { success: true, data: [], message: error.message || 'No ads found in this campaign' };
+      }
+      return apiFailure(error, `Failed to fetch ad labels for campaign ${campaignId}`);
     }
   }
 
   // Archive an ad
   async archiveAd(adId: string | number, userId: number = 1): Promise<{ success: boolean; data?: any; message?: string }> {
-    try {
-      console.log(`📦 Archiving ad ${adId}...`);
-
-      if (!adId || (typeof adId === 'number' && (isNaN(adId) || adId < 0))) {
-        return {
-          success: false,
-          message: 'Invalid ad ID'
-        };
-      }
-
-      const response = await fetch(`${getAdApiUrl()}/archive?userId=${userId}`, {
-        method: 'POST',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ adId })
-      });
-
-      const result = await response.json();
-
-      if (result.status === 1) {
-        console.log(`✅ Ad ${adId} archived successfully`);
-        return {
-          success: true,
-          data: result.data,
-          message: result.message || 'Ad archived successfully'
-        };
-      } else {
-        console.error(`❌ Failed to archive ad ${adId}:`, result.message);
-        return {
-          success: false,
-          message: result.message || 'Failed to archive ad'
-        };
-      }
-    } catch (error) {
-      console.error(`❌ Error archiving ad ${adId}:`, error);
+    if (!adId || (typeof adId === 'number' && (isNaN(adId) || adId < 0))) {
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'An unexpected error occurred while archiving ad'
+        message: 'Invalid ad ID'
+      };
+    }
+
+    try {
+      const result = await apiClient.envelope(`${AD_PATH}/archive`, { method: 'POST', query: { userId }, body: { adId } });
+      console.log(`✅ Ad ${adId} archived successfully`);
+      return {
+        success: true,
+        data: result.data,
+        message: result.message || 'Ad archived successfully'
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to archive ad');
     }
   }
 }
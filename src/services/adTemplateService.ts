@@ -0,0 +1,190 @@
+import { ApiVersion, Environment, getApiVersion, getCurrentEnvironment } from '@/config/api';
+import { AD_TEMPLATE_FIELDS, AdTemplateFields, AdTemplateSource, withoutSlot } from '@/utils/adTemplates';
+import { LocalListStore, createLocalId } from '@/utils/localStore';
+
+export interface AdTemplate extends AdTemplateSource {
+  id: string;
+  name: string;
+  description: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Where the template was saved; its slot ID only applies there. Missing on older templates. */
+  environment?: Environment;
+  apiVersion?: ApiVersion;
+}
+
+/** Shape of an exported templates file. */
+export interface AdTemplateExport {
+  kind: 'ad-templates';
+  version: 1;
+  exportedAt: string;
+  templates: AdTemplate[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Named, reusable subsets of ad fields. Kept in localStorage and deliberately
+ * not tied to an environment, so a file exported on test imports on prod;
+ * only the slot, whose IDs are per environment, stays behind (see forCurrentEnvironment).
+ */
+class AdTemplateService {
+  private readonly store = new LocalListStore<AdTemplate>('buyhatke_ad_templates', 'ad templates');
+
+  private readAll(): AdTemplate[] {
+    return this.store.read();
+  }
+
+  private writeAll(templates: AdTemplate[]): void {
+    this.store.write(templates);
+  }
+
+  private findByName(templates: AdTemplate[], name: string): AdTemplate | undefined {
+    const key = name.trim().toLowerCase();
+    return templates.find((t) => t.name.trim().toLowerCase() === key);
+  }
+
+  getTemplates(): AdTemplate[] {
+    return this.readAll().sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getTemplate(id: string): AdTemplate | undefined {
+    return this.readAll().find((t) => t.id === id);
+  }
+
+  /**
+   * The template as it applies here: a slot saved on another environment or
+   * API version (or by an older template that didn't record where) is left out.
+   */
+  forCurrentEnvironment(template: AdTemplate): { source: AdTemplateSource; slotDropped: boolean } {
+    const sameOrigin = template.environment === getCurrentEnvironment() && template.apiVersion === getApiVersion();
+    if (template.fields.slotId === undefined || sameOrigin) return { source: template, slotDropped: false };
+    return { source: withoutSlot(template), slotDropped: true };
+  }
+
+  /** Whether a template with this name exists (other than `exceptId`). */
+  nameTaken(name: string, exceptId?: string): boolean {
+    const match = this.findByName(this.readAll(), name);
+    return !!match && match.id !== exceptId;
+  }
+
+  /** Save a new template; with `overwrite`, a template of the same name is replaced. */
+  saveTemplate(
+    input: { name: string; description?: string } & AdTemplateSource,
+    overwrite = false
+  ): { success: boolean; data?: AdTemplate; message?: string } {
+    const name = input.name.trim();
+    if (!name) return { success: false, message: 'Template name is required' };
+    if (Object.keys(input.fields).length === 0) return { success: false, message: 'Pick at least one field' };
+
+    const templates = this.readAll();
+    const existing = this.findByName(templates, name);
+    if (existing && !overwrite) return { success: false, message: `A template named "${name}" already exists` };
+
+    const now = Date.now();
+    const template: AdTemplate = {
+      id: existing?.id ?? createLocalId(now),
+      name,
+      description: input.description?.trim() ?? '',
+      fields: input.fields,
+      categoryNames: input.categoryNames,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      environment: getCurrentEnvironment(),
+      apiVersion: getApiVersion(),
+    };
+    try {
+      this.writeAll([...templates.filter((t) => t.id !== template.id), template]);
+      return { success: true, data: template };
+    } catch (error) {
+      console.error('Error saving ad template:', error);
+      return { success: false, message: 'Failed to save template' };
+    }
+  }
+
+  updateTemplate(id: string, patch: { name?: string; description?: string }): { success: boolean; message?: string } {
+    const templates = this.readAll();
+    const template = templates.find((t) => t.id === id);
+    if (!template) return { success: false, message: 'Template not found' };
+    if (patch.name !== undefined) {
+      const name = patch.name.trim();
+      if (!name) return { success: false, message: 'Template name is required' };
+      if (this.nameTaken(name, id)) return { success: false, message: `A template named "${name}" already exists` };
+      template.name = name;
+    }
+    if (patch.description !== undefined) template.description = patch.description.trim();
+    template.updatedAt = Date.now();
+    this.writeAll(templates);
+    return { success: true };
+  }
+
+  deleteTemplate(id: string): void {
+    this.writeAll(this.readAll().filter((t) => t.id !== id));
+  }
+
+  buildExport(ids?: string[]): AdTemplateExport {
+    const templates = this.getTemplates().filter((t) => !ids || ids.includes(t.id));
+    return { kind: 'ad-templates', version: 1, exportedAt: new Date().toISOString(), templates };
+  }
+
+  /**
+   * Import an exported file. Templates are matched by name: a match is
+   * replaced, anything else is added. Unknown fields in a template are dropped.
+   */
+  importTemplates(text: string): { success: boolean; data?: { added: number; replaced: number }; message?: string } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { success: false, message: 'File is not valid JSON' };
+    }
+    if (!isRecord(parsed) || parsed.kind !== 'ad-templates' || !Array.isArray(parsed.templates)) {
+      return { success: false, message: 'Not an ad templates export' };
+    }
+
+    const templates = this.readAll();
+    let added = 0;
+    let replaced = 0;
+    for (const raw of parsed.templates) {
+      if (!isRecord(raw) || typeof raw.name !== 'string' || !raw.name.trim() || !isRecord(raw.fields)) continue;
+      const rawFields = raw.fields;
+      const fields = Object.fromEntries(
+        AD_TEMPLATE_FIELDS.filter((f) => rawFields[f] !== undefined).map((f) => [f, rawFields[f]])
+      ) as AdTemplateFields;
+      if (Object.keys(fields).length === 0) continue;
+
+      const existing = this.findByName(templates, raw.name);
+      const now = Date.now();
+      const template: AdTemplate = {
+        id: existing?.id ?? createLocalId(now),
+        name: raw.name.trim(),
+        description: typeof raw.description === 'string' ? raw.description : '',
+        fields,
+        categoryNames: isRecord(raw.categoryNames) ? (raw.categoryNames as Record<string, string>) : {},
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+        environment: raw.environment === 'prod' || raw.environment === 'test' || raw.environment === 'local' ? raw.environment : undefined,
+        apiVersion: raw.apiVersion === 'v1' || raw.apiVersion === 'v2' ? raw.apiVersion : undefined,
+      };
+      if (existing) {
+        templates[templates.indexOf(existing)] = template;
+        replaced++;
+      } else {
+        templates.push(template);
+        added++;
+      }
+    }
+
+    if (added + replaced === 0) return { success: false, message: 'No valid templates found in the file' };
+    try {
+      this.writeAll(templates);
+      return { success: true, data: { added, replaced } };
+    } catch (error) {
+      console.error('Error importing ad templates:', error);
+      return { success: false, message: 'Failed to save imported templates' };
+    }
+  }
+}
+
+export const adTemplateService = new AdTemplateService();
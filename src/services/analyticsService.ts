@@ -1,6 +1,9 @@
-import { buildApiUrl } from '@/config/api';
 import { coerceName } from '@/lib/format';
-import { normalizeMetricsAdStats, normalizeMetricsBreakdown, isV2Active } from '@/utils/v2Normalizer';
+import { normalizeMetricsAdStats, normalizeMetricsBreakdown, normalizeTrendAdStats, normalizeTrendBuckets, normalizeFilterIds, isV2Active, TrendBuckets } from '@/utils/v2Normalizer';
+import { apiClient, apiFailure, ApiEnvelope } from '@/services/apiClient';
+import { QueryBatch, QueryBatchOptions, QueryPool, QueryProgress } from '@/services/queryPool';
+import { cacheState, isClosedRange, metricsCache, metricsCacheKey } from '@/services/metricsCache';
+import { apiDateTime, daysAgo, isYmd, startOfMonth, startOfWeek, todayYmd, toYmd, weekBucketStart } from '@/utils/dates';
 
 export interface MetricsPayload {
   from: string;
@@ -30,6 +33,21 @@ export interface TrendDataPoint {
   landingCount?: number;
 }
 
+/** `/metrics/trend2` takes a single campaign and ad rather than filter arrays. */
+export interface AdTrendPayload {
+  campaignId: string | number;
+  adId: string | number;
+  from?: string;
+  to?: string;
+  interval?: string;
+}
+
+/** `/metrics/trend3`: the filtered total plus one series per ad, keyed by String(adId). */
+export interface MultiTrendData {
+  total: TrendDataPoint[];
+  byAd: Record<string, TrendDataPoint[]>;
+}
+
 export interface BreakdownData {
   name: string;
   value: number;
@@ -58,178 +76,198 @@ interface AnalyticsSlot {
   isActive: number;
 }
 
+// Every metrics/campaign endpoint is still scoped to the single dashboard user
+const USER_QUERY = { userId: 1 };
+
 class AnalyticsService {
+  // Every metrics POST goes through one pool: at most 6 at a time, identical bodies shared
+  private pool = new QueryPool(6);
+  private batches = new Map<string, QueryBatch>();
+
+  /**
+   * Start a batch of requests for `scope` (e.g. 'analytics'), aborting the
+   * previous batch for the same scope. Pass `batch.signal` to the calls and
+   * wrap the ones to count in `batch.track`.
+   */
+  beginBatch(scope: string, onProgress?: (progress: QueryProgress) => void, options?: QueryBatchOptions): QueryBatch {
+    this.batches.get(scope)?.abort();
+    const batch = new QueryBatch(onProgress, options);
+    this.batches.set(scope, batch);
+    return batch;
+  }
+
+  /** Abort the current batch for `scope`, if any (e.g. on unmount). */
+  cancelBatch(scope: string, batch?: QueryBatch): void {
+    const current = this.batches.get(scope);
+    if (!current || (batch && current !== batch)) return;
+    current.abort();
+    this.batches.delete(scope);
+  }
+
+  private batchFor(signal?: AbortSignal): QueryBatch | undefined {
+    if (!signal) return undefined;
+    return Array.from(this.batches.values()).find((batch) => batch.signal === signal);
+  }
+
+  /**
+   * POST through the metrics cache and the pool. Cache hits are recorded on
+   * the caller's batch (found by its signal); stale hits are returned at once
+   * and refreshed in the background.
+   */
+  private async post<T>(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<ApiEnvelope<T>> {
+    const fetchLive = (callerSignal?: AbortSignal) =>
+      this.pool.run(path, body, (poolSignal) => apiClient.envelope<T>(path, { method: 'POST', query: USER_QUERY, body, signal: poolSignal }), callerSignal);
+    const batch = this.batchFor(signal);
+    const key = metricsCacheKey(path, body);
+
+    if (!batch?.options.bypassCache) {
+      const hit = await metricsCache.get<T>(key);
+      const state = hit ? cacheState(body, hit.storedAt) : 'expired';
+      if (hit && state !== 'expired') {
+        // The refresh isn't tied to the caller's signal — it only updates the cache
+        const revalidation = state === 'stale'
+          ? fetchLive().then(
+            async (fresh) => {
+              await metricsCache.put(key, fresh);
+              return JSON.stringify(fresh.data) !== JSON.stringify(hit.envelope.data);
+            },
+            () => false
+          )
+          : undefined;
+        // Closed ranges can't have changed since, so they don't make the data older
+        if (!isClosedRange(body)) batch?.noteCached(hit.storedAt, revalidation);
+        return hit.envelope;
+      }
+    }
+
+    const envelope = await fetchLive(signal);
+    await metricsCache.put(key, envelope);
+    return envelope;
+  }
+
   // Get overall metrics
-  async getMetrics(payload: MetricsPayload): Promise<{ success: boolean; data?: MetricsData; message?: string }> {
+  async getMetrics(payload: MetricsPayload, signal?: AbortSignal): Promise<{ success: boolean; data?: MetricsData; message?: string }> {
     try {
       const body = this.preparePayloadForAll(payload);
-const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-      });
-
-      const result: MetricsResponse = await response.json();
+      const result = await this.post('/metrics/all', body, signal);
+      if (!result.data) return { success: false, message: result.message || 'Failed to fetch metrics' };
 
-      if (result.status === 1 && result.data) {
-        // Process the raw data and calculate metrics
-        const processedData = this.processMetricsData(result.data);
-        return {
-          success: true,
-          data: processedData,
-          message: result.message
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'Failed to fetch metrics'
-        };
-      }
-    } catch (error) {
-      console.error('Error fetching metrics:', error);
+      // Process the raw data and calculate metrics
       return {
-        success: false,
-        message: 'Failed to fetch metrics'
+        success: true,
+        data: this.processMetricsData(result.data),
+        message: result.message
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to fetch metrics');
     }
   }
 
   // Get trend data over time
-  async getTrendData(payload: MetricsPayload): Promise<{ success: boolean; data?: TrendDataPoint[]; message?: string }> {
+  async getTrendData(payload: MetricsPayload, signal?: AbortSignal): Promise<{ success: boolean; data?: TrendDataPoint[]; message?: string }> {
     try {
       const body = this.preparePayloadForTrend(payload);
-      console.log('📈 Making trend API call with payload:', body);
-
-      const response = await fetch(`${buildApiUrl('/metrics/trend')}?userId=1`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-      });
+      const result = await this.post('/metrics/trend', body, signal);
+      if (!result.data) return { success: false, message: result.message || 'Failed to fetch trend data' };
 
-      const result: MetricsResponse = await response.json();
-      console.log('📈 Trend API raw response:', result);
-
-      if (result.status === 1 && result.data) {
-        const processedData = this.processTrendData(result.data, payload.interval);
-        console.log('📊 Processed trend data:', processedData);
-        return {
-          success: true,
-          data: processedData,
-          message: result.message
-        };
-      } else {
-        console.error('❌ Trend API failed:', result);
-        return {
-          success: false,
-          message: result.message || 'Failed to fetch trend data'
-        };
-      }
+      return {
+        success: true,
+        data: this.processTrendData(result.data, payload.interval),
+        message: result.message
+      };
+    } catch (error) {
+      return apiFailure(error, 'Failed to fetch trend data');
+    }
+  }
+
+  // Get one ad's trend (/metrics/trend2)
+  async getAdTrendData(payload: AdTrendPayload, signal?: AbortSignal): Promise<{ success: boolean; data?: TrendDataPoint[]; message?: string }> {
+    try {
+      const [campaignId] = normalizeFilterIds([payload.campaignId]);
+      const [adId] = normalizeFilterIds([payload.adId]);
+      const body: Record<string, unknown> = { campaignId, adId, interval: payload.interval || '1d' };
+      if (payload.from) body.from = this.formatDateTime(payload.from, 'start');
+      if (payload.to) body.to = this.formatDateTime(payload.to, 'end');
+
+      const result = await this.post('/metrics/trend2', body, signal);
+      if (!result.data) return { success: false, message: result.message || 'Failed to fetch ad trend data' };
+
+      return {
+        success: true,
+        data: this.processTrendBuckets(normalizeTrendBuckets(result.data), payload.interval),
+        message: result.message
+      };
     } catch (error) {
-      console.error('❌ Error fetching trend data:', error);
+      return apiFailure(error, 'Failed to fetch ad trend data');
+    }
+  }
+
+  // Get the filtered trend plus a per-ad split in one call (/metrics/trend3)
+  async getMultiTrendData(payload: MetricsPayload, signal?: AbortSignal): Promise<{ success: boolean; data?: MultiTrendData; message?: string }> {
+    try {
+      const body = this.preparePayloadForTrend(payload);
+      const result = await this.post<{ total?: unknown; adStats?: unknown }>('/metrics/trend3', body, signal);
+      if (!result.data) return { success: false, message: result.message || 'Failed to fetch trend data' };
+
+      const byAd = Object.fromEntries(
+        Object.entries(normalizeTrendAdStats(result.data.adStats)).map(([adId, buckets]) => [adId, this.processTrendBuckets(buckets, payload.interval)])
+      );
       return {
-        success: false,
-        message: 'Failed to fetch trend data'
+        success: true,
+        data: { total: this.processTrendBuckets(normalizeTrendBuckets(result.data.total), payload.interval), byAd },
+        message: result.message
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to fetch trend data');
     }
   }
 
   // Get breakdown data (platform, age, location, etc.)
-  async getBreakdownData(payload: MetricsPayload): Promise<{ success: boolean; data?: BreakdownData[]; message?: string }> {
+  async getBreakdownData(payload: MetricsPayload, signal?: AbortSignal): Promise<{ success: boolean; data?: BreakdownData[]; message?: string }> {
     try {
       const body = this.preparePayloadForBreakdown(payload);
-      console.log(`Making breakdown API call for ${payload.by}:`, body);
-
-      const response = await fetch(`${buildApiUrl('/metrics/breakdown')}?userId=1`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-      });
+      const result = await this.post('/metrics/breakdown', body, signal);
+      if (!result.data) return { success: false, message: result.message || 'Failed to fetch breakdown data' };
 
-      const result: MetricsResponse = await response.json();
-      console.log(`Breakdown API response for ${payload.by}:`, result);
-
-      if (result.status === 1 && result.data) {
-        const processedData = this.processBreakdownData(result.data, payload.by);
-        return {
-          success: true,
-          data: processedData,
-          message: result.message
-        };
-      } else {
-        console.error(`Breakdown API failed for ${payload.by}:`, result);
-        return {
-          success: false,
-          message: result.message || 'Failed to fetch breakdown data'
-        };
-      }
-    } catch (error) {
-      console.error(`Error fetching breakdown data for ${payload.by}:`, error);
       return {
-        success: false,
-        message: 'Failed to fetch breakdown data'
+        success: true,
+        data: this.processBreakdownData(result.data, payload.by),
+        message: result.message
       };
+    } catch (error) {
+      return apiFailure(error, `Failed to fetch breakdown data for ${payload.by}`);
     }
   }
 
   // Get campaigns for dropdown
   async getCampaigns(): Promise<{ success: boolean; data?: any[]; message?: string }> {
     try {
-      const response = await fetch(`${buildApiUrl('/campaigns')}?userId=1`);
-      const result = await response.json();
-
-      if (result.status === 1 && result.data?.campaignList) {
-        return {
-          success: true,
-          data: result.data.campaignList,
-          message: result.message
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'Failed to fetch campaigns'
-        };
-      }
-    } catch (error) {
-      console.error('Error fetching campaigns:', error);
+      const result = await apiClient.envelope<{ campaignList?: unknown[] }>('/campaigns', { query: USER_QUERY });
+      if (!result.data?.campaignList) return { success: false, message: result.message || 'Failed to fetch campaigns' };
+
       return {
-        success: false,
-        message: 'Failed to fetch campaigns'
+        success: true,
+        data: result.data.campaignList,
+        message: result.message
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to fetch campaigns');
     }
   }
 
   // Get slots for dropdown
   async getSlots(): Promise<{ success: boolean; data?: any[]; message?: string }> {
     try {
-      const response = await fetch(`${buildApiUrl('/slots')}?isActive=1`);
-      const result = await response.json();
-
-      if (result.status === 1 && result.data?.slotList) {
-        const uniqueSlots = this.normalizeSlots(result.data.slotList);
+      const result = await apiClient.envelope<{ slotList?: AnalyticsSlot[] }>('/slots', { query: { isActive: 1 } });
+      if (!result.data?.slotList) return { success: false, message: result.message || 'Failed to fetch slots' };
 
-        return {
-          success: true,
-          data: uniqueSlots,
-          message: result.message
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'Failed to fetch slots'
-        };
-      }
-    } catch (error) {
-      console.error('Error fetching slots:', error);
       return {
-        success: false,
-        message: 'Failed to fetch slots'
+        success: true,
+        data: this.normalizeSlots(result.data.slotList),
+        message: result.message
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to fetch slots');
     }
   }
 
@@ -265,141 +303,102 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
   // Get sites for dropdown (marketplaces/POS)
   async getSites(): Promise<{ success: boolean; data?: any; message?: string }> {
     try {
-      const response = await fetch(buildApiUrl('/ads/siteDetails'));
-      const result = await response.json();
-
-      if (result.status === 1 && result.data?.siteDetails) {
-        // Convert siteDetails object to array format for dropdown
-        const sitesArray = Object.entries(result.data.siteDetails).map(([id, site]: [string, any]) => ({
-          posId: id,
-          name: site.name,
-          domain: site.domain,
-          image: site.image
-        }));
-
-        return {
-          success: true,
-          data: sitesArray,
-          message: result.message
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'Failed to fetch sites'
-        };
-      }
-    } catch (error) {
-      console.error('Error fetching sites:', error);
+      const result = await apiClient.envelope<{ siteDetails?: Record<string, { name?: string; domain?: string; image?: string }> }>('/ads/siteDetails');
+      if (!result.data?.siteDetails) return { success: false, message: result.message || 'Failed to fetch sites' };
+
+      // Convert siteDetails object to array format for dropdown
+      const sitesArray = Object.entries(result.data.siteDetails).map(([id, site]) => ({
+        posId: id,
+        name: site.name,
+        domain: site.domain,
+        image: site.image
+      }));
+
       return {
-        success: false,
-        message: 'Failed to fetch sites'
+        success: true,
+        data: sitesArray,
+        message: result.message
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to fetch sites');
     }
   }
 
   // Fetch tabular aggregated data (location, slot, ad etc.)
-  async getTableData(type: 'location' | 'slotId' | 'adId', sortBy: 'impressions' | 'clicks' = 'impressions'): Promise<{ success: boolean; data?: any[]; message?: string }> {
+  async getTableData(type: 'location' | 'slotId' | 'adId', sortBy: 'impressions' | 'clicks' = 'impressions', signal?: AbortSignal): Promise<{ success: boolean; data?: any[]; message?: string }> {
     try {
-      const response = await fetch(`${buildApiUrl('/metrics/table')}?userId=1`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ type, sortBy })
-      });
+      const result = await this.post<{ tableData?: Record<string, { impressions?: number; clicks?: number }> }>('/metrics/table', { type, sortBy }, signal);
+      if (!result.data?.tableData) return { success: false, message: result.message || 'Failed to fetch table data' };
+
+      // Convert object to array format for table
+      const tableArray = Object.entries(result.data.tableData).map(([key, value]) => ({
+        [type]: key,
+        impressions: value.impressions || 0,
+        clicks: value.clicks || 0,
+      }));
 
-      const result: MetricsResponse = await response.json();
-
-      if (result.status === 1 && result.data?.tableData) {
-        // Convert object to array format for table
-        const tableArray = Object.entries(result.data.tableData).map(([key, value]: [string, any]) => ({
-          [type]: key,
-          impressions: value.impressions || 0,
-          clicks: value.clicks || 0,
-        }));
-
-        return {
-          success: true,
-          data: tableArray,
-          message: result.message
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'Failed to fetch table data'
-        };
-      }
-    } catch (error) {
-      console.error('Error fetching table data:', error);
       return {
-        success: false,
-        message: 'Failed to fetch table data'
+        success: true,
+        data: tableArray,
+        message: result.message
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to fetch table data');
     }
   }
 
   // Get all metrics data (simplified endpoint)
   async getAllMetrics(): Promise<{ success: boolean; data?: any; message?: string }> {
     try {
-      const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`);
-      const result = await response.json();
+      const result = await apiClient.envelope<{ adStats?: unknown[]; conversionStats?: { conversionCount?: number } }>('/metrics/all', { query: USER_QUERY });
+      const data = result.data;
+      if (!data) return { success: false, message: result.message || 'Failed to fetch all metrics' };
+
+      // Process the data to extract metrics
+      let impressions = 0;
+      let clicks = 0;
+      let landingCount = 0;
+      const conversions = data.conversionStats?.conversionCount || 0;
+
+      // Extract impressions, clicks, and landingCount from adStats
+      if (Array.isArray(data.adStats)) {
+        const stats = normalizeMetricsAdStats(data.adStats);
+        stats.forEach((stat: any) => {
+          const type = Number(stat.eventType);
+          if (type === 0) {
+            impressions += Number(stat.eventCount) || 0;
+          } else if (type === 1) {
+            clicks += Number(stat.eventCount) || 0;
+          } else if (type === 2) {
+            landingCount += Number(stat.eventCount) || 0;
+          }
+        });
+      }
 
-      if (result.status === 1 && result.data) {
-        // Process the data to extract metrics
-    let impressions = 0;
-    let clicks = 0;
-    let landingCount = 0;
-    const conversions = result.data.conversionStats?.conversionCount || 0;
-
-        // Extract impressions, clicks, and landingCount from adStats
-        if (Array.isArray(result.data.adStats)) {
-          const stats = normalizeMetricsAdStats(result.data.adStats);
-          stats.forEach((stat: any) => {
-            const type = Number(stat.eventType);
-            if (type === 0) {
-              impressions += Number(stat.eventCount) || 0;
-            } else if (type === 1) {
-              clicks += Number(stat.eventCount) || 0;
-            } else if (type === 2) {
-              landingCount += Number(stat.eventCount) || 0;
-            }
-          });
-        }
+      // Calculate derived metrics
+      const ctr = impressions > 0 ? (clicks / impressions) * 100 : 0;
+      const conversionRate = clicks > 0 ? (conversions / clicks) * 100 : 0;
+      const revenue = conversions * 100; // Example: ₹100 per conversion
+      const adSpend = impressions * 0.1; // Example: ₹0.1 CPM
+      const roi = adSpend > 0 ? ((revenue - adSpend) / adSpend) * 100 : 0;
+
+      const processedData = {
+        impressions,
+        clicks,
+        ctr,
+        conversions,
+        revenue,
+        roi,
+        landingCount
+      };
 
-        // Calculate derived metrics
-        const ctr = impressions > 0 ? (clicks / impressions) * 100 : 0;
-        const conversionRate = clicks > 0 ? (conversions / clicks) * 100 : 0;
-        const revenue = conversions * 100; // Example: ₹100 per conversion
-        const adSpend = impressions * 0.1; // Example: ₹0.1 CPM
-        const roi = adSpend > 0 ? ((revenue - adSpend) / adSpend) * 100 : 0;
-
-        const processedData = {
-          impressions,
-          clicks,
-          ctr,
-          conversions,
-          revenue,
-          roi,
-          landingCount
-        };
-
-        return {
-          success: true,
-          data: processedData,
-          message: result.message
-        };
-      } else {
-        return {
-          success: false,
-          message: result.message || 'Failed to fetch all metrics'
-        };
-      }
-    } catch (error) {
-      console.error('Error fetching all metrics:', error);
       return {
-        success: false,
-        message: 'Failed to fetch all metrics'
+        success: true,
+        data: processedData,
+        message: result.message
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to fetch all metrics');
     }
   }
 
@@ -451,8 +450,12 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
   // Process trend data
   private processTrendData(rawData: any, interval?: string): TrendDataPoint[] {
     if (!rawData || !rawData.total) return [];
+    return this.processTrendBuckets(normalizeTrendBuckets(rawData.total), interval);
+  }
 
-    const { impression = {}, click = {}, conversion = {}, adtrack = {} } = rawData.total;
+  // Turn per-bucket event counts into sorted, grouped trend points
+  private processTrendBuckets(counts: TrendBuckets, interval?: string): TrendDataPoint[] {
+    const { impression = {}, click = {}, conversion = {}, adtrack = {} } = counts;
 
     // Collect all unique buckets (dates / weeks / months)
     const buckets = new Set<string>([
@@ -514,8 +517,9 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
     const grouped = new Map<string, TrendDataPoint>();
 
     data.forEach(point => {
-      const date = new Date(point.date);
-      if (isNaN(date.getTime())) {
+      // Buckets are normalized to YYYY-MM-DD; group on the strings so the
+      // browser's timezone can't move a day into the neighbouring week/month
+      if (!isYmd(point.date)) {
         console.warn('Skipping invalid date:', point.date);
         return;
       }
@@ -528,16 +532,11 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
           break;
 
         case '7d': // Weekly - group by week starting Sunday
-          const weekStart = new Date(date);
-          weekStart.setDate(date.getDate() - date.getDay()); // Start of week (Sunday)
-          groupKey = weekStart.toISOString().split('T')[0];
+          groupKey = startOfWeek(point.date);
           break;
 
         case '30d': // Monthly - group by first day of month
-          const year = date.getFullYear();
-          const month = date.getMonth();
-          const monthStart = new Date(year, month, 1);
-          groupKey = monthStart.toISOString().split('T')[0];
+          groupKey = startOfMonth(point.date);
           break;
 
         default:
@@ -570,9 +569,7 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
     });
 
     // Convert back to array and sort
-    const result = Array.from(grouped.values()).sort((a, b) => {
-      return new Date(a.date).getTime() - new Date(b.date).getTime();
-    });
+    const result = Array.from(grouped.values()).sort((a, b) => a.date.localeCompare(b.date));
 
     console.log(`📊 Forced ${interval} grouping:`, {
       originalDataPoints: data.length,
@@ -586,7 +583,8 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
     return result;
   }
 
-  // Normalize different date bucket formats to ISO date strings
+  // Normalize different date bucket formats to YYYY-MM-DD. Buckets are days in
+  // the API's timezone; timestamps are converted to the reporting timezone.
   private normalizeDateBucket(bucket: string): string {
     // Handle ISO date format (YYYY-MM-DD) - already good
     if (/^\d{4}-\d{2}-\d{2}$/.test(bucket)) {
@@ -601,33 +599,13 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
     // Handle week format (YYYY-W##) - convert to first day of that week
     const weekMatch = bucket.match(/^(\d{4})-W(\d{1,2})$/);
     if (weekMatch) {
-      const year = parseInt(weekMatch[1]);
-      const week = parseInt(weekMatch[2]);
-      try {
-        const firstDayOfYear = new Date(year, 0, 1);
-        const daysToAdd = (week - 1) * 7 - firstDayOfYear.getDay() + 1;
-        const weekStart = new Date(year, 0, 1 + daysToAdd);
-        return weekStart.toISOString().split('T')[0];
-      } catch (error) {
-        console.warn('Error parsing week format:', bucket, error);
-        return `${year}-01-01`; // Fallback to start of year
-      }
+      return weekBucketStart(parseInt(weekMatch[1]), parseInt(weekMatch[2]));
     }
 
     // Handle alternative week format like "Week 30 2024"
     const altWeekMatch = bucket.match(/^Week (\d+) (\d{4})$/);
     if (altWeekMatch) {
-      const week = parseInt(altWeekMatch[1]);
-      const year = parseInt(altWeekMatch[2]);
-      try {
-        const firstDayOfYear = new Date(year, 0, 1);
-        const daysToAdd = (week - 1) * 7 - firstDayOfYear.getDay() + 1;
-        const weekStart = new Date(year, 0, 1 + daysToAdd);
-        return weekStart.toISOString().split('T')[0];
-      } catch (error) {
-        console.warn('Error parsing alternative week format:', bucket, error);
-        return `${year}-01-01`; // Fallback to start of year
-      }
+      return weekBucketStart(parseInt(altWeekMatch[2]), parseInt(altWeekMatch[1]));
     }
 
     // Handle month names like "July 2024" - assume first day of month
@@ -652,7 +630,7 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
         const timestamp = numericBucket > 1e10 ? numericBucket : numericBucket * 1000;
         const date = new Date(timestamp);
         if (!isNaN(date.getTime())) {
-          return date.toISOString().split('T')[0];
+          return toYmd(date);
         }
       } catch (error) {
         console.warn('Error parsing numeric timestamp:', bucket, error);
@@ -661,9 +639,14 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
 
     // If we can't parse it, try to create a valid date or return a fallback
     try {
+      // A bare date-time ("2024-07-01 00:00:00") is already API-local: keep its day
+      const leadingDay = bucket.slice(0, 10);
+      if (/^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2})?$/.test(bucket) && isYmd(leadingDay)) {
+        return leadingDay;
+      }
       const attemptedDate = new Date(bucket);
       if (!isNaN(attemptedDate.getTime())) {
-        return attemptedDate.toISOString().split('T')[0];
+        return toYmd(attemptedDate);
       }
     } catch (error) {
       console.warn('Error attempting date parsing:', bucket, error);
@@ -671,8 +654,7 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
 
     // Final fallback - create a predictable date based on the bucket string
     // This ensures we don't break the chart even with completely invalid dates
-    const today = new Date();
-    const fallbackDate = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}-${String(today.getDate()).padStart(2, '0')}`;
+    const fallbackDate = todayYmd();
     console.warn('⚠️ Could not normalize date bucket, using fallback:', bucket, '→', fallbackDate);
     return fallbackDate;
   }
@@ -756,30 +738,10 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
     return ageGroups[bucketIndex] || 'Unknown';
   }
 
-  // Helper function to get date range based on time period
+  // Helper function to get date range based on time period, in the reporting timezone
   getDateRange(timeRange: string): { from: string; to: string } {
-    const now = new Date();
-    const to = now.toISOString().split('T')[0];
-    let from: string;
-
-    switch (timeRange) {
-      case '1d':
-        from = new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-        break;
-      case '7d':
-        from = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-        break;
-      case '30d':
-        from = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-        break;
-      case '90d':
-        from = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-        break;
-      default:
-        from = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    }
-
-    return { from, to };
+    const days: Record<string, number> = { '1d': 1, '7d': 7, '30d': 30, '90d': 90 };
+    return { from: daysAgo(days[timeRange] ?? 7), to: todayYmd() };
   }
 
   // Prepare payload for /metrics/all endpoint
@@ -866,20 +828,12 @@ const response = await fetch(`${buildApiUrl('/metrics/all')}?userId=1`, {
   }
 
   /**
-   * Appends time in HH:mm:ss format to a date string if not already present.
-   * @param dateStr Date string (YYYY-MM-DD or ISO)
-   * @param type 'start' (00:00:00) or 'end' (23:59:59)
+   * Start or end of a reporting day as the API's `YYYY-MM-DD HH:mm:ss`.
+   * @param dateStr Date string (YYYY-MM-DD); values with a time pass through
+   * @param type 'start' (00:00:00) or 'end' (23:59:59) in the reporting timezone
    */
   private formatDateTime(dateStr: string, type: 'start' | 'end'): string {
-    if (!dateStr) return dateStr;
-
-    // If it already contains a time component (space or T separator), return as is
-    if (dateStr.includes(' ') || dateStr.includes('T')) {
-      return dateStr;
-    }
-
-    // Default to space separator for HH:MM:SS requirement
-    return type === 'start' ? `${dateStr} 00:00:00` : `${dateStr} 23:59:59`;
+    return apiDateTime(dateStr, type);
   }
 }
 
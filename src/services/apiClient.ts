@@ -0,0 +1,262 @@
+import { buildApiUrl } from '@/config/api';
+
+/**
+ * Shared HTTP client for the dashboard API.
+ *
+ * Every endpoint answers with the `{ status, message, data }` envelope, where
+ * `status === 1` means success. The client builds version-aware URLs with
+ * buildApiUrl, applies timeouts and caller AbortSignals, runs interceptors, and
+ * turns every failure into an ApiError so services handle them one way.
+ */
+
+export type ApiErrorKind =
+  /** The request never got a response (offline, DNS, CORS). */
+  | 'network'
+  | 'timeout'
+  /** Cancelled through the caller's AbortSignal. */
+  | 'aborted'
+  /** Non-2xx HTTP status. */
+  | 'http'
+  /** 2xx, but the envelope's `status` wasn't 1. */
+  | 'backend'
+  /** The body wasn't the JSON we expected. */
+  | 'parse';
+
+/** The response envelope every dashboard endpoint uses. */
+export interface ApiEnvelope<T = unknown> {
+  status: number;
+  message?: string;
+  /** Some endpoints (offersConfig) report failures here instead of in `message`. */
+  err?: string;
+  data?: T;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly url: string;
+  /** HTTP status for `http` errors; the envelope's `status` for `backend` errors. */
+  readonly status?: number;
+  /** Parsed response body, when there was one. */
+  readonly body?: unknown;
+  /** The underlying fetch or JSON error. */
+  readonly cause?: unknown;
+
+  constructor(kind: ApiErrorKind, message: string, details: { url: string; status?: number; body?: unknown; cause?: unknown }) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.url = details.url;
+    this.status = details.status;
+    this.body = details.body;
+    this.cause = details.cause;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+export type QueryValue = string | number | boolean | null | undefined;
+
+export interface ApiRequestOptions {
+  method?: HttpMethod;
+  /** Appended to the URL; null/undefined/'' values are skipped. */
+  query?: Record<string, QueryValue>;
+  /** Sent as JSON, unless it is FormData (multipart uploads). */
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Defaults to apiClient.defaultTimeoutMs; 0 disables the timeout. */
+  timeoutMs?: number;
+  /** Defaults to 'omit' — the API is cross-origin and cookie-less. */
+  credentials?: RequestCredentials;
+}
+
+export interface ApiRequestContext {
+  url: string;
+  init: RequestInit;
+}
+
+export type RequestInterceptor = (context: ApiRequestContext) => ApiRequestContext | Promise<ApiRequestContext>;
+export type ResponseInterceptor = (response: Response, context: ApiRequestContext) => Response | Promise<Response>;
+
+const isAbsoluteUrl = (path: string) => /^https?:\/\//i.test(path);
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const envelopeMessage = (body: unknown): string | undefined => {
+  if (!body || typeof body !== 'object') return undefined;
+  const { err, message } = body as ApiEnvelope;
+  return (typeof err === 'string' && err) || (typeof message === 'string' && message) || undefined;
+};
+
+class ApiClient {
+  defaultTimeoutMs = 30_000;
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+
+  /** Register a request interceptor; returns a function that removes it. */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter((i) => i !== interceptor);
+    };
+  }
+
+  /** Register a response interceptor (runs on every response, before status checks); returns a remover. */
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter((i) => i !== interceptor);
+    };
+  }
+
+  /** Version-aware URL for an API path (full URLs pass through) with query parameters. */
+  url(path: string, query?: Record<string, QueryValue>): string {
+    const base = isAbsoluteUrl(path) ? path : buildApiUrl(path);
+    const params = new URLSearchParams();
+    Object.entries(query ?? {}).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') params.append(key, String(value));
+    });
+    const qs = params.toString();
+    if (!qs) return base;
+    return `${base}${base.includes('?') ? '&' : '?'}${qs}`;
+  }
+
+  /**
+   * Send a request and hand the response to `read` while the timeout and the
+   * caller's AbortSignal still apply. Every failure becomes an ApiError.
+   */
+  private async send<R>(path: string, options: ApiRequestOptions, read: (response: Response) => Promise<R>): Promise<R> {
+    const { method = 'GET', query, body, headers, signal, timeoutMs = this.defaultTimeoutMs, credentials = 'omit' } = options;
+    const isForm = typeof FormData !== 'undefined' && body instanceof FormData;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = timeoutMs > 0 ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs) : undefined;
+    const forwardAbort = () => controller.abort();
+    if (signal?.aborted) controller.abort();
+    else signal?.addEventListener('abort', forwardAbort);
+
+    let context: ApiRequestContext = {
+      url: this.url(path, query),
+      init: {
+        method,
+        credentials,
+        headers: { ...(body !== undefined && !isForm ? { 'Content-Type': 'application/json' } : {}), ...headers },
+        body: body === undefined ? undefined : isForm ? (body as FormData) : JSON.stringify(body),
+        signal: controller.signal,
+      },
+    };
+    const cancelled = (error: unknown): ApiError | null => {
+      if (timedOut) return new ApiError('timeout', `Request timed out after ${Math.round(timeoutMs / 1000)}s`, { url: context.url, cause: error });
+      if (signal?.aborted) return new ApiError('aborted', 'Request was cancelled', { url: context.url, cause: error });
+      return null;
+    };
+
+    try {
+      for (const interceptor of this.requestInterceptors) context = await interceptor(context);
+
+      let response: Response;
+      try {
+        response = await fetch(context.url, context.init);
+      } catch (error) {
+        throw cancelled(error) ?? new ApiError('network', 'Could not reach the server', { url: context.url, cause: error });
+      }
+
+      for (const interceptor of this.responseInterceptors) response = await interceptor(response, context);
+
+      if (!response.ok) {
+        const errorBody = await readBody(response).catch(() => undefined);
+        throw new ApiError('http', envelopeMessage(errorBody) || `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`, {
+          url: context.url,
+          status: response.status,
+          body: errorBody,
+        });
+      }
+
+      try {
+        return await read(response);
+      } catch (error) {
+        if (isApiError(error)) throw error;
+        throw cancelled(error) ?? new ApiError('parse', 'The server returned an unreadable response', { url: context.url, status: response.status, cause: error });
+      }
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+  }
+
+  /** Send a request and return the Response once its status is known to be 2xx (body unread). */
+  fetch(path: string, options: ApiRequestOptions = {}): Promise<Response> {
+    return this.send(path, options, async (response) => response);
+  }
+
+  /** Send a request and parse the body as JSON, without looking at the envelope. */
+  json<T>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+    return this.send(path, options, async (response) => (await response.json()) as T);
+  }
+
+  /** Send a request and return the whole envelope; throws a `backend` ApiError unless `status === 1`. */
+  async envelope<T>(path: string, options?: ApiRequestOptions): Promise<ApiEnvelope<T>> {
+    const result = await this.json<ApiEnvelope<T>>(path, options);
+    if (!result || typeof result !== 'object' || typeof result.status !== 'number') {
+      throw new ApiError('parse', 'The server response is missing its status', { url: this.url(path, options?.query), body: result });
+    }
+    if (result.status !== 1) {
+      throw new ApiError('backend', envelopeMessage(result) || 'The request failed', { url: this.url(path, options?.query), status: result.status, body: result });
+    }
+    return result;
+  }
+
+  /** Send a request and return the envelope's `data`. */
+  async request<T>(path: string, options?: ApiRequestOptions): Promise<T> {
+    return (await this.envelope<T>(path, options)).data as T;
+  }
+
+  get<T>(path: string, query?: Record<string, QueryValue>, options?: Omit<ApiRequestOptions, 'method' | 'query'>): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'GET', query });
+  }
+
+  post<T>(path: string, body?: unknown, options?: Omit<ApiRequestOptions, 'method' | 'body'>): Promise<T> {
+    return this.request<T>(path, { ...options, method: 'POST', body });
+  }
+}
+
+export const apiClient = new ApiClient();
+
+/** Editor-facing message for any error a request can throw. */
+export function apiErrorMessage(error: unknown, fallback: string): string {
+  if (isApiError(error)) {
+    switch (error.kind) {
+      case 'backend':
+      case 'http':
+        return error.message || fallback;
+      case 'timeout':
+        return `${fallback}: the server took too long to respond`;
+      case 'aborted':
+        return `${fallback}: request cancelled`;
+      case 'network':
+        return `${fallback}: could not reach the server`;
+      case 'parse':
+        return `${fallback}: unexpected response from the server`;
+    }
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * The `{ success: false }` result services return, with a consistent message.
+ * Logs the underlying error, except for cancellations the caller asked for.
+ */
+export function apiFailure(error: unknown, fallback: string): { success: false; message: string; error?: ApiError } {
+  if (!isApiError(error) || error.kind !== 'aborted') console.error(`${fallback}:`, error);
+  return { success: false, message: apiErrorMessage(error, fallback), error: isApiError(error) ? error : undefined };
+}
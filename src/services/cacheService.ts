@@ -1,5 +1,6 @@
 import { Slot } from '@/types';
-import { buildApiUrl } from '@/config/api';
+import { apiClient } from '@/services/apiClient';
+import { metricsCache } from '@/services/metricsCache';
 
 // Types for the new category format
 interface CategoryDetail {
@@ -7,14 +8,6 @@ interface CategoryDetail {
   catId: number;
 }
 
-interface CategoryResponse {
-  status: number;
-  message: string;
-  data: {
-    categoryDetails: Record<string, CategoryDetail>;
-  };
-}
-
 interface CacheItem<T> {
   data: T;
   timestamp: number;
@@ -83,13 +76,10 @@ class CacheService {
     }
 
     try {
-      const response = await fetch(buildApiUrl('/slots'));
-      if (!response.ok) throw new Error('Failed to fetch slots');
-      
-      const result = await response.json();
-      if (result.status === 1 && result.data?.slotList) {
-        this.saveToCache(this.SLOTS_CACHE_KEY, result.data.slotList);
-        return result.data.slotList;
+      const data = await apiClient.get<{ slotList?: Slot[] }>('/slots');
+      if (data?.slotList) {
+        this.saveToCache(this.SLOTS_CACHE_KEY, data.slotList);
+        return data.slotList;
       }
       throw new Error('Invalid slots data');
     } catch (error) {
@@ -107,13 +97,10 @@ class CacheService {
     }
 
     try {
-      const response = await fetch(buildApiUrl('/sites'));
-      if (!response.ok) throw new Error('Failed to fetch sites');
-      
-      const result = await response.json();
-      if (result.status === 1 && result.data?.siteList) {
-        this.saveToCache(this.SITES_CACHE_KEY, result.data.siteList);
-        return result.data.siteList;
+      const data = await apiClient.get<{ siteList?: string[] }>('/sites');
+      if (data?.siteList) {
+        this.saveToCache(this.SITES_CACHE_KEY, data.siteList);
+        return data.siteList;
       }
       throw new Error('Invalid sites data');
     } catch (error) {
@@ -134,16 +121,13 @@ class CacheService {
     }
 
     try {
-      const response = await fetch(`${buildApiUrl('/ads/categoryDetails')}?param=${encodeURIComponent(searchParam || '')}`);
-      if (!response.ok) throw new Error('Failed to fetch categories');
-      
-      const result = await response.json() as CategoryResponse;
-      if (result.status === 1 && result.data?.categoryDetails) {
+      const data = await apiClient.get<{ categoryDetails?: Record<string, CategoryDetail> }>('/ads/categoryDetails', { param: searchParam || '' });
+      if (data?.categoryDetails) {
         // Only cache if this was a non-search request
         if (!searchParam) {
-          this.saveToCache(this.CATEGORIES_CACHE_KEY, result.data.categoryDetails);
+          this.saveToCache(this.CATEGORIES_CACHE_KEY, data.categoryDetails);
         }
-        return result.data.categoryDetails;
+        return data.categoryDetails;
       }
       throw new Error('Invalid categories data');
     } catch (error) {
@@ -168,11 +152,18 @@ class CacheService {
     }
   }
 
+  // Clear the IndexedDB metrics response cache (see metricsCache)
+  async clearMetricsCache(): Promise<void> {
+    await metricsCache.clear();
+    console.debug('🗑️ Metrics cache cleared');
+  }
+
   // Clear all caches
   clearAllCaches(): void {
     localStorage.removeItem(this.SLOTS_CACHE_KEY);
     localStorage.removeItem(this.SITES_CACHE_KEY);
     localStorage.removeItem(this.CATEGORIES_CACHE_KEY);
+    this.clearMetricsCache();
     console.debug('🗑️ All caches cleared');
   }
 
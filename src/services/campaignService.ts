@@ -1,12 +1,16 @@
-import { buildApiUrl } from '@/config/api';
 import { isV2Active } from '@/utils/v2Normalizer';
+import { apiClient, apiFailure } from '@/services/apiClient';
 
-const getCampaignApiUrl = () => buildApiUrl('/campaigns');
+const CAMPAIGN_PATH = '/campaigns';
+
+const isValidCampaignId = (campaignId: string | number) =>
+  !!campaignId && (isV2Active() || (!isNaN(Number(campaignId)) && Number(campaignId) >= 0));
 
 export interface Campaign {
   id: number;
   campaignId: number;
   name: string;
+  brandName?: string;
   status: number;
   createdBy: number;
   createdAt?: string;
@@ -29,219 +33,109 @@ export interface UpdateCampaignData {
 class CampaignService {
   // Get campaigns with filters
   async getCampaigns(filters?: {
-    campaignId?: number;
+    campaignId?: number | string;
     status?: number;
     createdBy?: number;
-  }): Promise<{ success: boolean; data?: Campaign[]; message?: string }> {
+  }, signal?: AbortSignal): Promise<{ success: boolean; data?: Campaign[]; message?: string }> {
     try {
-      const params = new URLSearchParams();
-      if (filters?.campaignId) params.append('campaignId', filters.campaignId.toString());
-      if (filters?.status !== undefined) params.append('status', filters.status.toString());
-      if (filters?.createdBy) params.append('createdBy', filters.createdBy.toString());
-
-      const url = `${getCampaignApiUrl()}${params.toString() ? `?${params.toString()}` : ''}`;
-      const response = await fetch(url, {
-        method: 'GET',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
+      const result = await apiClient.envelope<{ campaignList?: Campaign[] }>(CAMPAIGN_PATH, {
+        query: {
+          campaignId: filters?.campaignId || undefined,
+          status: filters?.status,
+          createdBy: filters?.createdBy || undefined,
         },
+        signal,
       });
-
-      const result = await response.json();
       return {
-        success: result.status === 1,
+        success: true,
         data: result.data?.campaignList,
         message: result.message
       };
     } catch (error) {
-      console.error('Error fetching campaigns:', error);
-      return {
-        success: false,
-        message: 'Failed to fetch campaigns'
-      };
+      return apiFailure(error, 'Failed to fetch campaigns');
     }
   }
 
   // Create a new campaign
   async createCampaign(campaignData: CreateCampaignData, userId: number = 1): Promise<{ success: boolean; data?: any; message?: string }> {
     try {
-      console.log(`🚀 Creating new campaign...`);
-      
-      const response = await fetch(`${getCampaignApiUrl()}?userId=${userId}`, {
-        method: 'POST',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(campaignData)
-      });
-
-      const result = await response.json();
-      
-      if (result.status === 1) {
-        console.log(`✅ Campaign created successfully`);
-        return {
-          success: true,
-          data: result.data,
-          message: result.message || 'Campaign created successfully'
-        };
-      } else {
-        console.error(`❌ Failed to create campaign:`, result.message);
-        return {
-          success: false,
-          message: result.message || 'Failed to create campaign'
-        };
-      }
-    } catch (error) {
-      console.error(`❌ Error creating campaign:`, error);
+      const result = await apiClient.envelope(CAMPAIGN_PATH, { method: 'POST', query: { userId }, body: campaignData });
+      console.log(`✅ Campaign created successfully`);
       return {
-        success: false,
-        message: error instanceof Error ? error.message : 'An unexpected error occurred while creating campaign'
+        success: true,
+        data: result.data,
+        message: result.message || 'Campaign created successfully'
       };
+    } catch (error) {
+      return apiFailure(error, 'Failed to create campaign');
     }
   }
 
-  // Update a campaign
+  // Update a campaign (POST /campaigns/update, with campaignId in the body)
   async updateCampaign(campaignId: string | number, data: UpdateCampaignData, userId: number = 1): Promise<{ success: boolean; data?: any; message?: string }> {
-    try {
-      console.log(`📝 Updating campaign ${campaignId}...`);
-      
-      if (!campaignId || (!isV2Active() && (isNaN(Number(campaignId)) || Number(campaignId) < 0))) {
-        return {
-          success: false,
-          message: 'Invalid campaign ID'
-        };
-      }
-
-      const response = await fetch(`${getCampaignApiUrl()}?userId=${userId}`, {
-        method: 'PUT',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          campaignId,
-          ...data
-        })
-      });
-
-      const result = await response.json();
-      
-      if (result.status === 1) {
-        console.log(`✅ Campaign ${campaignId} updated successfully`);
-        return {
-          success: true,
-          data: result.data,
-          message: result.message || 'Campaign updated successfully'
-        };
-      } else {
-        console.error(`❌ Failed to update campaign ${campaignId}:`, result.message);
-        return {
-          success: false,
-          message: result.message || 'Failed to update campaign'
-        };
-      }
-    } catch (error) {
-      console.error(`❌ Error updating campaign ${campaignId}:`, error);
+    if (!isValidCampaignId(campaignId)) {
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'An unexpected error occurred while updating campaign'
+        message: 'Invalid campaign ID'
       };
     }
+
+    try {
+      const result = await apiClient.envelope(`${CAMPAIGN_PATH}/update`, { method: 'POST', query: { userId }, body: { campaignId, ...data } });
+      console.log(`✅ Campaign ${campaignId} updated successfully`);
+      return {
+        success: true,
+        data: result.data,
+        message: result.message || 'Campaign updated successfully'
+      };
+    } catch (error) {
+      return apiFailure(error, 'Failed to update campaign');
+    }
   }
 
   // Archive a campaign (and its associated ads)
   async archiveCampaign(campaignId: string | number, userId: number = 1): Promise<{ success: boolean; data?: any; message?: string }> {
-    try {
-      console.log(`📦 Archiving campaign ${campaignId}...`);
-      
-      if (!campaignId || (!isV2Active() && (isNaN(Number(campaignId)) || Number(campaignId) < 0))) {
-        return {
-          success: false,
-          message: 'Invalid campaign ID'
-        };
-      }
-
-      const response = await fetch(`${getCampaignApiUrl()}/archive?userId=${userId}`, {
-        method: 'POST',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ campaignId })
-      });
-
-      const result = await response.json();
-      
-      if (result.status === 1) {
-        console.log(`✅ Campaign ${campaignId} and associated ads archived successfully`);
-        return {
-          success: true,
-          data: result.data,
-          message: result.message || 'Campaign and associated ads archived successfully'
-        };
-      } else {
-        console.error(`❌ Failed to archive campaign ${campaignId}:`, result.message);
-        return {
-          success: false,
-          message: result.message || 'Campaign archival failed'
-        };
-      }
-    } catch (error) {
-      console.error(`❌ Error archiving campaign ${campaignId}:`, error);
+    if (!isValidCampaignId(campaignId)) {
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'An unexpected error occurred while archiving campaign'
+        message: 'Invalid campaign ID'
       };
     }
+
+    try {
+      const result = await apiClient.envelope(`${CAMPAIGN_PATH}/archive`, { method: 'POST', query: { userId }, body: { campaignId } });
+      console.log(`✅ Campaign ${campaignId} and associated ads archived successfully`);
+      return {
+        success: true,
+        data: result.data,
+        message: result.message || 'Campaign and associated ads archived successfully'
+      };
+    } catch (error) {
+      return apiFailure(error, 'Campaign archival failed');
+    }
   }
 
   // Clone a campaign
   async cloneCampaign(campaignId: string | number, userId: number = 1): Promise<{ success: boolean; data?: any; message?: string }> {
-    try {
-      console.log(`📋 Cloning campaign ${campaignId}...`);
-      
-      if (!campaignId || (!isV2Active() && (isNaN(Number(campaignId)) || Number(campaignId) < 0))) {
-        return {
-          success: false,
-          message: 'Invalid campaign ID'
-        };
-      }
-
-      const response = await fetch(`${getCampaignApiUrl()}/clone?userId=${userId}`, {
-        method: 'POST',
-        credentials: 'omit',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ campaignId })
-      });
-
-      const result = await response.json();
-      
-      if (result.status === 1) {
-        console.log(`✅ Campaign ${campaignId} cloned successfully`);
-        return {
-          success: true,
-          data: result.data,
-          message: result.message || 'Campaign cloned successfully'
-        };
-      } else {
-        console.error(`❌ Failed to clone campaign ${campaignId}:`, result.message);
-        return {
-          success: false,
-          message: result.message || 'Failed to clone campaign'
-        };
-      }
-    } catch (error) {
-      console.error(`❌ Error cloning campaign ${campaignId}:`, error);
+    if (!isValidCampaignId(campaignId)) {
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'An unexpected error occurred while cloning campaign'
+        message: 'Invalid campaign ID'
       };
     }
+
+    try {
+      const result = await apiClient.envelope(`${CAMPAIGN_PATH}/clone`, { method: 'POST', query: { userId }, body: { campaignId } });
+      console.log(`✅ Campaign ${campaignId} cloned successfully`);
+      return {
+        success: true,
+        data: result.data,
+        message: result.message || 'Campaign cloned successfully'
+      };
+    } catch (error) {
+      return apiFailure(error, 'Failed to clone campaign');
+    }
   }
 }
 
-export const campaignService = new CampaignService();
+export const campaignService = new CampaignService();
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { Environment, getCurrentEnvironment } from '@/config/api';
+import { LocalListStore } from '@/utils/localStore';
+
+export type FormDraftKind = 'ad' | 'campaign';
+
+export interface FormDraft {
+  /** `${environment}:${path}` — one draft per form route and environment. */
+  key: string;
+  kind: FormDraftKind;
+  /** Route the form lives on, e.g. /campaigns/5/ads/new or /campaigns/5/ads/12/edit. */
+  path: string;
+  environment: Environment;
+  title: string;
+  values: Record<string, unknown>;
+  /** Form state kept outside react-hook-form (e.g. AdForm's other-details rows). */
+  extra: Record<string, unknown>;
+  /** Serialized values the form was loaded with, to tell whether the record changed since. */
+  baseline: string;
+  updatedAt: number;
+}
+
+type DraftListener = () => void;
+
+/**
+ * Autosaved AdForm / CampaignForm drafts, kept in localStorage so a session
+ * expiry or stray navigation doesn't lose a half-filled form.
+ */
+class FormDraftService {
+  private readonly store = new LocalListStore<FormDraft>('buyhatke_form_drafts', 'form drafts');
+  private readonly MAX_DRAFTS = 50;
+  private listeners = new Set<DraftListener>();
+
+  constructor() {
+    // Drafts saved from another tab
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', (e) => {
+        if (e.key === this.store.key) this.notify();
+      });
+    }
+  }
+
+  private readAll(): FormDraft[] {
+    return this.store.read();
+  }
+
+  private writeAll(drafts: FormDraft[]): void {
+    this.store.save(drafts);
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  keyFor(path: string, environment: Environment = getCurrentEnvironment()): string {
+    return `${environment}:${path}`;
+  }
+
+  /** All drafts across environments, newest first. */
+  getDrafts(): FormDraft[] {
+    return this.readAll().sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /** The draft for a route in the current environment. */
+  getDraft(path: string): FormDraft | undefined {
+    const key = this.keyFor(path);
+    return this.readAll().find((d) => d.key === key);
+  }
+
+  saveDraft(input: Omit<FormDraft, 'key' | 'environment' | 'updatedAt'>): FormDraft {
+    const environment = getCurrentEnvironment();
+    const draft: FormDraft = { ...input, key: this.keyFor(input.path, environment), environment, updatedAt: Date.now() };
+    const others = this.readAll().filter((d) => d.key !== draft.key);
+    this.writeAll([draft, ...others].slice(0, this.MAX_DRAFTS));
+    return draft;
+  }
+
+  removeDraft(key: string): void {
+    const drafts = this.readAll();
+    if (!drafts.some((d) => d.key === key)) return;
+    this.writeAll(drafts.filter((d) => d.key !== key));
+  }
+
+  clearAll(): void {
+    this.writeAll([]);
+  }
+
+  /** Called whenever drafts change in this tab or another; returns an unsubscribe function. */
+  subscribe(listener: DraftListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const formDraftService = new FormDraftService();
@@ -0,0 +1,174 @@
+import { getApiVersion, getCurrentEnvironment } from '@/config/api';
+import type { ApiEnvelope } from '@/services/apiClient';
+import { API_TIMEZONE, toYmd } from '@/utils/dates';
+
+/**
+ * Persistent cache of metrics responses, stored in IndexedDB.
+ *
+ * Entries are keyed by environment, API version, endpoint and the normalized
+ * request body, and hold the raw envelope so the service's processing runs the
+ * same way on a hit as on a live response. How long an entry may be served
+ * depends on the date range it covers:
+ *
+ * - a closed range (ending before today) can't change, so it is served for
+ *   CLOSED_RANGE_TTL without revalidating;
+ * - a range touching today is served as-is for FRESH_FOR, then served stale
+ *   while a background request refreshes it, up to STALE_FOR.
+ *
+ * Falls back to an in-memory map where IndexedDB isn't available.
+ */
+
+const DB_NAME = 'buyhatke_metrics_cache';
+const STORE_NAME = 'responses';
+const DB_VERSION = 1;
+
+const MINUTE = 60 * 1000;
+export const FRESH_FOR = 5 * MINUTE;
+export const STALE_FOR = 24 * 60 * MINUTE;
+export const CLOSED_RANGE_TTL = 30 * 24 * 60 * MINUTE;
+
+export interface CachedResponse<T = unknown> {
+  key: string;
+  envelope: ApiEnvelope<T>;
+  storedAt: number;
+}
+
+/** `fresh`: serve; `stale`: serve and revalidate; `expired`: fetch. */
+export type CacheState = 'fresh' | 'stale' | 'expired';
+
+/** Sort object keys and ID lists so equivalent bodies share one key. */
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map(normalize);
+    return items.every((v) => typeof v === 'string' || typeof v === 'number')
+      ? [...items].sort((a, b) => String(a).localeCompare(String(b), undefined, { numeric: true }))
+      : items;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((k) => [k, normalize((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
+
+export const metricsCacheKey = (path: string, body: Record<string, unknown>): string =>
+  JSON.stringify([getCurrentEnvironment(), getApiVersion(), path, normalize(body)]);
+
+/**
+ * Whether a request body's `to` (API-timezone wall clock) ends before today
+ * there; bodies without one count as open.
+ */
+export function isClosedRange(body: Record<string, unknown>, now = new Date()): boolean {
+  if (typeof body.to !== 'string' || !body.to) return false;
+  return body.to.slice(0, 10) < toYmd(now, API_TIMEZONE);
+}
+
+export function cacheState(body: Record<string, unknown>, storedAt: number, now = Date.now()): CacheState {
+  const age = now - storedAt;
+  if (isClosedRange(body, new Date(now))) return age < CLOSED_RANGE_TTL ? 'fresh' : 'expired';
+  if (age < FRESH_FOR) return 'fresh';
+  return age < STALE_FOR ? 'stale' : 'expired';
+}
+
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class MetricsCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private memory = new Map<string, CachedResponse>();
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase | null>((resolve) => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.error('Error opening metrics cache, using memory only:', request.error);
+          resolve(null);
+        };
+      });
+      void this.prune();
+    }
+    return this.db;
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore | null> {
+    const db = await this.open();
+    return db ? db.transaction(STORE_NAME, mode).objectStore(STORE_NAME) : null;
+  }
+
+  async get<T>(key: string): Promise<CachedResponse<T> | null> {
+    try {
+      const store = await this.store('readonly');
+      const entry = store
+        ? await settle(store.get(key) as IDBRequest<CachedResponse<T> | undefined>)
+        : (this.memory.get(key) as CachedResponse<T> | undefined);
+      return entry ?? null;
+    } catch (error) {
+      console.error('Error reading metrics cache:', error);
+      return null;
+    }
+  }
+
+  async put<T>(key: string, envelope: ApiEnvelope<T>): Promise<void> {
+    const entry: CachedResponse<T> = { key, envelope, storedAt: Date.now() };
+    try {
+      const store = await this.store('readwrite');
+      if (store) await settle(store.put(entry));
+      else this.memory.set(key, entry);
+    } catch (error) {
+      console.error('Error saving metrics cache:', error);
+    }
+  }
+
+  /** Drop entries no range could still use. */
+  async prune(): Promise<void> {
+    const cutoff = Date.now() - Math.max(CLOSED_RANGE_TTL, STALE_FOR);
+    try {
+      const store = await this.store('readwrite');
+      if (!store) {
+        this.memory.forEach((entry, key) => entry.storedAt < cutoff && this.memory.delete(key));
+        return;
+      }
+      await new Promise<void>((resolve, reject) => {
+        const request = store.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return resolve();
+          if ((cursor.value as CachedResponse).storedAt < cutoff) cursor.delete();
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      });
+    } catch (error) {
+      console.error('Error pruning metrics cache:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    try {
+      const store = await this.store('readwrite');
+      if (store) await settle(store.clear());
+    } catch (error) {
+      console.error('Error clearing metrics cache:', error);
+    }
+  }
+}
+
+export const metricsCache = new MetricsCache();
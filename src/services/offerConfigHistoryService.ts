@@ -0,0 +1,91 @@
+import type { OfferConfigMap } from '@/services/offerConfigService';
+import { ApiVersion, Environment, getApiVersion, getCurrentEnvironment } from '@/config/api';
+import { LocalListStore, createLocalId } from '@/utils/localStore';
+
+export type OfferChangeAction = 'create' | 'edit' | 'delete';
+
+export interface OfferConfigVersion {
+  id: string;
+  action: OfferChangeAction;
+  offerId: string;
+  user: string;
+  timestamp: number;
+  environment: Environment;
+  apiVersion: ApiVersion;
+  /** The whole config as the server had it just before the change. */
+  before: OfferConfigMap;
+  /** The config the server answered with, or null if it didn't send one. */
+  after: OfferConfigMap | null;
+  note?: string;
+}
+
+export const OFFER_CHANGE_ACTION_LABELS: Record<OfferChangeAction, string> = {
+  create: 'Created',
+  edit: 'Edited',
+  delete: 'Deleted',
+};
+
+/**
+ * Local, per-browser versions of the offers config. The backend overwrites a
+ * single config file, so offerConfigService snapshots the map before every
+ * create/edit/delete and records it here; the History panel diffs and rolls
+ * back from these. Snapshots are whole maps, so only the latest MAX_ENTRIES
+ * are kept, fewer if localStorage runs out of room.
+ */
+class OfferConfigHistoryService {
+  private readonly store = new LocalListStore<OfferConfigVersion>('buyhatke_offers_config_history', 'offers config history');
+  private readonly MAX_ENTRIES = 50;
+  private actor: string | null = null;
+
+  /** Kept in sync with the signed-in user by AuthProvider. */
+  setActor(username: string | null): void {
+    this.actor = username;
+  }
+
+  private readAll(): OfferConfigVersion[] {
+    return this.store.read();
+  }
+
+  private writeAll(entries: OfferConfigVersion[]): void {
+    let kept = entries.slice(-this.MAX_ENTRIES);
+    while (kept.length) {
+      try {
+        this.store.write(kept);
+        return;
+      } catch (error) {
+        // Out of quota: drop the oldest half and try again
+        if (kept.length === 1) console.error('Error saving offers config history:', error);
+        kept = kept.slice(Math.ceil(kept.length / 2));
+      }
+    }
+    this.store.remove();
+  }
+
+  record(change: Pick<OfferConfigVersion, 'action' | 'offerId' | 'before' | 'after' | 'note'>): OfferConfigVersion {
+    const entry: OfferConfigVersion = {
+      id: createLocalId(),
+      user: this.actor || 'unknown',
+      timestamp: Date.now(),
+      environment: getCurrentEnvironment(),
+      apiVersion: getApiVersion(),
+      ...change,
+    };
+    this.writeAll([...this.readAll(), entry]);
+    return entry;
+  }
+
+  /** Versions for the current environment, newest first. */
+  getEntries(): OfferConfigVersion[] {
+    const environment = getCurrentEnvironment();
+    return this.readAll()
+      .filter((e) => e.environment === environment)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  clear(): void {
+    const environment = getCurrentEnvironment();
+    this.writeAll(this.readAll().filter((e) => e.environment !== environment));
+  }
+}
+
+export const offerConfigHistoryService = new OfferConfigHistoryService();
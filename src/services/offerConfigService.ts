@@ -1,4 +1,5 @@
-import { buildApiUrl } from '@/config/api';
+import { apiClient, apiFailure } from '@/services/apiClient';
+import { OfferChangeAction, offerConfigHistoryService } from '@/services/offerConfigHistoryService';
 
 export interface OfferConfigItem {
   url_reg_arr: string[];
@@ -27,27 +28,20 @@ export interface OfferConfigItem {
 
 export type OfferConfigMap = Record<string, OfferConfigItem[]>;
 
-class OfferConfigService {
-  private get baseUrl() {
-    return buildApiUrl('/offersConfig');
-  }
+const OFFERS_PATH = '/offersConfig';
 
+class OfferConfigService {
   async getConfig(): Promise<{ success: boolean; data?: OfferConfigMap; filePath?: string; message?: string }> {
     try {
-      const response = await fetch(this.baseUrl, {
-        method: 'GET',
-        headers: { 'Content-Type': 'application/json' },
-      });
-      const result = await response.json();
+      const result = await apiClient.envelope<{ offersConfig?: OfferConfigMap; filePath?: string }>(OFFERS_PATH);
       return {
-        success: result.status === 1,
+        success: true,
         data: result.data?.offersConfig || {},
         filePath: result.data?.filePath,
-        message: result.err || result.message,
+        message: result.message,
       };
     } catch (error) {
-      console.error('getConfig error:', error);
-      return { success: false, message: 'Failed to fetch offers config' };
+      return apiFailure(error, 'Failed to fetch offers config');
     }
   }
 
@@ -56,89 +50,67 @@ class OfferConfigService {
       const formData = new FormData();
       formData.append('image', file);
 
-      const response = await fetch(`${this.baseUrl}/uploadImage`, {
+      const result = await apiClient.envelope<{ image_url?: string; width?: number; height?: number }>(`${OFFERS_PATH}/uploadImage`, {
         method: 'POST',
         body: formData,
+        timeoutMs: 120_000,
       });
-
-      const result = await response.json();
       return {
-        success: result.status === 1,
+        success: true,
         imageUrl: result.data?.image_url,
         width: result.data?.width,
         height: result.data?.height,
-        message: result.err || result.message,
+        message: result.message,
       };
     } catch (error) {
-      console.error('uploadImage error:', error);
-      return { success: false, message: 'Failed to upload image' };
+      return apiFailure(error, 'Failed to upload image');
     }
   }
 
+  /** `note` is kept with the history entry for this change. */
   async createOffer(payload: {
     posList: string[];
     offer: Partial<OfferConfigItem>;
-  }): Promise<{ success: boolean; data?: OfferConfigMap; message?: string }> {
-    try {
-      const response = await fetch(`${this.baseUrl}/create`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-
-      const result = await response.json();
-      return {
-        success: result.status === 1,
-        data: result.data?.offersConfig,
-        message: result.err || result.message,
-      };
-    } catch (error) {
-      console.error('createOffer error:', error);
-      return { success: false, message: 'Failed to create offer' };
-    }
+  }, note?: string): Promise<{ success: boolean; data?: OfferConfigMap; message?: string }> {
+    return this.mutate('create', payload.offer.offer_id ?? '', payload, 'Failed to create offer', note);
   }
 
   async editOffer(payload: {
     posList: string[];
     offer: Partial<OfferConfigItem>;
     previousOfferId: string;
-  }): Promise<{ success: boolean; data?: OfferConfigMap; message?: string }> {
-    try {
-      const response = await fetch(`${this.baseUrl}/edit`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+  }, note?: string): Promise<{ success: boolean; data?: OfferConfigMap; message?: string }> {
+    return this.mutate('edit', payload.previousOfferId, payload, 'Failed to edit offer', note);
+  }
 
-      const result = await response.json();
-      return {
-        success: result.status === 1,
-        data: result.data?.offersConfig,
-        message: result.err || result.message,
-      };
-    } catch (error) {
-      console.error('editOffer error:', error);
-      return { success: false, message: 'Failed to edit offer' };
-    }
+  async deleteOffer(offerId: string, note?: string): Promise<{ success: boolean; data?: OfferConfigMap; message?: string }> {
+    return this.mutate('delete', offerId, { offerId }, 'Failed to delete offer', note);
   }
 
-  async deleteOffer(offerId: string): Promise<{ success: boolean; data?: OfferConfigMap; message?: string }> {
+  // create / edit / delete all answer with the updated config. The config as it
+  // was is fetched first and kept in offerConfigHistoryService; without that
+  // snapshot the change isn't made, since it couldn't be rolled back.
+  private async mutate(
+    action: OfferChangeAction,
+    offerId: string,
+    body: unknown,
+    failure: string,
+    note?: string
+  ): Promise<{ success: boolean; data?: OfferConfigMap; message?: string }> {
+    const prior = await this.getConfig();
+    if (!prior.success || !prior.data) {
+      return { success: false, message: `Couldn't snapshot the current config, so nothing was changed: ${prior.message || 'request failed'}` };
+    }
     try {
-      const response = await fetch(`${this.baseUrl}/delete`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ offerId }),
-      });
-
-      const result = await response.json();
+      const result = await apiClient.envelope<{ offersConfig?: OfferConfigMap }>(`${OFFERS_PATH}/${action}`, { method: 'POST', body });
+      offerConfigHistoryService.record({ action, offerId, before: prior.data, after: result.data?.offersConfig ?? null, note });
       return {
-        success: result.status === 1,
+        success: true,
         data: result.data?.offersConfig,
-        message: result.err || result.message,
+        message: result.message,
       };
     } catch (error) {
-      console.error('deleteOffer error:', error);
-      return { success: false, message: 'Failed to delete offer' };
+      return apiFailure(error, failure);
     }
   }
 }
@@ -0,0 +1,158 @@
+import { getApiVersion, getCurrentEnvironment } from '@/config/api';
+import { analyticsService, MetricsPayload } from '@/services/analyticsService';
+import { normalizeFilterIds } from '@/utils/v2Normalizer';
+import { dimensionKind, type PivotCounts, type PivotDimension, type PivotRecord } from '@/utils/pivot';
+
+type EntityDimension = Extract<PivotDimension, 'campaign' | 'ad' | 'slot' | 'site'>;
+
+export interface PivotMember {
+  id: string | number;
+  name: string;
+}
+
+export interface PivotQuery {
+  /** Dates, interval and any filters that apply to every call. */
+  base: MetricsPayload;
+  dimensions: PivotDimension[];
+  /** Members to split each entity dimension by — usually the current filter selection. */
+  members: Partial<Record<EntityDimension, PivotMember[]>>;
+}
+
+export interface PivotFetchResult {
+  records: PivotRecord[];
+  calls: number;
+  /** Calls that failed; their slice of the table is missing. */
+  failed: number;
+  /** Calls answered from the cache. */
+  cached: number;
+}
+
+const PAYLOAD_FIELD: Record<EntityDimension, 'campaignId' | 'adId' | 'slotId' | 'siteId'> = {
+  campaign: 'campaignId',
+  ad: 'adId',
+  slot: 'slotId',
+  site: 'siteId',
+};
+
+const MAX_CALLS = 120;
+const BATCH_SIZE = 6;
+const MAX_CACHE_ENTRIES = 500;
+
+type Slice = Array<{ keys: PivotRecord['keys']; counts: PivotCounts }>;
+
+/**
+ * Fetches the records behind the Analytics pivot explorer. Entity dimensions
+ * (campaign, ad, slot, POS) fan out one call per member combination; a
+ * breakdown or date dimension picks the endpoint each call goes to. Every
+ * call's result is cached in memory, so rearranging a layout only fetches the
+ * slices it hasn't seen.
+ */
+class PivotService {
+  private cache = new Map<string, Slice>();
+
+  private cacheKey(kind: string, payload: MetricsPayload): string {
+    return JSON.stringify([getCurrentEnvironment(), getApiVersion(), kind, payload]);
+  }
+
+  private remember(key: string, slice: Slice): void {
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.set(key, slice);
+  }
+
+  /** Member combinations across the entity dimensions, as payload overrides plus record keys. */
+  private combinations(query: PivotQuery): Array<{ payload: MetricsPayload; keys: PivotRecord['keys'] }> {
+    const entities = query.dimensions.filter((d): d is EntityDimension => dimensionKind(d) === 'entity');
+    return entities.reduce<Array<{ payload: MetricsPayload; keys: PivotRecord['keys'] }>>(
+      (combos, dim) => combos.flatMap((combo) => (query.members[dim] ?? []).map((member) => ({
+        payload: { ...combo.payload, [PAYLOAD_FIELD[dim]]: normalizeFilterIds([member.id]) },
+        keys: { ...combo.keys, [dim]: member.name },
+      }))),
+      [{ payload: { ...query.base }, keys: {} }]
+    );
+  }
+
+  /** How many calls a query needs, so the UI can warn before running it. */
+  countCalls(query: PivotQuery): number {
+    return this.combinations(query).length;
+  }
+
+  private async fetchSlice(payload: MetricsPayload, split: PivotDimension | undefined): Promise<{ slice?: Slice; cached: boolean }> {
+    const kind = split ?? 'total';
+    const key = this.cacheKey(kind, payload);
+    const hit = this.cache.get(key);
+    if (hit) return { slice: hit, cached: true };
+
+    let slice: Slice | undefined;
+    if (split === 'date') {
+      const res = await analyticsService.getTrendData(payload);
+      slice = res.success ? (res.data ?? []).map((point) => ({
+        keys: { date: point.date },
+        counts: { impressions: point.impressions || 0, clicks: point.clicks || 0, conversions: point.conversions || 0, landingCount: point.landingCount || 0 },
+      })) : undefined;
+    } else if (split) {
+      const res = await analyticsService.getBreakdownData({ ...payload, by: split });
+      slice = res.success ? (res.data ?? []).map((item) => ({
+        keys: { [split]: item.name },
+        counts: { impressions: item.impressions || 0, clicks: item.clicks || 0, conversions: item.conversions || 0, landingCount: null },
+      })) : undefined;
+    } else {
+      const res = await analyticsService.getMetrics(payload);
+      slice = res.success && res.data ? [{
+        keys: {},
+        counts: { impressions: res.data.impressions, clicks: res.data.clicks, conversions: res.data.conversions, landingCount: res.data.landingCount },
+      }] : undefined;
+    }
+
+    if (slice) this.remember(key, slice);
+    return { slice, cached: false };
+  }
+
+  async fetchRecords(
+    query: PivotQuery,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<{ success: boolean; data?: PivotFetchResult; message?: string }> {
+    const combos = this.combinations(query);
+    if (combos.length === 0) {
+      return { success: false, message: 'Nothing to split by — the selected filters have no members for this layout.' };
+    }
+    if (combos.length > MAX_CALLS) {
+      return { success: false, message: `This layout needs ${combos.length} calls (limit ${MAX_CALLS}). Narrow the filters or drop a dimension.` };
+    }
+
+    const split = query.dimensions.find((d) => dimensionKind(d) !== 'entity');
+    const records: PivotRecord[] = [];
+    let failed = 0;
+    let cached = 0;
+    let done = 0;
+    onProgress?.(0, combos.length);
+
+    for (let i = 0; i < combos.length; i += BATCH_SIZE) {
+      const batch = combos.slice(i, i + BATCH_SIZE);
+      const results = await Promise.all(batch.map((combo) => this.fetchSlice(combo.payload, split)));
+      results.forEach((result, j) => {
+        if (result.cached) cached++;
+        if (!result.slice) {
+          failed++;
+          return;
+        }
+        result.slice.forEach((item) => records.push({ keys: { ...batch[j].keys, ...item.keys }, counts: item.counts }));
+      });
+      done += batch.length;
+      onProgress?.(done, combos.length);
+    }
+
+    if (failed === combos.length) {
+      return { success: false, message: 'Failed to fetch pivot data' };
+    }
+    return { success: true, data: { records, calls: combos.length, failed, cached } };
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+export const pivotService = new PivotService();
@@ -0,0 +1,191 @@
+import { getApiVersion, getCurrentEnvironment } from '@/config/api';
+import { ApiError } from '@/services/apiClient';
+
+/**
+ * Query layer for the metrics endpoints.
+ *
+ * QueryPool runs requests with bounded concurrency and shares one request
+ * between callers asking for the same endpoint and normalized body at the same
+ * time. A shared request is only cancelled once every caller has aborted; a
+ * caller that aborts gets an `aborted` ApiError straight away.
+ *
+ * QueryBatch groups the requests of one page load: it owns the AbortSignal
+ * they run under and counts how many have finished, so the UI can show
+ * "12/40 series loaded". Starting a new batch for the same scope aborts the
+ * previous one, which is how superseded fetches get cancelled. It also
+ * records which responses came from the metrics cache, for the "as of HH:MM"
+ * freshness shown next to the data.
+ */
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+const abortedError = (path: string) => new ApiError('aborted', 'Request was cancelled', { url: path });
+
+export class QueryPool {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private inFlight = new Map<string, SharedRequest>();
+
+  constructor(private readonly limit = 6) {}
+
+  /** Requests currently running or queued, for diagnostics. */
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  private async acquire(signal: AbortSignal, path: string): Promise<void> {
+    if (this.active < this.limit) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal.removeEventListener('abort', cancel);
+        this.active++;
+        resolve();
+      };
+      const cancel = () => {
+        this.waiting = this.waiting.filter((w) => w !== start);
+        reject(abortedError(path));
+      };
+      signal.addEventListener('abort', cancel, { once: true });
+      this.waiting.push(start);
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    this.waiting.shift()?.();
+  }
+
+  /**
+   * Run `task` for `path` + `body`, or join an identical request already in
+   * flight. The task receives the signal of the shared request, not the caller's.
+   */
+  run<T>(path: string, body: unknown, task: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(abortedError(path));
+
+    const key = JSON.stringify([getCurrentEnvironment(), getApiVersion(), path, body]);
+    let shared = this.inFlight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const promise = (async () => {
+        await this.acquire(controller.signal, path);
+        try {
+          return await task(controller.signal);
+        } finally {
+          this.release();
+        }
+      })();
+      const entry: SharedRequest = { promise, controller, subscribers: 0 };
+      promise.then(
+        () => this.inFlight.get(key) === entry && this.inFlight.delete(key),
+        () => this.inFlight.get(key) === entry && this.inFlight.delete(key)
+      );
+      this.inFlight.set(key, entry);
+      shared = entry;
+    }
+
+    const entry = shared;
+    entry.subscribers++;
+    if (!signal) return entry.promise as Promise<T>;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers--;
+        if (entry.subscribers === 0) {
+          entry.controller.abort();
+          this.inFlight.delete(key);
+        }
+        reject(abortedError(path));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      (entry.promise as Promise<T>).then(
+        (value) => { signal.removeEventListener('abort', onAbort); resolve(value); },
+        (error) => { signal.removeEventListener('abort', onAbort); reject(error); }
+      );
+    });
+  }
+}
+
+export interface QueryProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface QueryBatchOptions {
+  /** Skip the metrics cache and fetch everything live. */
+  bypassCache?: boolean;
+}
+
+export class QueryBatch {
+  private readonly controller = new AbortController();
+  private progress: QueryProgress = { done: 0, total: 0, failed: 0 };
+  private readonly startedAt = Date.now();
+  private oldestCached: number | null = null;
+  private revalidations: Promise<boolean>[] = [];
+
+  constructor(
+    private readonly onProgress?: (progress: QueryProgress) => void,
+    readonly options: QueryBatchOptions = {}
+  ) {}
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get aborted(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  abort(): void {
+    this.controller.abort();
+  }
+
+  private report(change: Partial<QueryProgress>): void {
+    this.progress = {
+      done: this.progress.done + (change.done ?? 0),
+      total: this.progress.total + (change.total ?? 0),
+      failed: this.progress.failed + (change.failed ?? 0),
+    };
+    if (!this.aborted) this.onProgress?.(this.progress);
+  }
+
+  /**
+   * Record a response served from the metrics cache, stored at `storedAt`.
+   * `revalidation` resolves to whether a background refresh changed it.
+   */
+  noteCached(storedAt: number, revalidation?: Promise<boolean>): void {
+    this.oldestCached = Math.min(this.oldestCached ?? storedAt, storedAt);
+    if (revalidation) this.revalidations.push(revalidation);
+  }
+
+  /** When the data is from: the oldest cached response used, else when the batch started. */
+  get asOf(): number {
+    return Math.min(this.oldestCached ?? this.startedAt, this.startedAt);
+  }
+
+  /** Whether any cached response is being refreshed in the background. */
+  get revalidating(): boolean {
+    return this.revalidations.length > 0;
+  }
+
+  /** Resolves once every background refresh is done: true if any response changed. */
+  revalidated(): Promise<boolean> {
+    return Promise.all(this.revalidations).then((changes) => changes.some(Boolean));
+  }
+
+  /** Count a service call towards this batch's progress. */
+  track<T extends { success: boolean }>(call: Promise<T>): Promise<T> {
+    this.report({ total: 1 });
+    return call.then(
+      (result) => { this.report({ done: 1, failed: result.success ? 0 : 1 }); return result; },
+      (error) => { this.report({ done: 1, failed: 1 }); throw error; }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { DEFAULT_TIMEZONE, isValidTimezone, setReportingTimezone } from '@/utils/dates';
+
+type Listener = (timeZone: string) => void;
+
+/**
+ * Each user's reporting timezone, kept in localStorage. Whatever applies to
+ * the signed-in user is pushed into utils/dates, which every date range,
+ * payload and label reads from.
+ */
+class ReportingTimezoneService {
+  private readonly STORAGE_KEY = 'buyhatke_reporting_timezones';
+  private owner: string | null = null;
+  private applied = DEFAULT_TIMEZONE;
+  private listeners = new Set<Listener>();
+
+  private readAll(): Record<string, string> {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as Record<string, string>) : {};
+    } catch (error) {
+      console.error('Error reading reporting timezones:', error);
+      return {};
+    }
+  }
+
+  /** Push the owner's zone into utils/dates; listeners hear only actual changes. */
+  private apply(): void {
+    const timeZone = this.getTimezone();
+    if (timeZone === this.applied) return;
+    this.applied = timeZone;
+    setReportingTimezone(timeZone);
+    this.listeners.forEach((listener) => listener(timeZone));
+  }
+
+  /** Kept in sync with the signed-in user by AuthProvider. */
+  setOwner(username: string | null): void {
+    this.owner = username;
+    this.apply();
+  }
+
+  getTimezone(): string {
+    const stored = this.owner ? this.readAll()[this.owner] : undefined;
+    return stored && isValidTimezone(stored) ? stored : DEFAULT_TIMEZONE;
+  }
+
+  setTimezone(timeZone: string): { success: boolean; message?: string } {
+    if (!this.owner) return { success: false, message: 'Sign in to choose a reporting timezone' };
+    if (!isValidTimezone(timeZone)) return { success: false, message: `Unknown timezone "${timeZone}"` };
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ ...this.readAll(), [this.owner]: timeZone }));
+    } catch (error) {
+      console.error('Error saving reporting timezone:', error);
+      return { success: false, message: 'Failed to save the timezone' };
+    }
+    this.apply();
+    return { success: true };
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const reportingTimezoneService = new ReportingTimezoneService();
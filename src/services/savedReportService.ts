@@ -0,0 +1,214 @@
+import { ApiVersion, Environment, getApiVersion, getCurrentEnvironment } from '@/config/api';
+import { MetricsData } from '@/types';
+import { analyticsService } from '@/services/analyticsService';
+import { adService } from '@/services/adService';
+import { AnalyticsUrlState, encodeAnalyticsUrlState } from '@/utils/analyticsUrlState';
+import { normalizeFilterIds } from '@/utils/v2Normalizer';
+import { daysAgo, todayYmd } from '@/utils/dates';
+import { LocalListStore, createLocalId } from '@/utils/localStore';
+
+/** Analytics filters without the dates — those come from the report's range. */
+export type SavedReportFilters = Omit<AnalyticsUrlState, 'from' | 'to'>;
+
+/** Fixed dates, or the last N days up to today (for "weekly" style reports). */
+export type SavedReportRange = { kind: 'fixed'; from: string; to: string } | { kind: 'rolling'; days: number };
+
+export interface SavedReport {
+  id: string;
+  owner: string;
+  name: string;
+  /** V1 integer IDs and V2 UUIDs don't carry over, so a report only opens where it was saved. */
+  environment: Environment;
+  apiVersion: ApiVersion;
+  filters: SavedReportFilters;
+  range: SavedReportRange;
+  pinned: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const VIEW_LABELS: Record<SavedReportFilters['view'], string> = {
+  campaign: 'Campaigns',
+  slot: 'Slots',
+  ad: 'Ads',
+  pos: 'Marketplaces',
+};
+
+/**
+ * Named Analytics reports, kept per user in localStorage. Reports can be
+ * pinned to the Dashboard, where `fetchMetrics` supplies their headline numbers.
+ */
+class SavedReportService {
+  private readonly store = new LocalListStore<SavedReport>('buyhatke_saved_reports', 'saved reports');
+  private owner: string | null = null;
+
+  /** Kept in sync with the signed-in user by AuthProvider. */
+  setOwner(username: string | null): void {
+    this.owner = username;
+  }
+
+  private get currentOwner(): string {
+    return this.owner ?? 'unknown';
+  }
+
+  private readAll(): SavedReport[] {
+    return this.store.read();
+  }
+
+  /** Whether the reports were stored; storage can be full or unavailable. */
+  private writeAll(reports: SavedReport[]): boolean {
+    return this.store.save(reports);
+  }
+
+  private nameTaken(reports: SavedReport[], name: string, exceptId?: string): boolean {
+    const key = name.trim().toLowerCase();
+    return reports.some((r) => r.owner === this.currentOwner && r.id !== exceptId && r.name.trim().toLowerCase() === key);
+  }
+
+  /** The signed-in user's reports, by name. */
+  getReports(): SavedReport[] {
+    return this.readAll()
+      .filter((r) => r.owner === this.currentOwner)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  getPinnedReports(): SavedReport[] {
+    return this.getReports().filter((r) => r.pinned);
+  }
+
+  /** Whether the report's IDs mean anything against the current environment and API version. */
+  isUsable(report: SavedReport): boolean {
+    return report.environment === getCurrentEnvironment() && report.apiVersion === getApiVersion();
+  }
+
+  saveReport(input: { name: string; filters: SavedReportFilters; range: SavedReportRange }): { success: boolean; data?: SavedReport; message?: string } {
+    const name = input.name.trim();
+    if (!name) return { success: false, message: 'Report name is required' };
+
+    const reports = this.readAll();
+    if (this.nameTaken(reports, name)) return { success: false, message: `A report named "${name}" already exists` };
+
+    const now = Date.now();
+    const report: SavedReport = {
+      id: createLocalId(now),
+      owner: this.currentOwner,
+      name,
+      environment: getCurrentEnvironment(),
+      apiVersion: getApiVersion(),
+      filters: input.filters,
+      range: input.range,
+      pinned: false,
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (!this.writeAll([...reports, report])) return { success: false, message: 'Failed to save report' };
+    return { success: true, data: report };
+  }
+
+  renameReport(id: string, name: string): { success: boolean; message?: string } {
+    const reports = this.readAll();
+    const report = reports.find((r) => r.id === id && r.owner === this.currentOwner);
+    if (!report) return { success: false, message: 'Report not found' };
+    const trimmed = name.trim();
+    if (!trimmed) return { success: false, message: 'Report name is required' };
+    if (this.nameTaken(reports, trimmed, id)) return { success: false, message: `A report named "${trimmed}" already exists` };
+    report.name = trimmed;
+    report.updatedAt = Date.now();
+    if (!this.writeAll(reports)) return { success: false, message: 'Failed to rename report' };
+    return { success: true };
+  }
+
+  setPinned(id: string, pinned: boolean): { success: boolean; message?: string } {
+    const reports = this.readAll();
+    const report = reports.find((r) => r.id === id && r.owner === this.currentOwner);
+    if (!report) return { success: false, message: 'Report not found' };
+    report.pinned = pinned;
+    report.updatedAt = Date.now();
+    if (!this.writeAll(reports)) return { success: false, message: `Failed to ${pinned ? 'pin' : 'unpin'} report` };
+    return { success: true };
+  }
+
+  deleteReport(id: string): { success: boolean; message?: string } {
+    if (!this.writeAll(this.readAll().filter((r) => !(r.id === id && r.owner === this.currentOwner)))) {
+      return { success: false, message: 'Failed to delete report' };
+    }
+    return { success: true };
+  }
+
+  /** The dates a report covers today, in the reporting timezone. */
+  resolveRange(range: SavedReportRange): { from: string; to: string } {
+    if (range.kind === 'fixed') return { from: range.from, to: range.to };
+    return { from: daysAgo(range.days - 1), to: todayYmd() };
+  }
+
+  /** One-line summary, e.g. "Slots · 2 campaigns · last 7 days". */
+  describe(report: SavedReport): string {
+    const { filters, range } = report;
+    const parts = [VIEW_LABELS[filters.view]];
+    const count = (n: number, noun: string) => {
+      if (n > 0) parts.push(`${n} ${noun}${n === 1 ? '' : 's'}`);
+    };
+    count(filters.campaigns.length, 'campaign');
+    count(filters.slots.length, 'slot');
+    count(filters.pos.length, 'marketplace');
+    count(filters.platforms.length, 'platform');
+    count(filters.exactAdNames.length + filters.startsWithAdNames.length, 'ad name');
+    parts.push(range.kind === 'rolling' ? `last ${range.days} day${range.days === 1 ? '' : 's'}` : `${range.from} – ${range.to}`);
+    return parts.join(' · ');
+  }
+
+  /** Analytics query string that opens the report. */
+  toSearchParams(report: SavedReport): URLSearchParams {
+    return encodeAnalyticsUrlState({ ...report.filters, ...this.resolveRange(report.range) });
+  }
+
+  /**
+   * Headline metrics for a report's filters, as one /metrics/all call. Ad names
+   * and platforms are resolved to ad and slot IDs the way Analytics does.
+   */
+  async fetchMetrics(report: SavedReport, signal?: AbortSignal): Promise<{ success: boolean; data?: MetricsData; message?: string }> {
+    const { filters } = report;
+    const { from, to } = this.resolveRange(report.range);
+
+    let adIds: (string | number)[] | undefined;
+    if (filters.exactAdNames.length > 0 || filters.startsWithAdNames.length > 0) {
+      if (filters.campaigns.length === 0) {
+        return { success: false, message: 'Ad name filters need the report to select campaigns' };
+      }
+      const labels = await Promise.all(filters.campaigns.map((id) => adService.getAdLabels(id)));
+      const options = labels.flatMap((res) => (res.success && res.data ? res.data : []));
+      adIds = Array.from(new Set(options
+        .filter((opt) => filters.exactAdNames.includes(opt.name) || filters.startsWithAdNames.includes(opt.label))
+        .map((opt) => opt.adId)));
+      if (adIds.length === 0) return { success: false, message: 'None of the report\'s ad names exist any more' };
+    }
+
+    let slotIds: (string | number)[] = filters.slots;
+    if (slotIds.length === 0 && filters.platforms.length > 0) {
+      const slotsRes = await analyticsService.getSlots();
+      if (!slotsRes.success || !slotsRes.data) return { success: false, message: slotsRes.message || 'Failed to fetch slots' };
+      slotIds = slotsRes.data
+        .filter((slot) => filters.platforms.includes(String(slot.platform)))
+        .map((slot) => slot.slotId);
+    }
+
+    const result = await analyticsService.getMetrics({
+      from,
+      to,
+      campaignId: filters.campaigns.length > 0 ? normalizeFilterIds(filters.campaigns) : undefined,
+      slotId: slotIds.length > 0 ? normalizeFilterIds(slotIds) : undefined,
+      siteId: filters.pos.length > 0 ? normalizeFilterIds(filters.pos) : undefined,
+      adId: adIds ? normalizeFilterIds(adIds) : undefined,
+      interval: filters.grouping,
+    }, signal);
+    if (!result.success || !result.data) return { success: false, message: result.message };
+
+    const { impressions, clicks, conversions, landingCount } = result.data;
+    return {
+      success: true,
+      data: { impressions, clicks, conversions, landingCount, ctr: impressions > 0 ? (clicks / impressions) * 100 : 0 },
+    };
+  }
+}
+
+export const savedReportService = new SavedReportService();
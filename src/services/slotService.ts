@@ -1,6 +1,6 @@
 // Slot management service
-import { buildApiUrl } from '@/config/api';
 import { normalizeSlotList } from '@/utils/v2Normalizer';
+import { apiClient, apiFailure } from '@/services/apiClient';
 
 export interface Slot {
   slotId: number | string;
@@ -44,108 +44,52 @@ export interface SlotResponse {
 }
 
 class SlotService {
-  private async makeRequest<T>(url: string, options: RequestInit = {}): Promise<T> {
-    try {
-      const response = await fetch(url, {
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-        ...options,
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-
-      const data = await response.json();
-      return data;
-    } catch (error) {
-      console.error('API request failed:', error);
-      throw error;
-    }
-  }
-
   // Get all slots with optional filters
-  async getSlots(slotId?: number, isActive?: number): Promise<SlotsResponse> {
-    const params = new URLSearchParams();
-    if (slotId !== undefined) params.append('slotId', slotId.toString());
-    if (isActive !== undefined) params.append('isActive', isActive.toString());
-    
-    const url = `${buildApiUrl('/slots')}${params.toString() ? `?${params.toString()}` : ''}`;
-    
+  async getSlots(slotId?: number, isActive?: number, signal?: AbortSignal): Promise<SlotsResponse> {
     try {
-      const response = await this.makeRequest<any>(url);
-      
+      const result = await apiClient.envelope<{ slotList?: Slot[] } | Slot[]>('/slots', { query: { slotId, isActive }, signal });
+
       // Handle the nested response structure
-      let slotsData: Slot[] = [];
-      if (response.status === 1 && response.data?.slotList) {
-        slotsData = normalizeSlotList(Array.isArray(response.data.slotList) ? response.data.slotList : []);
-      } else if (Array.isArray(response.data)) {
-        slotsData = response.data;
-      } else if (Array.isArray(response)) {
-        slotsData = response;
-      }
-      
+      const data = result.data;
+      const slotsData: Slot[] = Array.isArray(data)
+        ? data
+        : normalizeSlotList(Array.isArray(data?.slotList) ? data.slotList : []);
+
       return {
-        success: response.status === 1 || response.success === true,
+        success: true,
         data: slotsData,
-        message: response.message || 'Slots fetched successfully'
+        message: result.message || 'Slots fetched successfully'
       };
     } catch (error) {
-      return {
-        success: false,
-        data: [],
-        message: error instanceof Error ? error.message : 'Failed to fetch slots'
-      };
+      return { ...apiFailure(error, 'Failed to fetch slots'), data: [] };
     }
   }
 
   // Create a new slot
   async createSlot(payload: CreateSlotPayload): Promise<SlotResponse> {
-    const url = buildApiUrl('/slots');
-    
     try {
-      const response = await this.makeRequest<any>(url, {
-        method: 'POST',
-        body: JSON.stringify(payload),
-      });
-      
+      const result = await apiClient.envelope<Slot>('/slots', { method: 'POST', body: payload });
       return {
         success: true,
-        data: response.data || response,
-        message: response.message || 'Slot created successfully'
+        data: result.data ?? ({} as Slot),
+        message: result.message || 'Slot created successfully'
       };
     } catch (error) {
-      return {
-        success: false,
-        data: {} as Slot,
-        message: error instanceof Error ? error.message : 'Failed to create slot'
-      };
+      return { ...apiFailure(error, 'Failed to create slot'), data: {} as Slot };
     }
   }
 
   // Update an existing slot
   async updateSlot(payload: UpdateSlotPayload): Promise<SlotResponse> {
-    const url = buildApiUrl('/slots/update');
-    
     try {
-      const response = await this.makeRequest<any>(url, {
-        method: 'POST',
-        body: JSON.stringify(payload),
-      });
-      
+      const result = await apiClient.envelope<Slot>('/slots/update', { method: 'POST', body: payload });
       return {
         success: true,
-        data: response.data || response,
-        message: response.message || 'Slot updated successfully'
+        data: result.data ?? ({} as Slot),
+        message: result.message || 'Slot updated successfully'
       };
     } catch (error) {
-      return {
-        success: false,
-        data: {} as Slot,
-        message: error instanceof Error ? error.message : 'Failed to update slot'
-      };
+      return { ...apiFailure(error, 'Failed to update slot'), data: {} as Slot };
     }
   }
 
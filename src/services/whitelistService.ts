@@ -1,4 +1,4 @@
-import { buildApiUrl } from '@/config/api';
+import { apiClient, apiFailure } from '@/services/apiClient';
 
 export interface WhitelistConfig {
     multiplier: number;
@@ -12,50 +12,46 @@ export interface WhitelistUser {
     canEdit: boolean;
 }
 
-const getBaseUrl = () => buildApiUrl('/auth');
+const WHITELIST_PATH = '/auth/whitelist';
 
 export const whitelistService = {
     async getConfig(): Promise<WhitelistConfig> {
-        const response = await fetch(`${getBaseUrl()}/whitelist/config`);
-        const result = await response.json();
-        if (result.status === 1 && result.data) {
-            return result.data;
+        try {
+            const data = await apiClient.get<WhitelistConfig | undefined>(`${WHITELIST_PATH}/config`);
+            if (data) return data;
+        } catch (error) {
+            apiFailure(error, 'Failed to fetch whitelist config');
         }
         return { multiplier: 1, whitelistedUsers: {} };
     },
 
     async getAllUsers(adminUserId: number): Promise<WhitelistUser[]> {
-        const response = await fetch(`${getBaseUrl()}/whitelist/allUsers?adminUserId=${adminUserId}`);
-        const result = await response.json();
-        if (result.status === 1 && result.data) {
-            return result.data;
+        try {
+            const data = await apiClient.get<WhitelistUser[] | undefined>(`${WHITELIST_PATH}/allUsers`, { adminUserId });
+            if (data) return data;
+        } catch (error) {
+            apiFailure(error, 'Failed to fetch users');
         }
         return [];
     },
 
     async addToWhitelist(adminUserId: number, userId: number, email?: string): Promise<{ success: boolean; message: string }> {
-        const response = await fetch(`${getBaseUrl()}/whitelist/add`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ adminUserId, userId, email }),
-        });
-        const result = await response.json();
-        return {
-            success: result.status === 1,
-            message: result.message || (result.status === 1 ? 'User added to whitelist' : 'Failed to add user'),
-        };
+        try {
+            const result = await apiClient.envelope(`${WHITELIST_PATH}/add`, { method: 'POST', body: { adminUserId, userId, email } });
+            return { success: true, message: result.message || 'User added to whitelist' };
+        } catch (error) {
+            const { message } = apiFailure(error, 'Failed to add user');
+            return { success: false, message };
+        }
     },
 
     async removeFromWhitelist(adminUserId: number, userId: number): Promise<{ success: boolean; message: string }> {
-        const response = await fetch(`${getBaseUrl()}/whitelist/remove`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ adminUserId, userId }),
-        });
-        const result = await response.json();
-        return {
-            success: result.status === 1,
-            message: result.message || (result.status === 1 ? 'User removed from whitelist' : 'Failed to remove user'),
-        };
+        try {
+            const result = await apiClient.envelope(`${WHITELIST_PATH}/remove`, { method: 'POST', body: { adminUserId, userId } });
+            return { success: true, message: result.message || 'User removed from whitelist' };
+        } catch (error) {
+            const { message } = apiFailure(error, 'Failed to remove user');
+            return { success: false, message };
+        }
     },
 };
@@ -0,0 +1,135 @@
+import { Ad } from '@/types';
+import type { UpdateAdData } from '@/services/adService';
+import { SERVE_STRATEGY_NAMES, adToUpdateData, extractCategoriesForUpdate } from '@/utils/adUtils';
+import { lintServeImpact } from '@/utils/serveLint';
+import { AD_STATUS_NAMES, AdFieldChange, listText } from '@/utils/adDiff';
+
+/**
+ * One bulk edit applied to many ads. Scalar fields left undefined are not
+ * touched; targeting is edited as add/remove deltas so each ad keeps the rest
+ * of its own locations, sites and categories.
+ */
+export interface AdBulkEdit {
+  status?: 0 | 1;
+  priority?: number;
+  startDate?: string;
+  endDate?: string;
+  serveStrategy?: number;
+  /** Location token → value, as LocationAutoSuggest produces. */
+  addLocations: Record<string, number>;
+  removeLocations: string[];
+  /** Site id → 1, as SiteSelect produces. */
+  addSites: Record<string, number>;
+  removeSites: string[];
+  /** Category name → catId, as CategoryAutoSuggest produces. */
+  addCategories: Record<string, number>;
+  /** catIds. */
+  removeCategories: string[];
+}
+
+export interface AdBulkEditPlan {
+  ad: Ad;
+  changes: AdFieldChange[];
+  payload: UpdateAdData;
+  /** Why this ad cannot take the edit (it is skipped), or null. */
+  blocked: string | null;
+  /** Serve-lint problems the edit would introduce. */
+  warnings: string[];
+}
+
+export const emptyAdBulkEdit = (): AdBulkEdit => ({
+  addLocations: {},
+  removeLocations: [],
+  addSites: {},
+  removeSites: [],
+  addCategories: {},
+  removeCategories: [],
+});
+
+export const isEmptyBulkEdit = (edit: AdBulkEdit): boolean =>
+  edit.status === undefined &&
+  edit.priority === undefined &&
+  !edit.startDate &&
+  !edit.endDate &&
+  edit.serveStrategy === undefined &&
+  Object.keys(edit.addLocations).length === 0 &&
+  edit.removeLocations.length === 0 &&
+  Object.keys(edit.addSites).length === 0 &&
+  edit.removeSites.length === 0 &&
+  Object.keys(edit.addCategories).length === 0 &&
+  edit.removeCategories.length === 0;
+
+const applyDelta = <V>(current: Record<string, V>, add: Record<string, V>, remove: string[]): Record<string, V> => {
+  const next = { ...current };
+  remove.forEach((key) => delete next[key]);
+  Object.entries(add).forEach(([key, value]) => {
+    next[key] = value;
+  });
+  return next;
+};
+
+/**
+ * Work out, per ad, the full update payload and a human-readable diff of the
+ * fields that would actually change. Ads the edit leaves untouched come back
+ * with no changes.
+ */
+export function planAdBulkEdit(ads: Ad[], edit: AdBulkEdit, siteName: (siteId: string) => string = (id) => id): AdBulkEditPlan[] {
+  return ads.map((ad) => {
+    const before = adToUpdateData(ad);
+    const payload: UpdateAdData = { ...before };
+    const changes: AdFieldChange[] = [];
+
+    const scalar = <K extends keyof UpdateAdData>(field: K, label: string, value: UpdateAdData[K] | undefined, show: (v: UpdateAdData[K]) => string) => {
+      if (value === undefined || value === '' || value === before[field]) return;
+      payload[field] = value;
+      changes.push({ field, label, before: show(before[field]), after: show(value) });
+    };
+    scalar('status', 'Status', edit.status, (v) => AD_STATUS_NAMES[Number(v)] ?? String(v));
+    scalar('priority', 'Priority', edit.priority, (v) => String(v ?? 0));
+    scalar('startDate', 'Start date', edit.startDate, (v) => String(v ?? ''));
+    scalar('endDate', 'End date', edit.endDate, (v) => String(v ?? ''));
+    scalar('serveStrategy', 'Serve strategy', edit.serveStrategy, (v) => SERVE_STRATEGY_NAMES[Number(v)] ?? String(v));
+
+    const locations = applyDelta(before.location ?? {}, edit.addLocations, edit.removeLocations);
+    const beforeLocations = Object.keys(before.location ?? {});
+    if (Object.keys(locations).sort().join('|') !== [...beforeLocations].sort().join('|')) {
+      payload.location = locations;
+      changes.push({ field: 'location', label: 'Locations', before: listText(beforeLocations), after: listText(Object.keys(locations)) });
+    }
+
+    const sites = applyDelta(before.sites ?? {}, edit.addSites, edit.removeSites);
+    const beforeSites = Object.keys(before.sites ?? {});
+    if (Object.keys(sites).sort().join('|') !== [...beforeSites].sort().join('|')) {
+      payload.sites = sites;
+      changes.push({ field: 'sites', label: 'Sites', before: listText(beforeSites.map(siteName)), after: listText(Object.keys(sites).map(siteName)) });
+    }
+
+    const categoryNames: Record<string, string> = { ...extractCategoriesForUpdate(ad.categories) };
+    Object.entries(edit.addCategories).forEach(([name, id]) => {
+      categoryNames[String(id)] = name;
+    });
+    const addCategoryIds = Object.fromEntries(Object.values(edit.addCategories).map((id) => [String(id), 1]));
+    const categories = applyDelta(before.categories ?? {}, addCategoryIds, edit.removeCategories);
+    const beforeCategories = Object.keys(before.categories ?? {});
+    if (Object.keys(categories).sort().join('|') !== [...beforeCategories].sort().join('|')) {
+      payload.categories = categories;
+      const name = (id: string) => categoryNames[id] || id;
+      changes.push({ field: 'categories', label: 'Categories', before: listText(beforeCategories.map(name)), after: listText(Object.keys(categories).map(name)) });
+    }
+
+    let blocked: string | null = null;
+    if (ad.status === -1) blocked = 'Archived ads cannot be edited';
+    else if (payload.startDate && payload.endDate && payload.endDate < payload.startDate) blocked = `End date ${payload.endDate} would be before start date ${payload.startDate}`;
+    else if (payload.serveStrategy === 2 && Object.keys(payload.location ?? {}).length === 0) blocked = 'Coupon ads require at least one location';
+
+    // Only surface serve problems the edit introduces, not ones the ad already had.
+    const existing = new Set(lintServeImpact(before).map((i) => i.id));
+    const warnings = changes.length === 0
+      ? []
+      : lintServeImpact(payload)
+          .filter((i) => i.severity === 'critical' && !existing.has(i.id))
+          .map((i) => i.title);
+
+    return { ad, changes, payload, blocked, warnings };
+  });
+}
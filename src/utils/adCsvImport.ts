@@ -0,0 +1,423 @@
+import { CreateAdData, LocationDetails, SiteDetails } from '@/services/adService';
+import { toLocalDateInput } from '@/utils/adUtils';
+import { convertToCSV } from '@/utils/csvExport';
+import { AdFormData, adSchema, toApiGender, toFormGender } from '@/utils/adSchema';
+import { lintServeImpact } from '@/utils/serveLint';
+
+/**
+ * Bulk ad creation from a CSV: parsing, name → id resolution for sites,
+ * locations and categories, and per-row validation with the AdForm schema.
+ * Multi-value cells (sites, location, categories, brandTargets) are separated
+ * with `|` so they don't clash with the CSV delimiter.
+ */
+
+export const LIST_SEPARATOR = '|';
+
+/** Template columns, in order. Every CreateAdData field except campaignId, which comes from the route. */
+export const BULK_AD_COLUMNS = [
+  'label',
+  'slotId',
+  'startDate',
+  'endDate',
+  'startTime',
+  'endTime',
+  'impressionTarget',
+  'clickTarget',
+  'impressionPixel',
+  'clickPixel',
+  'targetUrl',
+  'creativeUrl',
+  'categories',
+  'sites',
+  'location',
+  'brandTargets',
+  'gender',
+  'priceRangeMin',
+  'priceRangeMax',
+  'ageRangeMin',
+  'ageRangeMax',
+  'priority',
+  'status',
+  'isTestPhase',
+  'serveStrategy',
+  'isModelType',
+  'couponCode',
+  'impressionCharge',
+  'clickCharge',
+  'minBid',
+  'maxBid',
+  'bidModel',
+] as const;
+
+export type BulkAdColumn = (typeof BULK_AD_COLUMNS)[number];
+
+/** Columns a row cannot be created without (the schema enforces the rest). */
+const REQUIRED_COLUMNS: BulkAdColumn[] = [
+  'label',
+  'slotId',
+  'startDate',
+  'endDate',
+  'impressionTarget',
+  'clickTarget',
+  'impressionPixel',
+  'clickPixel',
+  'targetUrl',
+  'creativeUrl',
+];
+
+/** Blank numeric cells fall back to the same defaults a new AdForm starts with. */
+const NUMERIC_DEFAULTS: Partial<Record<BulkAdColumn, number>> = {
+  priceRangeMin: 0,
+  priceRangeMax: 1000,
+  ageRangeMin: 0,
+  ageRangeMax: 18,
+  priority: 500,
+  status: 1,
+  isTestPhase: 0,
+  serveStrategy: 0,
+  isModelType: 0,
+  impressionCharge: 0,
+  clickCharge: 0,
+  minBid: 0,
+  maxBid: 0,
+  bidModel: 0,
+};
+
+const NUMERIC_COLUMNS: BulkAdColumn[] = [
+  'impressionTarget',
+  'clickTarget',
+  'priceRangeMin',
+  'priceRangeMax',
+  'ageRangeMin',
+  'ageRangeMax',
+  'priority',
+  'status',
+  'isTestPhase',
+  'serveStrategy',
+  'isModelType',
+  'impressionCharge',
+  'clickCharge',
+  'minBid',
+  'maxBid',
+  'bidModel',
+];
+
+export interface BulkSlotOption {
+  slotId: number | string;
+  slotType?: string;
+  name: string;
+}
+
+export interface BulkAdLookups {
+  sites: SiteDetails;
+  locations: LocationDetails;
+  /** Lower-cased category name → catId, for the names found in the file. */
+  categories: Record<string, number>;
+  slots: BulkSlotOption[];
+}
+
+export interface BulkAdRow {
+  /** Line number in the file (header is line 1), as an editor sees it in a spreadsheet. */
+  line: number;
+  raw: Record<string, string>;
+  /** The create payload, or null when the row has errors. */
+  data: CreateAdData | null;
+  /** Display names for the resolved ids, for the preview grid. */
+  resolved: { slot: string; sites: string[]; locations: string[]; categories: string[] };
+  errors: string[];
+  /** Non-blocking notes: custom location tokens, serve pitfalls from the serve lint. */
+  warnings: string[];
+}
+
+export interface ParsedBulkCsv {
+  records: Array<{ line: number; raw: Record<string, string> }>;
+  missingColumns: BulkAdColumn[];
+  unknownColumns: string[];
+}
+
+/** RFC 4180-style CSV parse: quoted fields, `""` escapes, CRLF or LF line endings. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+/** Map CSV rows onto the template columns; header names match case-insensitively. */
+export function readBulkCsv(text: string): ParsedBulkCsv {
+  const [header = [], ...body] = parseCsv(text);
+  const byLower = new Map(BULK_AD_COLUMNS.map((c) => [c.toLowerCase(), c]));
+  const columns = header.map((h) => byLower.get(h.trim().toLowerCase()));
+
+  const records = body.map((cells, i) => {
+    const raw: Record<string, string> = {};
+    columns.forEach((col, idx) => {
+      if (col) raw[col] = (cells[idx] ?? '').trim();
+    });
+    return { line: i + 2, raw };
+  });
+
+  return {
+    records,
+    missingColumns: REQUIRED_COLUMNS.filter((c) => !columns.includes(c)),
+    unknownColumns: header.filter((_, idx) => !columns[idx]).map((h) => h.trim()).filter(Boolean),
+  };
+}
+
+export const splitListCell = (cell: string | undefined): string[] =>
+  (cell ?? '').split(LIST_SEPARATOR).map((s) => s.trim()).filter(Boolean);
+
+/** Category names (not numeric ids) in the file, de-duplicated, for the categoryDetails lookup. */
+export const categoryNamesToLookup = (records: ParsedBulkCsv['records']): string[] =>
+  Array.from(
+    new Set(records.flatMap((r) => splitListCell(r.raw.categories)).filter((c) => !/^\d+$/.test(c)))
+  );
+
+/** A header row plus one example, ready for downloadCSV. */
+export function bulkTemplateCsv(): string {
+  const example: Record<BulkAdColumn, string> = {
+    label: 'Summer Sale - Mumbai',
+    slotId: '',
+    startDate: toLocalDateInput(new Date().toISOString()),
+    endDate: toLocalDateInput(new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()),
+    startTime: '',
+    endTime: '',
+    impressionTarget: '100000',
+    clickTarget: '1000',
+    impressionPixel: 'https://example.com/imp',
+    clickPixel: 'https://example.com/click',
+    targetUrl: 'https://example.com/sale',
+    creativeUrl: 'https://example.com/creative.png',
+    categories: `Mobiles ${LIST_SEPARATOR} Laptops`,
+    sites: `Amazon ${LIST_SEPARATOR} Flipkart`,
+    location: 'Mumbai',
+    brandTargets: '',
+    gender: 'u',
+    priceRangeMin: '0',
+    priceRangeMax: '1000',
+    ageRangeMin: '0',
+    ageRangeMax: '18',
+    priority: '500',
+    status: '1',
+    isTestPhase: '0',
+    serveStrategy: '0',
+    isModelType: '0',
+    couponCode: '',
+    impressionCharge: '0',
+    clickCharge: '0',
+    minBid: '0',
+    maxBid: '0',
+    bidModel: '0',
+  };
+  return convertToCSV([example]);
+}
+
+const resolveSlot = (cell: string, slots: BulkSlotOption[]): BulkSlotOption | undefined => {
+  const key = cell.trim().toLowerCase();
+  if (!key) return undefined;
+  return (
+    slots.find((s) => String(s.slotId).toLowerCase() === key) ||
+    slots.find((s) => String(s.slotType ?? '').toLowerCase() === key) ||
+    slots.find((s) => s.name.trim().toLowerCase() === key)
+  );
+};
+
+/** Resolve names to ids and validate one row exactly as AdForm would before building its payload. */
+export function buildBulkRow(
+  record: ParsedBulkCsv['records'][number],
+  lookups: BulkAdLookups,
+  campaignId: number | string
+): BulkAdRow {
+  const { line, raw } = record;
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const resolved: BulkAdRow['resolved'] = { slot: '', sites: [], locations: [], categories: [] };
+
+  const numbers: Partial<Record<BulkAdColumn, number>> = {};
+  NUMERIC_COLUMNS.forEach((col) => {
+    const cell = raw[col] ?? '';
+    if (cell === '') {
+      if (NUMERIC_DEFAULTS[col] !== undefined) numbers[col] = NUMERIC_DEFAULTS[col];
+      return;
+    }
+    const n = Number(cell);
+    if (Number.isFinite(n)) numbers[col] = n;
+    else errors.push(`${col}: "${cell}" is not a number`);
+  });
+
+  const slot = resolveSlot(raw.slotId ?? '', lookups.slots);
+  if (raw.slotId && !slot) errors.push(`slotId: no active slot matches "${raw.slotId}"`);
+  if (slot) resolved.slot = slot.name;
+
+  const sites: Record<string, number> = {};
+  splitListCell(raw.sites).forEach((name) => {
+    const key = name.toLowerCase();
+    const match = Object.entries(lookups.sites).find(
+      ([id, site]) => id === name || site.name.toLowerCase() === key || site.domain?.some((d) => d.toLowerCase() === key)
+    );
+    if (!match) {
+      errors.push(`sites: unknown site "${name}"`);
+      return;
+    }
+    sites[match[0]] = 1;
+    resolved.sites.push(match[1].name);
+  });
+
+  // Unknown locations are kept as custom tokens (pincodes etc.), like the form's "add custom".
+  const location: Record<string, number> = {};
+  splitListCell(raw.location).forEach((name) => {
+    const known = Object.keys(lookups.locations).find((l) => l.toLowerCase() === name.toLowerCase());
+    if (!known) warnings.push(`location: "${name}" is not a known location; added as a custom token`);
+    const token = known ?? name;
+    location[token] = (known && lookups.locations[known]) || 1;
+    resolved.locations.push(token);
+  });
+
+  const categories: Record<string, string> = {};
+  splitListCell(raw.categories).forEach((name) => {
+    const catId = /^\d+$/.test(name) ? Number(name) : lookups.categories[name.toLowerCase()];
+    if (!catId) {
+      errors.push(`categories: unknown category "${name}"`);
+      return;
+    }
+    categories[String(catId)] = name;
+    resolved.categories.push(name);
+  });
+
+  const brandTargets: Record<string, number> = {};
+  splitListCell(raw.brandTargets).forEach((b) => {
+    brandTargets[b] = 1;
+  });
+
+  const dateOk = (col: 'startDate' | 'endDate') => {
+    if (raw[col] && !/^\d{4}-\d{2}-\d{2}$/.test(raw[col])) errors.push(`${col}: use YYYY-MM-DD`);
+  };
+  dateOk('startDate');
+  dateOk('endDate');
+  (['startTime', 'endTime'] as const).forEach((col) => {
+    if (raw[col] && !/^\d{2}:\d{2}(:\d{2})?$/.test(raw[col])) errors.push(`${col}: use HH:mm or HH:mm:ss`);
+  });
+
+  const formValues = {
+    slotId: slot ? slot.slotId : raw.slotId ?? '',
+    label: raw.label ?? '',
+    impressionTarget: numbers.impressionTarget ?? 0,
+    clickTarget: numbers.clickTarget ?? 0,
+    impressionPixel: raw.impressionPixel ?? '',
+    clickPixel: raw.clickPixel ?? '',
+    targetUrl: raw.targetUrl ?? '',
+    categories,
+    sites,
+    location,
+    brandTargets,
+    priceRangeMin: numbers.priceRangeMin ?? 0,
+    priceRangeMax: numbers.priceRangeMax ?? 0,
+    ageRangeMin: numbers.ageRangeMin ?? 0,
+    ageRangeMax: numbers.ageRangeMax ?? 0,
+    priority: numbers.priority ?? 0,
+    startDate: raw.startDate ?? '',
+    endDate: raw.endDate ?? '',
+    startTime: raw.startTime ?? '',
+    endTime: raw.endTime ?? '',
+    creativeUrl: raw.creativeUrl ?? '',
+    couponCode: raw.couponCode ?? '',
+    impressionCharge: numbers.impressionCharge,
+    clickCharge: numbers.clickCharge,
+    minBid: numbers.minBid,
+    maxBid: numbers.maxBid,
+    bidModel: numbers.bidModel,
+    gender: toFormGender(raw.gender),
+    status: numbers.status,
+    isTestPhase: numbers.isTestPhase,
+    serveStrategy: numbers.serveStrategy,
+    isModelType: numbers.isModelType,
+  };
+
+  const parsed = adSchema.safeParse(formValues);
+  if (!parsed.success) {
+    parsed.error.issues.forEach((issue) => {
+      const path = issue.path.join('.');
+      errors.push(path ? `${path}: ${issue.message}` : issue.message);
+    });
+  }
+
+  lintServeImpact(formValues)
+    .filter((i) => i.severity === 'critical')
+    .forEach((i) => warnings.push(`Won't serve: ${i.title}`));
+
+  if (errors.length > 0 || !parsed.success) {
+    return { line, raw, data: null, resolved, errors, warnings };
+  }
+
+  const values: AdFormData = parsed.data;
+  const data: CreateAdData = {
+    campaignId,
+    slotId: values.slotId,
+    label: values.label,
+    impressionTarget: values.impressionTarget,
+    clickTarget: values.clickTarget,
+    impressionPixel: values.impressionPixel,
+    clickPixel: values.clickPixel,
+    targetUrl: values.targetUrl,
+    categories: Object.fromEntries(Object.keys(categories).map((id) => [id, 1])),
+    sites,
+    location,
+    brandTargets,
+    priceRangeMin: values.priceRangeMin,
+    priceRangeMax: values.priceRangeMax,
+    ageRangeMin: values.ageRangeMin,
+    ageRangeMax: values.ageRangeMax,
+    priority: values.priority,
+    startDate: values.startDate,
+    startTime: values.startTime ?? '',
+    endDate: values.endDate,
+    endTime: values.endTime ?? '',
+    creativeUrl: values.creativeUrl,
+    gender: toApiGender(values.gender),
+    status: values.status,
+    isTestPhase: values.isTestPhase,
+    serveStrategy: values.serveStrategy,
+    isModelType: values.isModelType,
+    couponCode: values.couponCode,
+    impressionCharge: values.impressionCharge,
+    clickCharge: values.clickCharge,
+    minBid: values.minBid,
+    maxBid: values.maxBid,
+    bidModel: values.bidModel,
+  };
+
+  return { line, raw, data, resolved, errors, warnings };
+}
@@ -0,0 +1,141 @@
+import type { UpdateAdData } from '@/services/adService';
+import { SERVE_STRATEGY_NAMES } from '@/utils/adUtils';
+import { toFormGender } from '@/utils/adSchema';
+
+export interface AdFieldChange {
+  field: keyof UpdateAdData;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export const AD_STATUS_NAMES: Record<number, string> = { 0: 'Paused', 1: 'Live', [-1]: 'Archived' };
+
+const GENDER_NAMES: Record<string, string> = { u: 'All', m: 'Male', f: 'Female' };
+
+/** Editor-facing labels, in the order fields appear in a diff. */
+export const AD_FIELD_LABELS: Partial<Record<keyof UpdateAdData, string>> = {
+  name: 'Name',
+  label: 'Label',
+  status: 'Status',
+  slotId: 'Slot',
+  serveStrategy: 'Serve strategy',
+  priority: 'Priority',
+  startDate: 'Start date',
+  startTime: 'Start time',
+  endDate: 'End date',
+  endTime: 'End time',
+  categories: 'Categories',
+  sites: 'Sites',
+  location: 'Locations',
+  brandTargets: 'Brand targets',
+  gender: 'Gender',
+  ageRangeMin: 'Age min',
+  ageRangeMax: 'Age max',
+  priceRangeMin: 'Price min',
+  priceRangeMax: 'Price max',
+  impressionTarget: 'Impression target',
+  clickTarget: 'Click target',
+  targetUrl: 'Landing URL',
+  impressionPixel: 'Impression pixel',
+  clickPixel: 'Click pixel',
+  creativeUrl: 'Creative',
+  logo: 'Logo',
+  couponCode: 'Coupon code',
+  isTestPhase: 'Test phase',
+  isModelType: 'Model type',
+  impressionCharge: 'Impression charge',
+  clickCharge: 'Click charge',
+  minBid: 'Min bid',
+  maxBid: 'Max bid',
+  bidModel: 'Bid model',
+  otherDetails: 'Other details',
+};
+
+export const listText = (items: string[]) => (items.length === 0 ? '(none)' : items.join(', '));
+
+const padTime = (time: string | undefined, seconds: string) =>
+  time && time.split(':').length === 2 ? `${time}:${seconds}` : time;
+
+/**
+ * Normalise an update payload so payloads built by different screens compare
+ * equal when they describe the same ad: only update fields are kept, ids become
+ * strings, categories catId → 1 and times HH:mm:ss (padded the way
+ * adService.updateAd pads them).
+ */
+export function toAdSnapshot(data: UpdateAdData): UpdateAdData {
+  const fields = Object.keys(AD_FIELD_LABELS) as Array<keyof UpdateAdData>;
+  return {
+    ...Object.fromEntries(fields.filter((f) => data[f] !== undefined).map((f) => [f, data[f]])),
+    campaignId: data.campaignId === undefined ? undefined : String(data.campaignId),
+    slotId: data.slotId === undefined ? undefined : String(data.slotId),
+    categories: data.categories ? Object.fromEntries(Object.keys(data.categories).map((id) => [id, 1])) : data.categories,
+    startTime: padTime(data.startTime, '00'),
+    endTime: padTime(data.endTime, '59'),
+  };
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  const isEmpty = (v: unknown) => v === undefined || v === null || v === '';
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = (o: object) => Object.keys(o).sort();
+    if (!Array.isArray(a) && !Array.isArray(b) && keys(a).join('|') === keys(b).join('|')) {
+      return keys(a).every((k) => JSON.stringify((a as Record<string, unknown>)[k]) === JSON.stringify((b as Record<string, unknown>)[k]));
+    }
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return String(a) === String(b);
+};
+
+/** Human-readable value of one update field. */
+export function formatAdFieldValue(field: keyof UpdateAdData, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (field === 'status') return AD_STATUS_NAMES[Number(value)] ?? String(value);
+  if (field === 'serveStrategy') return SERVE_STRATEGY_NAMES[Number(value)] ?? String(value);
+  if (field === 'gender') return GENDER_NAMES[toFormGender(value)];
+  if (field === 'isTestPhase' || field === 'isModelType') return Number(value) === 1 ? 'Yes' : 'No';
+  if (field === 'otherDetails') return Object.keys(value as object).length === 0 ? '(none)' : JSON.stringify(value);
+  if (typeof value === 'object') return listText(Object.keys(value as object));
+  return String(value);
+}
+
+/** Field-by-field changes between two update payloads, in AD_FIELD_LABELS order. */
+export function diffAdData(before: UpdateAdData, after: UpdateAdData): AdFieldChange[] {
+  const a = toAdSnapshot(before);
+  const b = toAdSnapshot(after);
+  return (Object.keys(AD_FIELD_LABELS) as Array<keyof UpdateAdData>)
+    .filter((field) => b[field] !== undefined && !sameValue(a[field], b[field]))
+    .map((field) => ({
+      field,
+      label: AD_FIELD_LABELS[field] ?? field,
+      before: formatAdFieldValue(field, a[field]),
+      after: formatAdFieldValue(field, b[field]),
+    }));
+}
+
+const numberValues = (record: Record<string, unknown> | undefined) =>
+  record && Object.fromEntries(Object.entries(record).map(([key, value]) => [key, Number(value) || 0]));
+
+/** Comparable form of a payload for an edit: gender as u/m/f, targeting maps with numeric values. */
+const forEditDiff = (data: UpdateAdData): UpdateAdData => ({
+  ...data,
+  gender: data.gender === undefined ? undefined : toFormGender(data.gender),
+  sites: numberValues(data.sites),
+  location: numberValues(data.location),
+  brandTargets: numberValues(data.brandTargets),
+});
+
+/**
+ * Fields an AdForm edit actually changes on the loaded ad. AdForm always opens
+ * start/end time blank, so a blank time means "leave as is" rather than a change,
+ * and legacy gender values (Male/NA/…) compare by what they target.
+ */
+export function diffAdEdit(loaded: UpdateAdData, edited: { [K in keyof UpdateAdData]?: unknown }): AdFieldChange[] {
+  const next = edited as UpdateAdData;
+  return diffAdData(forEditDiff(loaded), {
+    ...forEditDiff(next),
+    startTime: next.startTime || undefined,
+    endTime: next.endTime || undefined,
+  });
+}
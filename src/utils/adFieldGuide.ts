@@ -0,0 +1,59 @@
+import type { UpdateAdData } from '@/services/adService';
+
+/**
+ * What each ad field does at serve time, condensed from the field reference in
+ * ADS_V2_FIELD_GUIDE.md §3. "gate" fields decide whether the ad can serve at
+ * all, "ranking" fields only which eligible ad wins; the rest are not read by
+ * the serve query.
+ */
+export type AdFieldRole = 'gate' | 'ranking' | 'metadata' | 'ops';
+
+export interface AdFieldGuideEntry {
+  role: AdFieldRole;
+  note: string;
+}
+
+export const AD_FIELD_ROLE_LABELS: Record<AdFieldRole, string> = {
+  gate: 'Eligibility',
+  ranking: 'Ranking',
+  metadata: 'No serve effect',
+  ops: 'Ops / billing',
+};
+
+export const AD_FIELD_GUIDE: Partial<Record<keyof UpdateAdData, AdFieldGuideEntry>> = {
+  name: { role: 'metadata', note: 'Derived from the label; display only.' },
+  label: { role: 'metadata', note: 'Display label, auto-suffixed _N if duplicated within the campaign.' },
+  status: { role: 'gate', note: 'Only Live (1) ads are ever served.' },
+  slotId: { role: 'gate', note: 'A set slot serves only when the request slot matches; empty serves on any slot.' },
+  serveStrategy: { role: 'gate', note: 'Ad type — decides which request modes (product, coupon, …) can pick the ad.' },
+  priority: { role: 'ranking', note: 'Added directly to the final score; the simplest lever to win among eligible ads.' },
+  startDate: { role: 'gate', note: 'Served only when start date ≤ today ≤ end date.' },
+  endDate: { role: 'gate', note: 'Served only when start date ≤ today ≤ end date.' },
+  startTime: { role: 'metadata', note: 'Stored, but the serve query gates on date only.' },
+  endTime: { role: 'metadata', note: 'Stored, but the serve query gates on date only.' },
+  categories: { role: 'gate', note: "Must share at least one category with the user's interests; empty never serves." },
+  sites: { role: 'gate', note: 'Empty = all sites; otherwise serves only on the listed sites (+5.0 on match).' },
+  location: { role: 'gate', note: "Empty = everywhere; otherwise serves only where the user's location matches." },
+  brandTargets: { role: 'ranking', note: 'Not a gate — boosts score when brand affinity overlaps (empty gives a flat +2.0).' },
+  gender: { role: 'gate', note: 'All = everyone; Male/Female serves only to that gender (+2.0 on match).' },
+  ageRangeMin: { role: 'ranking', note: "Not a gate — +1.5 when the user's age is in range." },
+  ageRangeMax: { role: 'ranking', note: "Not a gate — +1.5 when the user's age is in range." },
+  priceRangeMin: { role: 'gate', note: "0/0 = no price targeting; otherwise must overlap the user's ±30% price band." },
+  priceRangeMax: { role: 'gate', note: "0/0 = no price targeting; otherwise must overlap the user's ±30% price band." },
+  impressionTarget: { role: 'ops', note: 'Campaign cap — reaching it auto-pauses the campaign and its ads.' },
+  clickTarget: { role: 'ops', note: 'Campaign cap — reaching it auto-pauses the campaign and its ads.' },
+  targetUrl: { role: 'metadata', note: 'Landing URL, wrapped with the click-tracking token.' },
+  impressionPixel: { role: 'metadata', note: 'Fired on impression.' },
+  clickPixel: { role: 'metadata', note: 'Fired on click.' },
+  creativeUrl: { role: 'metadata', note: 'The image or video shown; must match the slot dimensions.' },
+  logo: { role: 'metadata', note: 'Brand logo shown with the ad.' },
+  couponCode: { role: 'metadata', note: 'Fallback coupon for coupon-strategy ads.' },
+  isTestPhase: { role: 'gate', note: 'Test-phase ads are filtered out of /ads/serve.' },
+  isModelType: { role: 'metadata', note: 'Stored flag; not part of the serve selection in the field guide.' },
+  impressionCharge: { role: 'ops', note: 'Deducted per impression from the campaign balance.' },
+  clickCharge: { role: 'ops', note: 'Deducted per click from the campaign balance.' },
+  minBid: { role: 'metadata', note: 'Bidding bookkeeping; not used by serve scoring.' },
+  maxBid: { role: 'metadata', note: 'Bidding bookkeeping; not used by serve scoring.' },
+  bidModel: { role: 'metadata', note: 'Bidding bookkeeping; not used by serve scoring.' },
+  otherDetails: { role: 'metadata', note: 'Free-form details passed through with the ad.' },
+};
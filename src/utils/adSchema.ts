@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { isV2Active } from '@/utils/v2Normalizer';
+
+/**
+ * Validation rules for a single ad, shared by AdForm and the bulk CSV import
+ * so a row is accepted or rejected exactly as the form would.
+ */
+export const adSchema = z.object({
+  slotId: z.union([z.string().min(1, 'Slot selection is required'), z.number().min(1, 'Slot selection is required')]),
+  label: z.string().min(1, 'Ad label is required'),
+  impressionTarget: z.number().min(1, 'Impression target is required'),
+  clickTarget: z.number().min(1, 'Click target is required'),
+  impressionPixel: z.string().url('Must be a valid URL'),
+  clickPixel: z.string().url('Must be a valid URL'),
+  targetUrl: z.string().url('Must be a valid URL'),
+  categories: z.union([
+    z.record(z.union([z.string(), z.number()])),
+    z.object({
+      selections: z.array(z.object({
+        path: z.array(z.object({ catId: z.number(), catName: z.string() })),
+        selected: z.object({ catId: z.number(), catName: z.string() })
+      }))
+    })
+  ]),
+  sites: z.record(z.union([z.string(), z.number()])),
+  location: z.record(z.union([z.string(), z.number()])),
+  brandTargets: z.record(z.union([z.string(), z.number()])),
+  priceRangeMin: z.number().min(0, 'Minimum price must be 0 or greater'),
+  priceRangeMax: z.number().min(1, 'Maximum price must be greater than 0'),
+  ageRangeMin: z.number().min(0, 'Minimum age must be at least 0'),
+  ageRangeMax: z.number().min(0, 'Maximum age must be at least 0'),
+  priority: z.number().min(0, 'Priority must be at least 0').max(1000, 'Priority cannot exceed 1000'),
+  startDate: z.string().min(1, 'Start date is required'),
+  endDate: z.string().min(1, 'End date is required'),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  creativeUrl: z.string().url('Creative URL must be valid'),
+  logo: z.string().optional(),
+  couponCode: z.string().optional(),
+  impressionCharge: z.number().min(0).optional(),
+  clickCharge: z.number().min(0).optional(),
+  minBid: z.number().min(0).optional(),
+  maxBid: z.number().min(0).optional(),
+  bidModel: z.number().min(0).optional(),
+  otherDetails: z.record(z.any()).optional(),
+  gender: z.string().optional(),
+  noGenderSpecificity: z.boolean().optional(),
+  noSpecificity: z.boolean().optional(),
+  status: z.number().min(0).max(1).optional().default(1),
+  isTestPhase: z.number().min(0).max(1).optional().default(0),
+  serveStrategy: z.number().min(0).max(4).optional().default(0),
+  isModelType: z.number().min(0).max(1).optional().default(0)
+}).refine((data) => {
+  // Validate impression target >= click target
+  if (data.impressionTarget && data.clickTarget) {
+    return data.impressionTarget >= data.clickTarget;
+  }
+  return true;
+}, {
+  message: "Impression target must be greater than or equal to click target",
+  path: ["impressionTarget"]
+}).refine((data) => {
+  if (!data.startDate || !data.endDate) return true; // Let required validation handle empty dates
+  const startDate = new Date(data.startDate);
+  const endDate = new Date(data.endDate);
+  return endDate >= startDate;
+}, {
+  message: "End date must be equal to or later than start date",
+  path: ["endDate"]
+}).refine((data) => {
+  // Validate that maximum price is greater than or equal to minimum price
+  if (data.priceRangeMin && data.priceRangeMax) {
+    return data.priceRangeMax >= data.priceRangeMin;
+  }
+  return true;
+}, {
+  message: "Maximum price must be equal to or greater than minimum price",
+  path: ["priceRangeMax"]
+}).refine((data) => {
+  // Validate that maximum age is greater than or equal to minimum age
+  if (data.ageRangeMin && data.ageRangeMax) {
+    return data.ageRangeMax >= data.ageRangeMin;
+  }
+  return true;
+}, {
+  message: "Maximum age must be equal to or greater than minimum age",
+  path: ["ageRangeMax"]
+}).refine((data) => {
+  // Coupon ads (serveStrategy=2) require a location match to ever serve (guide §5/§7).
+  if (data.serveStrategy === 2) {
+    return data.location && Object.keys(data.location).length > 0;
+  }
+  return true;
+}, {
+  message: "Coupon ads require at least one location, or they never serve.",
+  path: ["location"]
+});
+
+export type AdFormData = z.infer<typeof adSchema>;
+
+// Map any legacy/stored gender value onto the canonical u/m/f the form understands.
+export const toFormGender = (raw: unknown): string => {
+  const v = String(raw ?? '').trim().toLowerCase();
+  if (v === 'm' || v === 'male') return 'm';
+  if (v === 'f' || v === 'female') return 'f';
+  return 'u'; // u, na, '', other, or anything unrecognized → unrestricted
+};
+
+// Convert the form's u/m/f to the shape each API version expects on write:
+// V2 stores u/m/f; V1 uses the legacy Male / Female / NA (NA = all genders).
+export const toApiGender = (raw: unknown): string => {
+  const g = toFormGender(raw);
+  if (isV2Active()) return g;
+  if (g === 'm') return 'Male';
+  if (g === 'f') return 'Female';
+  return 'NA';
+};
@@ -0,0 +1,176 @@
+import { Ad, CategoryPath } from '@/types';
+import type { CreateAdData } from '@/services/adService';
+import { adToUpdateData, extractCategoriesForUpdate } from '@/utils/adUtils';
+import { AdFormData, toFormGender } from '@/utils/adSchema';
+import { formatAdFieldValue, listText } from '@/utils/adDiff';
+
+/** The CreateAdData fields a template may carry; the campaign comes from where it is applied. */
+export type AdTemplateFields = Partial<Omit<CreateAdData, 'campaignId'>>;
+export type AdTemplateField = keyof AdTemplateFields;
+
+export interface AdTemplateSource {
+  fields: AdTemplateFields;
+  /** catId → name, so categories can be shown and re-selected by name. */
+  categoryNames: Record<string, string>;
+}
+
+export interface AdTemplateFieldGroup {
+  id: string;
+  label: string;
+  fields: AdTemplateField[];
+  /** Whether the group is ticked when saving a new template. */
+  selectedByDefault: boolean;
+}
+
+export const AD_TEMPLATE_FIELD_GROUPS: AdTemplateFieldGroup[] = [
+  {
+    id: 'targeting',
+    label: 'Targeting',
+    fields: ['gender', 'location', 'sites', 'categories', 'brandTargets', 'ageRangeMin', 'ageRangeMax', 'priceRangeMin', 'priceRangeMax'],
+    selectedByDefault: true,
+  },
+  {
+    id: 'delivery',
+    label: 'Delivery',
+    fields: ['serveStrategy', 'priority', 'isModelType', 'isTestPhase', 'status'],
+    selectedByDefault: true,
+  },
+  {
+    // Slot IDs differ per environment and API version (V1 ints, V2 UUIDs)
+    id: 'slot',
+    label: 'Slot',
+    fields: ['slotId'],
+    selectedByDefault: false,
+  },
+  {
+    id: 'schedule',
+    label: 'Schedule',
+    fields: ['startDate', 'endDate', 'startTime', 'endTime'],
+    selectedByDefault: false,
+  },
+  {
+    id: 'goals',
+    label: 'Goals & billing',
+    fields: ['impressionTarget', 'clickTarget', 'impressionCharge', 'clickCharge', 'minBid', 'maxBid', 'bidModel'],
+    selectedByDefault: false,
+  },
+  {
+    id: 'creative',
+    label: 'Creative & tracking',
+    fields: ['label', 'creativeUrl', 'targetUrl', 'impressionPixel', 'clickPixel', 'couponCode'],
+    selectedByDefault: false,
+  },
+];
+
+export const AD_TEMPLATE_FIELDS: AdTemplateField[] = AD_TEMPLATE_FIELD_GROUPS.flatMap((g) => g.fields);
+
+const numberMap = (record: Record<string, string | number> | undefined): Record<string, number> =>
+  Object.fromEntries(Object.entries(record ?? {}).map(([key, value]) => [key, Number(value) || 0]));
+
+/** Keep only template fields that carry a value; anything else (campaign, name, …) is dropped. */
+const compact = (fields: AdTemplateFields): AdTemplateFields =>
+  Object.fromEntries(
+    AD_TEMPLATE_FIELDS.filter((f) => fields[f] !== undefined && fields[f] !== null && fields[f] !== '').map((f) => [f, fields[f]])
+  ) as AdTemplateFields;
+
+/** Template source from a saved ad (AdDetail). Gender is stored as the form's u/m/f so it works on either API version. */
+export function templateSourceFromAd(ad: Ad): AdTemplateSource {
+  const categoryNames = Object.fromEntries(
+    Object.entries(extractCategoriesForUpdate(ad.categories)).map(([id, name]) => [id, String(name)])
+  );
+  return { fields: compact({ ...adToUpdateData(ad), gender: toFormGender(ad.gender) } as AdTemplateFields), categoryNames };
+}
+
+/** Template source from the values currently in AdForm. */
+export function templateSourceFromForm(values: AdFormData): AdTemplateSource {
+  const categoryNames: Record<string, string> = {};
+  if (values.categories && 'selections' in values.categories) {
+    (values.categories as CategoryPath).selections.forEach((s) => {
+      categoryNames[String(s.selected.catId)] = s.selected.catName;
+    });
+  } else {
+    Object.entries(values.categories ?? {}).forEach(([id, name]) => {
+      categoryNames[id] = String(name);
+    });
+  }
+  return {
+    fields: compact({
+      slotId: values.slotId,
+      label: values.label,
+      impressionTarget: values.impressionTarget,
+      clickTarget: values.clickTarget,
+      impressionPixel: values.impressionPixel,
+      clickPixel: values.clickPixel,
+      targetUrl: values.targetUrl,
+      categories: Object.fromEntries(Object.keys(categoryNames).map((id) => [id, 1])),
+      sites: numberMap(values.sites),
+      location: numberMap(values.location),
+      brandTargets: numberMap(values.brandTargets),
+      priceRangeMin: values.priceRangeMin,
+      priceRangeMax: values.priceRangeMax,
+      ageRangeMin: values.ageRangeMin,
+      ageRangeMax: values.ageRangeMax,
+      priority: values.priority,
+      startDate: values.startDate,
+      startTime: values.startTime,
+      endDate: values.endDate,
+      endTime: values.endTime,
+      creativeUrl: values.creativeUrl,
+      gender: toFormGender(values.gender),
+      status: values.status,
+      isTestPhase: values.isTestPhase,
+      serveStrategy: values.serveStrategy,
+      isModelType: values.isModelType,
+      couponCode: values.couponCode,
+      impressionCharge: values.impressionCharge,
+      clickCharge: values.clickCharge,
+      minBid: values.minBid,
+      maxBid: values.maxBid,
+      bidModel: values.bidModel,
+    }),
+    categoryNames,
+  };
+}
+
+/** Restrict a source to the chosen fields, dropping names of categories left out. */
+export function pickTemplateFields(source: AdTemplateSource, selected: Iterable<AdTemplateField>): AdTemplateSource {
+  const chosen = new Set(selected);
+  const fields = Object.fromEntries(AD_TEMPLATE_FIELDS.filter((f) => chosen.has(f) && source.fields[f] !== undefined).map((f) => [f, source.fields[f]])) as AdTemplateFields;
+  return { fields, categoryNames: fields.categories ? source.categoryNames : {} };
+}
+
+/** The source without its slot, for applying where the saved slot ID means nothing. */
+export function withoutSlot(source: AdTemplateSource): AdTemplateSource {
+  const fields = { ...source.fields };
+  delete fields.slotId;
+  return { ...source, fields };
+}
+
+/** AdForm values that pre-fill a new ad from a template. */
+export function templateToFormValues(source: AdTemplateSource): Partial<AdFormData> {
+  const { categories, gender, ...rest } = source.fields;
+  const values: Partial<AdFormData> = { ...rest };
+  if (categories) {
+    values.categories = {
+      selections: Object.keys(categories).map((id) => {
+        const cat = { catId: Number(id), catName: source.categoryNames[id] || id };
+        return { path: [cat], selected: cat };
+      }),
+    };
+  }
+  if (gender !== undefined) {
+    values.gender = toFormGender(gender);
+    values.noGenderSpecificity = values.gender === 'u';
+  }
+  return values;
+}
+
+/** Display value of one template field; categories are shown by name. */
+export function templateFieldText(source: AdTemplateSource, field: AdTemplateField): string {
+  const value = source.fields[field];
+  if (field === 'categories' && value && typeof value === 'object') {
+    return listText(Object.keys(value).map((id) => source.categoryNames[id] || id));
+  }
+  if (field === 'gender') return value === 'm' ? 'Male' : value === 'f' ? 'Female' : 'All';
+  return formatAdFieldValue(field, value);
+}
@@ -1,4 +1,5 @@
-import { CategoryPath } from '@/types';
+import { Ad, CategoryPath } from '@/types';
+import type { UpdateAdData } from '@/services/adService';
 
 /**
  * Converts an API date string (ISO or plain YYYY-MM-DD) to a YYYY-MM-DD string
@@ -63,6 +64,61 @@ export const extractCategoriesForUpdate = (categories: any): Record<number, stri
   return categories as Record<number, string>;
 };
 
+/** serveStrategy values (ADS_V2_FIELD_GUIDE.md §7) by their editor-facing names. */
+export const SERVE_STRATEGY_NAMES: Record<number, string> = {
+  0: 'Banner',
+  1: 'Product',
+  2: 'Coupon',
+  3: 'Flight',
+  4: 'Category-locked',
+};
+
+/**
+ * Full update payload for an existing ad. Sent whole so V1 /ads/update, which
+ * resets fields it isn't sent, keeps them; V2 keeps unsent fields, so V2 edits
+ * send only the diff against this.
+ */
+export const adToUpdateData = (ad: Ad): UpdateAdData => ({
+  adId: ad.adId,
+  campaignId: ad.campaignId,
+  slotId: ad.slotId,
+  slotType: ad.slotType ?? ad.slotId,
+  name: ad.name,
+  label: ad.label,
+  impressionTarget: ad.impressionTarget,
+  clickTarget: ad.clickTarget,
+  impressionPixel: ad.impressionPixel,
+  clickPixel: ad.clickPixel,
+  targetUrl: ad.targetUrl,
+  categories: Object.fromEntries(Object.keys(extractCategoriesForUpdate(ad.categories)).map((id) => [id, 1])),
+  sites: { ...ad.sites },
+  location: { ...ad.location },
+  brandTargets: { ...ad.brandTargets },
+  priceRangeMin: ad.priceRangeMin,
+  priceRangeMax: ad.priceRangeMax,
+  ageRangeMin: ad.ageRangeMin,
+  ageRangeMax: ad.ageRangeMax,
+  priority: ad.priority,
+  startDate: toLocalDateInput(ad.startDate),
+  startTime: ad.startTime,
+  endDate: toLocalDateInput(ad.endDate),
+  endTime: ad.endTime,
+  creativeUrl: ad.creativeUrl,
+  logo: ad.logo || '',
+  otherDetails: { ...ad.otherDetails },
+  gender: ad.gender,
+  status: ad.status,
+  isTestPhase: ad.isTestPhase,
+  serveStrategy: ad.serveStrategy,
+  isModelType: ad.isModelType,
+  couponCode: ad.couponCode || '',
+  impressionCharge: ad.impressionCharge ?? 0,
+  clickCharge: ad.clickCharge ?? 0,
+  minBid: ad.minBid ?? 0,
+  maxBid: ad.maxBid ?? 0,
+  bidModel: ad.bidModel ?? 0,
+});
+
 /**
  * Appends a cache-busting timestamp to a URL.
  * Checks if the URL is valid and doesn't already have a timestamp.
@@ -0,0 +1,144 @@
+import type { ChartType } from '@/components/analytics/TrendChart';
+
+/**
+ * Analytics filter state as it is carried in the page URL, so a link
+ * reproduces the report. IDs are comma-separated (like ServeSimulator's
+ * `campaignId`); ad names can contain commas, so they repeat the parameter.
+ * Values are kept as the raw strings from the URL — matching them against the
+ * loaded campaigns/slots/POS happens in Analytics once those are fetched.
+ */
+export type AnalyticsView = 'campaign' | 'slot' | 'ad' | 'pos';
+export type AnalyticsGrouping = '1d' | '7d' | '30d';
+
+export interface AnalyticsUrlState {
+  view: AnalyticsView;
+  campaigns: string[];
+  slots: string[];
+  pos: string[];
+  platforms: string[];
+  exactAdNames: string[];
+  startsWithAdNames: string[];
+  from?: string;
+  to?: string;
+  grouping: AnalyticsGrouping;
+  chartType: ChartType;
+}
+
+export const ANALYTICS_URL_DEFAULTS: AnalyticsUrlState = {
+  view: 'campaign',
+  campaigns: [],
+  slots: [],
+  pos: [],
+  platforms: [],
+  exactAdNames: [],
+  startsWithAdNames: [],
+  grouping: '7d',
+  chartType: 'line',
+};
+
+const PARAMS = {
+  view: 'view',
+  campaigns: 'campaignId',
+  slots: 'slotId',
+  pos: 'posId',
+  platforms: 'platform',
+  exactAdNames: 'ad',
+  startsWithAdNames: 'adPrefix',
+  from: 'from',
+  to: 'to',
+  grouping: 'grouping',
+  chartType: 'chart',
+} as const;
+
+const VIEWS: AnalyticsView[] = ['campaign', 'slot', 'ad', 'pos'];
+const GROUPINGS: AnalyticsGrouping[] = ['1d', '7d', '30d'];
+const CHART_TYPES: ChartType[] = ['line', 'bar', 'area'];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Round-trips through Date so 2026-02-31 is rejected rather than rolled over
+const isIsoDate = (value: string) => {
+  if (!ISO_DATE.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const readList = (params: URLSearchParams, key: string) =>
+  Array.from(new Set((params.get(key) || '').split(',').map((v) => v.trim()).filter(Boolean)));
+
+const readRepeated = (params: URLSearchParams, key: string) =>
+  Array.from(new Set(params.getAll(key).map((v) => v.trim()).filter(Boolean)));
+
+/** Whether the URL carries any analytics state at all (a shared link rather than a plain visit). */
+export function hasAnalyticsUrlState(params: URLSearchParams): boolean {
+  return Object.values(PARAMS).some((key) => params.has(key));
+}
+
+/**
+ * Read the state from a query string. Malformed values fall back to the
+ * default and are described in `problems` instead of being ignored.
+ */
+export function decodeAnalyticsUrlState(params: URLSearchParams): { state: AnalyticsUrlState; problems: string[] } {
+  const problems: string[] = [];
+  const state: AnalyticsUrlState = {
+    ...ANALYTICS_URL_DEFAULTS,
+    campaigns: readList(params, PARAMS.campaigns),
+    slots: readList(params, PARAMS.slots),
+    pos: readList(params, PARAMS.pos),
+    platforms: readList(params, PARAMS.platforms),
+    exactAdNames: readRepeated(params, PARAMS.exactAdNames),
+    startsWithAdNames: readRepeated(params, PARAMS.startsWithAdNames),
+  };
+
+  const view = params.get(PARAMS.view);
+  if (view !== null) {
+    if ((VIEWS as string[]).includes(view)) state.view = view as AnalyticsView;
+    else problems.push(`Unknown view "${view}"`);
+  }
+
+  const grouping = params.get(PARAMS.grouping);
+  if (grouping !== null) {
+    if ((GROUPINGS as string[]).includes(grouping)) state.grouping = grouping as AnalyticsGrouping;
+    else problems.push(`Unknown grouping "${grouping}"`);
+  }
+
+  const chartType = params.get(PARAMS.chartType);
+  if (chartType !== null) {
+    if ((CHART_TYPES as string[]).includes(chartType)) state.chartType = chartType as ChartType;
+    else problems.push(`Unknown chart type "${chartType}"`);
+  }
+
+  const from = params.get(PARAMS.from);
+  const to = params.get(PARAMS.to);
+  if (from !== null || to !== null) {
+    if (!from || !to || !isIsoDate(from) || !isIsoDate(to)) {
+      problems.push(`Invalid date range "${from ?? ''}" – "${to ?? ''}" (expected YYYY-MM-DD)`);
+    } else if (from > to) {
+      problems.push(`Date range starts after it ends (${from} – ${to})`);
+    } else {
+      state.from = from;
+      state.to = to;
+    }
+  }
+
+  return { state, problems };
+}
+
+/** Write the state as a query string, leaving out defaults and empty filters. */
+export function encodeAnalyticsUrlState(state: AnalyticsUrlState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.view !== ANALYTICS_URL_DEFAULTS.view) params.set(PARAMS.view, state.view);
+  if (state.campaigns.length > 0) params.set(PARAMS.campaigns, state.campaigns.join(','));
+  if (state.slots.length > 0) params.set(PARAMS.slots, state.slots.join(','));
+  if (state.pos.length > 0) params.set(PARAMS.pos, state.pos.join(','));
+  if (state.platforms.length > 0) params.set(PARAMS.platforms, state.platforms.join(','));
+  state.exactAdNames.forEach((name) => params.append(PARAMS.exactAdNames, name));
+  state.startsWithAdNames.forEach((name) => params.append(PARAMS.startsWithAdNames, name));
+  if (state.from && state.to) {
+    params.set(PARAMS.from, state.from);
+    params.set(PARAMS.to, state.to);
+  }
+  if (state.grouping !== ANALYTICS_URL_DEFAULTS.grouping) params.set(PARAMS.grouping, state.grouping);
+  if (state.chartType !== ANALYTICS_URL_DEFAULTS.chartType) params.set(PARAMS.chartType, state.chartType);
+  return params;
+}
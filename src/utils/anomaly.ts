@@ -0,0 +1,137 @@
+import type { TrendChartSeries, TrendDataPoint } from '@/types';
+
+/**
+ * Trend anomaly detection with a rolling median / MAD baseline.
+ *
+ * Each point is scored against the points just before it: the baseline is
+ * their median and the spread is their median absolute deviation, so one
+ * earlier outlier can't hide the next one the way a mean and standard
+ * deviation would. Only trailing points are used — a point is judged on what
+ * was known when it happened, the same way it would be if detected live.
+ */
+
+export type AnomalyMetric = 'impressions' | 'clicks' | 'ctr';
+
+export const ANOMALY_METRICS: Array<{ value: AnomalyMetric; label: string }> = [
+  { value: 'impressions', label: 'Impressions' },
+  { value: 'clicks', label: 'Clicks' },
+  { value: 'ctr', label: 'CTR' },
+];
+
+export interface TrendAnomaly {
+  /** Stable across re-runs, for React keys and notification dedupe. */
+  id: string;
+  /** Name of the series the point belongs to — the campaign, ad, slot or POS. */
+  series: string;
+  date: string;
+  metric: AnomalyMetric;
+  value: number;
+  /** Median of the trailing window. */
+  baseline: number;
+  /** Robust z-score; |score| ≥ threshold is an anomaly. */
+  score: number;
+  direction: 'spike' | 'drop';
+  /** Change from the baseline in percent; null when the baseline is 0. */
+  magnitudePct: number | null;
+}
+
+export interface AnomalyOptions {
+  /** Trailing points the baseline is built from. Defaults by bucket size. */
+  window?: number;
+  /** Fewest trailing points needed before a point is scored. */
+  minHistory?: number;
+  /** Robust z-score cut-off. 3.5 is the usual choice for MAD-based scores. */
+  threshold?: number;
+  /** Ignore count points where both value and baseline are below this. */
+  minVolume?: number;
+  /** Ignore CTR points with fewer impressions than this — tiny days swing wildly. */
+  minImpressions?: number;
+  period?: '1d' | '7d' | '30d';
+}
+
+const DEFAULT_WINDOW: Record<NonNullable<AnomalyOptions['period']>, number> = { '1d': 14, '7d': 8, '30d': 6 };
+
+// Scales MAD to a standard deviation for normally distributed data
+const MAD_SCALE = 1.4826;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const metricValue = (point: TrendDataPoint, metric: AnomalyMetric) => {
+  if (metric === 'ctr') {
+    return point.impressions > 0 ? ((point.clicks || 0) / point.impressions) * 100 : 0;
+  }
+  return point[metric] || 0;
+};
+
+/**
+ * Anomalous points in one series for one metric. Points are sorted by date
+ * first; the first `minHistory` points are never flagged.
+ */
+export function detectAnomalies(
+  name: string,
+  points: TrendDataPoint[],
+  metric: AnomalyMetric,
+  options: AnomalyOptions = {}
+): TrendAnomaly[] {
+  const {
+    period = '1d',
+    window = DEFAULT_WINDOW[period],
+    minHistory = Math.min(5, window),
+    threshold = 3.5,
+    minVolume = 20,
+    minImpressions = 200,
+  } = options;
+
+  const sorted = [...points].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const usable = (point: TrendDataPoint) => metric !== 'ctr' || (point.impressions || 0) >= minImpressions;
+  const anomalies: TrendAnomaly[] = [];
+
+  sorted.forEach((point, index) => {
+    if (!usable(point)) return;
+    const history = sorted.slice(Math.max(0, index - window), index).filter(usable).map((p) => metricValue(p, metric));
+    if (history.length < minHistory) return;
+
+    const value = metricValue(point, metric);
+    const baseline = median(history);
+    if (metric !== 'ctr' && Math.max(value, baseline) < minVolume) return;
+
+    // A flat history has a MAD of 0; floor the spread at 5% of the baseline so
+    // a perfectly steady series still needs a real move to be flagged.
+    const spread = Math.max(
+      MAD_SCALE * median(history.map((v) => Math.abs(v - baseline))),
+      Math.abs(baseline) * 0.05,
+      metric === 'ctr' ? 0.01 : 1
+    );
+    const score = (value - baseline) / spread;
+    if (Math.abs(score) < threshold) return;
+
+    anomalies.push({
+      id: `${name}|${metric}|${point.date}`,
+      series: name,
+      date: point.date,
+      metric,
+      value,
+      baseline,
+      score,
+      direction: score > 0 ? 'spike' : 'drop',
+      magnitudePct: baseline !== 0 ? ((value - baseline) / Math.abs(baseline)) * 100 : null,
+    });
+  });
+
+  return anomalies;
+}
+
+/** Anomalies across every series and metric, strongest first. */
+export function detectSeriesAnomalies(
+  series: TrendChartSeries[],
+  metrics: AnomalyMetric[] = ANOMALY_METRICS.map((m) => m.value),
+  options: AnomalyOptions = {}
+): TrendAnomaly[] {
+  return series
+    .flatMap((s) => metrics.flatMap((metric) => detectAnomalies(s.name, s.data, metric, options)))
+    .sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+}
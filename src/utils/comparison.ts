@@ -0,0 +1,155 @@
+/**
+ * Period-over-period comparison: which window to compare against, and how a
+ * current value stacks up against its comparison value.
+ *
+ * Dates are the `YYYY-MM-DD` strings the metrics API takes. They are shifted
+ * in UTC so a comparison window never drifts by a day around DST changes.
+ */
+
+export type ComparisonMode = 'off' | 'previous' | 'week' | 'month' | 'year' | 'custom';
+
+export interface ComparisonDateRange {
+  from: string;
+  to: string;
+}
+
+export const COMPARISON_MODES: Array<{ value: ComparisonMode; label: string }> = [
+  { value: 'off', label: 'No comparison' },
+  { value: 'previous', label: 'Previous period' },
+  { value: 'week', label: 'Same period last week' },
+  { value: 'month', label: 'Same period last month' },
+  { value: 'year', label: 'Same period last year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseDay = (value: string) => new Date(`${value}T00:00:00Z`);
+const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (value: string, days: number) => {
+  const date = parseDay(value);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatDay(date);
+};
+
+// Clamps to the end of the target month, so Mar 31 minus a month is Feb 28/29
+const addMonths = (value: string, months: number) => {
+  const date = parseDay(value);
+  const day = date.getUTCDate();
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  date.setUTCDate(Math.min(day, lastDay));
+  return formatDay(date);
+};
+
+/** Whole days from `from` to `to` (negative when `to` is earlier). */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseDay(to).getTime() - parseDay(from).getTime()) / DAY_MS);
+}
+
+/**
+ * The window to compare `range` against, or null when comparison is off (or a
+ * custom range hasn't been picked yet). "Previous period" is the same number
+ * of days ending the day before `range` starts.
+ */
+export function getComparisonRange(
+  range: ComparisonDateRange,
+  mode: ComparisonMode,
+  custom?: Partial<ComparisonDateRange> | null
+): ComparisonDateRange | null {
+  switch (mode) {
+    case 'off':
+      return null;
+    case 'previous': {
+      const length = daysBetween(range.from, range.to) + 1;
+      return { from: addDays(range.from, -length), to: addDays(range.from, -1) };
+    }
+    case 'week':
+      return { from: addDays(range.from, -7), to: addDays(range.to, -7) };
+    case 'month':
+      return { from: addMonths(range.from, -1), to: addMonths(range.to, -1) };
+    case 'year':
+      return { from: addMonths(range.from, -12), to: addMonths(range.to, -12) };
+    case 'custom':
+      if (!custom?.from || !custom?.to || custom.from > custom.to) return null;
+      return { from: custom.from, to: custom.to };
+  }
+}
+
+/** Short label for legends and captions, e.g. "last year". */
+export function comparisonShortLabel(mode: ComparisonMode): string {
+  switch (mode) {
+    case 'previous': return 'previous period';
+    case 'week': return 'last week';
+    case 'month': return 'last month';
+    case 'year': return 'last year';
+    default: return 'comparison';
+  }
+}
+
+export interface ValueComparison {
+  current: number;
+  previous: number;
+  /** current − previous, in the metric's own unit (percentage points for CTR). */
+  delta: number;
+  /** Relative change in percent; null when the comparison value is 0. */
+  pct: number | null;
+  direction: 'up' | 'down' | 'flat';
+}
+
+export function compareValues(current: number, previous: number): ValueComparison {
+  const delta = current - previous;
+  const pct = previous !== 0 ? (delta / Math.abs(previous)) * 100 : null;
+  const direction: ValueComparison['direction'] = pct === null
+    ? delta > 0 ? 'up' : delta < 0 ? 'down' : 'flat'
+    : pct > 0.05 ? 'up' : pct < -0.05 ? 'down' : 'flat';
+  return { current, previous, delta, pct, direction };
+}
+
+/** "+12.3%", or "new" when there was nothing to compare against. */
+export function formatPctChange(pct: number | null): string {
+  if (pct === null) return 'new';
+  return `${pct >= 0 ? '+' : ''}${pct.toFixed(1)}%`;
+}
+
+/** Prefixes a formatted absolute delta with its sign ("+1,204", "−0.12%"). */
+export function formatSignedDelta(delta: number, format: (value: number) => string): string {
+  if (delta === 0) return format(0);
+  return `${delta > 0 ? '+' : '−'}${format(Math.abs(delta))}`;
+}
+
+const BUCKET_DAYS: Record<string, number> = { '1d': 1, '7d': 7, '30d': 30 };
+
+/**
+ * Place comparison points on the current series' dates. Each point is moved
+ * forward by `offsetDays` (the distance between the two windows' start dates)
+ * and snapped to the nearest current bucket within half a bucket; points with
+ * no bucket to land on, or whose bucket is already taken, keep their shifted date.
+ */
+export function alignByDayOffset<T extends { date: string }>(
+  currentDates: string[],
+  points: T[],
+  offsetDays: number,
+  period: '1d' | '7d' | '30d' = '1d'
+): Array<{ date: string; point: T }> {
+  const tolerance = (BUCKET_DAYS[period] ?? 1) / 2;
+  const anchors = currentDates.map((date) => ({ date, day: date.slice(0, 10) }));
+  const taken = new Set<string>();
+
+  return points.map((point) => {
+    const shifted = addDays(point.date.slice(0, 10), offsetDays);
+    let date = shifted;
+    let bestDistance = Infinity;
+    for (const anchor of anchors) {
+      const distance = Math.abs(daysBetween(anchor.day, shifted));
+      if (distance <= tolerance && distance < bestDistance && !taken.has(anchor.date)) {
+        date = anchor.date;
+        bestDistance = distance;
+      }
+    }
+    taken.add(date);
+    return { date, point };
+  });
+}
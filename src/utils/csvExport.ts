@@ -1,5 +1,7 @@
 // CSV Export Utility Functions
 
+import { todayYmd } from '@/utils/dates';
+
 export interface CSVExportData {
   filename: string;
   data: Record<string, any>[];
@@ -60,6 +62,22 @@ export function downloadCSV(csvContent: string, filename: string): void {
   }
 }
 
+/**
+ * Downloads a value as a pretty-printed JSON file
+ */
+export function downloadJSON(data: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Main export function that handles the full CSV export process
  */
@@ -85,7 +103,7 @@ export function exportToCsv(data: Record<string, any>[], filename: string): void
  */
 export function formatMetricsForCSV(metricsData: any, breakdownData: any, trendData: any[], topLocations: any[], topSlots: any[]): Record<string, any>[] {
   const exportData: Record<string, any>[] = [];
-  const exportDate = new Date().toISOString().split('T')[0];
+  const exportDate = todayYmd();
 
   // 1. OVERALL METRICS SUMMARY
   if (metricsData) {
@@ -316,7 +334,7 @@ function processBreakdownByEvent(breakdownArray: any[]): Record<string, any> {
  */
 export function formatDashboardForCSV(metricsData: any, breakdownData: any, trendData: any[]): Record<string, any>[] {
   const exportData: Record<string, any>[] = [];
-  const exportDate = new Date().toISOString().split('T')[0];
+  const exportDate = todayYmd();
 
   // 1. DASHBOARD SUMMARY (Last 7 Days)
   if (metricsData) {
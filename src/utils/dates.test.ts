@@ -0,0 +1,135 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TIMEZONE,
+  addDays,
+  apiDateTime,
+  endOfMonth,
+  setReportingTimezone,
+  startOfWeek,
+  toYmd,
+  weekBucketStart,
+  zonedTimeToInstant,
+} from '@/utils/dates';
+
+const at = (iso: string) => Date.parse(iso);
+
+afterEach(() => setReportingTimezone(null));
+
+describe('toYmd', () => {
+  it('is still the previous day in UTC until 05:30 IST', () => {
+    // 04:30 IST on the 10th
+    expect(toYmd(at('2024-03-09T23:00:00Z'), 'Asia/Kolkata')).toBe('2024-03-10');
+    expect(toYmd(at('2024-03-09T23:00:00Z'), 'UTC')).toBe('2024-03-09');
+  });
+
+  it('rolls over exactly at IST midnight', () => {
+    expect(toYmd(at('2024-03-09T18:29:59Z'), 'Asia/Kolkata')).toBe('2024-03-09');
+    expect(toYmd(at('2024-03-09T18:30:00Z'), 'Asia/Kolkata')).toBe('2024-03-10');
+  });
+
+  it('follows New York across the spring-forward night', () => {
+    // EST midnight on the 10th is 05:00Z; clocks jump at 02:00 that night
+    expect(toYmd(at('2024-03-10T04:59:59Z'), 'America/New_York')).toBe('2024-03-09');
+    expect(toYmd(at('2024-03-10T05:00:00Z'), 'America/New_York')).toBe('2024-03-10');
+    // EDT midnight on the 11th is 04:00Z
+    expect(toYmd(at('2024-03-11T03:59:59Z'), 'America/New_York')).toBe('2024-03-10');
+    expect(toYmd(at('2024-03-11T04:00:00Z'), 'America/New_York')).toBe('2024-03-11');
+  });
+
+  it('uses the reporting timezone by default', () => {
+    expect(DEFAULT_TIMEZONE).toBe('Asia/Kolkata');
+    expect(toYmd(at('2024-03-09T20:00:00Z'))).toBe('2024-03-10');
+    setReportingTimezone('UTC');
+    expect(toYmd(at('2024-03-09T20:00:00Z'))).toBe('2024-03-09');
+  });
+});
+
+describe('zonedTimeToInstant', () => {
+  it('keeps a fixed offset in zones without DST', () => {
+    expect(zonedTimeToInstant('2024-06-01', '00:00:00', 'Asia/Kolkata')).toBe(at('2024-05-31T18:30:00Z'));
+    expect(zonedTimeToInstant('2024-12-01', '23:59:59', 'Asia/Kolkata')).toBe(at('2024-12-01T18:29:59Z'));
+    expect(zonedTimeToInstant('2024-06-01', '00:00:00', 'UTC')).toBe(at('2024-06-01T00:00:00Z'));
+  });
+
+  it('uses each end of a London DST day at its own offset', () => {
+    // BST starts 2024-03-31 01:00 GMT, ends 2024-10-27 02:00 BST
+    expect(zonedTimeToInstant('2024-03-31', '00:00:00', 'Europe/London')).toBe(at('2024-03-31T00:00:00Z'));
+    expect(zonedTimeToInstant('2024-03-31', '23:59:59', 'Europe/London')).toBe(at('2024-03-31T22:59:59Z'));
+    expect(zonedTimeToInstant('2024-10-27', '00:00:00', 'Europe/London')).toBe(at('2024-10-26T23:00:00Z'));
+    expect(zonedTimeToInstant('2024-10-27', '23:59:59', 'Europe/London')).toBe(at('2024-10-27T23:59:59Z'));
+  });
+
+  it('uses each end of a New York DST day at its own offset', () => {
+    expect(zonedTimeToInstant('2024-03-10', '00:00:00', 'America/New_York')).toBe(at('2024-03-10T05:00:00Z'));
+    expect(zonedTimeToInstant('2024-03-10', '23:59:59', 'America/New_York')).toBe(at('2024-03-11T03:59:59Z'));
+    expect(zonedTimeToInstant('2024-11-03', '00:00:00', 'America/New_York')).toBe(at('2024-11-03T04:00:00Z'));
+    expect(zonedTimeToInstant('2024-11-03', '23:59:59', 'America/New_York')).toBe(at('2024-11-04T04:59:59Z'));
+  });
+});
+
+describe('apiDateTime', () => {
+  it('sends IST days as they are', () => {
+    expect(apiDateTime('2024-01-15', 'start', 'Asia/Kolkata')).toBe('2024-01-15 00:00:00');
+    expect(apiDateTime('2024-01-15', 'end', 'Asia/Kolkata')).toBe('2024-01-15 23:59:59');
+  });
+
+  it('shifts a UTC day into IST, crossing midnight at the end', () => {
+    expect(apiDateTime('2024-01-15', 'start', 'UTC')).toBe('2024-01-15 05:30:00');
+    expect(apiDateTime('2024-01-15', 'end', 'UTC')).toBe('2024-01-16 05:29:59');
+  });
+
+  it('shifts New York days by the offset in force at each end', () => {
+    // Spring forward: EST at the start, EDT at the end
+    expect(apiDateTime('2024-03-10', 'start', 'America/New_York')).toBe('2024-03-10 10:30:00');
+    expect(apiDateTime('2024-03-10', 'end', 'America/New_York')).toBe('2024-03-11 09:29:59');
+    // Fall back: EDT at the start, EST at the end
+    expect(apiDateTime('2024-11-03', 'start', 'America/New_York')).toBe('2024-11-03 09:30:00');
+    expect(apiDateTime('2024-11-03', 'end', 'America/New_York')).toBe('2024-11-04 10:29:59');
+  });
+
+  it('shifts London days by the offset in force at each end', () => {
+    expect(apiDateTime('2024-03-31', 'start', 'Europe/London')).toBe('2024-03-31 05:30:00');
+    expect(apiDateTime('2024-03-31', 'end', 'Europe/London')).toBe('2024-04-01 04:29:59');
+  });
+
+  it('passes values that already carry a time, or are empty, through', () => {
+    expect(apiDateTime('2024-01-15 10:00:00', 'start', 'UTC')).toBe('2024-01-15 10:00:00');
+    expect(apiDateTime('', 'end', 'UTC')).toBe('');
+  });
+});
+
+describe('day arithmetic', () => {
+  it('adds days across month, year and DST boundaries without drifting', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2023-12-31', 1)).toBe('2024-01-01');
+    expect(addDays('2024-03-31', -1)).toBe('2024-03-30');
+    expect(addDays('2024-11-03', 1)).toBe('2024-11-04');
+  });
+
+  it('finds the end of the month, leap years included', () => {
+    expect(endOfMonth('2024-02-10')).toBe('2024-02-29');
+    expect(endOfMonth('2023-02-10')).toBe('2023-02-28');
+    expect(endOfMonth('2024-12-01')).toBe('2024-12-31');
+    expect(endOfMonth('2024-04-30')).toBe('2024-04-30');
+  });
+
+  it('starts weeks on Sunday', () => {
+    expect(startOfWeek('2024-03-13')).toBe('2024-03-10');
+    expect(startOfWeek('2024-03-10')).toBe('2024-03-10');
+    expect(startOfWeek('2024-01-02')).toBe('2023-12-31');
+  });
+});
+
+describe('weekBucketStart', () => {
+  it('starts week 1 on the Monday of the week holding Jan 1', () => {
+    // 2024-01-01 is a Monday, 2025-01-01 a Wednesday
+    expect(weekBucketStart(2024, 1)).toBe('2024-01-01');
+    expect(weekBucketStart(2024, 2)).toBe('2024-01-08');
+    expect(weekBucketStart(2025, 1)).toBe('2024-12-30');
+    expect(weekBucketStart(2025, 10)).toBe('2025-03-03');
+  });
+
+  it('starts week 1 on Jan 2 when Jan 1 is a Sunday', () => {
+    expect(weekBucketStart(2023, 1)).toBe('2023-01-02');
+  });
+});
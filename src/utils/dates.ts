@@ -0,0 +1,178 @@
+/**
+ * Calendar dates for reporting.
+ *
+ * Filters and payloads carry dates as `YYYY-MM-DD` strings, each meaning a day
+ * in the reporting timezone — Asia/Kolkata unless the user picked another.
+ * "Today" and preset ranges are worked out in that zone rather than the
+ * browser's or UTC's (`toISOString().split('T')[0]` is still yesterday in IST
+ * until 05:30). Day arithmetic runs on the strings through UTC midnights, so
+ * it can't drift with DST or the browser's offset.
+ *
+ * The API reads `from`/`to` as wall-clock times in API_TIMEZONE; apiDateTime
+ * turns a reporting-day boundary into that form.
+ */
+
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+/** The zone the backend reads `from`/`to` in and buckets trend dates by. */
+export const API_TIMEZONE = 'Asia/Kolkata';
+
+export const REPORTING_TIMEZONES: Array<{ value: string; label: string }> = [
+  { value: 'Asia/Kolkata', label: 'India (IST)' },
+  { value: 'UTC', label: 'UTC' },
+  { value: 'Asia/Dubai', label: 'Dubai (GST)' },
+  { value: 'Asia/Singapore', label: 'Singapore (SGT)' },
+  { value: 'Europe/London', label: 'London (GMT/BST)' },
+  { value: 'America/New_York', label: 'New York (ET)' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YMD = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+let reportingTimezone = DEFAULT_TIMEZONE;
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Set by reportingTimezoneService from the signed-in user's preference. */
+export function setReportingTimezone(timeZone: string | null): void {
+  reportingTimezone = timeZone && isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+}
+
+export const getReportingTimezone = (): string => reportingTimezone;
+
+export const timezoneLabel = (timeZone: string): string =>
+  REPORTING_TIMEZONES.find((tz) => tz.value === timeZone)?.label ?? timeZone;
+
+const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Wall-clock fields of `instant` in `timeZone`. */
+function zoneParts(instant: number, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(new Date(instant)).forEach((part) => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  // Some engines report midnight as hour 24 even with h23
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour % 24, minute: parts.minute, second: parts.second };
+}
+
+const ymdToUtc = (ymd: string): number => {
+  const [y, m, d] = ymd.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+const utcToYmd = (ms: number): string => new Date(ms).toISOString().slice(0, 10);
+
+export const isYmd = (value: string): boolean => YMD.test(value) && !isNaN(ymdToUtc(value));
+
+/** The calendar day `instant` falls on in `timeZone` (the reporting timezone by default). */
+export function toYmd(instant: Date | number, timeZone = reportingTimezone): string {
+  const p = zoneParts(+instant, timeZone);
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+export const todayYmd = (timeZone = reportingTimezone): string => toYmd(Date.now(), timeZone);
+
+export const addDays = (ymd: string, days: number): string => utcToYmd(ymdToUtc(ymd) + days * DAY_MS);
+
+/** `days` before today in the reporting timezone. */
+export const daysAgo = (days: number): string => addDays(todayYmd(), -days);
+
+export const startOfMonth = (ymd: string): string => `${ymd.slice(0, 8)}01`;
+
+export function endOfMonth(ymd: string): string {
+  const date = new Date(ymdToUtc(ymd));
+  return utcToYmd(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+}
+
+/** The Sunday starting the week `ymd` is in. */
+export const startOfWeek = (ymd: string): string => addDays(ymd, -new Date(ymdToUtc(ymd)).getUTCDay());
+
+/**
+ * First day of trend bucket `YYYY-W##`: weeks start on Monday, week 1 being
+ * the one Jan 1 falls in — except in years starting on a Sunday, where it
+ * starts Jan 2 (the numbering trend buckets have always been read with).
+ */
+export function weekBucketStart(year: number, week: number): string {
+  const jan1 = `${pad(year, 4)}-01-01`;
+  return addDays(jan1, (week - 1) * 7 - new Date(ymdToUtc(jan1)).getUTCDay() + 1);
+}
+
+/** Whole days from `from` to `to`. */
+export const daysBetweenYmd = (from: string, to: string): number => Math.round((ymdToUtc(to) - ymdToUtc(from)) / DAY_MS);
+
+/** UTC offset of `timeZone` at `instant`, in ms (IST is +5:30). */
+function offsetAt(instant: number, timeZone: string): number {
+  const p = zoneParts(instant, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(instant / 1000) * 1000;
+}
+
+/** The instant a wall-clock `HH:mm:ss` on `ymd` happens in `timeZone`. */
+export function zonedTimeToInstant(ymd: string, time: string, timeZone = reportingTimezone): number {
+  const [h, m, s] = time.split(':').map(Number);
+  const wall = ymdToUtc(ymd) + ((h * 60 + m) * 60 + (s || 0)) * 1000;
+  // Second pass picks up an offset change (DST) between the guess and the answer
+  const guess = wall - offsetAt(wall, timeZone);
+  return wall - offsetAt(guess, timeZone);
+}
+
+/** `YYYY-MM-DD HH:mm:ss` for `instant` in `timeZone`. */
+export function formatZonedDateTime(instant: number, timeZone: string): string {
+  const p = zoneParts(instant, timeZone);
+  return `${pad(p.year, 4)}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+}
+
+/**
+ * A reporting day's first or last second as the API expects it:
+ * `YYYY-MM-DD HH:mm:ss` in API_TIMEZONE. Values that already carry a time
+ * (or aren't a date) pass through unchanged.
+ */
+export function apiDateTime(date: string, boundary: 'start' | 'end', timeZone = reportingTimezone): string {
+  if (!date || !isYmd(date)) return date;
+  const instant = zonedTimeToInstant(date, boundary === 'start' ? '00:00:00' : '23:59:59', timeZone);
+  return formatZonedDateTime(instant, API_TIMEZONE);
+}
+
+/** Local-midnight Date for a `YYYY-MM-DD` string, for date-picker widgets. */
+export function ymdToDate(ymd?: string): Date | undefined {
+  if (!ymd) return undefined;
+  const [y, m, d] = ymd.split('-').map(Number);
+  if (!y || !m || !d) return undefined;
+  return new Date(y, m - 1, d);
+}
+
+/** `YYYY-MM-DD` from a date-picker Date's local fields. */
+export const dateToYmd = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Display a `YYYY-MM-DD` day (chart axes, tooltips, tables) without shifting
+ * it through the browser's timezone. Other strings are parsed and shown in
+ * the reporting timezone; unparseable ones come back as-is.
+ */
+export function formatYmd(value: string, options: Intl.DateTimeFormatOptions, locale = 'en-US'): string {
+  if (isYmd(value)) return new Date(ymdToUtc(value)).toLocaleDateString(locale, { ...options, timeZone: 'UTC' });
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleDateString(locale, { ...options, timeZone: reportingTimezone });
+}
@@ -0,0 +1,105 @@
+import type { MetricsData, TrendChartSeries } from '@/types';
+
+/**
+ * Impression → click → landing → conversion funnel maths.
+ *
+ * A "step" is the move from one stage to the next; its rate is the share of
+ * the previous stage that made it through. Leakage is judged per step against
+ * the selection's pooled rate, so a campaign with a low CTR is flagged even
+ * if its landing and conversion steps look healthy.
+ */
+
+export type FunnelStageKey = 'impressions' | 'clicks' | 'landingCount' | 'conversions';
+export type FunnelCounts = Pick<MetricsData, FunnelStageKey>;
+
+export const FUNNEL_STAGES: Array<{ key: FunnelStageKey; label: string }> = [
+  { key: 'impressions', label: 'Impressions' },
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'landingCount', label: 'Landings' },
+  { key: 'conversions', label: 'Conversions' },
+];
+
+/** Step names, indexed by the stage they lead to (index 0 is unused). */
+export const FUNNEL_STEP_LABELS = ['', 'Click-through', 'Landing rate', 'Conversion rate'] as const;
+
+export interface FunnelGroup {
+  name: string;
+  counts: FunnelCounts;
+}
+
+export interface FunnelStep {
+  /** Index of the stage this step leads to (1–3). */
+  stage: number;
+  /** Share of the previous stage that reached this one, in percent; null when the previous stage is 0. */
+  rate: number | null;
+  /** The selection's pooled rate for the same step. */
+  averageRate: number | null;
+  /** rate ÷ averageRate — below 1 means this group leaks more than average here. */
+  relative: number | null;
+}
+
+export interface FunnelAnalysis {
+  name: string;
+  counts: FunnelCounts;
+  steps: FunnelStep[];
+  /** The step with the lowest `relative` below 1, if any. */
+  worstStep: FunnelStep | null;
+}
+
+const rate = (next: number, previous: number) => (previous > 0 ? (next / previous) * 100 : null);
+
+/** Sum the four stage counts of several groups. */
+export function sumFunnelCounts(list: FunnelCounts[]): FunnelCounts {
+  return list.reduce<FunnelCounts>(
+    (total, counts) => ({
+      impressions: total.impressions + (counts.impressions || 0),
+      clicks: total.clicks + (counts.clicks || 0),
+      landingCount: total.landingCount + (counts.landingCount || 0),
+      conversions: total.conversions + (counts.conversions || 0),
+    }),
+    { impressions: 0, clicks: 0, landingCount: 0, conversions: 0 }
+  );
+}
+
+/** Stage-to-stage rates for one set of counts, in stage order (3 entries). */
+export function funnelRates(counts: FunnelCounts): Array<number | null> {
+  return FUNNEL_STAGES.slice(1).map((stage, i) => rate(counts[stage.key] || 0, counts[FUNNEL_STAGES[i].key] || 0));
+}
+
+/**
+ * Analyse each group against an average: `benchmark` when given (e.g. the
+ * whole campaign for one ad), otherwise the groups pooled together.
+ */
+export function analyzeFunnels(groups: FunnelGroup[], benchmark?: FunnelCounts): FunnelAnalysis[] {
+  const averageRates = funnelRates(benchmark ?? sumFunnelCounts(groups.map((g) => g.counts)));
+
+  return groups.map(({ name, counts }) => {
+    const steps: FunnelStep[] = funnelRates(counts).map((value, i) => {
+      const averageRate = averageRates[i];
+      return {
+        stage: i + 1,
+        rate: value,
+        averageRate,
+        relative: value !== null && averageRate ? value / averageRate : null,
+      };
+    });
+    const worstStep = steps.reduce<FunnelStep | null>((worst, step) => {
+      if (step.relative === null || step.relative >= 1) return worst;
+      return !worst || step.relative < (worst.relative as number) ? step : worst;
+    }, null);
+    return { name, counts, steps, worstStep };
+  });
+}
+
+/** One group per trend series, with its counts summed over the series' points. */
+export function funnelGroupsFromTrend(series: TrendChartSeries[]): FunnelGroup[] {
+  return series.map((s) => ({
+    name: s.name,
+    counts: sumFunnelCounts(s.data.map((point) => ({
+      impressions: point.impressions || 0,
+      clicks: point.clicks || 0,
+      landingCount: point.landingCount || 0,
+      conversions: point.conversions || 0,
+    }))),
+  }));
+}
@@ -0,0 +1,43 @@
+/** Time-ordered, random id for records kept in localStorage. */
+export const createLocalId = (now: number = Date.now()): string =>
+  `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * A JSON array of records under one localStorage key, shared by the services
+ * that keep per-browser data (history, templates, drafts, saved reports).
+ * `label` names the records in console errors.
+ */
+export class LocalListStore<T> {
+  constructor(readonly key: string, private readonly label: string) {}
+
+  /** Stored records; an empty list if nothing is stored or it can't be parsed. */
+  read(): T[] {
+    try {
+      const stored = localStorage.getItem(this.key);
+      return stored ? (JSON.parse(stored) as T[]) : [];
+    } catch (error) {
+      console.error(`Error reading ${this.label}:`, error);
+      return [];
+    }
+  }
+
+  /** Replace the stored records. Throws when storage is full or unavailable. */
+  write(items: T[]): void {
+    localStorage.setItem(this.key, JSON.stringify(items));
+  }
+
+  /** `write` that logs instead of throwing; returns whether the records were stored. */
+  save(items: T[]): boolean {
+    try {
+      this.write(items);
+      return true;
+    } catch (error) {
+      console.error(`Error saving ${this.label}:`, error);
+      return false;
+    }
+  }
+
+  remove(): void {
+    localStorage.removeItem(this.key);
+  }
+}
@@ -0,0 +1,235 @@
+import type { OfferConfigItem, OfferConfigMap } from '@/services/offerConfigService';
+import type { ApiVersion, Environment } from '@/config/api';
+import { groupOffersById, type OfferRow } from '@/utils/offerConfig';
+import { compilePattern } from '@/utils/offerRegex';
+import { conflictsForSave, type OfferConflict } from '@/utils/offerConflicts';
+import { diffOffer, type OfferFieldChange } from '@/utils/offerConfigDiff';
+
+/**
+ * Offers as a JSON file, for moving them between environments: built on
+ * test, previewed and applied on prod through createOffer/editOffer.
+ * Campaign/ad tracking IDs differ per environment, so they're remapped on
+ * the way in.
+ */
+
+/** Shape of an exported offers file. */
+export interface OfferBundle {
+  kind: 'offers-config';
+  version: 1;
+  exportedAt: string;
+  environment: Environment;
+  apiVersion: ApiVersion;
+  offers: OfferRow[];
+}
+
+/** Source tracking ID → ID to use here; IDs left out (or blank) are kept as they are. */
+export interface TrackingIdRemap {
+  campaigns: Record<string, string>;
+  ads: Record<string, string>;
+}
+
+export type ImportStatus = 'new' | 'changed' | 'unchanged' | 'conflict' | 'unmapped';
+
+export interface ImportPreviewRow {
+  offerId: string;
+  status: ImportStatus;
+  /** The offer as it would be sent, tracking IDs remapped. */
+  offer: OfferConfigItem;
+  posList: string[];
+  /** Against the offer with the same id here, for `changed`. */
+  changes: OfferFieldChange[];
+  posAdded: string[];
+  posRemoved: string[];
+  /** Live offers here it would collide with; these rows aren't applied. */
+  blocking: OfferConflict[];
+  /** Collisions worth a look that don't stop the import. */
+  warnings: OfferConflict[];
+  /** Offers among blocking/warnings that come from earlier rows of the file rather than this environment. */
+  fromBundle: string[];
+  /** Tracking IDs that can't be sent as they are; any of these makes the row `unmapped`. */
+  unmapped: string[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+/** Why an offer can't be imported, or null if it's fine. Mirrors the editor's checks. */
+export function validateBundledOffer(raw: unknown): string | null {
+  if (!isRecord(raw) || !isRecord(raw.offer)) return 'not an offer entry';
+  const { offer, posList } = raw;
+  if (!isStringArray(posList) || !posList.length) return 'no POS';
+  if (typeof offer.offer_id !== 'string' || !offer.offer_id.trim()) return 'missing offer_id';
+  if (typeof offer.start !== 'number' || typeof offer.end !== 'number' || offer.end <= offer.start) return 'start/end missing or end before start';
+  if (!isStringArray(offer.url_reg_arr) || !offer.url_reg_arr.length) return 'no URL regexes';
+  const broken = offer.url_reg_arr.find((pattern) => !compilePattern(pattern));
+  if (broken) return `URL regex doesn't compile: ${broken}`;
+  if (typeof offer.url !== 'string') return 'missing destination URL';
+  try {
+    new URL(offer.url);
+  } catch {
+    return `invalid destination URL ${offer.url}`;
+  }
+  if (typeof offer.image_url !== 'string' || !offer.image_url) return 'missing image';
+  if (offer.bread_arr !== undefined && !isStringArray(offer.bread_arr)) return 'breadcrumbs must be strings';
+  if (offer.price_range !== undefined) {
+    const range = offer.price_range;
+    if (!isRecord(range) || typeof range.min !== 'number' || typeof range.max !== 'number' || range.max < range.min) return 'invalid price range';
+  }
+  return null;
+}
+
+/** Selected offers (all of them if `offerIds` is empty), optionally only those on `pos`. */
+export function buildOfferBundle(
+  configMap: OfferConfigMap,
+  selection: { offerIds?: string[]; pos?: string },
+  environment: Environment,
+  apiVersion: ApiVersion
+): OfferBundle {
+  const offers = groupOffersById(configMap, selection.pos ?? 'all')
+    .filter((row) => !selection.offerIds?.length || selection.offerIds.includes(row.offer.offer_id));
+  return { kind: 'offers-config', version: 1, exportedAt: new Date().toISOString(), environment, apiVersion, offers };
+}
+
+/**
+ * Read an exported file. Offers that fail validation are left out and
+ * listed in `invalid`; the file is rejected only if nothing usable is left.
+ */
+export function parseOfferBundle(text: string): {
+  success: boolean;
+  data?: { bundle: OfferBundle; invalid: Array<{ offerId: string; reason: string }> };
+  message?: string;
+} {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { success: false, message: 'File is not valid JSON' };
+  }
+  if (!isRecord(parsed) || parsed.kind !== 'offers-config' || !Array.isArray(parsed.offers)) {
+    return { success: false, message: 'Not an offers config export' };
+  }
+  if (parsed.version !== 1) return { success: false, message: `Unsupported export version ${String(parsed.version)}` };
+
+  const offers: OfferRow[] = [];
+  const invalid: Array<{ offerId: string; reason: string }> = [];
+  parsed.offers.forEach((raw, i) => {
+    const reason = validateBundledOffer(raw);
+    const offerId = isRecord(raw) && isRecord(raw.offer) && typeof raw.offer.offer_id === 'string' ? raw.offer.offer_id : `#${i + 1}`;
+    if (reason) invalid.push({ offerId, reason });
+    else offers.push(raw as OfferRow);
+  });
+  if (!offers.length) return { success: false, message: invalid.length ? `No valid offers in the file (${invalid[0].offerId}: ${invalid[0].reason})` : 'The file has no offers' };
+
+  return {
+    success: true,
+    data: {
+      bundle: {
+        kind: 'offers-config',
+        version: 1,
+        exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+        environment: parsed.environment === 'test' || parsed.environment === 'local' ? parsed.environment : 'prod',
+        apiVersion: parsed.apiVersion === 'v2' ? 'v2' : 'v1',
+        offers,
+      },
+      invalid,
+    },
+  };
+}
+
+/** Campaign and ad IDs an import would bring in, for the remap form. */
+export function bundleTrackingIds(bundle: OfferBundle): { campaigns: string[]; ads: string[] } {
+  const collect = (key: 'campaignId' | 'adId') =>
+    Array.from(new Set(bundle.offers.map((row) => String(row.offer[key] ?? '')).filter(Boolean)));
+  return { campaigns: collect('campaignId'), ads: collect('adId') };
+}
+
+/** The offer with tracking IDs remapped, typed the way the target API version expects (numbers on v1). */
+export function remapTrackingIds(offer: OfferConfigItem, remap: TrackingIdRemap, apiVersion: ApiVersion): OfferConfigItem {
+  const map = (id: number | undefined, table: Record<string, string>) => {
+    if (id === undefined || id === null) return id;
+    const next = table[String(id)]?.trim() || String(id);
+    // v2 ids are strings on the wire even though the type says number
+    return (apiVersion === 'v2' ? next : Number(next)) as number;
+  };
+  return { ...offer, campaignId: map(offer.campaignId, remap.campaigns), adId: map(offer.adId, remap.ads) };
+}
+
+/**
+ * Tracking IDs of `offer` that can't be used here: on v1 every ID must end up
+ * a whole number, and IDs from a bundle of another API version mean nothing
+ * here, so each of those has to be remapped.
+ */
+export function unmappedTrackingIds(
+  offer: OfferConfigItem,
+  remap: TrackingIdRemap,
+  apiVersion: ApiVersion,
+  bundleApiVersion: ApiVersion
+): string[] {
+  const problems: string[] = [];
+  const check = (id: number | undefined, table: Record<string, string>, noun: string) => {
+    if (id === undefined || id === null) return;
+    const mapped = table[String(id)]?.trim();
+    if (!mapped && bundleApiVersion !== apiVersion) {
+      problems.push(`${noun} #${id} is a ${bundleApiVersion} ID and needs a ${apiVersion} one`);
+    } else if (apiVersion === 'v1' && !/^\d+$/.test(mapped || String(id))) {
+      problems.push(`${noun} #${id}${mapped ? ` → ${mapped}` : ''} isn't a v1 ID (whole number)`);
+    }
+  };
+  check(offer.campaignId, remap.campaigns, 'Campaign');
+  check(offer.adId, remap.ads, 'Ad');
+  return problems;
+}
+
+/** The config with `offer` on exactly `posList`, as it is after a create/edit of it. */
+function withOffer(configMap: OfferConfigMap, offer: OfferConfigItem, posList: string[]): OfferConfigMap {
+  const next: OfferConfigMap = {};
+  Object.entries(configMap).forEach(([pos, offers]) => {
+    next[pos] = (offers || []).filter((o) => o.offer_id !== offer.offer_id);
+  });
+  posList.forEach((pos) => {
+    next[pos] = [...(next[pos] ?? []), offer];
+  });
+  return next;
+}
+
+/**
+ * What applying the bundle here would do, offer by offer. Rows whose tracking
+ * IDs aren't usable here are `unmapped` and never applied. Rows are applied
+ * in file order, so each is checked against this environment plus the rows
+ * before it that would be applied (all new/changed ones not in `excluded`).
+ */
+export function previewImport(
+  bundle: OfferBundle,
+  configMap: OfferConfigMap,
+  remap: TrackingIdRemap,
+  apiVersion: ApiVersion,
+  excluded: ReadonlySet<string> = new Set(),
+  now = Date.now()
+): ImportPreviewRow[] {
+  const existing = new Map(groupOffersById(configMap).map((row) => [row.offer.offer_id, row]));
+  const applied = new Set<string>();
+  let working = configMap;
+  return bundle.offers.map((row) => {
+    const unmapped = unmappedTrackingIds(row.offer, remap, apiVersion, bundle.apiVersion);
+    const offer = remapTrackingIds(row.offer, remap, apiVersion);
+    const current = existing.get(offer.offer_id);
+    const changes = current ? diffOffer(current.offer, offer) : [];
+    const posAdded = current ? row.posList.filter((pos) => !current.posList.includes(pos)) : row.posList;
+    const posRemoved = current ? current.posList.filter((pos) => !row.posList.includes(pos)) : [];
+    const { blocking, warnings } = conflictsForSave(offer, row.posList, working, offer.offer_id, now);
+    const status: ImportStatus = unmapped.length
+      ? 'unmapped'
+      : blocking.length ? 'conflict'
+      : !current ? 'new' : changes.length || posAdded.length || posRemoved.length ? 'changed' : 'unchanged';
+    const others = [...blocking, ...warnings].map((c) => (c.a === offer.offer_id ? c.b : c.a));
+    const fromBundle = Array.from(new Set(others.filter((id) => applied.has(id))));
+    if ((status === 'new' || status === 'changed') && !excluded.has(offer.offer_id)) {
+      working = withOffer(working, offer, row.posList);
+      applied.add(offer.offer_id);
+    }
+    return { offerId: offer.offer_id, status, offer, posList: row.posList, changes, posAdded, posRemoved, blocking, warnings, fromBundle, unmapped };
+  });
+}
@@ -0,0 +1,64 @@
+import type { OfferConfigItem, OfferConfigMap } from '@/services/offerConfigService';
+
+/**
+ * Helpers over the offers config (`OfferConfigMap`: POS → offers). The same
+ * offer is stored once per POS it runs on; most screens want it once, with
+ * the list of POS.
+ */
+
+export type OfferRow = { offer: OfferConfigItem; posList: string[] };
+
+/** Live now, not started yet, or over. `start`/`end` are epoch seconds. */
+export type OfferStatus = 'live' | 'scheduled' | 'expired';
+
+export function offerStatus(offer: Pick<OfferConfigItem, 'start' | 'end'>, now = Date.now()): OfferStatus {
+  if (offer.end * 1000 < now) return 'expired';
+  return offer.start * 1000 <= now ? 'live' : 'scheduled';
+}
+
+/** One row per offer_id, with every POS it's on (optionally only those on `pos`). */
+export function groupOffersById(configMap: OfferConfigMap, pos: string = 'all'): OfferRow[] {
+  const map = new Map<string, OfferRow>();
+  Object.entries(configMap || {}).forEach(([offerPos, offers]) => {
+    if (pos !== 'all' && pos !== offerPos) return;
+    (offers || []).forEach((offer) => {
+      if (!offer?.offer_id) return;
+      const existing = map.get(offer.offer_id);
+      if (existing) {
+        if (!existing.posList.includes(offerPos)) existing.posList.push(offerPos);
+      } else {
+        map.set(offer.offer_id, { offer, posList: [offerPos] });
+      }
+    });
+  });
+  return Array.from(map.values());
+}
+
+export interface CoverageGap {
+  /** Epoch seconds. */
+  start: number;
+  end: number;
+}
+
+/**
+ * Stretches between `from` and `to` (epoch seconds) when a POS has no offer
+ * running, per POS. Gaps shorter than `minGap` seconds are ignored.
+ */
+export function coverageGaps(configMap: OfferConfigMap, from: number, to: number, minGap = 60 * 60): Array<{ pos: string; gaps: CoverageGap[] }> {
+  return Object.entries(configMap || {})
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([pos, offers]) => {
+      const windows = (offers || [])
+        .map((offer) => ({ start: Math.max(offer.start, from), end: Math.min(offer.end, to) }))
+        .filter((w) => w.start < w.end)
+        .sort((a, b) => a.start - b.start);
+      const gaps: CoverageGap[] = [];
+      let cursor = from;
+      windows.forEach((w) => {
+        if (w.start - cursor >= minGap) gaps.push({ start: cursor, end: w.start });
+        cursor = Math.max(cursor, w.end);
+      });
+      if (to - cursor >= minGap) gaps.push({ start: cursor, end: to });
+      return { pos, gaps };
+    });
+}
@@ -0,0 +1,158 @@
+import type { OfferConfigItem, OfferConfigMap } from '@/services/offerConfigService';
+import { groupOffersById } from '@/utils/offerConfig';
+
+export interface OfferFieldChange {
+  field: keyof OfferConfigItem;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface OfferDiff {
+  offerId: string;
+  kind: 'added' | 'removed' | 'changed';
+  /** POS the offer was added to / taken off. */
+  posAdded: string[];
+  posRemoved: string[];
+  changes: OfferFieldChange[];
+}
+
+export interface PosDiff {
+  pos: string;
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface OfferConfigDiff {
+  offers: OfferDiff[];
+  byPos: PosDiff[];
+}
+
+/** One call that moves the live config towards another version. */
+export type OfferReplayStep =
+  | { action: 'create'; offerId: string; posList: string[]; offer: OfferConfigItem }
+  | { action: 'edit'; offerId: string; posList: string[]; offer: OfferConfigItem }
+  | { action: 'delete'; offerId: string };
+
+/** Editor-facing labels, in the order fields appear in a diff. */
+export const OFFER_FIELD_LABELS: Partial<Record<keyof OfferConfigItem, string>> = {
+  start: 'Start',
+  end: 'End',
+  url_reg_arr: 'URL regexes',
+  bread_arr: 'Breadcrumbs',
+  price_range: 'Price range',
+  url: 'Destination URL',
+  image_url: 'Image',
+  imageSize: 'Image size',
+  bannerSize: 'Banner size',
+  domain: 'Domain',
+  auto_close_time: 'Auto close (s)',
+  just_banner: 'Banner only',
+  heading_text: 'Heading',
+  main_text: 'Main text',
+  button_text: 'Button text',
+  pixel_show: 'Impression pixel',
+  pixel_click: 'Click pixel',
+  campaignId: 'Campaign',
+  adId: 'Ad',
+  slotId: 'Tracking slot',
+};
+
+const formatEpoch = (epoch: number) =>
+  new Date(epoch * 1000).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/** Human-readable value of one offer field. */
+export function formatOfferFieldValue(field: keyof OfferConfigItem, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (field === 'start' || field === 'end') return formatEpoch(Number(value));
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '(none)';
+  if (field === 'price_range') {
+    const range = value as { min: number; max: number };
+    return `${range.min} – ${range.max}`;
+  }
+  if (field === 'imageSize' || field === 'bannerSize') {
+    const size = value as { width: number; height: number };
+    return `${size.width}×${size.height}`;
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+  const isEmpty = (v: unknown) => v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+  if (isEmpty(a) && isEmpty(b)) return true;
+  if (a && b && typeof a === 'object' && typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  // Ids come back as numbers on v1 and strings on v2
+  return String(a) === String(b);
+};
+
+/** Field-by-field changes between two copies of an offer, in OFFER_FIELD_LABELS order. */
+export function diffOffer(before: OfferConfigItem, after: OfferConfigItem): OfferFieldChange[] {
+  return (Object.keys(OFFER_FIELD_LABELS) as Array<keyof OfferConfigItem>)
+    .filter((field) => !sameValue(before[field], after[field]))
+    .map((field) => ({
+      field,
+      label: OFFER_FIELD_LABELS[field] ?? field,
+      before: formatOfferFieldValue(field, before[field]),
+      after: formatOfferFieldValue(field, after[field]),
+    }));
+}
+
+/** What changed from one config version to another: per offer (with per-field changes) and per POS. */
+export function diffOfferConfigs(before: OfferConfigMap, after: OfferConfigMap): OfferConfigDiff {
+  const a = new Map(groupOffersById(before).map((row) => [row.offer.offer_id, row]));
+  const b = new Map(groupOffersById(after).map((row) => [row.offer.offer_id, row]));
+  const offers: OfferDiff[] = [];
+
+  new Set([...a.keys(), ...b.keys()]).forEach((offerId) => {
+    const was = a.get(offerId);
+    const now = b.get(offerId);
+    if (!was && now) {
+      offers.push({ offerId, kind: 'added', posAdded: now.posList, posRemoved: [], changes: [] });
+    } else if (was && !now) {
+      offers.push({ offerId, kind: 'removed', posAdded: [], posRemoved: was.posList, changes: [] });
+    } else if (was && now) {
+      const posAdded = now.posList.filter((pos) => !was.posList.includes(pos));
+      const posRemoved = was.posList.filter((pos) => !now.posList.includes(pos));
+      const changes = diffOffer(was.offer, now.offer);
+      if (posAdded.length || posRemoved.length || changes.length) {
+        offers.push({ offerId, kind: 'changed', posAdded, posRemoved, changes });
+      }
+    }
+  });
+
+  const byPos = new Map<string, PosDiff>();
+  const posEntry = (pos: string) => {
+    const entry = byPos.get(pos) ?? { pos, added: [], removed: [], changed: [] };
+    byPos.set(pos, entry);
+    return entry;
+  };
+  offers.forEach((diff) => {
+    diff.posAdded.forEach((pos) => posEntry(pos).added.push(diff.offerId));
+    diff.posRemoved.forEach((pos) => posEntry(pos).removed.push(diff.offerId));
+    if (diff.changes.length) {
+      const untouched = (b.get(diff.offerId)?.posList ?? []).filter((pos) => !diff.posAdded.includes(pos));
+      untouched.forEach((pos) => posEntry(pos).changed.push(diff.offerId));
+    }
+  });
+
+  return {
+    offers: offers.sort((x, y) => x.offerId.localeCompare(y.offerId)),
+    byPos: Array.from(byPos.values()).sort((x, y) => Number(x.pos) - Number(y.pos)),
+  };
+}
+
+/**
+ * The create/edit/delete calls that turn `current` into `target`: offers
+ * missing from the target are deleted, new ones created, and changed ones
+ * edited with the target's fields and POS list.
+ */
+export function planReplay(current: OfferConfigMap, target: OfferConfigMap): OfferReplayStep[] {
+  const targetRows = new Map(groupOffersById(target).map((row) => [row.offer.offer_id, row]));
+  return diffOfferConfigs(current, target).offers.map((diff): OfferReplayStep => {
+    const row = targetRows.get(diff.offerId);
+    if (diff.kind === 'removed' || !row) return { action: 'delete', offerId: diff.offerId };
+    return { action: diff.kind === 'added' ? 'create' : 'edit', offerId: diff.offerId, posList: row.posList, offer: row.offer };
+  });
+}
@@ -0,0 +1,179 @@
+import type { OfferConfigItem, OfferConfigMap } from '@/services/offerConfigService';
+import { groupOffersById, offerStatus, type OfferRow } from '@/utils/offerConfig';
+import { runnablePattern } from '@/utils/offerRegex';
+
+/**
+ * Offers that would show on the same page at the same time.
+ *
+ * Two offers conflict when they share a POS, their windows overlap (and the
+ * overlap isn't over yet), their price ranges overlap, their breadcrumbs don't
+ * rule each other out, and their URL regexes can match the same page. That
+ * last part can't be decided for arbitrary regexes, so it's judged from the
+ * patterns themselves:
+ *
+ * - `exact`: a pattern appears in both offers, or one offer's pattern matches
+ *   the literal URL the other's pattern spells out;
+ * - `host`: both have patterns pinned to the same site but nothing shows the
+ *   paths meet — a likely conflict, worth a look rather than a block.
+ */
+
+export type TargetingOverlap = 'exact' | 'host';
+
+export interface OfferConflict {
+  /** The two offer_ids, in a stable order. */
+  a: string;
+  b: string;
+  /** POS both offers run on. */
+  posList: string[];
+  /** Epoch seconds the two windows overlap for. */
+  start: number;
+  end: number;
+  overlap: TargetingOverlap;
+  /** Why the targeting overlaps, one line per reason. */
+  reasons: string[];
+}
+
+/** The fields conflict checks look at; a saved offer or the one in the editor. */
+export type ConflictCandidate = Pick<OfferConfigItem, 'offer_id' | 'start' | 'end' | 'url_reg_arr' | 'bread_arr' | 'price_range'>;
+
+const BREADCRUMB_SEPARATOR = '*~';
+
+/**
+ * The literal URL text a pattern starts with, e.g. `^https://in\.puma\.com/shoes`
+ * → `https://in.puma.com/shoes`. Stops at the first metacharacter; '' if
+ * there's nothing usable.
+ */
+export function patternLiteral(pattern: string): string {
+  let out = '';
+  let i = pattern.startsWith('^') ? 1 : 0;
+  for (; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') {
+      const next = pattern[i + 1];
+      if (next && /[./\-?&=:#+()[\]{}*|^$]/.test(next)) {
+        out += next;
+        i++;
+        continue;
+      }
+      break;
+    }
+    if ('.*+?()[]{}|$'.includes(c)) {
+      // A quantifier makes the character before it optional
+      if ('*?{'.includes(c)) out = out.slice(0, -1);
+      break;
+    }
+    out += c;
+  }
+  return out;
+}
+
+/** Sites a pattern names, without `www.`: `amazon\.in/dp` → `amazon.in`. */
+export function patternHosts(pattern: string): string[] {
+  const matches = pattern.replace(/\\\./g, '.').match(/[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|in|co|net|org|io|shop|store)(?![a-z0-9-])/gi) ?? [];
+  return Array.from(new Set(matches.map((host) => host.toLowerCase().replace(/^www\./, ''))));
+}
+
+/** Forms a literal might take as a real href, so `in.puma.com/x` is tried as `https://in.puma.com/x` too. */
+const hrefsFor = (literal: string) =>
+  /^https?:\/\//.test(literal) ? [literal] : [literal, `https://${literal}`, `https://www.${literal}`];
+
+function literalMatches(pattern: string, other: string): boolean {
+  const literal = patternLiteral(other);
+  if (literal.length < 4) return false;
+  // Patterns that could backtrack catastrophically aren't run; the host check still applies
+  const regex = runnablePattern(pattern);
+  return !!regex && hrefsFor(literal).some((href) => regex.test(href));
+}
+
+/** How two offers' URL regexes overlap, if they do. */
+export function regexOverlap(a: string[], b: string[]): { overlap: TargetingOverlap; reasons: string[] } | null {
+  const exact: string[] = [];
+  a.forEach((pa) => {
+    b.forEach((pb) => {
+      if (pa === pb) exact.push(`Same URL regex ${pa}`);
+      else if (literalMatches(pa, pb)) exact.push(`${pa} matches ${patternLiteral(pb)}`);
+      else if (literalMatches(pb, pa)) exact.push(`${pb} matches ${patternLiteral(pa)}`);
+    });
+  });
+  if (exact.length) return { overlap: 'exact', reasons: Array.from(new Set(exact)) };
+
+  // in.puma.com and puma.com are the same site for this purpose
+  const sameSite = (x: string, y: string) => x === y || x.endsWith(`.${y}`) || y.endsWith(`.${x}`);
+  const hostsB = b.flatMap(patternHosts);
+  const shared = Array.from(new Set(a.flatMap(patternHosts).filter((host) => hostsB.some((other) => sameSite(host, other)))));
+  if (shared.length) return { overlap: 'host', reasons: shared.map((host) => `Both target ${host}`) };
+  return null;
+}
+
+/** Breadcrumbs narrow an offer to categories; none means every category. */
+export function breadcrumbsOverlap(a: string[] = [], b: string[] = []): boolean {
+  if (!a.length || !b.length) return true;
+  const within = (outer: string, inner: string) => {
+    const o = outer.split(BREADCRUMB_SEPARATOR).map((s) => s.trim().toLowerCase());
+    const n = inner.split(BREADCRUMB_SEPARATOR).map((s) => s.trim().toLowerCase());
+    return o.length <= n.length && o.every((segment, i) => segment === n[i]);
+  };
+  return a.some((x) => b.some((y) => within(x, y) || within(y, x)));
+}
+
+export function priceRangesOverlap(a?: { min: number; max: number }, b?: { min: number; max: number }): boolean {
+  const lo = (r?: { min: number }) => (r && Number.isFinite(r.min) ? r.min : 0);
+  const hi = (r?: { max: number }) => (r && Number.isFinite(r.max) ? r.max : Infinity);
+  return lo(a) <= hi(b) && lo(b) <= hi(a);
+}
+
+function conflictBetween(a: ConflictCandidate, aPos: string[], b: ConflictCandidate, bPos: string[], now: number): OfferConflict | null {
+  const posList = aPos.filter((pos) => bPos.includes(pos));
+  if (!posList.length) return null;
+  const start = Math.max(a.start, b.start);
+  const end = Math.min(a.end, b.end);
+  if (start >= end || end * 1000 < now) return null;
+  if (!priceRangesOverlap(a.price_range, b.price_range)) return null;
+  if (!breadcrumbsOverlap(a.bread_arr, b.bread_arr)) return null;
+  const targeting = regexOverlap(a.url_reg_arr || [], b.url_reg_arr || []);
+  if (!targeting) return null;
+  const [first, second] = [a.offer_id, b.offer_id].sort();
+  return { a: first, b: second, posList, start, end, ...targeting };
+}
+
+/** Every conflicting pair in the config that isn't over yet. */
+export function findOfferConflicts(configMap: OfferConfigMap, now = Date.now()): OfferConflict[] {
+  const rows = groupOffersById(configMap);
+  const conflicts: OfferConflict[] = [];
+  rows.forEach((a, i) => {
+    rows.slice(i + 1).forEach((b) => {
+      const conflict = conflictBetween(a.offer, a.posList, b.offer, b.posList, now);
+      if (conflict) conflicts.push(conflict);
+    });
+  });
+  return conflicts.sort((x, y) => x.start - y.start);
+}
+
+export interface SaveConflicts {
+  /** Exact-targeting collisions with offers live right now — saving is refused. */
+  blocking: Array<OfferConflict & { other: OfferRow }>;
+  /** Everything else: collisions with scheduled offers, or same-site overlaps. */
+  warnings: Array<OfferConflict & { other: OfferRow }>;
+}
+
+/**
+ * Conflicts the offer being saved would introduce. `replacing` is the
+ * offer_id being edited, so it isn't compared with its own saved copy.
+ */
+export function conflictsForSave(
+  candidate: ConflictCandidate,
+  posList: string[],
+  configMap: OfferConfigMap,
+  replacing?: string,
+  now = Date.now()
+): SaveConflicts {
+  const result: SaveConflicts = { blocking: [], warnings: [] };
+  groupOffersById(configMap).forEach((row) => {
+    if (row.offer.offer_id === replacing || row.offer.offer_id === candidate.offer_id) return;
+    const conflict = conflictBetween(candidate, posList, row.offer, row.posList, now);
+    if (!conflict) return;
+    const live = offerStatus(row.offer, now) === 'live';
+    (conflict.overlap === 'exact' && live ? result.blocking : result.warnings).push({ ...conflict, other: row });
+  });
+  return result;
+}
@@ -0,0 +1,298 @@
+import type { OfferConfigItem, OfferConfigMap } from '@/services/offerConfigService';
+import { groupOffersById, offerStatus, type OfferStatus } from '@/utils/offerConfig';
+
+/**
+ * URL-regex checks for offers.
+ *
+ * The extension shows an offer on a page when any entry of its `url_reg_arr`
+ * matches the page URL — `new RegExp(pattern).test(location.href)`, no flags.
+ * `testOfferUrls` replays that over a batch of sample URLs for every offer in
+ * the config (plus the one being edited), and `analyzePattern` flags patterns
+ * likely to misfire: catastrophic backtracking, patterns that match pages on
+ * several marketplaces, and domains with an unescaped `.`.
+ *
+ * Everything here runs on the main thread as the user types, so a pattern
+ * with a nested quantifier is never executed — one bad URL would freeze the
+ * tab. It is reported instead (see runnablePattern).
+ */
+
+export type PatternWarningKind = 'invalid' | 'backtracking' | 'broad' | 'unescaped-dot' | 'wildcards';
+
+export interface PatternWarning {
+  kind: PatternWarningKind;
+  severity: 'danger' | 'warn';
+  message: string;
+}
+
+export interface PatternHit {
+  pattern: string;
+  /** Numbered capture groups; undefined where a group didn't take part. */
+  groups: Array<string | undefined>;
+  named: Record<string, string | undefined>;
+}
+
+export interface OfferUrlMatch {
+  offerId: string;
+  posList: string[];
+  status: OfferStatus;
+  /** The offer being edited, tested with its unsaved patterns. */
+  draft: boolean;
+  hits: PatternHit[];
+}
+
+export interface UrlTestResult {
+  url: string;
+  /** False when the line isn't an absolute URL (still tested — the extension would see whatever href it gets). */
+  wellFormed: boolean;
+  matches: OfferUrlMatch[];
+  /** Slowest single pattern on this URL, when it took long enough to matter. */
+  slow?: { pattern: string; ms: number };
+}
+
+/** A pattern testOfferUrls didn't run, and the offer it belongs to. */
+export interface SkippedPattern {
+  offerId: string;
+  draft: boolean;
+  pattern: string;
+  /** The nested-quantifier group that got it skipped. */
+  nested: string;
+}
+
+export interface DraftOffer {
+  offerId: string;
+  posList: string[];
+  patterns: string[];
+  start?: number;
+  end?: number;
+}
+
+/** A pattern taking this long on one URL is worth a look; the extension runs them on every page load. */
+const SLOW_MS = 20;
+
+/** Pages on different marketplaces; an offer pattern matching several of them is almost certainly too broad. */
+const PROBE_URLS = [
+  'https://www.amazon.in/Apple-iPhone-15-128-GB/dp/B0CHX1W1XY',
+  'https://www.flipkart.com/apple-iphone-15-black-128-gb/p/itm6ac6485515ae4',
+  'https://www.myntra.com/tshirts/puma/puma-men-printed-t-shirt/23456789/buy',
+  'https://www.ajio.com/puma-men-regular-fit-crew-neck-t-shirt/p/469581234_black',
+  'https://www.nykaa.com/maybelline-new-york-fit-me-foundation/p/123456',
+  'https://www.tatacliq.com/apple-iphone-15/p-mp000000018576123',
+  'https://www.google.com/search?q=iphone+15',
+];
+
+const compiled = new Map<string, RegExp | null>();
+
+/** Compile once per pattern; null if it doesn't compile. */
+export function compilePattern(pattern: string): RegExp | null {
+  if (!compiled.has(pattern)) {
+    try {
+      compiled.set(pattern, new RegExp(pattern));
+    } catch {
+      compiled.set(pattern, null);
+    }
+  }
+  return compiled.get(pattern) ?? null;
+}
+
+/**
+ * A quantified group whose body is itself unboundedly quantified — `(a+)+`,
+ * `(\w+\s?)*`, `(.*)+` — the shape behind catastrophic backtracking. Returns
+ * the offending group, or null.
+ */
+export function findNestedQuantifier(pattern: string): string | null {
+  const stack: Array<{ start: number; quantified: boolean }> = [];
+  let inClass = false;
+
+  const unboundedAt = (i: number) => {
+    const c = pattern[i];
+    if (c === '*' || c === '+') return true;
+    return c === '{' && /^\{\d*,\}/.test(pattern.slice(i));
+  };
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') {
+      i++;
+      continue;
+    }
+    if (inClass) {
+      if (c === ']') inClass = false;
+      continue;
+    }
+    if (c === '[') {
+      inClass = true;
+    } else if (c === '(') {
+      stack.push({ start: i, quantified: false });
+    } else if (c === ')') {
+      const group = stack.pop();
+      if (!group) continue;
+      if (group.quantified && unboundedAt(i + 1)) {
+        return pattern.slice(group.start, i + 2);
+      }
+      if (stack.length && group.quantified) stack[stack.length - 1].quantified = true;
+    } else if (unboundedAt(i) && stack.length) {
+      stack[stack.length - 1].quantified = true;
+    }
+  }
+  return null;
+}
+
+/**
+ * The compiled pattern if it's safe to execute here: null when it doesn't
+ * compile or has a nested quantifier (findNestedQuantifier), since running
+ * such a pattern on the wrong URL can hang the page.
+ */
+export function runnablePattern(pattern: string): RegExp | null {
+  const regex = compilePattern(pattern);
+  return regex && !findNestedQuantifier(pattern) ? regex : null;
+}
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+export function analyzePattern(pattern: string): PatternWarning[] {
+  const regex = compilePattern(pattern);
+  if (!regex) return [{ kind: 'invalid', severity: 'danger', message: "Doesn't compile — the extension skips it" }];
+
+  const warnings: PatternWarning[] = [];
+
+  const nested = findNestedQuantifier(pattern);
+  if (nested) {
+    warnings.push({
+      kind: 'backtracking',
+      severity: 'danger',
+      message: `Nested quantifier ${nested} can backtrack catastrophically on long URLs that almost match — not run here, so it isn't checked for breadth either`,
+    });
+  } else {
+    const probeHosts = PROBE_URLS.filter((url) => regex.test(url)).map(hostOf);
+    if (regex.test('')) {
+      warnings.push({ kind: 'broad', severity: 'danger', message: 'Matches the empty string, so it fires on every page' });
+    } else if (probeHosts.length >= 2) {
+      warnings.push({ kind: 'broad', severity: 'danger', message: `Too broad — matches ${probeHosts.join(', ')}` });
+    }
+  }
+
+  const bareDomain = pattern.match(/[a-z0-9-]\.(?:com|in|co|net|org)\b/i);
+  if (bareDomain) {
+    warnings.push({
+      kind: 'unescaped-dot',
+      severity: 'warn',
+      message: `Unescaped "." in "${bareDomain[0]}" matches any character — use \\.`,
+    });
+  }
+
+  const wildcards = (pattern.match(/(?<!\\)\.[*+]/g) ?? []).length;
+  if (wildcards >= 3) {
+    warnings.push({
+      kind: 'wildcards',
+      severity: 'warn',
+      message: `${wildcards} unbounded wildcards — each one multiplies the work on URLs that don't match`,
+    });
+  }
+
+  return warnings;
+}
+
+/** Patterns anywhere in the config that have warnings, with the offers using them. */
+export function auditConfigPatterns(configMap: OfferConfigMap): Array<{ pattern: string; offerIds: string[]; warnings: PatternWarning[] }> {
+  const byPattern = new Map<string, string[]>();
+  groupOffersById(configMap).forEach(({ offer }) => {
+    (offer.url_reg_arr || []).forEach((pattern) => {
+      const ids = byPattern.get(pattern) ?? [];
+      if (!ids.includes(offer.offer_id)) ids.push(offer.offer_id);
+      byPattern.set(pattern, ids);
+    });
+  });
+  return Array.from(byPattern.entries())
+    .map(([pattern, offerIds]) => ({ pattern, offerIds, warnings: analyzePattern(pattern) }))
+    .filter((entry) => entry.warnings.length > 0)
+    .sort((a, b) => Number(b.warnings.some((w) => w.severity === 'danger')) - Number(a.warnings.some((w) => w.severity === 'danger')));
+}
+
+/** Split pasted text into URLs: one per line, blanks and duplicates dropped. */
+export function parseSampleUrls(text: string): string[] {
+  return Array.from(new Set(text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean)));
+}
+
+function matchPatterns(url: string, patterns: string[], timings: Array<{ pattern: string; ms: number }>): PatternHit[] {
+  const hits: PatternHit[] = [];
+  patterns.forEach((pattern) => {
+    const regex = runnablePattern(pattern);
+    if (!regex) return;
+    const started = performance.now();
+    const match = regex.exec(url);
+    timings.push({ pattern, ms: performance.now() - started });
+    if (match) hits.push({ pattern, groups: match.slice(1), named: { ...(match.groups ?? {}) } });
+  });
+  return hits;
+}
+
+interface OfferCandidate {
+  offerId: string;
+  posList: string[];
+  patterns: string[];
+  status: OfferStatus;
+  draft: boolean;
+}
+
+/** Every saved offer plus the draft, which replaces the saved offer with its id. */
+function offerCandidates(configMap: OfferConfigMap, draft: DraftOffer | undefined, now: number): OfferCandidate[] {
+  const saved = groupOffersById(configMap).filter((row) => !draft || row.offer.offer_id !== draft.offerId);
+  const candidates: OfferCandidate[] = saved.map(({ offer, posList }) => ({
+    offerId: offer.offer_id,
+    posList,
+    patterns: offer.url_reg_arr || [],
+    status: offerStatus(offer, now),
+    draft: false,
+  }));
+  if (draft && draft.patterns.length) {
+    const window: Pick<OfferConfigItem, 'start' | 'end'> | null = draft.start && draft.end ? { start: draft.start, end: draft.end } : null;
+    candidates.unshift({
+      offerId: draft.offerId || 'New offer',
+      posList: draft.posList,
+      patterns: draft.patterns,
+      status: window ? offerStatus(window, now) : 'scheduled',
+      draft: true,
+    });
+  }
+  return candidates;
+}
+
+/** Patterns testOfferUrls leaves out because running them could hang the tab. */
+export function skippedPatterns(configMap: OfferConfigMap, draft?: DraftOffer, now = Date.now()): SkippedPattern[] {
+  return offerCandidates(configMap, draft, now).flatMap((candidate) =>
+    candidate.patterns.flatMap((pattern) => {
+      const nested = compilePattern(pattern) ? findNestedQuantifier(pattern) : null;
+      return nested ? [{ offerId: candidate.offerId, draft: candidate.draft, pattern, nested }] : [];
+    })
+  );
+}
+
+/**
+ * Which offers fire on each URL. The draft replaces the saved offer with the
+ * same id, so edits are tested before they're saved. Patterns listed by
+ * skippedPatterns aren't run, so offers relying on them may be missing.
+ */
+export function testOfferUrls(urls: string[], configMap: OfferConfigMap, draft?: DraftOffer, now = Date.now()): UrlTestResult[] {
+  const candidates = offerCandidates(configMap, draft, now);
+  return urls.map((url) => {
+    const timings: Array<{ pattern: string; ms: number }> = [];
+    const matches = candidates
+      .map((candidate) => ({ ...candidate, hits: matchPatterns(url, candidate.patterns, timings) }))
+      .filter((candidate) => candidate.hits.length > 0)
+      .map(({ offerId, posList, status, draft: isDraft, hits }) => ({ offerId, posList, status, draft: isDraft, hits }));
+    const slowest = timings.reduce<{ pattern: string; ms: number } | undefined>((worst, t) => (!worst || t.ms > worst.ms ? t : worst), undefined);
+    let wellFormed = true;
+    try {
+      new URL(url);
+    } catch {
+      wellFormed = false;
+    }
+    return { url, wellFormed, matches, slow: slowest && slowest.ms >= SLOW_MS ? slowest : undefined };
+  });
+}
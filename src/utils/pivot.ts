@@ -0,0 +1,206 @@
+/**
+ * Pivot table maths over flat metric records.
+ *
+ * A record is one set of counts tagged with a value for each dimension it was
+ * fetched by — e.g. `{ campaign: 'Nike', platform: 'Android' }`. `buildPivot`
+ * groups records by the row dimensions and the column dimensions, adds a
+ * subtotal row after every group above the last row level, and totals each
+ * row, each column and the whole table. CTR is re-derived from summed clicks
+ * and impressions at every level rather than averaged.
+ */
+
+export type PivotDimension = 'campaign' | 'ad' | 'slot' | 'site' | 'platform' | 'gender' | 'age' | 'location' | 'date';
+export type PivotMeasure = 'impressions' | 'clicks' | 'ctr' | 'landingCount' | 'conversions';
+
+/**
+ * How a dimension is fetched: `entity` by filtering one call per member,
+ * `breakdown` from /metrics/breakdown's `by`, `date` from /metrics/trend.
+ */
+export type PivotDimensionKind = 'entity' | 'breakdown' | 'date';
+
+export const PIVOT_DIMENSIONS: Array<{ value: PivotDimension; label: string; kind: PivotDimensionKind }> = [
+  { value: 'campaign', label: 'Campaign', kind: 'entity' },
+  { value: 'ad', label: 'Ad', kind: 'entity' },
+  { value: 'slot', label: 'Slot', kind: 'entity' },
+  { value: 'site', label: 'POS', kind: 'entity' },
+  { value: 'platform', label: 'Platform', kind: 'breakdown' },
+  { value: 'gender', label: 'Gender', kind: 'breakdown' },
+  { value: 'age', label: 'Age', kind: 'breakdown' },
+  { value: 'location', label: 'Location', kind: 'breakdown' },
+  { value: 'date', label: 'Date bucket', kind: 'date' },
+];
+
+export const PIVOT_MEASURES: Array<{ value: PivotMeasure; label: string }> = [
+  { value: 'impressions', label: 'Impressions' },
+  { value: 'clicks', label: 'Clicks' },
+  { value: 'ctr', label: 'CTR' },
+  { value: 'landingCount', label: 'Landings' },
+  { value: 'conversions', label: 'Conversions' },
+];
+
+export interface PivotCounts {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  /** Null when any contributing record came from a breakdown, which has no landings. */
+  landingCount: number | null;
+}
+
+export interface PivotRecord {
+  keys: Partial<Record<PivotDimension, string>>;
+  counts: PivotCounts;
+}
+
+export interface PivotRow {
+  /** One value per row dimension; shorter for subtotal rows. */
+  keys: string[];
+  subtotal: boolean;
+  /** Counts per entry of `PivotResult.columns`. */
+  cells: PivotCounts[];
+  total: PivotCounts;
+}
+
+export interface PivotResult {
+  /** One value per column dimension for each leaf column. */
+  columns: string[][];
+  rows: PivotRow[];
+  columnTotals: PivotCounts[];
+  grandTotal: PivotCounts;
+}
+
+const EMPTY: PivotCounts = { impressions: 0, clicks: 0, conversions: 0, landingCount: 0 };
+
+export const dimensionKind = (dimension: PivotDimension): PivotDimensionKind =>
+  PIVOT_DIMENSIONS.find((d) => d.value === dimension)?.kind ?? 'entity';
+
+export const dimensionLabel = (dimension: PivotDimension): string =>
+  PIVOT_DIMENSIONS.find((d) => d.value === dimension)?.label ?? dimension;
+
+/**
+ * Why a layout can't be fetched, or null if it can. Breakdowns come one `by`
+ * at a time and the trend endpoint has no `by`, so at most one breakdown or
+ * date dimension fits in a layout.
+ */
+export function validatePivotLayout(rows: PivotDimension[], columns: PivotDimension[]): string | null {
+  const dims = [...rows, ...columns];
+  if (new Set(dims).size !== dims.length) return 'Each dimension can only be used once.';
+  const split = dims.filter((d) => dimensionKind(d) !== 'entity');
+  if (split.length > 1) {
+    return `${split.map(dimensionLabel).join(' and ')} can't be combined — the API returns one breakdown (or date bucket) per call.`;
+  }
+  return null;
+}
+
+export function addCounts(a: PivotCounts, b: PivotCounts): PivotCounts {
+  return {
+    impressions: a.impressions + b.impressions,
+    clicks: a.clicks + b.clicks,
+    conversions: a.conversions + b.conversions,
+    landingCount: a.landingCount === null || b.landingCount === null ? null : a.landingCount + b.landingCount,
+  };
+}
+
+const sumCounts = (records: PivotRecord[]) => records.reduce((total, r) => addCounts(total, r.counts), EMPTY);
+
+/** A measure's value from counts; null when it isn't available (landings from a breakdown). */
+export function measureValue(counts: PivotCounts, measure: PivotMeasure): number | null {
+  if (measure === 'ctr') return counts.impressions > 0 ? (counts.clicks / counts.impressions) * 100 : 0;
+  return counts[measure];
+}
+
+const keyOf = (record: PivotRecord, dims: PivotDimension[]) => dims.map((d) => record.keys[d] ?? '—');
+
+/** Members of one dimension ordered for display: dates chronologically, the rest by impressions. */
+function orderedMembers(records: PivotRecord[], dimension: PivotDimension): string[] {
+  const totals = new Map<string, number>();
+  records.forEach((r) => {
+    const key = r.keys[dimension] ?? '—';
+    totals.set(key, (totals.get(key) ?? 0) + r.counts.impressions);
+  });
+  const members = Array.from(totals.keys());
+  return dimension === 'date'
+    ? members.sort((a, b) => a.localeCompare(b))
+    : members.sort((a, b) => (totals.get(b) ?? 0) - (totals.get(a) ?? 0) || a.localeCompare(b));
+}
+
+/** Leaf column keys, nested in column-dimension order. */
+function columnKeys(records: PivotRecord[], dims: PivotDimension[], prefix: string[] = []): string[][] {
+  if (dims.length === 0) return [prefix];
+  const [dim, ...rest] = dims;
+  return orderedMembers(records, dim).flatMap((member) =>
+    columnKeys(records.filter((r) => (r.keys[dim] ?? '—') === member), rest, [...prefix, member])
+  );
+}
+
+export function buildPivot(records: PivotRecord[], rows: PivotDimension[], columns: PivotDimension[]): PivotResult {
+  const columnList = columnKeys(records, columns);
+  const columnIndex = new Map(columnList.map((key, i) => [key.join('\u0000'), i]));
+
+  const rowFor = (group: PivotRecord[], keys: string[], subtotal: boolean): PivotRow => {
+    const cells = columnList.map(() => EMPTY);
+    group.forEach((r) => {
+      const i = columnIndex.get(keyOf(r, columns).join('\u0000'));
+      if (i !== undefined) cells[i] = addCounts(cells[i], r.counts);
+    });
+    return { keys, subtotal, cells, total: sumCounts(group) };
+  };
+
+  const result: PivotRow[] = [];
+  const emit = (group: PivotRecord[], level: number, prefix: string[]) => {
+    if (level === rows.length) {
+      result.push(rowFor(group, prefix, false));
+      return;
+    }
+    const dim = rows[level];
+    orderedMembers(group, dim).forEach((member) => {
+      const members = group.filter((r) => (r.keys[dim] ?? '—') === member);
+      emit(members, level + 1, [...prefix, member]);
+      if (level < rows.length - 1) result.push(rowFor(members, [...prefix, member], true));
+    });
+  };
+  emit(records, 0, []);
+
+  const totalsRow = rowFor(records, [], true);
+  return { columns: columnList, rows: result, columnTotals: totalsRow.cells, grandTotal: totalsRow.total };
+}
+
+/**
+ * Flatten a pivot into CSV-ready rows: one column per row dimension, then one
+ * per column key × measure, then the row totals. Subtotal and grand-total rows
+ * are labelled in the first blank dimension cell.
+ */
+export function pivotToCsvRows(
+  pivot: PivotResult,
+  rows: PivotDimension[],
+  columns: PivotDimension[],
+  measures: PivotMeasure[]
+): Record<string, string | number>[] {
+  const measureName = (m: PivotMeasure) => PIVOT_MEASURES.find((x) => x.value === m)?.label ?? m;
+  const columnName = (key: string[], m: PivotMeasure) =>
+    columns.length === 0 ? measureName(m) : `${key.join(' / ')} · ${measureName(m)}`;
+  const format = (counts: PivotCounts, m: PivotMeasure) => {
+    const value = measureValue(counts, m);
+    if (value === null) return '';
+    return m === 'ctr' ? Number(value.toFixed(2)) : value;
+  };
+
+  const toRecord = (keys: string[], label: string | null, cells: PivotCounts[], total: PivotCounts) => {
+    const record: Record<string, string | number> = {};
+    rows.forEach((dim, i) => {
+      record[dimensionLabel(dim)] = keys[i] ?? (i === keys.length && label ? label : '');
+    });
+    if (rows.length === 0) record.Row = label ?? 'All';
+    pivot.columns.forEach((key, ci) => {
+      measures.forEach((m) => { record[columnName(key, m)] = format(cells[ci], m); });
+    });
+    if (columns.length > 0) {
+      measures.forEach((m) => { record[`Total · ${measureName(m)}`] = format(total, m); });
+    }
+    return record;
+  };
+
+  return [
+    ...pivot.rows.map((row) => toRecord(row.keys, row.subtotal ? 'Subtotal' : null, row.cells, row.total)),
+    ...(rows.length > 0 ? [toRecord([], 'Grand total', pivot.columnTotals, pivot.grandTotal)] : []),
+  ];
+}
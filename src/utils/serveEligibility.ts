@@ -0,0 +1,234 @@
+import { Ad } from '@/types';
+import { extractCategoriesForUpdate, toLocalDateInput } from '@/utils/adUtils';
+
+/**
+ * Client-side mirror of the HARD eligibility gates applied by the serve query
+ * (`buyhatke-ads/routes/content.js`). See ADS_V2_FIELD_GUIDE.md §2–§7 — that doc
+ * is the authority; every gate below cites the section it implements.
+ */
+
+/** A hypothetical user + request, as resolved by the serve side. */
+export interface ServeRequestProfile {
+  /** Resolved user gender: 'm' / 'f', or 'NA' when unknown. */
+  gender: 'm' | 'f' | 'NA';
+  pincode: string;
+  city: string;
+  state: string;
+  country: string;
+  /** Request siteId (POS). Empty = not sent. */
+  siteId: string;
+  /** Request slotId. */
+  slotId: string;
+  /** Request slotType. '-1' and '0' are special request modes (guide §3). */
+  slotType: string;
+  /** Request `ln` category id. */
+  ln: string;
+  /** Categories the user is inferred to be interested in (catIds). */
+  interestCategories: string[];
+  /** User's average product price; null = no price signal. */
+  avgPrice: number | null;
+  /** Serve date to evaluate against (YYYY-MM-DD). */
+  date: string;
+}
+
+export type GateOutcome = 'pass' | 'fail' | 'unknown';
+
+export interface EligibilityGate {
+  key: string;
+  label: string;
+  outcome: GateOutcome;
+  reason: string;
+}
+
+/** The user's price band is ≈ ±30% of their average price (guide §3). */
+export const PRICE_BAND_SPREAD = 0.3;
+
+export const todayYmd = (): string => toLocalDateInput(new Date().toISOString());
+
+export const emptyServeProfile = (): ServeRequestProfile => ({
+  gender: 'NA',
+  pincode: '',
+  city: '',
+  state: '',
+  country: 'IN',
+  siteId: '',
+  slotId: '',
+  slotType: '',
+  ln: '',
+  interestCategories: [],
+  avgPrice: null,
+  date: todayYmd(),
+});
+
+const keysOf = (value: unknown): string[] => {
+  if (!value || typeof value !== 'object') return [];
+  if (Array.isArray(value)) return value.map((v) => String(v).trim()).filter(Boolean);
+  return Object.keys(value as Record<string, unknown>).map((k) => k.trim()).filter(Boolean);
+};
+
+/** The ad's category ids, whichever of the stored/API shapes it arrives in. */
+export const adCategoryIds = (ad: Pick<Ad, 'categories'>): string[] =>
+  Object.keys(extractCategoriesForUpdate(ad.categories)).filter(Boolean);
+
+export const adSiteIds = (ad: Pick<Ad, 'sites'>): string[] => keysOf(ad.sites);
+
+export const adLocationTokens = (ad: Pick<Ad, 'location'>): string[] => keysOf(ad.location);
+
+/** User location tokens in the order the serve query checks them. */
+export const profileLocationTokens = (profile: ServeRequestProfile): Array<{ level: 'pincode' | 'city' | 'state' | 'country'; token: string }> =>
+  (['pincode', 'city', 'state', 'country'] as const)
+    .map((level) => ({ level, token: profile[level].trim() }))
+    .filter((t) => t.token.length > 0);
+
+const gate = (key: string, label: string, outcome: GateOutcome, reason: string): EligibilityGate => ({ key, label, outcome, reason });
+
+const checkStatus = (ad: Ad): EligibilityGate =>
+  ad.status === 1
+    ? gate('status', 'Status', 'pass', 'Ad is active (status=1).')
+    : gate('status', 'Status', 'fail', `Only status=1 is ever served; this ad has status=${ad.status}${ad.status === -1 ? ' (archived)' : ' (paused)'}.`);
+
+const checkDates = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  if (!ad.startDate || !ad.endDate) {
+    return gate('dates', 'Date window', 'fail', 'Ad has no start/end date, so startDate ≤ today ≤ endDate can never hold.');
+  }
+  const start = toLocalDateInput(ad.startDate);
+  const end = toLocalDateInput(ad.endDate);
+  const day = profile.date || todayYmd();
+  if (day < start) return gate('dates', 'Date window', 'fail', `Starts ${start}; ${day} is before the window.`);
+  if (day > end) return gate('dates', 'Date window', 'fail', `Ended ${end}; ${day} is after the window.`);
+  return gate('dates', 'Date window', 'pass', `${day} is within ${start} → ${end} (time of day is not enforced).`);
+};
+
+const checkSlotId = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  const adSlot = String(ad.slotId ?? '').trim();
+  if (!adSlot) return gate('slotId', 'Slot', 'pass', 'Ad has an empty slotId, so it serves on any slot.');
+  if (!profile.slotId.trim()) return gate('slotId', 'Slot', 'fail', `Ad is bound to slot ${adSlot}; the request sends no slotId.`);
+  return adSlot === profile.slotId.trim()
+    ? gate('slotId', 'Slot', 'pass', 'Request slotId matches the ad.')
+    : gate('slotId', 'Slot', 'fail', `Ad is bound to slot ${adSlot}; the request is for ${profile.slotId.trim()}.`);
+};
+
+const checkSlotType = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  const requested = profile.slotType.trim();
+  if (requested === '-1') {
+    return ad.serveStrategy === 1 || ad.serveStrategy === 2
+      ? gate('slotType', 'Slot type', 'pass', "slotType='-1' mode serves product/coupon ads, and this is one.")
+      : gate('slotType', 'Slot type', 'fail', "slotType='-1' mode serves only serveStrategy 1 or 2.");
+  }
+  if (ad.slotType === undefined || ad.slotType === null || ad.slotType === '') {
+    return gate('slotType', 'Slot type', 'unknown', 'The loaded ad record carries no slotType, so this gate cannot be checked here.');
+  }
+  if (!requested) return gate('slotType', 'Slot type', 'unknown', 'Enter the request slotType to check this gate.');
+  return String(ad.slotType) === requested
+    ? gate('slotType', 'Slot type', 'pass', `Request slotType ${requested} matches the ad.`)
+    : gate('slotType', 'Slot type', 'fail', `Ad slotType is ${ad.slotType}; the request is ${requested}.`);
+};
+
+const checkGender = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  const g = String(ad.gender ?? '');
+  if (g !== 'm' && g !== 'f') {
+    return gate('gender', 'Gender', 'pass', `Ad gender "${g || 'u'}" is not exactly m/f, so it is served to everyone.`);
+  }
+  if (profile.gender === g) return gate('gender', 'Gender', 'pass', `User resolved as ${g}, matching the ad.`);
+  return gate(
+    'gender',
+    'Gender',
+    'fail',
+    profile.gender === 'NA'
+      ? `Ad targets ${g}; users with unknown gender are never served gender-targeted ads.`
+      : `Ad targets ${g}; user resolved as ${profile.gender}.`
+  );
+};
+
+const checkLocation = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  const tokens = adLocationTokens(ad);
+  const userTokens = profileLocationTokens(profile);
+  const hit = userTokens.find((t) => tokens.includes(t.token));
+  if (ad.serveStrategy === 2) {
+    if (tokens.length === 0) return gate('location', 'Location', 'fail', 'Coupon ads (serveStrategy=2) require a location match; this ad has no location, so it never serves.');
+    return hit
+      ? gate('location', 'Location', 'pass', `Coupon ad location matches the user's ${hit.level} (${hit.token}).`)
+      : gate('location', 'Location', 'fail', "Coupon ads require a location match; none of the user's pincode/city/state/country is in the ad's list.");
+  }
+  if (tokens.length === 0) return gate('location', 'Location', 'pass', 'Ad has no location targeting, so it serves everywhere.');
+  if (userTokens.length === 0) return gate('location', 'Location', 'fail', 'Ad is location-targeted; users with unknown location never match.');
+  return hit
+    ? gate('location', 'Location', 'pass', `User's ${hit.level} (${hit.token}) is in the ad's location list.`)
+    : gate('location', 'Location', 'fail', `None of ${userTokens.map((t) => t.token).join(', ')} is in the ad's location list.`);
+};
+
+const checkSites = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  const sites = adSiteIds(ad);
+  if (sites.length === 0) return gate('sites', 'Sites', 'pass', 'Ad has no site targeting, so it serves on all sites.');
+  const siteId = profile.siteId.trim();
+  if (!siteId) return gate('sites', 'Sites', 'fail', `Ad is limited to ${sites.length} site(s); the request sends no siteId.`);
+  return sites.includes(siteId)
+    ? gate('sites', 'Sites', 'pass', `Request site ${siteId} is in the ad's site list.`)
+    : gate('sites', 'Sites', 'fail', `Request site ${siteId} is not among the ad's ${sites.length} site(s).`);
+};
+
+const checkPriceRange = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  const min = Number(ad.priceRangeMin) || 0;
+  const max = Number(ad.priceRangeMax) || 0;
+  if (min === 0 && max === 0) return gate('priceRange', 'Price range', 'pass', 'priceRange is 0/0, so there is no price targeting.');
+  if (profile.avgPrice === null || !Number.isFinite(profile.avgPrice)) {
+    return gate('priceRange', 'Price range', 'pass', 'User has no price signal, so the price gate is bypassed.');
+  }
+  const low = profile.avgPrice * (1 - PRICE_BAND_SPREAD);
+  const high = profile.avgPrice * (1 + PRICE_BAND_SPREAD);
+  const overlaps = min <= high && max >= low;
+  const band = `₹${Math.round(low).toLocaleString()}–₹${Math.round(high).toLocaleString()}`;
+  return overlaps
+    ? gate('priceRange', 'Price range', 'pass', `Ad ₹${min.toLocaleString()}–₹${max.toLocaleString()} overlaps the user's band ${band}.`)
+    : gate('priceRange', 'Price range', 'fail', `Ad ₹${min.toLocaleString()}–₹${max.toLocaleString()} does not overlap the user's band ${band}.`);
+};
+
+const checkCategories = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  const cats = adCategoryIds(ad);
+  if (cats.length === 0) return gate('categories', 'Categories', 'fail', 'Ad has no categories, so it never passes the category filter.');
+  const userCats = new Set([...profile.interestCategories, profile.ln].map((c) => c.trim()).filter(Boolean));
+  if (userCats.size === 0) return gate('categories', 'Categories', 'fail', 'No user interests or request ln given; the ad needs at least one shared category.');
+  const shared = cats.filter((c) => userCats.has(c));
+  return shared.length > 0
+    ? gate('categories', 'Categories', 'pass', `Shares ${shared.length} categor${shared.length === 1 ? 'y' : 'ies'} with the user/ln (${shared.slice(0, 5).join(', ')}).`)
+    : gate('categories', 'Categories', 'fail', `None of the ad's ${cats.length} categories overlap the user's interests or ln.`);
+};
+
+const checkServeStrategy = (ad: Ad, profile: ServeRequestProfile): EligibilityGate => {
+  switch (ad.serveStrategy) {
+    case 3:
+      return gate('serveStrategy', 'Serve strategy', 'fail', 'Flight ads (serveStrategy=3) are served via the flight path and excluded from the normal query.');
+    case 4: {
+      const ln = profile.ln.trim();
+      if (!ln) return gate('serveStrategy', 'Serve strategy', 'fail', "Category-locked ads (serveStrategy=4) need the request's ln; none was given.");
+      return adCategoryIds(ad).includes(ln)
+        ? gate('serveStrategy', 'Serve strategy', 'pass', `Request ln ${ln} is in the ad's categories.`)
+        : gate('serveStrategy', 'Serve strategy', 'fail', `Category-locked: request ln ${ln} is not in the ad's categories.`);
+    }
+    case 2:
+      return gate('serveStrategy', 'Serve strategy', 'pass', 'Coupon ad — additionally requires a location match (see Location).');
+    default:
+      return gate('serveStrategy', 'Serve strategy', 'pass', `serveStrategy=${ad.serveStrategy} enters the normal serve query.`);
+  }
+};
+
+/**
+ * Evaluate every HARD gate for `ad` against `profile`. An ad is servable only
+ * when no gate fails; 'unknown' gates could not be checked from the data on hand.
+ */
+export function evaluateEligibility(ad: Ad, profile: ServeRequestProfile): EligibilityGate[] {
+  return [
+    checkStatus(ad),
+    checkDates(ad, profile),
+    checkSlotId(ad, profile),
+    checkSlotType(ad, profile),
+    checkServeStrategy(ad, profile),
+    checkGender(ad, profile),
+    checkLocation(ad, profile),
+    checkSites(ad, profile),
+    checkPriceRange(ad, profile),
+    checkCategories(ad, profile),
+  ];
+}
+
+export const isEligible = (gates: EligibilityGate[]): boolean => gates.every((g) => g.outcome !== 'fail');
@@ -0,0 +1,195 @@
+import { extractCategoriesForUpdate } from '@/utils/adUtils';
+import { PRICE_BAND_SPREAD, todayYmd } from '@/utils/serveEligibility';
+
+/**
+ * Pre-save "serve impact" lint for ad form state. Unlike the zod schema, none
+ * of these block a save on their own — they flag values that are valid but
+ * that the serve query treats differently than an editor would expect
+ * (ADS_V2_FIELD_GUIDE.md §3–§9).
+ */
+
+/** critical = the ad will never serve; warning = serves to fewer users than it looks; info = no serve effect. */
+export type ServeLintSeverity = 'critical' | 'warning' | 'info';
+
+export interface ServeLintIssue {
+  /** Stable per rule, so an acknowledgement survives unrelated edits. */
+  id: string;
+  severity: ServeLintSeverity;
+  field: string;
+  title: string;
+  detail: string;
+}
+
+/**
+ * The slice of ad values the linter reads. Loosely typed so it accepts the
+ * AdForm state (categories as selections, optional fields) as well as an Ad.
+ */
+export interface ServeLintInput {
+  categories?: unknown;
+  location?: Record<string, string | number>;
+  gender?: string;
+  startDate?: string;
+  endDate?: string;
+  startTime?: string;
+  endTime?: string;
+  minBid?: number;
+  maxBid?: number;
+  bidModel?: number;
+  serveStrategy?: number;
+  priceRangeMin?: number;
+  priceRangeMax?: number;
+  ageRangeMin?: number;
+  ageRangeMax?: number;
+  status?: number;
+}
+
+export const SEVERITY_ORDER: ServeLintSeverity[] = ['critical', 'warning', 'info'];
+
+export const SEVERITY_LABELS: Record<ServeLintSeverity, string> = {
+  critical: "Won't serve",
+  warning: 'Narrows reach',
+  info: 'No serve effect',
+};
+
+const issue = (id: string, severity: ServeLintSeverity, field: string, title: string, detail: string): ServeLintIssue => ({
+  id,
+  severity,
+  field,
+  title,
+  detail,
+});
+
+const rupees = (n: number): string => `₹${Math.round(n).toLocaleString()}`;
+
+const lintPriceRange = (min: number, max: number): ServeLintIssue | null => {
+  if (min === 0 && max === 0) return null;
+  if (max === 0) {
+    return issue(
+      'priceRange.noMax',
+      'critical',
+      'priceRangeMax',
+      'Price range has a minimum but no maximum',
+      `[${rupees(min)}, ₹0] cannot overlap any user's price band, so only users with no price signal would see this ad. Set a maximum, or use 0/0 for no price targeting.`
+    );
+  }
+  // The ad's [min, max] overlaps a user's ±30% band when their average price
+  // falls in [min / 1.3, max / 0.7].
+  const lowest = min / (1 + PRICE_BAND_SPREAD);
+  const highest = max / (1 - PRICE_BAND_SPREAD);
+  if (min === 0) {
+    return issue(
+      'priceRange.partial',
+      'warning',
+      'priceRangeMax',
+      'Price range 0/max is still price targeting',
+      `Only 0/0 disables the price gate. With a maximum of ${rupees(max)}, users whose average price is above ~${rupees(highest)} are excluded.`
+    );
+  }
+  return issue(
+    'priceRange.targeted',
+    'warning',
+    'priceRangeMin',
+    'Price targeting is on',
+    `Serves only to users whose average price is ~${rupees(lowest)}–${rupees(highest)}, plus users with no price signal.`
+  );
+};
+
+/** Every serve pitfall in the given form state, most severe first. */
+export function lintServeImpact(values: ServeLintInput): ServeLintIssue[] {
+  const issues: ServeLintIssue[] = [];
+  const today = todayYmd();
+  const categories = Object.keys(extractCategoriesForUpdate(values.categories)).filter(Boolean);
+  const locations = Object.keys(values.location ?? {}).filter((k) => k.trim());
+  const strategy = Number(values.serveStrategy) || 0;
+  const gender = String(values.gender ?? '').trim().toLowerCase();
+
+  if (Number(values.status) === 0) {
+    issues.push(issue('status.paused', 'critical', 'status', 'Ad is paused', 'Only status=1 is ever served. Activate it when it should go live.'));
+  }
+  if (values.endDate && values.endDate < today) {
+    issues.push(
+      issue('dates.ended', 'critical', 'endDate', 'End date is in the past', `Ads serve only while startDate ≤ today ≤ endDate; ${values.endDate} has already passed.`)
+    );
+  }
+  if (categories.length === 0) {
+    issues.push(
+      issue(
+        'categories.empty',
+        'critical',
+        'categories',
+        'No categories selected',
+        "The ad must share at least one category with the user's interests or the request's ln. With none, it never passes the category filter."
+      )
+    );
+  }
+  if (strategy === 3) {
+    issues.push(
+      issue(
+        'serveStrategy.flight',
+        'critical',
+        'serveStrategy',
+        'Flight ads skip the normal serve query',
+        'serveStrategy=3 is served only via the separate flight path. It will never win a normal banner/product request.'
+      )
+    );
+  }
+  if (strategy === 2 && locations.length === 0) {
+    issues.push(issue('serveStrategy.couponLocation', 'critical', 'location', 'Coupon ad without a location', 'Coupon ads (serveStrategy=2) need a location match to serve.'));
+  }
+  if (strategy === 4) {
+    issues.push(
+      issue(
+        'serveStrategy.categoryLocked',
+        'warning',
+        'serveStrategy',
+        'Category-locked ad',
+        `Serves only when the request's ln is one of this ad's ${categories.length} categor${categories.length === 1 ? 'y' : 'ies'}, and never in slotType=-1 requests.`
+      )
+    );
+  }
+
+  if (gender === 'm' || gender === 'f') {
+    issues.push(
+      issue(
+        'gender.strict',
+        'warning',
+        'gender',
+        `${gender === 'm' ? 'Male' : 'Female'}-only targeting excludes unknown-gender users`,
+        "Gender gates on a positive match only; users whose gender can't be resolved (NA) are skipped. Use \"All genders\" to include them."
+      )
+    );
+  }
+  if (locations.length > 0 && strategy !== 2) {
+    issues.push(
+      issue('location.strict', 'warning', 'location', 'Location targeting excludes unknown-location users', `Serves only where the user matches one of ${locations.length} location token${locations.length === 1 ? '' : 's'}; users with no resolved location are skipped.`)
+    );
+  }
+  const priceIssue = lintPriceRange(Number(values.priceRangeMin) || 0, Number(values.priceRangeMax) || 0);
+  if (priceIssue) issues.push(priceIssue);
+
+  if (values.startTime || values.endTime) {
+    issues.push(
+      issue(
+        'time.notEnforced',
+        'info',
+        'startTime',
+        'Start/end time is not enforced',
+        'The serve query gates on dates only. The ad serves all day on every date in range, regardless of the time set.'
+      )
+    );
+  }
+  if ((Number(values.minBid) || 0) > 0 || (Number(values.maxBid) || 0) > 0 || (Number(values.bidModel) || 0) > 0) {
+    issues.push(issue('bids.metadata', 'info', 'minBid', 'Bids have no serve effect', 'minBid, maxBid and bidModel are stored for bookkeeping only; serve scoring ignores them.'));
+  }
+  if ((Number(values.ageRangeMin) || 0) > 0 || (Number(values.ageRangeMax) || 0) > 0) {
+    issues.push(issue('age.soft', 'info', 'ageRangeMin', 'Age range only affects ranking', 'Age is not a gate: users outside the range can still be served, they just miss the +1.5 age bonus.'));
+  }
+
+  return issues.sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+}
+
+/** Info-level issues are shown but never need acknowledging. */
+export const needsAcknowledgement = (issue: ServeLintIssue): boolean => issue.severity !== 'info';
+
+export const unacknowledgedIssues = (issues: ServeLintIssue[], acknowledged: ReadonlySet<string>): ServeLintIssue[] =>
+  issues.filter((i) => needsAcknowledgement(i) && !acknowledged.has(i.id));
@@ -0,0 +1,157 @@
+import { Ad } from '@/types';
+import {
+  ServeRequestProfile,
+  EligibilityGate,
+  emptyServeProfile,
+  evaluateEligibility,
+  isEligible,
+  adLocationTokens,
+  adSiteIds,
+  profileLocationTokens,
+} from '@/utils/serveEligibility';
+
+/**
+ * Client-side mirror of the SOFT ranking applied to eligible ads
+ * (ADS_V2_FIELD_GUIDE.md §2–§6). The serve query picks the single highest
+ * `finalScore`; these weights are the ones the guide documents.
+ */
+
+export interface ServeScoreProfile extends ServeRequestProfile {
+  /** User age; null = unknown (no age bonus possible). */
+  age: number | null;
+  /** Brands the user has affinity for. */
+  affinityBrands: string[];
+}
+
+export const SCORE_WEIGHTS = {
+  priority: 1.0,
+  gender: 2.0,
+  location: { pincode: 2.0, city: 1.5, state: 1.0, country: 0.5 },
+  site: 5.0,
+  age: 1.5,
+  /** Flat bonus for an ad with no brandTargets. */
+  brandFlat: 2.0,
+  /**
+   * Per overlapping brand. The guide only says overlap "boosts" the score, so
+   * this matches the flat bonus per brand as an estimate.
+   */
+  brandOverlap: 2.0,
+  /** Subtracted per impression of the ad in the last hour. */
+  fatiguePerImpression: 4.0,
+} as const;
+
+export type ScoreTermKey = 'priority' | 'gender' | 'location' | 'site' | 'age' | 'brand' | 'fatigue';
+
+export interface ScoreTerm {
+  key: ScoreTermKey;
+  label: string;
+  value: number;
+  detail: string;
+}
+
+export interface ScoredAd {
+  ad: Ad;
+  gates: EligibilityGate[];
+  eligible: boolean;
+  terms: ScoreTerm[];
+  finalScore: number;
+}
+
+export const SCORE_TERM_LABELS: Record<ScoreTermKey, string> = {
+  priority: 'Priority',
+  gender: 'Gender',
+  location: 'Location',
+  site: 'Site',
+  age: 'Age',
+  brand: 'Brand',
+  fatigue: 'Fatigue',
+};
+
+export const emptyServeScoreProfile = (): ServeScoreProfile => ({
+  ...emptyServeProfile(),
+  age: null,
+  affinityBrands: [],
+});
+
+const term = (key: ScoreTermKey, value: number, detail: string): ScoreTerm => ({
+  key,
+  label: SCORE_TERM_LABELS[key],
+  value,
+  detail,
+});
+
+/**
+ * Per-term score breakdown for one ad. Category interest scores are not
+ * included: they come from the user's inferred interest weights, which the
+ * dashboard cannot see.
+ */
+export function scoreTerms(ad: Ad, profile: ServeScoreProfile, recentImpressions = 0): ScoreTerm[] {
+  const priority = Number(ad.priority) || 0;
+
+  const gender = String(ad.gender ?? '');
+  const genderHit = (gender === 'm' || gender === 'f') && gender === profile.gender;
+
+  const tokens = adLocationTokens(ad);
+  const locationHits = profileLocationTokens(profile).filter((t) => tokens.includes(t.token));
+  const locationScore = locationHits.reduce((sum, t) => sum + SCORE_WEIGHTS.location[t.level], 0);
+
+  const sites = adSiteIds(ad);
+  const siteHit = sites.length > 0 && sites.includes(profile.siteId.trim());
+
+  const ageHit =
+    profile.age !== null &&
+    (Number(ad.ageRangeMin) || Number(ad.ageRangeMax)) > 0 &&
+    profile.age >= Number(ad.ageRangeMin) &&
+    profile.age <= Number(ad.ageRangeMax);
+
+  const brands = Object.keys(ad.brandTargets ?? {}).map((b) => b.trim().toLowerCase()).filter(Boolean);
+  const userBrands = new Set(profile.affinityBrands.map((b) => b.trim().toLowerCase()).filter(Boolean));
+  const brandOverlap = brands.filter((b) => userBrands.has(b));
+  const brandScore = brands.length === 0 ? SCORE_WEIGHTS.brandFlat : brandOverlap.length * SCORE_WEIGHTS.brandOverlap;
+
+  const impressions = Math.max(0, recentImpressions);
+
+  return [
+    term('priority', priority * SCORE_WEIGHTS.priority, `priority ${priority} × ${SCORE_WEIGHTS.priority}`),
+    term('gender', genderHit ? SCORE_WEIGHTS.gender : 0, genderHit ? `matches ${gender}` : 'no gender match'),
+    term(
+      'location',
+      locationScore,
+      locationHits.length > 0 ? locationHits.map((t) => `${t.level} ${t.token}`).join(', ') : 'no location match'
+    ),
+    term('site', siteHit ? SCORE_WEIGHTS.site : 0, siteHit ? `site ${profile.siteId.trim()}` : 'no site match'),
+    term('age', ageHit ? SCORE_WEIGHTS.age : 0, ageHit ? `age ${profile.age} in ${ad.ageRangeMin}–${ad.ageRangeMax}` : 'age not in range'),
+    term(
+      'brand',
+      brandScore,
+      brands.length === 0 ? 'no brandTargets (flat bonus)' : brandOverlap.length > 0 ? `overlap: ${brandOverlap.join(', ')}` : 'no brand overlap'
+    ),
+    term(
+      'fatigue',
+      -impressions * SCORE_WEIGHTS.fatiguePerImpression,
+      `${impressions} impression${impressions === 1 ? '' : 's'} in the last hour`
+    ),
+  ];
+}
+
+export const sumTerms = (terms: ScoreTerm[]): number => terms.reduce((sum, t) => sum + t.value, 0);
+
+/**
+ * Gate every ad, score the eligible ones, and return eligible ads ranked by
+ * `finalScore` (highest first — the first one is what would serve), followed
+ * by the ineligible ones.
+ */
+export function rankAds(
+  ads: Ad[],
+  profile: ServeScoreProfile,
+  recentImpressions: Record<string, number> = {}
+): ScoredAd[] {
+  const scored = ads.map((ad) => {
+    const gates = evaluateEligibility(ad, profile);
+    const terms = scoreTerms(ad, profile, recentImpressions[String(ad.adId)] ?? 0);
+    return { ad, gates, eligible: isEligible(gates), terms, finalScore: sumTerms(terms) };
+  });
+  const eligible = scored.filter((s) => s.eligible).sort((a, b) => b.finalScore - a.finalScore);
+  const ineligible = scored.filter((s) => !s.eligible);
+  return [...eligible, ...ineligible];
+}
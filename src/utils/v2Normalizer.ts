@@ -132,3 +132,40 @@ export function normalizeMetricsBreakdown(data: any[]): any[] {
     eventCount: Number(row.eventCount),
   }));
 }
+
+/** Per-bucket event counts as the trend endpoints return them (`{ "2024-05-01": 120 }`). */
+export interface TrendBuckets {
+  impression?: Record<string, number>;
+  click?: Record<string, number>;
+  conversion?: Record<string, number>;
+  adtrack?: Record<string, number>;
+}
+
+const TREND_EVENT_KEYS = ['impression', 'click', 'conversion', 'adtrack'] as const;
+
+export function normalizeTrendBuckets(raw: unknown): TrendBuckets {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  if (!isV2Active()) return source as TrendBuckets;
+  const buckets: TrendBuckets = {};
+  TREND_EVENT_KEYS.forEach(key => {
+    const counts = source[key];
+    if (!counts || typeof counts !== 'object') return;
+    buckets[key] = Object.fromEntries(
+      Object.entries(counts as Record<string, unknown>).map(([bucket, count]) => [bucket, Number(count) || 0])
+    );
+  });
+  return buckets;
+}
+
+/**
+ * `/metrics/trend3` per-ad stats, keyed by String(adId). Accepts either an
+ * object keyed by adId or an array of `{ adId, impression, click, ... }`.
+ */
+export function normalizeTrendAdStats(raw: unknown): Record<string, TrendBuckets> {
+  const entries: Array<[string, unknown]> = Array.isArray(raw)
+    ? raw.map(row => [String((row as { adId?: unknown })?.adId ?? ''), row])
+    : Object.entries((raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>);
+  return Object.fromEntries(
+    entries.filter(([adId]) => adId.length > 0).map(([adId, stats]) => [adId, normalizeTrendBuckets(stats)])
+  );
+}